@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { renderNow, RenderServiceError, resolveAddAudioUrls } from '@/lib/renderService';
 
-const FFMPEG_SERVICE_URL = process.env.FFMPEG_SERVICE_URL || 'http://localhost:3001';
-
+/**
+ * Replace a video's audio track on the FFmpeg render service
+ * Body: AddAudioRequest ({ videoUrl, audioUrl, volume })
+ */
 export async function POST(request: NextRequest) {
   try {
     const { videoUrl, audioUrl, volume } = await request.json();
@@ -13,35 +16,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Call FFmpeg service to add audio
-    const response = await fetch(`${FFMPEG_SERVICE_URL}/add-audio`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ videoUrl, audioUrl, volume }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to add audio');
-    }
-
-    // Get video buffer
-    const videoBuffer = await response.arrayBuffer();
+    // Closing this request cancels the render on the service
+    const response = await renderNow(
+      { operation: 'add-audio', request: resolveAddAudioUrls({ videoUrl, audioUrl, volume }, request.nextUrl.origin) },
+      request.signal
+    );
 
-    // Return video file
-    return new NextResponse(videoBuffer, {
+    return new NextResponse(response.body, {
       headers: {
         'Content-Type': 'video/mp4',
         'Content-Disposition': `attachment; filename="video-with-audio-${Date.now()}.mp4"`,
+        ...(response.headers.get('content-length') ? { 'Content-Length': response.headers.get('content-length')! } : {}),
       },
     });
   } catch (error: any) {
     console.error('Audio mixing error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to add audio' },
-      { status: 500 }
+      { status: error instanceof RenderServiceError && error.status === 400 ? 400 : 500 }
     );
   }
 }
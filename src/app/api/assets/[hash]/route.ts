@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAssetInfo, isAllowedMediaType, readAsset, StoredAssetInfo } from '@/lib/serverAssetStore';
+
+interface RouteContext {
+  params: { hash: string };
+}
+
+// Content never changes for a given hash
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * Headers that keep a stored file from running as a page on this origin
+ * Media plays inline; anything else (stored before types were checked) is
+ * only offered as a download
+ */
+function getContentHeaders(info: StoredAssetInfo): Record<string, string> {
+  const isMedia = isAllowedMediaType(info.mimeType);
+  return {
+    'Content-Type': isMedia ? info.mimeType : 'application/octet-stream',
+    'Content-Disposition': `${isMedia ? 'inline' : 'attachment'}; filename="${info.hash}"`,
+    'Content-Security-Policy': "default-src 'none'; sandbox",
+    'X-Content-Type-Options': 'nosniff',
+  };
+}
+
+/**
+ * Serve a stored asset; supports single byte ranges so videos can seek
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const asset = await readAsset(params.hash);
+  if (!asset) {
+    return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+  }
+
+  const { info, data } = asset;
+  const headers: Record<string, string> = {
+    ...getContentHeaders(info),
+    'Cache-Control': CACHE_CONTROL,
+    'Accept-Ranges': 'bytes',
+  };
+
+  const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? parseInt(range[1], 10) : Math.max(0, data.length - parseInt(range[2], 10));
+    const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), data.length - 1) : data.length - 1;
+
+    if (start >= data.length || start > end) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${data.length}` },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(data.subarray(start, end + 1)), {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Range': `bytes ${start}-${end}/${data.length}`,
+        'Content-Length': String(end - start + 1),
+      },
+    });
+  }
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: { ...headers, 'Content-Length': String(data.length) },
+  });
+}
+
+/**
+ * Check whether the server has an asset without downloading it
+ */
+export async function HEAD(_request: NextRequest, { params }: RouteContext) {
+  const info = await getAssetInfo(params.hash);
+  if (!info) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  return new NextResponse(null, {
+    headers: {
+      ...getContentHeaders(info),
+      'Content-Length': String(info.size),
+      'Cache-Control': CACHE_CONTROL,
+    },
+  });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AssetRejectedError, getMaxAssetBytes, ingestRemoteAsset, putAsset, readLimitedBody } from '@/lib/serverAssetStore';
+import { toAssetRef } from '@/utils/assetRef';
+
+/**
+ * Store an asset on the server
+ * Either a JSON body `{ url }` to download from a public host, or the raw
+ * file bytes with their Content-Type. Only image, video and audio files up
+ * to ASSET_MAX_BYTES are taken
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get('content-type') || 'application/octet-stream';
+
+    let info;
+    if (contentType.startsWith('application/json')) {
+      const { url } = await request.json();
+      if (!url || typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+        return NextResponse.json(
+          { error: 'An http(s) url is required' },
+          { status: 400 }
+        );
+      }
+      info = await ingestRemoteAsset(url, { publicOnly: true });
+    } else {
+      const maxBytes = getMaxAssetBytes();
+      if (Number(request.headers.get('content-length')) > maxBytes) {
+        return NextResponse.json(
+          { error: `File is larger than ${maxBytes} bytes` },
+          { status: 413 }
+        );
+      }
+
+      const data = await readLimitedBody(request.body, maxBytes);
+      if (data.length === 0) {
+        return NextResponse.json(
+          { error: 'Request body is empty' },
+          { status: 400 }
+        );
+      }
+      info = await putAsset(data, contentType.split(';')[0].trim());
+    }
+
+    return NextResponse.json({
+      ...info,
+      ref: toAssetRef(info.hash),
+    });
+  } catch (error: any) {
+    if (error instanceof AssetRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Asset upload error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to store asset' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { renderNow, RenderServiceError, resolveConcatUrls } from '@/lib/renderService';
 
-const FFMPEG_SERVICE_URL = process.env.FFMPEG_SERVICE_URL || 'http://localhost:3001';
-
+/**
+ * Join story clips on the FFmpeg render service and return the MP4
+ * Body: ConcatRequest ({ videos: [{ url, subtitle, audioUrl }], options })
+ * For long renders with progress, submit a 'compose-video' job instead
+ */
 export async function POST(request: NextRequest) {
   try {
     const { videos, options } = await request.json();
@@ -13,35 +17,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Call FFmpeg service to concatenate videos
-    const response = await fetch(`${FFMPEG_SERVICE_URL}/concat`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ videos, options }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to compose video');
-    }
-
-    // Get video buffer
-    const videoBuffer = await response.arrayBuffer();
+    // Closing this request cancels the render on the service
+    const response = await renderNow(
+      { operation: 'concat', request: resolveConcatUrls({ videos, options }, request.nextUrl.origin) },
+      request.signal
+    );
 
-    // Return video file
-    return new NextResponse(videoBuffer, {
+    return new NextResponse(response.body, {
       headers: {
         'Content-Type': 'video/mp4',
         'Content-Disposition': `attachment; filename="story-${Date.now()}.mp4"`,
+        ...(response.headers.get('content-length') ? { 'Content-Length': response.headers.get('content-length')! } : {}),
       },
     });
   } catch (error: any) {
     console.error('Video composition error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to compose video' },
-      { status: 500 }
+      { status: error instanceof RenderServiceError && error.status === 400 ? 400 : 500 }
     );
   }
 }
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitResponse } from '@/lib/rateLimit';
+import { UpstreamHttpError } from '@/lib/upstreamError';
 
 export async function POST(request: NextRequest) {
   try {
@@ -44,6 +46,9 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error('Audio generation error:', error);
 
+    const rateLimited = rateLimitResponse(error);
+    if (rateLimited) return rateLimited;
+
     return NextResponse.json(
       {
         error: error.message || 'Failed to generate audio',
@@ -81,8 +86,8 @@ async function generateOpenAIAudio(
   });
 
   if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(errorData.error?.message || 'OpenAI TTS request failed');
+    const errorData = await response.json().catch(() => ({}));
+    throw new UpstreamHttpError(errorData.error?.message || 'OpenAI TTS request failed', response);
   }
 
   // Convert audio to base64 data URL for persistence
@@ -128,7 +133,7 @@ async function generateElevenLabsAudio(
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`ElevenLabs TTS request failed: ${errorText}`);
+    throw new UpstreamHttpError(`ElevenLabs TTS request failed: ${errorText}`, response);
   }
 
   // Convert audio to base64 data URL for persistence
@@ -1,14 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Replicate from 'replicate';
-import { proxyReplicateUrl } from '@/utils/cdnProxy';
+import { AssetNotFoundError, persistGeneratedMedia } from '@/lib/serverAssetStore';
+import { rateLimitResponse } from '@/lib/rateLimit';
+import { generateCharacterView } from '@/lib/characterImage';
+import { isCharacterView } from '@/utils/characterReferences';
 
 const replicate = new Replicate({
   auth: process.env.REPLICATE_API_TOKEN,
 });
 
+/**
+ * Generate a character's reference image
+ * Without `view` this is the main character sheet; with one it is a named
+ * reference (angle or expression, optionally in a `wardrobe`), redrawn from
+ * `baseReferenceUrl` when given
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { characterName, description, prompt, style, aspectRatio, modelConfig, imageModelConfig } = await request.json();
+    const {
+      characterName,
+      description,
+      prompt,
+      style,
+      aspectRatio,
+      view,
+      wardrobe,
+      baseReferenceUrl,
+      modelConfig,
+      imageModelConfig,
+    } = await request.json();
 
     if (!characterName || !prompt) {
       return NextResponse.json(
@@ -36,6 +56,37 @@ character turnaround reference, character model sheet`;
 
     const customReplicate = new Replicate({ auth: apiKey });
 
+    if (view !== undefined) {
+      if (!isCharacterView(view)) {
+        return NextResponse.json(
+          { error: `Unknown character view: ${view}` },
+          { status: 400 }
+        );
+      }
+
+      const result = await generateCharacterView(customReplicate, {
+        name: characterName,
+        description: description || '',
+        prompt,
+        style,
+        view,
+        wardrobe,
+        baseReferenceUrl,
+        modelId,
+      });
+      const storedUrl = await persistGeneratedMedia(result.imageUrl);
+
+      console.log(`Character ${view} view generated: ${characterName}`);
+
+      return NextResponse.json({
+        characterName,
+        view,
+        imageUrl: storedUrl,
+        modelUsed: result.modelUsed,
+        prompt: result.prompt,
+      });
+    }
+
     const output = await customReplicate.run(
       modelId as any,
       {
@@ -49,18 +100,29 @@ character turnaround reference, character model sheet`;
     );
 
     const imageUrl = Array.isArray(output) ? output[0] : output;
-    const proxiedUrl = proxyReplicateUrl(imageUrl as string);
+    const storedUrl = await persistGeneratedMedia(imageUrl as string);
 
     console.log(`Character generated: ${characterName}`);
 
     return NextResponse.json({
       characterName,
-      imageUrl: proxiedUrl,
+      imageUrl: storedUrl,
       description,
       prompt
     });
   } catch (error: any) {
     console.error('Character generation error:', error);
+
+    const rateLimited = rateLimitResponse(error);
+    if (rateLimited) return rateLimited;
+
+    if (error instanceof AssetNotFoundError) {
+      return NextResponse.json(
+        { error: error.message, missingAsset: error.hash },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to generate character' },
       { status: 500 }
@@ -1,6 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Replicate from 'replicate';
-import { proxyReplicateUrl } from '@/utils/cdnProxy';
+import { AssetNotFoundError, persistGeneratedMedia } from '@/lib/serverAssetStore';
+import { resolveSeed } from '@/utils/seed';
+import { isUpstreamRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import {
+  buildCastPrompt,
+  CharacterReference,
+  generateCharacterImage,
+  isMultiCharacterStrategy,
+} from '@/lib/characterImage';
+import { describeLocation, parseLocationReference } from '@/lib/locationImage';
+import { chooseCharacterReference } from '@/utils/characterReferences';
+import type { Character, CharacterLook } from '@/stores/StoryStore';
 
 const replicate = new Replicate({
   auth: process.env.REPLICATE_API_TOKEN,
@@ -8,11 +19,27 @@ const replicate = new Replicate({
 
 /**
  * Generate scene image with character consistency
- * Uses character reference images to maintain consistency
+ * `characterReferences` holds only the characters cast in the shot; their
+ * reference images go to a character model (see lib/characterImage), with
+ * `multiCharacterStrategy` deciding how shots with several are handled.
+ * Each character's reference is the view and wardrobe picked in
+ * `characterLooks`, or the view the prompt calls for (see
+ * utils/characterReferences). An optional `locationReference` adds the
+ * shot's location plate
  */
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, style, aspectRatio, characterReferences, modelConfig } = await request.json();
+    const {
+      prompt,
+      style,
+      aspectRatio,
+      characterReferences,
+      characterLooks,
+      multiCharacterStrategy,
+      locationReference,
+      modelConfig,
+      seed: requestedSeed,
+    } = await request.json();
 
     if (!prompt) {
       return NextResponse.json(
@@ -21,73 +48,68 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build enhanced prompt with character descriptions
-    let enhancedPrompt = `${style} style: ${prompt}`;
-
-    // Check if we have character reference images
-    const hasCharacterRefs = characterReferences && Object.keys(characterReferences).length > 0;
-    const firstCharacterRef = hasCharacterRefs ? Object.values(characterReferences)[0] : null;
-    const hasReferenceImage = firstCharacterRef && (firstCharacterRef as any).referenceImageUrl;
+    const cast: Character[] = Object.values(characterReferences || {});
+    const looks: Record<string, CharacterLook> = characterLooks || {};
+    const location = parseLocationReference(locationReference);
+
+    // Outfit and reference image of each character for this shot
+    const dressed = cast.map(character => {
+      const look = looks[character.name] || {};
+      const wardrobe = character.wardrobes?.find(w => w.id === look.wardrobeId);
+      return {
+        character: {
+          name: character.name,
+          description: character.description,
+          prompt: character.prompt,
+          ...(wardrobe ? { wardrobe: wardrobe.description || wardrobe.name } : {}),
+        },
+        reference: chooseCharacterReference(character, prompt, look),
+      };
+    });
+    const referenced: CharacterReference[] = dressed
+      .filter(d => d.reference)
+      .map(d => ({ ...d.character, referenceImageUrl: d.reference!.url }));
 
     // Use model from settings or fallback to default
-    let modelId = modelConfig?.modelId || 'black-forest-labs/flux-schnell';
+    const modelId = modelConfig?.modelId || 'black-forest-labs/flux-schnell';
 
-    console.log(`Generating image with character consistency using model: ${modelId}`);
-    console.log(`Has character references: ${hasCharacterRefs}, Has reference image: ${hasReferenceImage}`);
+    console.log(`Generating image for ${cast.map(c => c.name).join(', ') || 'no characters'} (${referenced.length} with reference images)`);
 
-    // If we have character reference images, use Ideogram Character for best consistency
-    if (hasReferenceImage) {
+    // Reference images keep characters consistent across shots
+    if (referenced.length > 0) {
       try {
-        console.log('Using Ideogram Character for character consistency');
-
-        // Build prompt for Ideogram Character
-        if (hasCharacterRefs) {
-          const characterDescs = Object.entries(characterReferences)
-            .map(([name, ref]: [string, any]) => {
-              return `${name}: ${ref.prompt || ref.description}`;
-            })
-            .join('. ');
-
-          enhancedPrompt = `${style} style: ${prompt}. Characters: ${characterDescs}. Maintain character appearance and height consistency.`;
-        }
-
-        const output = await replicate.run(
-          'ideogram-ai/ideogram-character:5e79783fdb5bb4b1bf267212e64bb28a60cd3bdde00fbf6a1be28df0f55cc4b7' as any,
-          {
-            input: {
-              prompt: enhancedPrompt,
-              character_reference_image: (firstCharacterRef as any).referenceImageUrl,
-              aspect_ratio: aspectRatio || '16:9',
-              style_type: style.toLowerCase().includes('realistic') ? 'Realistic' : 'Fiction',
-              magic_prompt_option: 'On', // Enhance prompt for better results
-            },
-          }
-        );
-
-        const imageUrl = Array.isArray(output) ? output[0] : output;
-        const proxiedUrl = proxyReplicateUrl(imageUrl as string);
+        const result = await generateCharacterImage(replicate, {
+          prompt,
+          style,
+          aspectRatio: aspectRatio || '16:9',
+          characters: referenced,
+          strategy: isMultiCharacterStrategy(multiCharacterStrategy) ? multiCharacterStrategy : undefined,
+          location,
+          seed: requestedSeed,
+        });
+        const storedUrl = await persistGeneratedMedia(result.imageUrl);
 
         return NextResponse.json({
-          imageUrl: proxiedUrl,
-          modelUsed: 'ideogram-ai/ideogram-character',
+          imageUrl: storedUrl,
+          modelUsed: result.modelUsed,
+          prompt: result.prompt,
+          seed: result.seed,
         });
-      } catch (ideogramError: any) {
-        console.error('Ideogram Character failed, falling back to standard generation:', ideogramError.message);
+      } catch (referenceError: any) {
+        if (referenceError instanceof AssetNotFoundError || isUpstreamRateLimit(referenceError)) throw referenceError;
+        console.error('Character reference generation failed, falling back to standard generation:', referenceError.message);
         // Fall through to standard generation
       }
     }
 
-    // Fallback: Standard text-to-image generation with enhanced prompt
-    if (hasCharacterRefs) {
-      const characterDescs = Object.entries(characterReferences)
-        .map(([name, ref]: [string, any]) => {
-          return `${name}: ${ref.prompt || ref.description}`;
-        })
-        .join('. ');
+    // Fallback: Standard text-to-image generation with the cast and location described in the prompt
+    const shotPrompt = location ? `${prompt}. Location: ${describeLocation(location)}` : prompt;
+    const enhancedPrompt = cast.length > 0
+      ? `${buildCastPrompt(style, shotPrompt, dressed.map(d => d.character))}
+Maintain consistent character appearance, facial features, clothing, and height throughout all scenes.`
+      : `${style} style: ${shotPrompt}`;
 
-      enhancedPrompt = `${style} style: ${prompt}. Characters: ${characterDescs}.
-Maintain consistent character appearance, facial features, clothing, and height throughout all scenes.`;
-    }
+    const seed = resolveSeed(modelId, requestedSeed);
 
     const output = await replicate.run(
       modelId as any,
@@ -97,19 +119,33 @@ Maintain consistent character appearance, facial features, clothing, and height
           aspect_ratio: aspectRatio || '16:9',
           output_format: 'png',
           output_quality: 80,
+          ...(seed !== undefined ? { seed } : {}),
         },
       }
     );
 
     const imageUrl = Array.isArray(output) ? output[0] : output;
-    const proxiedUrl = proxyReplicateUrl(imageUrl as string);
+    const storedUrl = await persistGeneratedMedia(imageUrl as string);
 
     return NextResponse.json({
-      imageUrl: proxiedUrl,
+      imageUrl: storedUrl,
       modelUsed: modelId,
+      prompt: enhancedPrompt,
+      seed,
     });
   } catch (error: any) {
     console.error('Image generation with character error:', error);
+
+    const rateLimited = rateLimitResponse(error);
+    if (rateLimited) return rateLimited;
+
+    if (error instanceof AssetNotFoundError) {
+      return NextResponse.json(
+        { error: error.message, missingAsset: error.hash },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to generate image' },
       { status: 500 }
@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Replicate from 'replicate';
-import { proxyReplicateUrl } from '@/utils/cdnProxy';
+import { AssetNotFoundError, persistGeneratedMedia } from '@/lib/serverAssetStore';
+import { resolveSeed } from '@/utils/seed';
+import { isUpstreamRateLimit, rateLimitResponse } from '@/lib/rateLimit';
+import { describeLocation, generateInLocation, parseLocationReference } from '@/lib/locationImage';
 
 const replicate = new Replicate({
   auth: process.env.REPLICATE_API_TOKEN,
 });
 
+/**
+ * Generate a shot image
+ * With a `locationReference` the shot is drawn into the location's reference
+ * plate, so the set matches other shots in the same location
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, style, aspectRatio, modelConfig } = await request.json();
+    const { prompt, style, aspectRatio, modelConfig, locationReference, seed: requestedSeed } = await request.json();
 
     if (!prompt) {
       return NextResponse.json(
@@ -19,6 +27,35 @@ export async function POST(request: NextRequest) {
 
     // Use model from settings or fallback to default
     const modelId = modelConfig?.modelId || 'black-forest-labs/flux-schnell';
+    const location = parseLocationReference(locationReference);
+
+    if (location) {
+      try {
+        const result = await generateInLocation(replicate, {
+          prompt,
+          style,
+          aspectRatio: aspectRatio || '16:9',
+          location,
+          seed: requestedSeed,
+        });
+        const storedUrl = await persistGeneratedMedia(result.imageUrl);
+
+        return NextResponse.json({
+          imageUrl: storedUrl,
+          modelUsed: result.modelUsed,
+          prompt: result.prompt,
+          seed: result.seed,
+        });
+      } catch (locationError: any) {
+        if (locationError instanceof AssetNotFoundError || isUpstreamRateLimit(locationError)) throw locationError;
+        console.error('Location plate generation failed, falling back to standard generation:', locationError.message);
+      }
+    }
+
+    const seed = resolveSeed(modelId, requestedSeed);
+    const fullPrompt = location
+      ? `${style} style: ${prompt}. Location: ${describeLocation(location)}`
+      : `${style} style: ${prompt}`;
 
     console.log(`Generating image with model: ${modelId}`);
 
@@ -27,23 +64,37 @@ export async function POST(request: NextRequest) {
       modelId as any,
       {
         input: {
-          prompt: `${style} style: ${prompt}`,
+          prompt: fullPrompt,
           aspect_ratio: aspectRatio || '16:9',
           output_format: 'png',
           output_quality: 80,
+          ...(seed !== undefined ? { seed } : {}),
         },
       }
     );
 
     const imageUrl = Array.isArray(output) ? output[0] : output;
-    const proxiedUrl = proxyReplicateUrl(imageUrl as string);
+    const storedUrl = await persistGeneratedMedia(imageUrl as string);
 
     return NextResponse.json({
-      imageUrl: proxiedUrl,
+      imageUrl: storedUrl,
       modelUsed: modelId,
+      prompt: fullPrompt,
+      seed,
     });
   } catch (error: any) {
     console.error('Image generation error:', error);
+
+    const rateLimited = rateLimitResponse(error);
+    if (rateLimited) return rateLimited;
+
+    if (error instanceof AssetNotFoundError) {
+      return NextResponse.json(
+        { error: error.message, missingAsset: error.hash },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to generate image' },
       { status: 500 }
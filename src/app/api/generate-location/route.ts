@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Replicate from 'replicate';
+import { AssetNotFoundError, persistGeneratedMedia } from '@/lib/serverAssetStore';
+import { rateLimitResponse } from '@/lib/rateLimit';
+import { generateLocationPlate } from '@/lib/locationImage';
+import { isTimeOfDay } from '@/utils/locations';
+
+/**
+ * Generate a location reference plate
+ * With `basePlateUrl` the plate is a relit copy of an existing plate of the
+ * same location (a time-of-day variant); otherwise it is drawn from text
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      locationName,
+      description,
+      timeOfDay,
+      style,
+      aspectRatio,
+      basePlateUrl,
+      modelConfig,
+    } = await request.json();
+
+    if (!locationName) {
+      return NextResponse.json(
+        { error: 'Location name is required' },
+        { status: 400 }
+      );
+    }
+    if (!isTimeOfDay(timeOfDay)) {
+      return NextResponse.json(
+        { error: 'timeOfDay must be one of dawn, day, dusk, night' },
+        { status: 400 }
+      );
+    }
+
+    const replicate = new Replicate({
+      auth: modelConfig?.apiKey || process.env.REPLICATE_API_TOKEN,
+    });
+
+    console.log(`Generating ${timeOfDay} plate for location: ${locationName}${basePlateUrl ? ' (variant)' : ''}`);
+
+    const result = await generateLocationPlate(replicate, {
+      name: locationName,
+      description: description || '',
+      timeOfDay,
+      style: style || '3D Cartoon',
+      aspectRatio: aspectRatio || '16:9',
+      modelId: modelConfig?.modelId || 'black-forest-labs/flux-schnell',
+      basePlateUrl,
+    });
+    const storedUrl = await persistGeneratedMedia(result.imageUrl);
+
+    return NextResponse.json({
+      imageUrl: storedUrl,
+      modelUsed: result.modelUsed,
+      prompt: result.prompt,
+    });
+  } catch (error: any) {
+    console.error('Location generation error:', error);
+
+    const rateLimited = rateLimitResponse(error);
+    if (rateLimited) return rateLimited;
+
+    if (error instanceof AssetNotFoundError) {
+      return NextResponse.json(
+        { error: error.message, missingAsset: error.hash },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to generate location' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveTextModel, ResolvedTextModel, TextProviderConfigError } from '@/lib/llm';
+import { StreamingJsonScanner } from '@/utils/streamingJson';
+import {
+  MAX_REPAIR_ATTEMPTS,
+  buildStoryRequest,
+  completeStoryWithRepair,
+} from '@/utils/storyGeneration';
+import {
+  STORY_STREAM_CONTENT_TYPE,
+  StoryStreamEvent,
+  createStoryEventMapper,
+  encodeStoryEvent,
+} from '@/utils/storyStream';
+
+/**
+ * Streaming variant of /api/generate-story
+ * Emits scenes and shots as NDJSON events while the model is still writing,
+ * then validates (and repairs) the full story and emits a final "done" event
+ */
+export async function POST(request: NextRequest) {
+  const {
+    prompt,
+    style = '3D Cartoon',
+    aspectRatio = '16:9',
+    modelConfig,
+  } = await request.json();
+
+  if (!prompt) {
+    return NextResponse.json(
+      { error: 'Prompt is required' },
+      { status: 400 }
+    );
+  }
+
+  // Pick the text provider from settings.textModel
+  let textModel: ResolvedTextModel;
+  try {
+    textModel = resolveTextModel(modelConfig);
+  } catch (error: any) {
+    if (error instanceof TextProviderConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  const { provider, modelId, temperature, maxTokens } = textModel;
+
+  const requestConfig = buildStoryRequest({
+    modelId,
+    prompt,
+    style,
+    temperature,
+    maxTokens,
+  });
+
+  // Cancel the upstream completion when the client goes away
+  const upstream = new AbortController();
+  request.signal.addEventListener('abort', () => upstream.abort());
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: StoryStreamEvent) => {
+        if (upstream.signal.aborted) return;
+        controller.enqueue(encoder.encode(encodeStoryEvent(event)));
+      };
+
+      try {
+        console.log(`Streaming story with ${provider.id}:${modelId}...`);
+
+        const scanner = new StreamingJsonScanner(createStoryEventMapper(emit));
+        for await (const delta of provider.stream(requestConfig, upstream.signal)) {
+          scanner.push(delta);
+        }
+
+        const validation = await completeStoryWithRepair(
+          provider,
+          requestConfig,
+          scanner.getText(),
+          (result, attempt) => emit({ type: 'repairing', attempt, errors: result.errors })
+        );
+
+        if (!validation.valid || !validation.story) {
+          emit({
+            type: 'error',
+            error: `Generated story is invalid after ${MAX_REPAIR_ATTEMPTS + 1} attempts. Please try again.`,
+            validationErrors: validation.errors,
+          });
+        } else {
+          console.log('Story streamed successfully:', validation.story.title);
+          emit({ type: 'done', story: { ...validation.story, style, aspectRatio } });
+        }
+      } catch (error: any) {
+        if (upstream.signal.aborted) {
+          console.log('Story stream cancelled by client');
+        } else {
+          console.error('Story stream error:', error);
+          emit({ type: 'error', error: error.message || 'Failed to generate story' });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled client
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': STORY_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue, isJobFinished, Job } from '@/lib/jobs';
+import { encodeJobEvent, JOB_STREAM_CONTENT_TYPE } from '@/utils/jobClient';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Stream a job's updates as NDJSON, one job snapshot per line
+ * Starts with the current state and ends once the job has finished
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const queue = getJobQueue();
+  const initial = await queue.get(params.id);
+  if (!initial) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled client
+        }
+      };
+
+      const send = (job: Job) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(encodeJobEvent(job)));
+        if (isJobFinished(job)) close();
+      };
+
+      unsubscribe = queue.subscribe(params.id, send);
+      request.signal.addEventListener('abort', close);
+
+      // Re-read after subscribing so a job that finished in between still ends the stream
+      send((await queue.get(params.id)) || initial);
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': JOB_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/jobs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Current state of a job
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const job = await getJobQueue().get(params.id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json({ job });
+}
+
+/**
+ * Cancel a queued or running job
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const job = await getJobQueue().cancel(params.id);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json({ job });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue, UnknownJobTypeError } from '@/lib/jobs';
+import { resolveConcatUrls } from '@/lib/renderService';
+import { toVideoJobInput } from '@/lib/videoGeneration';
+
+/**
+ * Submit a background job
+ * Body: { type: 'generate-video', input: { imageUrl, modelConfig, seed, duration, shot, motionPrompt, refine, textModel } }
+ *    or { type: 'compose-video', input: ConcatRequest }
+ * Responds 202 with the queued job; follow it at /api/jobs/<id>
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { type } = body;
+    let { input } = body;
+
+    if (!type || typeof type !== 'string') {
+      return NextResponse.json({ error: 'Job type is required' }, { status: 400 });
+    }
+
+    if (type === 'generate-video') {
+      if (!input?.imageUrl) {
+        return NextResponse.json({ error: 'Image URL is required' }, { status: 400 });
+      }
+      // The input is stored and returned with the job, so it must not hold API keys
+      input = toVideoJobInput(input);
+    }
+
+    if (type === 'compose-video') {
+      if (!Array.isArray(input?.videos) || input.videos.length === 0) {
+        return NextResponse.json({ error: 'Videos array is required' }, { status: 400 });
+      }
+      // The render service fetches asset references from this server
+      input = resolveConcatUrls(input, request.nextUrl.origin);
+    }
+
+    const job = await getJobQueue().submit(type, input);
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error: any) {
+    if (error instanceof UnknownJobTypeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Job submit error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to submit job' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Look up several jobs at once: GET /api/jobs?ids=<id>,<id>
+ * Unknown IDs are left out of the response
+ */
+export async function GET(request: NextRequest) {
+  const ids = (request.nextUrl.searchParams.get('ids') || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  if (ids.length === 0) {
+    return NextResponse.json({ error: 'ids query parameter is required' }, { status: 400 });
+  }
+
+  const queue = getJobQueue();
+  const jobs = await Promise.all(ids.map(id => queue.get(id)));
+  return NextResponse.json({ jobs: jobs.filter(Boolean) });
+}
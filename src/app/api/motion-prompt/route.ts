@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TextProviderConfigError } from '@/lib/llm';
+import { buildMotionPrompt, parseMotionShotContext, refineMotionPrompt } from '@/lib/motionPrompt';
+import { rateLimitResponse } from '@/lib/rateLimit';
+import { DEFAULT_VIDEO_MODEL } from '@/lib/videoGeneration';
+
+/**
+ * Suggest a motion prompt for a shot without animating it
+ * Body: { shot, modelConfig, refine, textModel }
+ * Responds with { prompt } for the user to review and edit
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { shot, modelConfig, refine, textModel } = await request.json();
+
+    const context = parseMotionShotContext(shot) || {};
+    const modelId = modelConfig?.modelId || DEFAULT_VIDEO_MODEL;
+    const draft = buildMotionPrompt(modelId, context);
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Shot content or camera direction is required' },
+        { status: 400 }
+      );
+    }
+
+    const prompt = refine ? await refineMotionPrompt(modelId, context, draft, textModel) : draft;
+    return NextResponse.json({ prompt });
+  } catch (error: any) {
+    console.error('Motion prompt error:', error);
+
+    const rateLimited = rateLimitResponse(error);
+    if (rateLimited) return rateLimited;
+
+    if (error instanceof TextProviderConfigError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to write motion prompt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveTextModel, TextProviderConfigError } from '@/lib/llm';
+import { MAX_REPAIR_ATTEMPTS, completeWithRepair } from '@/utils/storyGeneration';
+import {
+  RefineStoryErrorResponse,
+  buildPatchRepairPrompt,
+  buildRefineRequest,
+  parseAndValidatePatch,
+} from '@/utils/storyRefinement';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { story, instruction, focus, modelConfig } = await request.json();
+
+    if (!instruction || !instruction.trim()) {
+      return NextResponse.json(
+        { error: 'Instruction is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!story || !Array.isArray(story.scenes)) {
+      return NextResponse.json(
+        { error: 'Story is required' },
+        { status: 400 }
+      );
+    }
+
+    // Pick the text provider from settings.textModel
+    const { provider, modelId, temperature, maxTokens } = resolveTextModel(modelConfig);
+
+    console.log(`Refining story with ${provider.id}:${modelId}: "${instruction}"`);
+
+    const requestConfig = buildRefineRequest({
+      modelId,
+      story,
+      instruction: instruction.trim(),
+      focus,
+      temperature,
+      maxTokens,
+    });
+
+    const validation = await completeWithRepair(
+      provider,
+      requestConfig,
+      (responseText) => parseAndValidatePatch(responseText, story),
+      buildPatchRepairPrompt
+    );
+
+    if (!validation.valid || !validation.patch) {
+      const body: RefineStoryErrorResponse = {
+        error: `Could not produce a valid edit after ${MAX_REPAIR_ATTEMPTS + 1} attempts. Try rephrasing the instruction.`,
+        validationErrors: validation.errors,
+      };
+      return NextResponse.json(body, { status: 422 });
+    }
+
+    console.log(`Refinement ready: ${validation.patch.operations.length} operation(s)`);
+
+    return NextResponse.json({
+      patch: validation.patch
+    });
+  } catch (error: any) {
+    if (error instanceof TextProviderConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Story refinement error:', error);
+
+    const body: RefineStoryErrorResponse = {
+      error: error.message || 'Failed to refine story',
+    };
+    return NextResponse.json(body, { status: 500 });
+  }
+}
@@ -3,7 +3,9 @@
 import { observer } from "mobx-react-lite";
 import { useState, useEffect } from "react";
 import { storyStore } from "@/stores/StoryStore";
+import { historyStore } from "@/stores/HistoryStore";
 import { settingsStore } from "@/stores/SettingsStore";
+import { pipelineStore } from "@/stores/PipelineStore";
 import { projectDB } from "@/lib/projectDB";
 import StoryForm from "@/components/StoryForm";
 import CharacterConfirmation from "@/components/CharacterConfirmation";
@@ -13,6 +15,8 @@ import EditView from "@/components/EditView";
 import ExportView from "@/components/ExportView";
 import SettingsPanel from "@/components/SettingsPanel";
 import ProjectManager from "@/components/ProjectManager";
+import PipelinePanel from "@/components/PipelinePanel";
+import { useHistoryShortcuts } from "@/hooks/useHistoryShortcuts";
 
 const HomePage = observer(() => {
   const [showProjectManager, setShowProjectManager] = useState(false);
@@ -36,6 +40,7 @@ const HomePage = observer(() => {
       if (!currentProjectId) {
         setCurrentProjectId(projectId);
       }
+      historyStore.attachProject(projectId);
       setLastSaved(new Date());
       console.log("✅ Auto-saved at", new Date().toLocaleTimeString());
     } catch (error) {
@@ -56,11 +61,21 @@ const HomePage = observer(() => {
     return () => clearTimeout(timeoutId);
   }, [storyStore.story, storyStore.currentStep, currentProjectId]);
 
+  // The pipeline saves its story as a project; keep auto-save on the same one
+  useEffect(() => {
+    const projectId = pipelineStore.run?.projectId;
+    if (projectId && pipelineStore.isRunning) {
+      setCurrentProjectId(projectId);
+    }
+  }, [pipelineStore.run?.projectId, pipelineStore.isRunning]);
+
   // Initial DB setup
   useEffect(() => {
     projectDB.init().catch(console.error);
   }, []);
 
+  useHistoryShortcuts();
+
   const renderStep = () => {
     switch (storyStore.currentStep) {
       case "input":
@@ -123,6 +138,34 @@ const HomePage = observer(() => {
               </div>
             )}
 
+            <div className="flex">
+              <button
+                onClick={() => historyStore.undo()}
+                disabled={!historyStore.canUndo}
+                className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed rounded-l-lg transition"
+                title={historyStore.undoLabel ? `Undo: ${historyStore.undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+              >
+                ↶
+              </button>
+              <button
+                onClick={() => historyStore.redo()}
+                disabled={!historyStore.canRedo}
+                className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed rounded-r-lg border-l border-gray-700 transition"
+                title={historyStore.redoLabel ? `Redo: ${historyStore.redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+              >
+                ↷
+              </button>
+            </div>
+
+            <button
+              onClick={() => pipelineStore.open()}
+              className="px-4 py-2 bg-purple-700 hover:bg-purple-600 rounded-lg transition flex items-center gap-2"
+              title="Run every step from prompt to finished video"
+            >
+              <span className={pipelineStore.isRunning ? "animate-spin" : ""}>🚀</span>
+              <span className="hidden md:inline">Pipeline</span>
+            </button>
+
             <button
               onClick={() => setShowProjectManager(true)}
               className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition flex items-center gap-2"
@@ -147,7 +190,8 @@ const HomePage = observer(() => {
                   if (
                     confirm("Start new story? Current project will be cleared.")
                   ) {
-                    storyStore.reset();
+                    historyStore.startOver(() => storyStore.reset());
+                    setCurrentProjectId(null);
                   }
                 }}
                 className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition"
@@ -164,6 +208,9 @@ const HomePage = observer(() => {
       {/* Settings Panel */}
       <SettingsPanel />
 
+      {/* One-Click Pipeline */}
+      <PipelinePanel currentProjectId={currentProjectId} />
+
       {/* Project Manager */}
       <ProjectManager
         isOpen={showProjectManager}
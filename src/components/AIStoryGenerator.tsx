@@ -2,8 +2,11 @@
 
 import { storyStore } from "@/stores/StoryStore";
 import { settingsStore } from "@/stores/SettingsStore";
-import { useState } from "react";
-import { addIdsToStory } from "@/utils/idGenerator";
+import { observer } from "mobx-react-lite";
+import { useRef, useState } from "react";
+import { streamStory, StoryGenerationError } from "@/lib/generation";
+import { StoryValidationError } from "@/utils/storySchema";
+import { migrateProject } from "@/utils/projectMigrations";
 
 const EXAMPLE_STORIES = [
   {
@@ -414,6 +417,11 @@ export default function AIStoryGenerator() {
   const [prompt, setPrompt] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<
+    StoryValidationError[]
+  >([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const loadExampleStory = (storyId: string) => {
     try {
@@ -423,9 +431,9 @@ export default function AIStoryGenerator() {
         return;
       }
 
-      // Load story data with freshly generated unique IDs
-      const storyWithNewIds = addIdsToStory(exampleStory.data.story);
-      storyStore.setStory(storyWithNewIds as any);
+      // Examples are schema 1 project files; upgrading gives them fresh IDs
+      const { project } = migrateProject(exampleStory.data);
+      storyStore.setStory(project.story);
 
       // Update settings without overwriting existing API keys
       const exSettings = exampleStory.data.settings;
@@ -505,48 +513,51 @@ export default function AIStoryGenerator() {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsGenerating(true);
     setError(null);
+    setValidationErrors([]);
 
     try {
-      // Get model config from settings
-      const { textModel } = settingsStore.settings;
-
-      const response = await fetch("/api/generate-story", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          prompt: prompt.trim(),
-          style: settingsStore.settings.defaultStyle,
-          aspectRatio: settingsStore.settings.defaultAspectRatio,
-          modelConfig: textModel,
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || "Failed to generate story");
-      }
-
-      const data = await response.json();
+      const { textModel, defaultStyle, defaultAspectRatio } = settingsStore.settings;
 
-      // Add unique IDs to scenes and shots
-      const processedStory = addIdsToStory(data.story);
-
-      storyStore.setStory(processedStory);
+      const story = await streamStory(
+        {
+          prompt,
+          style: defaultStyle,
+          aspectRatio: defaultAspectRatio,
+          modelConfig: textModel,
+        },
+        { signal: controller.signal, onStatus: setStatus }
+      );
 
       // Navigate to review step for manual approval
       storyStore.setCurrentStep("review");
 
-      alert(`Story "${data.story.title}" generated successfully! Please review and confirm to proceed to storyboard.`);
+      alert(`Story "${story.title}" generated successfully! Please review and confirm to proceed to storyboard.`);
     } catch (err: any) {
-      console.error("Story generation error:", err);
-      setError(err.message || "Failed to generate story. Please try again.");
+      if (controller.signal.aborted) {
+        console.log("Story generation cancelled");
+      } else {
+        console.error("Story generation error:", err);
+        if (err instanceof StoryGenerationError) {
+          setValidationErrors(err.validationErrors);
+        }
+        setError(err.message || "Failed to generate story. Please try again.");
+      }
     } finally {
+      abortRef.current = null;
       setIsGenerating(false);
+      setStatus(null);
     }
   };
 
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -649,27 +660,83 @@ export default function AIStoryGenerator() {
             {error && (
               <div className="p-3 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
                 ⚠️ {error}
+                {validationErrors.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs text-red-200/80 list-disc list-inside">
+                    {validationErrors.map((err, idx) => (
+                      <li key={idx}>
+                        {err.path && (
+                          <code className="text-red-300">{err.path}</code>
+                        )}{" "}
+                        {err.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             )}
 
+            {/* Live preview while the story streams in */}
+            {isGenerating && <StreamingPreview status={status} />}
+
             {/* Generate Button */}
-            <button
-              onClick={generateStory}
-              disabled={!prompt.trim() || isGenerating}
-              className="w-full py-3 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition flex items-center justify-center gap-2"
-            >
-              {isGenerating ? (
-                <>
-                  <div className="spinner w-5 h-5 border-2"></div>
-                  Generating story with AI...
-                </>
-              ) : (
-                <>✨ Generate Complete Story with AI</>
-              )}
-            </button>
+            {isGenerating ? (
+              <button
+                onClick={cancelGeneration}
+                className="w-full py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition flex items-center justify-center gap-2"
+              >
+                <div className="spinner w-5 h-5 border-2"></div>
+                Generating story with AI... (click to cancel)
+              </button>
+            ) : (
+              <button
+                onClick={generateStory}
+                disabled={!prompt.trim()}
+                className="w-full py-3 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition flex items-center justify-center gap-2"
+              >
+                ✨ Generate Complete Story with AI
+              </button>
+            )}
           </div>
         </div>
       </div>
     </div>
   );
 }
+
+const StreamingPreview = observer(({ status }: { status: string | null }) => {
+  const { story } = storyStore;
+  const shotCount = story.scenes.reduce((sum, scene) => sum + scene.shots.length, 0);
+
+  return (
+    <div className="p-4 bg-gray-900/50 border border-purple-700/50 rounded-lg text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-purple-300">
+          {story.title || "Untitled story"}
+        </span>
+        <span className="text-xs text-gray-400">
+          {story.characters.length} characters • {story.scenes.length} scenes • {shotCount} shots
+        </span>
+      </div>
+      {story.synopsis && (
+        <p className="text-xs text-gray-400 mb-3">{story.synopsis}</p>
+      )}
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {story.scenes.map((scene, sceneIdx) => (
+          <div key={scene.id}>
+            <div className="text-xs font-semibold text-blue-300">
+              Scene {sceneIdx + 1}: {scene.title || "..."}
+            </div>
+            <ul className="ml-4 mt-1 space-y-1">
+              {scene.shots.map((shot, shotIdx) => (
+                <li key={shot.id} className="text-xs text-gray-300 line-clamp-1">
+                  <span className="text-gray-500">#{shotIdx + 1}</span> {shot.subtitle}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+      {status && <p className="mt-3 text-xs text-purple-400">{status}</p>}
+    </div>
+  );
+});
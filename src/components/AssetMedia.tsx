@@ -0,0 +1,27 @@
+'use client';
+
+import Image, { ImageProps } from 'next/image';
+import { VideoHTMLAttributes, AudioHTMLAttributes } from 'react';
+import { useAssetUrl } from '@/hooks/useAssetUrl';
+
+/**
+ * Media elements that accept `asset:` references as src
+ */
+
+type AssetImageProps = Omit<ImageProps, 'src'> & { src: string };
+
+export function AssetImage({ src, alt, ...props }: AssetImageProps) {
+  const url = useAssetUrl(src);
+  if (!url) return null;
+  return <Image src={url} alt={alt} {...props} />;
+}
+
+export function AssetVideo({ src, ...props }: VideoHTMLAttributes<HTMLVideoElement> & { src?: string }) {
+  const url = useAssetUrl(src);
+  return <video src={url} {...props} />;
+}
+
+export function AssetAudio({ src, ...props }: AudioHTMLAttributes<HTMLAudioElement> & { src?: string }) {
+  const url = useAssetUrl(src);
+  return <audio src={url} {...props} />;
+}
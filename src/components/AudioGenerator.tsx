@@ -1,48 +1,14 @@
 'use client';
 
 import { observer } from 'mobx-react-lite';
-import { storyStore, Shot } from '@/stores/StoryStore';
+import { storyStore } from '@/stores/StoryStore';
 import { settingsStore } from '@/stores/SettingsStore';
-import { useState } from 'react';
+import { generateShotAudio, getShotTasks } from '@/lib/generation';
+import { generationStore, describeBatchFailures } from '@/stores/GenerationStore';
+import GenerationBatchControls from './GenerationBatchControls';
 
 const AudioGenerator = observer(() => {
-  const [generatingAll, setGeneratingAll] = useState(false);
-  const [progress, setProgress] = useState({ current: 0, total: 0 });
-
-  const generateAudio = async (sceneId: string, shot: Shot) => {
-    try {
-      const scene = storyStore.story.scenes.find(s => s.id === sceneId);
-      if (!scene) return;
-
-      storyStore.setGeneratingAudioShot(sceneId, shot.id, true);
-
-      const { voiceModel } = settingsStore.settings;
-
-      const response = await fetch('/api/generate-audio', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          text: shot.subtitle,
-          voiceConfig: voiceModel,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.error) {
-        throw new Error(data.error);
-      }
-
-      storyStore.updateShot(sceneId, shot.id, {
-        audioUrl: data.audioUrl,
-        isGeneratingAudio: false,
-      });
-    } catch (error) {
-      console.error('Failed to generate audio:', error);
-      storyStore.setGeneratingAudioShot(sceneId, shot.id, false);
-      alert('Failed to generate audio. Check console for details.');
-    }
-  };
+  const generatingAll = !!generationStore.getActiveBatch('audio');
 
   const generateAllAudio = async () => {
     if (!settingsStore.settings.enableAudio) {
@@ -50,42 +16,14 @@ const AudioGenerator = observer(() => {
       return;
     }
 
-    setGeneratingAll(true);
-
     // Collect all shots that need audio
-    const shotsToGenerate: Array<{ sceneId: string; shot: Shot }> = [];
-    for (const scene of storyStore.story.scenes) {
-      for (const shot of scene.shots) {
-        if (!shot.audioUrl && !shot.isGeneratingAudio && shot.subtitle) {
-          shotsToGenerate.push({ sceneId: scene.id, shot });
-        }
-      }
-    }
-
-    setProgress({ current: 0, total: shotsToGenerate.length });
-
-    // Generate with concurrency limit (10 at a time - API calls are fast)
-    const concurrency = 10;
-    let completed = 0;
-
-    for (let i = 0; i < shotsToGenerate.length; i += concurrency) {
-      const batch = shotsToGenerate.slice(i, i + concurrency);
-      await Promise.all(
-        batch.map(async ({ sceneId, shot }) => {
-          await generateAudio(sceneId, shot);
-          completed++;
-          setProgress({ current: completed, total: shotsToGenerate.length });
-        })
-      );
+    const tasks = getShotTasks(shot => !shot.audioUrl && !shot.isGeneratingAudio && !!shot.subtitle, generateShotAudio);
 
-      // Small delay between batches
-      if (i + concurrency < shotsToGenerate.length) {
-        await new Promise(resolve => setTimeout(resolve, 200));
-      }
+    const result = await generationStore.runBatch('audio', 'Generating audio', tasks);
+    const failures = describeBatchFailures(result, tasks.length);
+    if (failures) {
+      alert(`Some audio could not be generated.\n\n${failures}`);
     }
-
-    setGeneratingAll(false);
-    setProgress({ current: 0, total: 0 });
   };
 
   const allShots = storyStore.getAllShots();
@@ -131,7 +69,7 @@ const AudioGenerator = observer(() => {
             {generatingAll ? (
               <>
                 <div className="spinner-small"></div>
-                Generating... ({progress.current}/{progress.total})
+                Generating...
               </>
             ) : (
               `Generate All Audio (${shotsWithSubtitles.length})`
@@ -140,17 +78,7 @@ const AudioGenerator = observer(() => {
         </div>
       </div>
 
-      {/* Progress Bar */}
-      {generatingAll && (
-        <div className="mb-4">
-          <div className="w-full bg-gray-700 rounded-full h-2">
-            <div
-              className="bg-green-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${(progress.current / progress.total) * 100}%` }}
-            ></div>
-          </div>
-        </div>
-      )}
+      <GenerationBatchControls kind="audio" className="mb-4" />
 
       {/* Stats */}
       <div className="grid grid-cols-3 gap-4 text-center text-sm">
@@ -2,13 +2,13 @@
 
 import { observer } from 'mobx-react-lite';
 import { storyStore } from '@/stores/StoryStore';
-import { settingsStore } from '@/stores/SettingsStore';
-import { useState } from 'react';
-import Image from 'next/image';
+import { generateCharacterReference, getCharacterTasks } from '@/lib/generation';
+import { AssetImage } from './AssetMedia';
+import { generationStore, describeBatchFailures } from '@/stores/GenerationStore';
+import GenerationBatchControls from './GenerationBatchControls';
 
 const CharacterConfirmation = observer(() => {
-  const [generatingAll, setGeneratingAll] = useState(false);
-  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const generatingAll = !!generationStore.getActiveBatch('character');
 
   const generateCharacterImage = async (index: number) => {
     const character = storyStore.story.characters[index];
@@ -17,58 +17,21 @@ const CharacterConfirmation = observer(() => {
     }
 
     try {
-      storyStore.setGeneratingCharacter(index, true);
-
-      const { characterImageModel } = settingsStore.settings;
-
-      const response = await fetch('/api/generate-character', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          characterName: character.name,
-          description: character.description,
-          prompt: character.prompt,
-          style: storyStore.story.style,
-          aspectRatio: '1:1',
-          modelConfig: characterImageModel,
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to generate character');
-      }
-
-      const data = await response.json();
-
-      storyStore.updateCharacter(index, {
-        referenceImageUrl: data.imageUrl,
-        isGenerating: false,
-      });
+      await generateCharacterReference(index);
     } catch (error: any) {
       console.error('Character generation error:', error);
-      storyStore.setGeneratingCharacter(index, false);
       alert(`Failed to generate ${character.name}: ${error.message}`);
     }
   };
 
   const generateAllCharacters = async () => {
-    setGeneratingAll(true);
-    const total = storyStore.story.characters.length;
-    setProgress({ current: 0, total });
-
-    for (let i = 0; i < storyStore.story.characters.length; i++) {
-      await generateCharacterImage(i);
-      setProgress({ current: i + 1, total });
+    const tasks = getCharacterTasks(character => !!character.prompt && !character.isGenerating);
 
-      // Small delay between requests
-      if (i < storyStore.story.characters.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+    const result = await generationStore.runBatch('character', 'Generating characters', tasks);
+    const failures = describeBatchFailures(result, tasks.length);
+    if (failures) {
+      alert(`Some characters could not be generated.\n\n${failures}`);
     }
-
-    setGeneratingAll(false);
-    setProgress({ current: 0, total: 0 });
   };
 
   const regenerateCharacter = async (index: number) => {
@@ -157,21 +120,7 @@ const CharacterConfirmation = observer(() => {
           )}
         </div>
 
-        {/* Progress Bar */}
-        {generatingAll && progress.total > 0 && (
-          <div className="mb-4">
-            <div className="flex items-center justify-between text-sm text-gray-400 mb-2">
-              <span>Generating characters...</span>
-              <span>{progress.current} / {progress.total}</span>
-            </div>
-            <div className="w-full bg-gray-700 rounded-full h-2">
-              <div
-                className="bg-orange-500 h-2 rounded-full transition-all duration-300"
-                style={{ width: `${(progress.current / progress.total) * 100}%` }}
-              ></div>
-            </div>
-          </div>
-        )}
+        <GenerationBatchControls kind="character" className="mb-4" />
 
         {/* Characters Grid */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -189,7 +138,7 @@ const CharacterConfirmation = observer(() => {
                   </div>
                 ) : character.referenceImageUrl ? (
                   <>
-                    <Image
+                    <AssetImage
                       src={character.referenceImageUrl}
                       alt={character.name}
                       fill
@@ -1,11 +1,19 @@
 'use client';
 
 import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
 import { storyStore } from '@/stores/StoryStore';
-import { settingsStore } from '@/stores/SettingsStore';
-import Image from 'next/image';
+import { generateCharacterReference, getCharacterTasks } from '@/lib/generation';
+import { uploadCharacterImage } from '@/lib/mediaUpload';
+import { AssetImage } from './AssetMedia';
+import { generationStore, describeBatchFailures } from '@/stores/GenerationStore';
+import GenerationBatchControls from './GenerationBatchControls';
+import CharacterReferenceSheet from './CharacterReferenceSheet';
+import MediaUploadButton from './MediaUploadButton';
 
 const CharacterGenerator = observer(() => {
+  const [sheetIndex, setSheetIndex] = useState<number | null>(null);
+
   const generateCharacterImage = async (index: number) => {
     const character = storyStore.story.characters[index];
     if (!character || !character.prompt) {
@@ -14,50 +22,22 @@ const CharacterGenerator = observer(() => {
     }
 
     try {
-      storyStore.setGeneratingCharacter(index, true);
-
-      const response = await fetch('/api/generate-character', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          characterName: character.name,
-          description: character.description,
-          prompt: character.prompt,
-          style: storyStore.story.style,
-          aspectRatio: '1:1',
-          modelConfig: settingsStore.settings.characterImageModel,
-          imageModelConfig: settingsStore.settings.imageModel, // Share API key from shot image model
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to generate character');
-      }
-
-      const data = await response.json();
-
-      storyStore.updateCharacter(index, {
-        referenceImageUrl: data.imageUrl,
-        isGenerating: false,
-      });
-
-      console.log(`Character ${character.name} generated successfully`);
+      await generateCharacterReference(index);
     } catch (error: any) {
       console.error('Character generation error:', error);
-      storyStore.setGeneratingCharacter(index, false);
       alert(`Failed to generate ${character.name}: ${error.message}`);
     }
   };
 
   const generateAllCharacters = async () => {
-    for (let i = 0; i < storyStore.story.characters.length; i++) {
-      const character = storyStore.story.characters[i];
-      if (!character.referenceImageUrl && character.prompt) {
-        await generateCharacterImage(i);
-        // Add delay between requests
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+    const tasks = getCharacterTasks(character =>
+      !character.referenceImageUrl && !!character.prompt && !character.isGenerating
+    );
+
+    const result = await generationStore.runBatch('character', 'Generating characters', tasks);
+    const failures = describeBatchFailures(result, tasks.length);
+    if (failures) {
+      alert(`Some characters could not be generated.\n\n${failures}`);
     }
   };
 
@@ -68,6 +48,7 @@ const CharacterGenerator = observer(() => {
   const hasUngenerated = storyStore.story.characters.some(
     c => c.prompt && !c.referenceImageUrl && !c.isGenerating
   );
+  const characterBatch = generationStore.getActiveBatch('character');
 
   return (
     <div className="mb-6 p-6 bg-gray-900 rounded-lg border border-orange-700">
@@ -78,7 +59,7 @@ const CharacterGenerator = observer(() => {
             Generate consistent character images for better shot quality
           </p>
         </div>
-        {hasUngenerated && (
+        {hasUngenerated && !characterBatch && (
           <button
             onClick={generateAllCharacters}
             className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white font-semibold rounded-lg transition"
@@ -88,6 +69,8 @@ const CharacterGenerator = observer(() => {
         )}
       </div>
 
+      <GenerationBatchControls kind="character" className="mb-4" />
+
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         {storyStore.story.characters.map((character, index) => (
           <div
@@ -103,7 +86,7 @@ const CharacterGenerator = observer(() => {
                 </div>
               ) : character.referenceImageUrl ? (
                 <>
-                  <Image
+                  <AssetImage
                     src={character.referenceImageUrl}
                     alt={character.name}
                     fill
@@ -131,7 +114,7 @@ const CharacterGenerator = observer(() => {
                 </button>
               ) : (
                 <div className="text-center text-gray-500 text-xs p-2">
-                  No visual description
+                  No visual description; upload a reference instead
                 </div>
               )}
             </div>
@@ -148,10 +131,31 @@ const CharacterGenerator = observer(() => {
                 <span>Reference Ready</span>
               </div>
             )}
+
+            <MediaUploadButton
+              kind="image"
+              onUpload={file => uploadCharacterImage(index, file)}
+              disabled={character.isGenerating}
+              className="mt-2 block w-full px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs text-center transition"
+              title="Use concept art or a photo as this character's reference"
+            >
+              ⬆️ {character.referenceImageUrl ? 'Replace with Upload' : 'Upload Reference'}
+            </MediaUploadButton>
+
+            <button
+              onClick={() => setSheetIndex(index)}
+              className="mt-2 w-full px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs transition"
+            >
+              🎭 Views &amp; Wardrobe ({(character.references || []).length})
+            </button>
           </div>
         ))}
       </div>
 
+      {sheetIndex !== null && (
+        <CharacterReferenceSheet index={sheetIndex} onClose={() => setSheetIndex(null)} />
+      )}
+
       {storyStore.story.characters.every(c => c.referenceImageUrl) && (
         <div className="mt-4 p-3 bg-green-900/30 border border-green-700 rounded-lg text-sm text-green-300">
           ✓ All characters generated! Shots will use these references for consistency.
@@ -0,0 +1,237 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
+import { storyStore, CharacterView } from '@/stores/StoryStore';
+import { generateCharacterReferenceView } from '@/lib/generation';
+import { uploadCharacterReference } from '@/lib/mediaUpload';
+import { generateWardrobeId } from '@/utils/idGenerator';
+import { CHARACTER_VIEW_LABELS, CHARACTER_VIEWS } from '@/utils/characterReferences';
+import { generationStore, describeBatchFailures, GenerationTask } from '@/stores/GenerationStore';
+import { AssetImage } from './AssetMedia';
+import GenerationBatchControls from './GenerationBatchControls';
+import MediaUploadButton from './MediaUploadButton';
+
+interface CharacterReferenceSheetProps {
+  index: number;
+  onClose: () => void;
+}
+
+/**
+ * Turnaround and expression sheet of one character: a reference per view for
+ * the default outfit and for each wardrobe, generated or uploaded
+ */
+const CharacterReferenceSheet = observer(({ index, onClose }: CharacterReferenceSheetProps) => {
+  const [wardrobeId, setWardrobeId] = useState<string | undefined>(undefined);
+  const [generating, setGenerating] = useState<Set<string>>(new Set());
+
+  const character = storyStore.story.characters[index];
+  if (!character) return null;
+
+  const wardrobes = character.wardrobes || [];
+  const wardrobe = wardrobes.find(w => w.id === wardrobeId);
+  const slotKey = (view: CharacterView) => `${wardrobeId || 'default'}:${view}`;
+
+  const runGeneration = async (view: CharacterView, signal?: AbortSignal) => {
+    const key = slotKey(view);
+    setGenerating(keys => new Set(keys).add(key));
+    try {
+      await generateCharacterReferenceView(index, view, wardrobeId, signal);
+    } finally {
+      setGenerating(keys => {
+        const next = new Set(keys);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const generate = async (view: CharacterView) => {
+    try {
+      await runGeneration(view);
+    } catch (error: any) {
+      console.error('Character reference generation error:', error);
+      alert(`Failed to generate ${CHARACTER_VIEW_LABELS[view]} view: ${error.message}`);
+    }
+  };
+
+  const generateMissing = async () => {
+    let views = CHARACTER_VIEWS.filter(view => !findReference(view) && !generating.has(slotKey(view)));
+
+    // Without a sheet or front view to redraw from, make the front view first
+    // so the other views are drawn from it
+    const hasBase = !!character.referenceImageUrl || !!character.references?.some(r => r.view === 'front' && !r.wardrobeId);
+    if (!hasBase && views.includes('front') && !wardrobeId) {
+      await generate('front');
+      views = views.filter(view => view !== 'front');
+    }
+
+    const tasks: GenerationTask[] = views.map(view => ({
+      id: slotKey(view),
+      label: `${character.name} (${CHARACTER_VIEW_LABELS[view]})`,
+      run: signal => runGeneration(view, signal),
+    }));
+
+    const result = await generationStore.runBatch('character', `Generating ${character.name} references`, tasks);
+    const failures = describeBatchFailures(result, tasks.length);
+    if (failures) {
+      alert(`Some references could not be generated.\n\n${failures}`);
+    }
+  };
+
+  const findReference = (view: CharacterView) =>
+    character.references?.find(r => r.view === view && r.wardrobeId === wardrobeId);
+
+  const addWardrobe = () => {
+    const id = generateWardrobeId();
+    storyStore.addWardrobe(index, { id, name: `Outfit ${wardrobes.length + 1}`, description: '' });
+    setWardrobeId(id);
+  };
+
+  const removeWardrobe = () => {
+    if (!wardrobe || !confirm(`Delete the "${wardrobe.name}" wardrobe and its references?`)) return;
+    storyStore.removeWardrobe(index, wardrobe.id);
+    setWardrobeId(undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col border border-gray-700">
+        <div className="flex items-center justify-between p-6 border-b border-gray-800">
+          <div>
+            <h2 className="text-2xl font-bold">🎭 {character.name} References</h2>
+            <p className="text-xs text-gray-400 mt-1">
+              Shots use the view they call for (e.g. &quot;from behind&quot;, &quot;smiles&quot;), or the one picked on the shot
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-gray-800 transition text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {/* Wardrobes */}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setWardrobeId(undefined)}
+              className={`px-3 py-1 rounded-lg text-sm transition ${
+                !wardrobeId ? 'bg-orange-600' : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              Default outfit
+            </button>
+            {wardrobes.map(w => (
+              <button
+                key={w.id}
+                onClick={() => setWardrobeId(w.id)}
+                className={`px-3 py-1 rounded-lg text-sm transition ${
+                  wardrobeId === w.id ? 'bg-orange-600' : 'bg-gray-800 hover:bg-gray-700'
+                }`}
+              >
+                {w.name}
+              </button>
+            ))}
+            <button
+              onClick={addWardrobe}
+              className="px-3 py-1 rounded-lg text-sm bg-gray-800 hover:bg-gray-700 transition"
+            >
+              + Wardrobe
+            </button>
+          </div>
+
+          {wardrobe && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={wardrobe.name}
+                onChange={(e) => storyStore.updateWardrobe(index, wardrobe.id, { name: e.target.value })}
+                className="w-40 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm"
+              />
+              <input
+                type="text"
+                value={wardrobe.description}
+                onChange={(e) => storyStore.updateWardrobe(index, wardrobe.id, { description: e.target.value })}
+                placeholder="Outfit, e.g. red raincoat, yellow boots, wool scarf"
+                className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm"
+              />
+              <button
+                onClick={removeWardrobe}
+                className="px-3 py-2 bg-red-600/80 hover:bg-red-700 rounded-lg text-sm transition"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-4">
+            <GenerationBatchControls kind="character" className="flex-1" />
+            <button
+              onClick={generateMissing}
+              disabled={!character.prompt && !character.description}
+              className="px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 rounded-lg text-sm transition"
+            >
+              Generate Missing Views
+            </button>
+          </div>
+
+          {/* Views */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CHARACTER_VIEWS.map(view => {
+              const reference = findReference(view);
+              const isGenerating = generating.has(slotKey(view));
+
+              return (
+                <div key={view} className="bg-gray-800 rounded-lg p-3">
+                  <div className="aspect-square bg-gray-700 rounded relative overflow-hidden flex items-center justify-center">
+                    {isGenerating ? (
+                      <div className="spinner"></div>
+                    ) : reference ? (
+                      <>
+                        <AssetImage src={reference.url} alt={`${character.name} (${view})`} fill className="object-cover" unoptimized />
+                        <button
+                          onClick={() => storyStore.removeCharacterReference(index, reference.id)}
+                          className="absolute top-1 right-1 w-6 h-6 bg-black/70 hover:bg-red-600 rounded text-xs"
+                          title="Remove reference"
+                        >
+                          ✕
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-xs text-gray-500">No reference</span>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-2">
+                    <span className="text-sm">{CHARACTER_VIEW_LABELS[view]}</span>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => generate(view)}
+                        disabled={isGenerating}
+                        className="px-2 py-1 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 rounded text-xs transition"
+                        title={reference ? 'Regenerate' : 'Generate'}
+                      >
+                        {reference ? '🔄' : '✨'}
+                      </button>
+                      <MediaUploadButton
+                        kind="image"
+                        onUpload={file => uploadCharacterReference(index, view, wardrobeId, file)}
+                        className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs transition"
+                        title="Upload"
+                      >
+                        ⬆️
+                      </MediaUploadButton>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default CharacterReferenceSheet;
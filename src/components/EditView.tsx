@@ -4,19 +4,31 @@ import { observer } from 'mobx-react-lite';
 import { storyStore, Shot } from '@/stores/StoryStore';
 import { settingsStore } from '@/stores/SettingsStore';
 import { useState, useEffect } from 'react';
-import Image from 'next/image';
+import { assetStore } from '@/lib/assetStore';
+import { followAnimationJob, generateShotAnimation, generateShotAudio, getExportOutput, getShotTasks } from '@/lib/generation';
+import { uploadShotMedia } from '@/lib/mediaUpload';
+import { fitShotsForExport, toVideoSegment } from '@/lib/clipFitting';
+import type { Job } from '@/lib/jobs/types';
 import VideoPreviewModal from './VideoPreviewModal';
+import ShotTakes from './ShotTakes';
+import ShotMotionPrompt from './ShotMotionPrompt';
+import ShotDurationSelect from './ShotDurationSelect';
+import MediaUploadButton from './MediaUploadButton';
+import { AssetImage, AssetVideo } from './AssetMedia';
+import { cancelJob, JobFailedError, JobNotFoundError } from '@/utils/jobClient';
 import { composeVideos, downloadBlob, QUALITY_PRESETS } from '@/utils/videoComposer';
-import { extendAudioToTargetDuration } from '@/utils/audioExtender';
+import { generationStore, describeBatchFailures } from '@/stores/GenerationStore';
+import GenerationBatchControls from './GenerationBatchControls';
+import Timeline from './Timeline';
 
 const EditView = observer(() => {
   const [selectedForAnimation, setSelectedForAnimation] = useState<Set<string>>(new Set());
-  const [animatingAll, setAnimatingAll] = useState(false);
-  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const animationBatch = generationStore.getActiveBatch('animation');
   const [previewShot, setPreviewShot] = useState<{ shot: Shot; sceneTitle: string } | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  const [jobProgress, setJobProgress] = useState<Record<string, { progress: number; message?: string }>>({});
   // Initialize from settings store
   const [includeSubtitles, setIncludeSubtitles] = useState(settingsStore.settings.exportSettings.includeSubtitles);
 
@@ -25,13 +37,19 @@ const EditView = observer(() => {
     setIncludeSubtitles(settingsStore.settings.exportSettings.includeSubtitles);
   }, [settingsStore.settings.exportSettings.includeSubtitles]);
 
-  // Reset stuck animation states on component mount
+  // Pick up animation jobs still running on the server (e.g. after a reload)
+  // and reset flags that no job is behind
   useEffect(() => {
-    console.log('EditView mounted - resetting stuck animation states');
     storyStore.story.scenes.forEach(scene => {
       scene.shots.forEach(shot => {
-        // Reset isAnimating if shot doesn't have animation URL
-        if (shot.isAnimating && !shot.animationUrl) {
+        if (shot.animationJobId) {
+          const jobId = shot.animationJobId;
+          trackAnimation(scene.id, shot.id, onUpdate => followAnimationJob(scene.id, shot.id, jobId, onUpdate)).catch(error => {
+            if (!(error instanceof JobNotFoundError) && !(error instanceof JobFailedError && error.job.status === 'cancelled')) {
+              console.warn(`Animation job for shot ${shot.id} failed:`, error);
+            }
+          });
+        } else if (shot.isAnimating && !shot.animationUrl) {
           console.log(`Resetting stuck animation state for shot ${shot.id}`);
           storyStore.setAnimatingShot(scene.id, shot.id, false);
         }
@@ -48,85 +66,64 @@ const EditView = observer(() => {
     if (!settingsStore.settings.enableAudio || !shot.subtitle) return;
 
     try {
-      storyStore.setGeneratingAudioShot(sceneId, shot.id, true);
-
-      const { voiceModel } = settingsStore.settings;
-
-      const response = await fetch('/api/generate-audio', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          text: shot.subtitle,
-          voiceConfig: voiceModel,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.warn('Audio generation failed:', errorData.error);
-        storyStore.setGeneratingAudioShot(sceneId, shot.id, false);
-        return; // Don't block video generation if audio fails
-      }
-
-      // Get base64 audio data URL for persistence during export
-      const data = await response.json();
-      let audioUrl = data.audioUrl;
-
-      // Extend audio to 5 seconds to match video duration
-      audioUrl = await extendAudioToTargetDuration(audioUrl, 5);
-
-      storyStore.updateShot(sceneId, shot.id, {
-        audioUrl,
-        isGeneratingAudio: false,
-      });
+      await generateShotAudio(sceneId, shot);
     } catch (error) {
       console.error('Failed to generate audio:', error);
-      storyStore.setGeneratingAudioShot(sceneId, shot.id, false);
       // Don't alert - audio is optional
     }
   };
 
-  const animateShot = async (sceneId: string, shot: Shot) => {
-    if (!shot.imageUrl) return;
-
+  /**
+   * Show a shot's job progress until its animation finishes, then
+   * auto-generate audio if enabled (don't wait for it)
+   */
+  const trackAnimation = async (
+    sceneId: string,
+    shotId: string,
+    animate: (onUpdate: (job: Job) => void) => Promise<unknown>
+  ) => {
     try {
-      storyStore.setAnimatingShot(sceneId, shot.id, true);
-
-      // Generate video
-      const response = await fetch('/api/generate-video', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          imageUrl: shot.imageUrl,
-          modelConfig: settingsStore.settings.videoModel,
-        }),
+      await animate(job => setJobProgress(prev => ({
+        ...prev,
+        [shotId]: { progress: job.progress, message: job.message },
+      })));
+    } finally {
+      setJobProgress(prev => {
+        const { [shotId]: _, ...rest } = prev;
+        return rest;
       });
+    }
 
-      const data = await response.json();
-
-      if (data.error) {
-        throw new Error(data.error);
-      }
+    const shot = storyStore.getAllShots().find(s => s.id === shotId);
+    if (shot && !shot.audioUrl && !shot.isGeneratingAudio) {
+      generateAudio(sceneId, shot);
+    }
+  };
 
-      storyStore.updateShot(sceneId, shot.id, {
-        animationUrl: data.videoUrl,
-        isAnimating: false,
-      });
+  /**
+   * Animate one shot as a server job and wait for the take; throws on failure
+   * Aborting `signal` cancels the job
+   */
+  const requestAnimation = async (sceneId: string, shot: Shot, signal?: AbortSignal) => {
+    await trackAnimation(sceneId, shot.id, onUpdate => generateShotAnimation(sceneId, shot, { signal, onUpdate }));
+
+    // Remove from selection after successful animation
+    setSelectedForAnimation(prev => {
+      const next = new Set(prev);
+      next.delete(shot.id);
+      return next;
+    });
+  };
 
-      // Auto-generate audio if enabled (don't wait for it)
-      if (settingsStore.settings.enableAudio && shot.subtitle && !shot.audioUrl) {
-        generateAudio(sceneId, shot).catch(err => {
-          console.warn('Background audio generation failed:', err);
-        });
-      }
+  const animateShot = async (sceneId: string, shot: Shot) => {
+    if (!shot.imageUrl) return;
 
-      // Remove from selection after successful animation
-      const newSelected = new Set(selectedForAnimation);
-      newSelected.delete(shot.id);
-      setSelectedForAnimation(newSelected);
+    try {
+      await requestAnimation(sceneId, shot);
     } catch (error: any) {
+      if (error instanceof JobFailedError && error.job.status === 'cancelled') return;
+
       console.error('Failed to animate shot:', error);
-      storyStore.setAnimatingShot(sceneId, shot.id, false);
 
       // Check if error is about expired image
       const errorMessage = error.message || 'Failed to generate animation';
@@ -138,43 +135,30 @@ const EditView = observer(() => {
     }
   };
 
-  const animateSelected = async () => {
-    setAnimatingAll(true);
-
-    // Collect all shots that need animation
-    const shotsToAnimate: Array<{ sceneId: string; shot: Shot }> = [];
-    for (const scene of storyStore.story.scenes) {
-      for (const shot of scene.shots) {
-        if (selectedForAnimation.has(shot.id) && !shot.isAnimating && !shot.animationUrl) {
-          shotsToAnimate.push({ sceneId: scene.id, shot });
-        }
-      }
+  const cancelAnimation = async (shot: Shot) => {
+    if (!shot.animationJobId) return;
+    try {
+      await cancelJob(shot.animationJobId);
+    } catch (error: any) {
+      alert(`Failed to cancel: ${error.message}`);
     }
+  };
 
-    setProgress({ current: 0, total: shotsToAnimate.length });
-
-    // Generate with concurrency limit (3 at a time for video - more resource intensive)
-    const concurrency = 3;
-    let completed = 0;
-
-    for (let i = 0; i < shotsToAnimate.length; i += concurrency) {
-      const batch = shotsToAnimate.slice(i, i + concurrency);
-      await Promise.all(
-        batch.map(async ({ sceneId, shot }) => {
-          await animateShot(sceneId, shot);
-          completed++;
-          setProgress({ current: completed, total: shotsToAnimate.length });
-        })
-      );
-
-      // Longer delay between video batches
-      if (i + concurrency < shotsToAnimate.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+  const animateSelected = async () => {
+    // Collect all shots that need animation
+    const tasks = getShotTasks(
+      shot => selectedForAnimation.has(shot.id) && !!shot.imageUrl && !shot.isAnimating && !shot.animationUrl,
+      requestAnimation
+    );
+    if (tasks.length === 0) return;
+
+    // Concurrency, retries and rate limits are handled by the scheduler;
+    // each animation is its own undo step
+    const result = await generationStore.runBatch('animation', 'Animating shots', tasks);
+    const failures = describeBatchFailures(result, tasks.length);
+    if (failures) {
+      alert(`Some shots could not be animated.\n\n${failures}`);
     }
-
-    setAnimatingAll(false);
-    setProgress({ current: 0, total: 0 });
   };
 
   const toggleSelection = (shotId: string) => {
@@ -199,17 +183,17 @@ const EditView = observer(() => {
     setExportProgress(0);
 
     try {
-      const animatedShots = storyStore.getAllShots().filter(shot => shot.animationUrl);
+      const animatedShots = storyStore.getTimelineShots().filter(shot => shot.animationUrl);
 
       if (animatedShots.length === 0) {
         alert('Please generate video animations first');
         return;
       }
 
-      const videos = animatedShots.map(shot => ({
-        url: shot.animationUrl!,
+      const plans = await fitShotsForExport(animatedShots);
+      const videos = animatedShots.map((shot, index) => ({
+        ...toVideoSegment(shot, plans[index]),
         subtitle: settingsStore.settings.exportSettings.includeSubtitles ? shot.subtitle : undefined,
-        audioUrl: shot.audioUrl,
       }));
 
       console.log('Exporting with settings:', {
@@ -218,8 +202,8 @@ const EditView = observer(() => {
         totalVideos: videos.length
       });
 
-      // Get quality settings from store
-      const quality = QUALITY_PRESETS[settingsStore.settings.exportSettings.quality];
+      // Get quality and output format from store
+      const quality = { ...QUALITY_PRESETS[settingsStore.settings.exportSettings.quality], ...getExportOutput() };
 
       const blob = await composeVideos(videos, setExportProgress, quality);
       downloadBlob(blob, `${storyStore.story.title || 'story'}-${Date.now()}.mp4`);
@@ -235,7 +219,8 @@ const EditView = observer(() => {
     }
   };
 
-  const allShots = storyStore.getAllShots().filter(shot => shot.imageUrl);
+  // Shots with uploaded footage may have no image
+  const allShots = storyStore.getAllShots().filter(shot => shot.imageUrl || shot.animationUrl);
 
   return (
     <div className="max-w-7xl mx-auto p-6">
@@ -264,10 +249,10 @@ const EditView = observer(() => {
           </button>
           <button
             onClick={animateSelected}
-            disabled={selectedForAnimation.size === 0 || animatingAll}
+            disabled={selectedForAnimation.size === 0 || !!animationBatch}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition"
           >
-            {animatingAll ? `Animating... (${progress.current}/${progress.total})` : `Animate (${selectedForAnimation.size})`}
+            {animationBatch ? 'Animating...' : `Animate (${selectedForAnimation.size})`}
           </button>
           {allShots.some(s => s.animationUrl) && (
             <button
@@ -280,6 +265,10 @@ const EditView = observer(() => {
         </div>
       </div>
 
+      <GenerationBatchControls kind="animation" className="mb-6" />
+
+      <Timeline className="mb-6" />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
         {allShots.map((shot) => {
           const scene = storyStore.story.scenes.find(s =>
@@ -299,30 +288,53 @@ const EditView = observer(() => {
                 {shot.isAnimating ? (
                   <div className="absolute inset-0 flex flex-col items-center justify-center">
                     <div className="spinner mb-2"></div>
-                    <p className="text-sm text-gray-400">Generating animation...</p>
+                    <p className="text-sm text-gray-400">
+                      {jobProgress[shot.id]?.message || 'Generating animation...'}
+                    </p>
+                    {jobProgress[shot.id] && (
+                      <div className="w-2/3 h-1 bg-gray-600 rounded mt-2 overflow-hidden">
+                        <div
+                          className="h-full bg-yellow-500 transition-all"
+                          style={{ width: `${Math.round(jobProgress[shot.id].progress * 100)}%` }}
+                        />
+                      </div>
+                    )}
+                    {shot.animationJobId && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          cancelAnimation(shot);
+                        }}
+                        className="mt-3 px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded text-xs transition"
+                      >
+                        ✕ Cancel
+                      </button>
+                    )}
                   </div>
                 ) : shot.animationUrl ? (
                   <>
-                    <video
+                    <AssetVideo
                       src={shot.animationUrl}
                       controls
                       loop
                       className="w-full h-full object-cover"
                     />
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        animateShot(scene.id, shot);
-                      }}
-                      className="absolute bottom-2 right-2 px-2 py-1 bg-blue-600/90 hover:bg-blue-700 rounded text-xs transition flex items-center gap-1"
-                      title="Regenerate video animation"
-                    >
-                      🔄 Regenerate
-                    </button>
+                    {shot.imageUrl && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          animateShot(scene.id, shot);
+                        }}
+                        className="absolute bottom-2 right-2 px-2 py-1 bg-blue-600/90 hover:bg-blue-700 rounded text-xs transition flex items-center gap-1"
+                        title="Regenerate video animation"
+                      >
+                        🔄 Regenerate
+                      </button>
+                    )}
                   </>
                 ) : (
                   <>
-                    <Image
+                    <AssetImage
                       src={shot.imageUrl!}
                       alt={shot.subtitle}
                       fill
@@ -349,9 +361,9 @@ const EditView = observer(() => {
                       <>
                         <span className="text-xs bg-blue-600 px-2 py-1 rounded">🎙️ Audio</span>
                         <button
-                          onClick={(e) => {
+                          onClick={async (e) => {
                             e.stopPropagation();
-                            const audio = new Audio(shot.audioUrl);
+                            const audio = new Audio(await assetStore.resolveUrl(shot.audioUrl!));
                             audio.play();
                           }}
                           className="w-6 h-6 bg-blue-600 hover:bg-blue-700 rounded flex items-center justify-center transition text-xs"
@@ -396,7 +408,45 @@ const EditView = observer(() => {
                   </div>
                 )}
 
-                <p className="text-xs text-gray-400">{shot.location}</p>
+                <div className="flex gap-2">
+                  <MediaUploadButton
+                    kind="video"
+                    onUpload={file => uploadShotMedia(scene.id, shot.id, 'animation', file)}
+                    disabled={shot.isAnimating}
+                    className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs text-center transition"
+                    title="Use your own footage for this shot"
+                  >
+                    ⬆️ Upload Video
+                  </MediaUploadButton>
+                  <MediaUploadButton
+                    kind="audio"
+                    onUpload={file => uploadShotMedia(scene.id, shot.id, 'audio', file)}
+                    disabled={shot.isGeneratingAudio}
+                    className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs text-center transition"
+                    title="Use your own narration for this shot"
+                  >
+                    ⬆️ Upload Audio
+                  </MediaUploadButton>
+                </div>
+
+                {shot.imageUrl && <ShotMotionPrompt sceneId={scene.id} shot={shot} />}
+
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-xs text-gray-400">⏱ Duration</span>
+                  <ShotDurationSelect
+                    sceneId={scene.id}
+                    shot={shot}
+                    className="px-2 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-gray-400">{shot.location}</p>
+                  <div className="flex gap-1">
+                    <ShotTakes sceneId={scene.id} shot={shot} kind="animation" />
+                    <ShotTakes sceneId={scene.id} shot={shot} kind="audio" />
+                  </div>
+                </div>
               </div>
             </div>
           );
@@ -405,7 +455,7 @@ const EditView = observer(() => {
 
       {allShots.length === 0 && (
         <div className="text-center py-12 text-gray-400">
-          <p>No shots with images available. Go back to storyboard to generate images.</p>
+          <p>No shots with images available. Go back to storyboard to generate or upload images.</p>
         </div>
       )}
 
@@ -2,10 +2,19 @@
 
 import { observer } from 'mobx-react-lite';
 import { storyStore, Shot } from '@/stores/StoryStore';
-import { useState } from 'react';
+import { settingsStore } from '@/stores/SettingsStore';
+import { useEffect, useState } from 'react';
 import Image from 'next/image';
-import { composeVideos, downloadBlob } from '@/utils/videoComposer';
+import { assetStore } from '@/lib/assetStore';
+import { composeVideos, downloadBlob, QUALITY_PRESETS, QualitySettings } from '@/utils/videoComposer';
+import { buildComposeRequest, getExportOutput, submitComposeJob } from '@/lib/generation';
+import { fitShotsForExport, planShotFit, toVideoSegment } from '@/lib/clipFitting';
+import type { ClipFitPlan } from '@/utils/clipFit';
+import { cancelJob, JobFailedError, waitForJob } from '@/utils/jobClient';
+import type { ComposeVideoResult } from '@/lib/renderService';
 import VideoPreviewModal from './VideoPreviewModal';
+import { AssetVideo } from './AssetMedia';
+import ShotClipFit from './ShotClipFit';
 
 type ExportMethod = 'docker' | 'browser';
 
@@ -15,11 +24,31 @@ const ExportView = observer(() => {
   const [isExporting, setIsExporting] = useState(false);
   const [progress, setProgress] = useState(0);
   const [exportError, setExportError] = useState<string | null>(null);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [exportJobId, setExportJobId] = useState<string | null>(null);
   const [previewShot, setPreviewShot] = useState<Shot | null>(null);
   const [isPreviewingAll, setIsPreviewingAll] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-
-  const animatedShots = storyStore.getAllShots().filter(shot => shot.animationUrl);
+  const [fitPlans, setFitPlans] = useState<Record<string, ClipFitPlan>>({});
+
+  const animatedShots = storyStore.getTimelineShots().filter(shot => shot.animationUrl);
+
+  // Re-measure when a shot's media or fit settings change
+  const fitKey = animatedShots
+    .map(shot => [shot.id, shot.animationUrl, shot.audioUrl, shot.clipFit, shot.duration].join('|'))
+    .join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(animatedShots.map(async shot => [shot.id, await planShotFit(shot)] as const))
+      .then(entries => {
+        if (!cancelled) setFitPlans(Object.fromEntries(entries));
+      })
+      .catch(error => console.error('Failed to measure shots:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [fitKey]);
 
   const toggleShotSelection = (shotId: string) => {
     const newSelected = new Set(selectedShots);
@@ -40,6 +69,12 @@ const ExportView = observer(() => {
     return animatedShots.filter(shot => selectedShots.has(shot.id));
   };
 
+  // Same output as the render service: quality, size, frame rate and framing from the settings
+  const getBrowserQuality = (): QualitySettings => ({
+    ...QUALITY_PRESETS[settingsStore.settings.exportSettings.quality],
+    ...getExportOutput(),
+  });
+
   const exportWithBrowser = async () => {
     setIsExporting(true);
     setExportError(null);
@@ -52,13 +87,11 @@ const ExportView = observer(() => {
         throw new Error('No shots selected');
       }
 
-      const videos = shotsToExport.map(shot => ({
-        url: shot.animationUrl!,
-        subtitle: shot.subtitle,
-        audioUrl: shot.audioUrl,
-      }));
+      const plans = await fitShotsForExport(shotsToExport, { onStatus: setExportMessage });
+      setExportMessage(null);
+      const videos = shotsToExport.map((shot, index) => toVideoSegment(shot, plans[index]));
 
-      const blob = await composeVideos(videos, setProgress);
+      const blob = await composeVideos(videos, setProgress, getBrowserQuality());
 
       downloadBlob(blob, `${storyStore.story.title || 'story'}-${Date.now()}.mp4`);
 
@@ -69,6 +102,7 @@ const ExportView = observer(() => {
       setExportError(error.message || 'Failed to export video');
     } finally {
       setIsExporting(false);
+      setExportMessage(null);
     }
   };
 
@@ -84,41 +118,49 @@ const ExportView = observer(() => {
         throw new Error('No shots selected');
       }
 
-      const videos = shotsToExport.map(shot => ({
-        url: shot.animationUrl!,
-        subtitle: shot.subtitle,
-        audioUrl: shot.audioUrl,
-      }));
+      const plans = await fitShotsForExport(shotsToExport, { onStatus: setExportMessage });
+      const job = await submitComposeJob(buildComposeRequest(shotsToExport, plans));
+      setExportJobId(job.id);
 
-      const response = await fetch('/api/compose-video', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ videos }),
+      const result = await waitForJob<ComposeVideoResult>(job.id, {
+        onUpdate: update => {
+          setProgress(Math.round(update.progress * 100));
+          setExportMessage(update.message || null);
+        },
       });
 
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to compose video');
-      }
-
-      // Download the video
-      const blob = await response.blob();
+      const blob = await assetStore.getBlob(result.videoUrl);
       downloadBlob(blob, `${storyStore.story.title || 'story'}-${Date.now()}.mp4`);
 
       setProgress(100);
       alert('Video exported successfully!');
     } catch (error: any) {
+      if (error instanceof JobFailedError && error.job.status === 'cancelled') {
+        return;
+      }
+
       console.error('Export error:', error);
       setExportError(error.message || 'Failed to export video');
 
-      // Fallback to browser method
-      if (error.message.includes('Failed to fetch')) {
+      // Fallback to browser method when the render service is not running
+      if (/Failed to fetch|fetch failed|ECONNREFUSED/.test(error.message || '')) {
         alert('Docker service unavailable. Falling back to browser export...');
         setExportMethod('browser');
         await exportWithBrowser();
       }
     } finally {
       setIsExporting(false);
+      setExportJobId(null);
+      setExportMessage(null);
+    }
+  };
+
+  const cancelExport = async () => {
+    if (!exportJobId) return;
+    try {
+      await cancelJob(exportJobId);
+    } catch (error) {
+      console.error('Failed to cancel export:', error);
     }
   };
 
@@ -142,14 +184,12 @@ const ExportView = observer(() => {
         throw new Error('No shots selected');
       }
 
-      const videos = shotsToPreview.map(shot => ({
-        url: shot.animationUrl!,
-        subtitle: shot.subtitle,
-        audioUrl: shot.audioUrl,
-      }));
+      // A preview never animates shots again; it shows the current clips fitted
+      const plans = await fitShotsForExport(shotsToPreview, { regenerate: false });
+      const videos = shotsToPreview.map((shot, index) => toVideoSegment(shot, plans[index]));
 
       // Compose videos with audio in browser
-      const blob = await composeVideos(videos, setProgress);
+      const blob = await composeVideos(videos, setProgress, getBrowserQuality());
       const url = URL.createObjectURL(blob);
       setPreviewUrl(url);
 
@@ -167,7 +207,7 @@ const ExportView = observer(() => {
       <div className="flex justify-between items-center mb-6">
         <div>
           <h1 className="text-3xl font-bold">{storyStore.story.title} - Export</h1>
-          <p className="text-gray-400 mt-2">Select animated shots to export as a single video</p>
+          <p className="text-gray-400 mt-2">Select animated shots to export as a single video, in timeline order</p>
         </div>
         <div className="flex gap-3">
           <button
@@ -248,8 +288,21 @@ const ExportView = observer(() => {
                 />
               </div>
             )}
+
+            {exportJobId && (
+              <button
+                onClick={cancelExport}
+                className="px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition"
+              >
+                ✕ Cancel
+              </button>
+            )}
           </div>
 
+          {exportMessage && (
+            <p className="text-sm text-gray-400">{exportMessage}</p>
+          )}
+
           {exportError && (
             <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg text-red-300">
               <p className="font-semibold">Export Error:</p>
@@ -266,7 +319,7 @@ const ExportView = observer(() => {
                 npm run docker:ffmpeg
               </code>
               <p className="text-xs text-gray-400 mt-2">
-                The FFmpeg service will automatically fall back to browser mode if unavailable.
+                Uses your quality, resolution and subtitle settings. Export falls back to browser mode if the service is unavailable.
               </p>
             </div>
           )}
@@ -300,7 +353,7 @@ const ExportView = observer(() => {
               <div className="aspect-video bg-gray-700 rounded mb-3 relative overflow-hidden">
                 {shot.animationUrl ? (
                   <>
-                    <video
+                    <AssetVideo
                       src={shot.animationUrl}
                       className="w-full h-full object-cover"
                       muted
@@ -309,7 +362,7 @@ const ExportView = observer(() => {
                     />
                     {selectedShots.has(shot.id) && (
                       <div className="absolute top-2 left-2 flex items-center gap-2 bg-yellow-500 text-black px-2 py-1 rounded font-bold text-sm">
-                        <span>#{Array.from(selectedShots).indexOf(shot.id) + 1}</span>
+                        <span>#{getSelectedShots().indexOf(shot) + 1}</span>
                         ✓
                       </div>
                     )}
@@ -327,6 +380,9 @@ const ExportView = observer(() => {
                 </div>
                 <p className="text-xs text-gray-400">{shot.subtitle}</p>
                 <p className="text-xs text-gray-500">{scene?.title}</p>
+                {scene && (
+                  <ShotClipFit sceneId={scene.id} shot={shot} plan={fitPlans[shot.id]} />
+                )}
               </div>
             </div>
           );
@@ -0,0 +1,65 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { generationStore, GenerationKind, getBatchProgress } from '@/stores/GenerationStore';
+
+interface GenerationBatchControlsProps {
+  kind: GenerationKind;
+  className?: string;
+}
+
+/**
+ * Progress, pause/resume and cancel for the running batch of one kind
+ * Renders nothing while no batch of that kind is queued
+ */
+const GenerationBatchControls = observer(({ kind, className = '' }: GenerationBatchControlsProps) => {
+  const batch = generationStore.getActiveBatch(kind);
+  if (!batch) return null;
+
+  const progress = getBatchProgress(batch);
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const isPaused = batch.status === 'paused';
+  const isCancelling = batch.status === 'cancelled';
+
+  return (
+    <div className={`p-3 bg-gray-900 border border-gray-700 rounded-lg ${className}`}>
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <div>
+          <span className="font-semibold">{batch.label}</span>
+          <span className="ml-2 text-gray-400">
+            {progress.done}/{progress.total}
+            {progress.running > 0 && ` • ${progress.running} running`}
+            {progress.retrying > 0 && ` • ${progress.retrying} retrying`}
+            {progress.failed > 0 && <span className="text-red-400"> • {progress.failed} failed</span>}
+            {isPaused && <span className="text-yellow-400"> • paused</span>}
+            {isCancelling && <span className="text-gray-300"> • cancelling…</span>}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => (isPaused ? generationStore.resume(batch.id) : generationStore.pause(batch.id))}
+            disabled={isCancelling}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded transition"
+          >
+            {isPaused ? '▶ Resume' : '⏸ Pause'}
+          </button>
+          <button
+            onClick={() => generationStore.cancel(batch.id)}
+            disabled={isCancelling}
+            className="px-3 py-1 bg-red-700 hover:bg-red-600 disabled:opacity-50 rounded transition"
+          >
+            ✕ Cancel
+          </button>
+        </div>
+      </div>
+      <div className="mt-2 bg-gray-700 rounded-full h-2 overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${isPaused ? 'bg-yellow-500' : 'bg-blue-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+});
+
+export default GenerationBatchControls;
@@ -0,0 +1,206 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
+import { storyStore, Location, TimeOfDay } from '@/stores/StoryStore';
+import { historyStore } from '@/stores/HistoryStore';
+import { generateLocationPlate } from '@/lib/generation';
+import { uploadLocationPlate } from '@/lib/mediaUpload';
+import { generateLocationId } from '@/utils/idGenerator';
+import {
+  buildLocationsFromShots,
+  countLocationShots,
+  TIME_OF_DAY_LABELS,
+  TIMES_OF_DAY,
+} from '@/utils/locations';
+import { AssetImage } from './AssetMedia';
+import MediaUploadButton from './MediaUploadButton';
+
+interface LocationCardProps {
+  location: Location;
+  generating: Set<string>;
+  onGenerate: (location: Location, timeOfDay: TimeOfDay) => void;
+}
+
+const LocationCard = observer(({ location, generating, onGenerate }: LocationCardProps) => {
+  const shotCount = countLocationShots(storyStore.story, location.id);
+
+  const remove = () => {
+    const message = shotCount > 0
+      ? `Delete "${location.name}"? ${shotCount} shot(s) will be unlinked.`
+      : `Delete "${location.name}"?`;
+    if (confirm(message)) {
+      storyStore.removeLocation(location.id);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <div className="flex items-start gap-2 mb-2">
+        <input
+          type="text"
+          value={location.name}
+          onChange={(e) => storyStore.updateLocation(location.id, { name: e.target.value })}
+          className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm font-semibold focus:outline-none focus:border-teal-500"
+        />
+        <button
+          onClick={remove}
+          className="px-2 py-1 text-xs text-gray-400 hover:text-red-400 transition"
+          title="Delete location"
+        >
+          ✕
+        </button>
+      </div>
+      <textarea
+        value={location.description}
+        onChange={(e) => storyStore.updateLocation(location.id, { description: e.target.value })}
+        placeholder="What the place looks like: layout, materials, props..."
+        rows={2}
+        className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs mb-3 focus:outline-none focus:border-teal-500"
+      />
+
+      <div className="grid grid-cols-4 gap-2">
+        {TIMES_OF_DAY.map(timeOfDay => {
+          const plate = location.plates.find(p => p.timeOfDay === timeOfDay);
+          const isGenerating = generating.has(`${location.id}:${timeOfDay}`);
+
+          return (
+            <div key={timeOfDay}>
+              <div className="aspect-video bg-gray-700 rounded relative overflow-hidden flex items-center justify-center">
+                {isGenerating ? (
+                  <div className="spinner"></div>
+                ) : plate ? (
+                  <>
+                    <AssetImage src={plate.url} alt={`${location.name} (${timeOfDay})`} fill className="object-cover" unoptimized />
+                    <button
+                      onClick={() => storyStore.removeLocationPlate(location.id, plate.id)}
+                      className="absolute top-1 right-1 w-5 h-5 bg-black/70 hover:bg-red-600 rounded text-xs"
+                      title="Remove plate"
+                    >
+                      ✕
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-gray-500">No plate</span>
+                )}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">{TIME_OF_DAY_LABELS[timeOfDay]}</p>
+              <div className="flex gap-1 mt-1">
+                <button
+                  onClick={() => onGenerate(location, timeOfDay)}
+                  disabled={isGenerating}
+                  className="flex-1 px-1 py-0.5 bg-teal-600 hover:bg-teal-700 disabled:opacity-50 rounded text-xs transition"
+                  title={plate ? 'Regenerate plate' : 'Generate plate'}
+                >
+                  {plate ? '🔄' : '✨'}
+                </button>
+                <MediaUploadButton
+                  kind="image"
+                  onUpload={file => uploadLocationPlate(location.id, timeOfDay, file)}
+                  className="flex-1 px-1 py-0.5 bg-gray-700 hover:bg-gray-600 rounded text-xs text-center transition"
+                  title="Upload plate"
+                >
+                  ⬆️
+                </MediaUploadButton>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3">
+        Used in {shotCount} shot{shotCount === 1 ? '' : 's'}
+      </p>
+    </div>
+  );
+});
+
+/**
+ * Location library: sets with reference plates per time of day; shots linked
+ * to a location are drawn into its plate so the place looks the same throughout
+ */
+const LocationLibrary = observer(() => {
+  const [generating, setGenerating] = useState<Set<string>>(new Set());
+  const locations = storyStore.story.locations || [];
+  const hasUnlinkedShots = storyStore.getAllShots().some(shot => !shot.locationId && shot.location?.trim());
+
+  const generatePlate = async (location: Location, timeOfDay: TimeOfDay) => {
+    const key = `${location.id}:${timeOfDay}`;
+    setGenerating(keys => new Set(keys).add(key));
+    try {
+      await generateLocationPlate(location.id, timeOfDay);
+    } catch (error: any) {
+      console.error('Location generation error:', error);
+      alert(`Failed to generate ${location.name}: ${error.message}`);
+    } finally {
+      setGenerating(keys => {
+        const next = new Set(keys);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const addLocation = () => {
+    storyStore.addLocation({
+      id: generateLocationId(),
+      name: `Location ${locations.length + 1}`,
+      description: '',
+      plates: [],
+    });
+  };
+
+  const createFromShots = () => {
+    const { locations: created, links } = buildLocationsFromShots(storyStore.story);
+
+    historyStore.group('Create locations from shots', () => {
+      created.forEach(location => storyStore.addLocation(location));
+      links.forEach(link => storyStore.updateShot(link.sceneId, link.shotId, { locationId: link.locationId }));
+    });
+  };
+
+  return (
+    <div className="mb-6 p-6 bg-gray-900 rounded-lg border border-teal-700">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-teal-300">Locations</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Reference plates keep the same place looking the same across shots
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {hasUnlinkedShots && (
+            <button
+              onClick={createFromShots}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition text-sm"
+              title="Create a location for each distinct shot location and link the shots"
+            >
+              Create from Shots
+            </button>
+          )}
+          <button
+            onClick={addLocation}
+            className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-lg transition text-sm"
+          >
+            + Add Location
+          </button>
+        </div>
+      </div>
+
+      {locations.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {locations.map(location => (
+            <LocationCard
+              key={location.id}
+              location={location}
+              generating={generating}
+              onGenerate={generatePlate}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default LocationLibrary;
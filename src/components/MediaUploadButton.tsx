@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, ReactNode } from 'react';
+import { getUploadAccept, UploadKind } from '@/lib/mediaUpload';
+
+interface MediaUploadButtonProps {
+  kind: UploadKind;
+  onUpload: (file: File) => Promise<void>;
+  children: ReactNode;
+  className: string;
+  title?: string;
+  disabled?: boolean;
+}
+
+/**
+ * File picker styled as a button; shows progress while `onUpload` runs and
+ * reports a failed upload. Clicks do not reach the surrounding card.
+ */
+const MediaUploadButton = ({ kind, onUpload, children, className, title, disabled }: MediaUploadButtonProps) => {
+  const [isUploading, setIsUploading] = useState(false);
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      await onUpload(file);
+    } catch (error: any) {
+      console.error('Upload error:', error);
+      alert(`Upload failed: ${error.message}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const isDisabled = disabled || isUploading;
+
+  return (
+    <label
+      onClick={(e) => e.stopPropagation()}
+      className={`${className} ${isDisabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+      title={title}
+    >
+      {isUploading ? '⏳' : children}
+      <input
+        type="file"
+        accept={getUploadAccept(kind)}
+        className="hidden"
+        disabled={isDisabled}
+        onChange={(e) => {
+          upload(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </label>
+  );
+};
+
+export default MediaUploadButton;
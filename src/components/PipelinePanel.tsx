@@ -0,0 +1,282 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
+import { storyStore } from '@/stores/StoryStore';
+import { settingsStore } from '@/stores/SettingsStore';
+import {
+  pipelineStore,
+  PIPELINE_STAGES,
+  PipelineStageId,
+  PipelineStageStatus,
+  PipelineStatus,
+} from '@/stores/PipelineStore';
+import { assetStore } from '@/lib/assetStore';
+import { downloadBlob } from '@/utils/videoComposer';
+import GenerationBatchControls from './GenerationBatchControls';
+
+interface PipelinePanelProps {
+  currentProjectId: string | null;
+}
+
+const STATUS_ICONS: Record<PipelineStageStatus, string> = {
+  pending: '⏳',
+  running: '🔄',
+  done: '✅',
+  failed: '❌',
+  skipped: '⏭️',
+  blocked: '⛔',
+  cancelled: '✕',
+};
+
+const RUN_STATUS_LABELS: Record<PipelineStatus, string> = {
+  running: 'Running',
+  finished: 'Finished',
+  failed: 'Stopped on an error',
+  cancelled: 'Cancelled',
+  interrupted: 'Interrupted by a page reload',
+};
+
+/**
+ * One-click pipeline: start a run from a prompt (or the current story), pick
+ * the stages to skip and watch each stage's progress
+ */
+const PipelinePanel = observer(({ currentProjectId }: PipelinePanelProps) => {
+  const [prompt, setPrompt] = useState('');
+  const [useCurrentStory, setUseCurrentStory] = useState(false);
+  const [skip, setSkip] = useState<Set<PipelineStageId>>(
+    () => new Set<PipelineStageId>(settingsStore.settings.enableAudio ? [] : ['narration'])
+  );
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  if (!pipelineStore.isOpen) return null;
+
+  const { run, isRunning, canResume } = pipelineStore;
+  const hasStory = storyStore.getAllShots().length > 0;
+
+  const toggleSkip = (id: PipelineStageId) => {
+    const next = new Set(skip);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSkip(next);
+  };
+
+  const startRun = () => {
+    if (!useCurrentStory && !prompt.trim()) {
+      alert('Please enter a story idea');
+      return;
+    }
+    if (!useCurrentStory && hasStory && !confirm('Start a new story? The current story will be replaced.')) {
+      return;
+    }
+
+    pipelineStore.start({
+      prompt: useCurrentStory ? null : prompt,
+      skip: Array.from(skip),
+      projectId: useCurrentStory ? currentProjectId : null,
+    });
+  };
+
+  const resumeRun = async () => {
+    if (run?.projectId && currentProjectId && run.projectId !== currentProjectId
+      && !confirm('Resume this run? Its project will be opened in place of the current story.')) {
+      return;
+    }
+
+    try {
+      await pipelineStore.resume();
+    } catch (error: any) {
+      console.error('Resume error:', error);
+      alert(error.message);
+    }
+  };
+
+  const downloadVideo = async () => {
+    if (!run?.videoUrl) return;
+
+    setIsDownloading(true);
+    try {
+      const blob = await assetStore.getBlob(run.videoUrl);
+      downloadBlob(blob, `${storyStore.story.title || 'story'}-${Date.now()}.mp4`);
+    } catch (error: any) {
+      console.error('Download error:', error);
+      alert(`Failed to download video: ${error.message}`);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col border border-gray-700">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-800">
+          <div>
+            <h2 className="text-2xl font-bold">🚀 One-Click Pipeline</h2>
+            <p className="text-sm text-gray-400 mt-1">From a prompt to a finished video, one stage after another</p>
+          </div>
+          <button
+            onClick={() => pipelineStore.close()}
+            className="w-10 h-10 rounded-lg bg-gray-800 hover:bg-gray-700 flex items-center justify-center transition"
+            title={isRunning ? 'Hide (the pipeline keeps running)' : 'Close'}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* New run */}
+          {!isRunning && (
+            <div className="space-y-4">
+              <div>
+                <label className="flex items-center gap-2 text-sm mb-2">
+                  <input
+                    type="checkbox"
+                    checked={useCurrentStory}
+                    onChange={(e) => setUseCurrentStory(e.target.checked)}
+                    disabled={!hasStory}
+                    className="w-4 h-4"
+                  />
+                  <span className={hasStory ? '' : 'text-gray-500'}>
+                    Use the current story{storyStore.story.title ? ` ("${storyStore.story.title}")` : ''}
+                  </span>
+                </label>
+                {!useCurrentStory && (
+                  <textarea
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    placeholder="Describe your story idea..."
+                    rows={3}
+                    className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-purple-500 resize-none"
+                  />
+                )}
+              </div>
+
+              <div>
+                <p className="text-sm text-gray-400 mb-2">Stages to run</p>
+                <div className="flex flex-wrap gap-2">
+                  {PIPELINE_STAGES.filter(stage => stage.optional).map(stage => (
+                    <label
+                      key={stage.id}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 rounded-lg text-sm cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!skip.has(stage.id)}
+                        onChange={() => toggleSkip(stage.id)}
+                        className="w-4 h-4"
+                      />
+                      {stage.label}
+                    </label>
+                  ))}
+                </div>
+                {skip.has('animations') && !skip.has('export') && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Without animations the export is an animatic: each shot&apos;s image is shown for the length of its narration.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Stages */}
+          {run && (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold">
+                  {run.prompt ? `"${run.prompt}"` : 'Current story'}
+                </h3>
+                <span className={`text-sm ${run.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`}>
+                  {RUN_STATUS_LABELS[run.status]}
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                {PIPELINE_STAGES.map(definition => {
+                  const stage = pipelineStore.getStage(definition.id)!;
+                  const showBatch = stage.status === 'running' && definition.batchKind;
+
+                  return (
+                    <div key={definition.id} className="p-3 bg-gray-800 rounded-lg">
+                      <div className="flex items-center justify-between gap-4 text-sm">
+                        <div className="flex items-center gap-2">
+                          <span className={stage.status === 'running' ? 'animate-spin' : ''}>
+                            {STATUS_ICONS[stage.status]}
+                          </span>
+                          <span className={stage.status === 'skipped' ? 'text-gray-500 line-through' : 'font-medium'}>
+                            {definition.label}
+                          </span>
+                        </div>
+                        <span className="text-gray-400 text-xs truncate">{stage.message}</span>
+                      </div>
+
+                      {stage.status === 'running' && !definition.batchKind && stage.progress > 0 && (
+                        <div className="mt-2 bg-gray-700 rounded-full h-2 overflow-hidden">
+                          <div
+                            className="h-full bg-blue-500 transition-all duration-300"
+                            style={{ width: `${Math.round(stage.progress * 100)}%` }}
+                          />
+                        </div>
+                      )}
+                      {showBatch && <GenerationBatchControls kind={definition.batchKind!} className="mt-2" />}
+                      {stage.error && (
+                        <p className="mt-2 text-xs text-red-400 whitespace-pre-wrap">{stage.error}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 p-6 border-t border-gray-800">
+          <div>
+            {run?.videoUrl && (
+              <button
+                onClick={downloadVideo}
+                disabled={isDownloading}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg transition"
+              >
+                {isDownloading ? '⏳ Downloading...' : '⬇️ Download Video'}
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            {isRunning ? (
+              <button
+                onClick={() => pipelineStore.cancel()}
+                className="px-4 py-2 bg-red-700 hover:bg-red-600 rounded-lg transition"
+              >
+                ✕ Cancel Run
+              </button>
+            ) : (
+              <>
+                {canResume && (
+                  <button
+                    onClick={resumeRun}
+                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition"
+                  >
+                    ▶ Resume
+                  </button>
+                )}
+                <button
+                  onClick={startRun}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg transition"
+                >
+                  🚀 {run ? 'Start New Run' : 'Run Pipeline'}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default PipelinePanel;
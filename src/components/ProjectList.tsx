@@ -4,8 +4,10 @@ import { useState, useEffect } from 'react';
 import { observer } from 'mobx-react-lite';
 import { projectDB, StoredProject } from '@/lib/projectDB';
 import { storyStore } from '@/stores/StoryStore';
+import { historyStore } from '@/stores/HistoryStore';
 import { settingsStore } from '@/stores/SettingsStore';
 import { getProjectStats } from '@/utils/projectIO';
+import { describeMigration } from '@/utils/projectMigrations';
 
 interface ProjectListProps {
   onClose: () => void;
@@ -37,10 +39,21 @@ const ProjectList = observer(({ onClose, currentProjectId, onProjectLoad }: Proj
   };
 
   const handleLoadProject = async (project: StoredProject) => {
+    if (project.loadError) {
+      alert(`Cannot open project: ${project.loadError}`);
+      return;
+    }
+
     try {
-      // Load project data into stores
-      storyStore.setStory(project.data.story);
-      storyStore.setCurrentStep(project.data.currentStep);
+      if (project.migration) {
+        console.info(`Project "${project.name}": ${describeMigration(project.migration)}`);
+      }
+
+      // Load project data into stores, with the project's own undo history
+      historyStore.openProject(project.id, () => {
+        storyStore.setStory(project.data.story);
+        storyStore.setCurrentStep(project.data.currentStep);
+      });
 
       // Load settings if available
       if (project.data.settings) {
@@ -90,6 +103,7 @@ const ProjectList = observer(({ onClose, currentProjectId, onProjectLoad }: Proj
 
     try {
       await projectDB.deleteProject(projectId);
+      historyStore.forgetProject(projectId);
       await loadProjects();
 
       // If deleted project was current, clear it
@@ -187,7 +201,7 @@ const ProjectList = observer(({ onClose, currentProjectId, onProjectLoad }: Proj
           {!loading && !error && projects.length > 0 && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {projects.map((project) => {
-                const stats = getProjectStats(project.data.story);
+                const stats = project.loadError ? null : getProjectStats(project.data.story);
                 const isActive = project.id === currentProjectId;
                 const projectSize = JSON.stringify(project).length;
 
@@ -217,25 +231,42 @@ const ProjectList = observer(({ onClose, currentProjectId, onProjectLoad }: Proj
                       </div>
                     </div>
 
-                    {/* Project Stats */}
-                    <div className="grid grid-cols-2 gap-2 text-xs mb-3">
-                      <div className="flex items-center gap-1 text-gray-400">
-                        <span>🎬</span>
-                        <span>{stats.totalScenes} scenes / {stats.totalShots} shots</span>
+                    {project.loadError && (
+                      <div className="p-2 mb-3 bg-red-900/20 border border-red-700/30 rounded text-xs text-red-300">
+                        ⚠️ {project.loadError}
                       </div>
-                      <div className="flex items-center gap-1 text-gray-400">
-                        <span>🎨</span>
-                        <span>{stats.shotsWithImages} images</span>
-                      </div>
-                      <div className="flex items-center gap-1 text-gray-400">
-                        <span>🎥</span>
-                        <span>{stats.shotsWithVideos} videos</span>
+                    )}
+
+                    {project.migration && (
+                      <div
+                        className="mb-3 text-xs text-blue-400"
+                        title={describeMigration(project.migration) || undefined}
+                      >
+                        🔄 Upgraded from schema {project.migration.fromVersion} to {project.migration.toVersion}
                       </div>
-                      <div className="flex items-center gap-1 text-gray-400">
-                        <span>👥</span>
-                        <span>{stats.characterCount} characters</span>
+                    )}
+
+                    {/* Project Stats */}
+                    {stats && (
+                      <div className="grid grid-cols-2 gap-2 text-xs mb-3">
+                        <div className="flex items-center gap-1 text-gray-400">
+                          <span>🎬</span>
+                          <span>{stats.totalScenes} scenes / {stats.totalShots} shots</span>
+                        </div>
+                        <div className="flex items-center gap-1 text-gray-400">
+                          <span>🎨</span>
+                          <span>{stats.shotsWithImages} images</span>
+                        </div>
+                        <div className="flex items-center gap-1 text-gray-400">
+                          <span>🎥</span>
+                          <span>{stats.shotsWithVideos} videos</span>
+                        </div>
+                        <div className="flex items-center gap-1 text-gray-400">
+                          <span>👥</span>
+                          <span>{stats.characterCount} characters</span>
+                        </div>
                       </div>
-                    </div>
+                    )}
 
                     <div className="text-xs text-gray-500 mb-3">
                       Size: {formatSize(projectSize)}
@@ -245,7 +276,7 @@ const ProjectList = observer(({ onClose, currentProjectId, onProjectLoad }: Proj
                     <div className="flex gap-2">
                       <button
                         onClick={() => handleLoadProject(project)}
-                        disabled={isActive}
+                        disabled={isActive || !!project.loadError}
                         className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition text-sm font-medium"
                       >
                         {isActive ? '✓ Loaded' : '📂 Open'}
@@ -2,9 +2,12 @@
 
 import { observer } from 'mobx-react-lite';
 import { storyStore } from '@/stores/StoryStore';
+import { historyStore } from '@/stores/HistoryStore';
 import { settingsStore } from '@/stores/SettingsStore';
 import { useState, useRef } from 'react';
-import { exportProject, importProject, isValidProjectFile, getProjectStats } from '@/utils/projectIO';
+import { exportProject, exportProjectBundle, importProject, isValidProjectFile, getProjectStats } from '@/utils/projectIO';
+import { BundleProgress } from '@/utils/projectBundle';
+import { describeMigration } from '@/utils/projectMigrations';
 import { projectDB } from '@/lib/projectDB';
 import ProjectList from './ProjectList';
 
@@ -18,6 +21,8 @@ interface ProjectManagerProps {
 const ProjectManager = observer(({ isOpen, onClose, currentProjectId, onProjectIdChange }: ProjectManagerProps) => {
   const [isImporting, setIsImporting] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [bundleProgress, setBundleProgress] = useState<BundleProgress | null>(null);
   const [showProjectList, setShowProjectList] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -45,6 +50,7 @@ const ProjectManager = observer(({ isOpen, onClose, currentProjectId, onProjectI
         currentProjectId || undefined
       );
       onProjectIdChange(projectId);
+      historyStore.attachProject(projectId);
       alert('✅ Project saved to local storage!');
     } catch (error: any) {
       console.error('Save error:', error);
@@ -66,6 +72,31 @@ const ProjectManager = observer(({ isOpen, onClose, currentProjectId, onProjectI
     }
   };
 
+  const handleExportBundle = async () => {
+    setIsExporting(true);
+    try {
+      const manifest = await exportProjectBundle(
+        storyStore.story,
+        storyStore.currentStep,
+        settingsStore.settings,
+        setBundleProgress
+      );
+      if (!manifest) return; // Save dialog cancelled
+
+      if (manifest.missing.length > 0) {
+        alert(`⚠️ Bundle exported, but ${manifest.missing.length} media file(s) could not be downloaded and were left out.`);
+      } else {
+        alert(`✅ Bundle exported with ${manifest.assets.length} media file(s)!`);
+      }
+    } catch (error: any) {
+      console.error('Bundle export error:', error);
+      alert(`❌ Export failed: ${error.message}`);
+    } finally {
+      setIsExporting(false);
+      setBundleProgress(null);
+    }
+  };
+
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
@@ -75,7 +106,7 @@ const ProjectManager = observer(({ isOpen, onClose, currentProjectId, onProjectI
     if (!file) return;
 
     if (!isValidProjectFile(file.name)) {
-      setImportError('Please select a valid project file (.open-story-video.json)');
+      setImportError('Please select a valid project file (.open-story-video.zip or .open-story-video.json)');
       return;
     }
 
@@ -83,7 +114,8 @@ const ProjectManager = observer(({ isOpen, onClose, currentProjectId, onProjectI
     setImportError(null);
 
     try {
-      const projectData = await importProject(file);
+      const { project: projectData, report } = await importProject(file, setBundleProgress);
+      const migrationSummary = describeMigration(report);
 
       // Confirm before overwriting current project
       const stats = getProjectStats(projectData.story);
@@ -96,7 +128,7 @@ Project Information:
 • Generated Images: ${stats.shotsWithImages}
 • Generated Videos: ${stats.shotsWithVideos}
 • Characters: ${stats.characterCount}
-
+${migrationSummary ? `\n🔄 ${migrationSummary}\n` : ''}
 Current project will be overwritten, continue?`;
 
       if (!confirm(message)) {
@@ -104,9 +136,11 @@ Current project will be overwritten, continue?`;
         return;
       }
 
-      // Import project data
-      storyStore.setStory(projectData.story);
-      storyStore.setCurrentStep(projectData.currentStep);
+      // Import project data; undo can't go back to the overwritten story
+      historyStore.startOver(() => {
+        storyStore.setStory(projectData.story);
+        storyStore.setCurrentStep(projectData.currentStep);
+      });
 
       // Import settings (merge with existing, don't overwrite API keys)
       if (projectData.settings) {
@@ -159,6 +193,7 @@ Current project will be overwritten, continue?`;
       setImportError(error.message);
     } finally {
       setIsImporting(false);
+      setBundleProgress(null);
       // Reset file input
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -249,14 +284,26 @@ Current project will be overwritten, continue?`;
           <div className="space-y-3 pt-4 border-t border-gray-800">
             <h3 className="font-semibold">📥 Export/Import Files</h3>
             <p className="text-sm text-gray-400">
-              Save projects as JSON files for sharing or backup
+              Save projects as a .zip bundle with all images, videos and audio, or as JSON only
             </p>
-            <button
-              onClick={handleExport}
-              className="w-full px-4 py-3 bg-yellow-500 hover:bg-yellow-600 text-black font-semibold rounded-lg transition flex items-center justify-center gap-2"
-            >
-              📥 Export as File
-            </button>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={handleExportBundle}
+                disabled={isExporting}
+                className="px-4 py-3 bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-black font-semibold rounded-lg transition flex items-center justify-center gap-2"
+              >
+                {isExporting
+                  ? `⏳ Exporting${bundleProgress ? ` (${bundleProgress.done}/${bundleProgress.total})` : '...'}`
+                  : '📦 Export Bundle (.zip)'}
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={isExporting}
+                className="px-4 py-3 bg-gray-700 hover:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition flex items-center justify-center gap-2"
+              >
+                📥 Export JSON Only
+              </button>
+            </div>
             <div className="text-xs text-gray-500 bg-gray-800/50 rounded p-3">
               💡 Note: API Keys are not exported, need to reconfigure when importing
             </div>
@@ -266,7 +313,7 @@ Current project will be overwritten, continue?`;
           <div className="space-y-3 pt-4 border-t border-gray-800">
             <h3 className="font-semibold">Import Project</h3>
             <p className="text-sm text-gray-400">
-              Restore projects from previously exported JSON files
+              Restore projects from exported bundles (works offline) or JSON files
             </p>
 
             {importError && (
@@ -278,7 +325,7 @@ Current project will be overwritten, continue?`;
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json,.open-story-video.json"
+              accept=".zip,.json,.open-story-video.zip,.open-story-video.json"
               onChange={handleFileChange}
               className="hidden"
             />
@@ -288,7 +335,9 @@ Current project will be overwritten, continue?`;
               disabled={isImporting}
               className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition flex items-center justify-center gap-2"
             >
-              {isImporting ? '⏳ Importing...' : '📤 Select Project File'}
+              {isImporting
+                ? `⏳ Importing${bundleProgress ? ` (${bundleProgress.done}/${bundleProgress.total})` : '...'}`
+                : '📤 Select Project File'}
             </button>
 
             <div className="text-xs text-yellow-400 bg-yellow-900/20 border border-yellow-700/30 rounded p-3">
@@ -4,6 +4,8 @@ import { observer } from 'mobx-react-lite';
 import { settingsStore } from '@/stores/SettingsStore';
 import { useState } from 'react';
 import { TOP_TEXT_MODELS, TOP_IMAGE_MODELS, TOP_VIDEO_MODELS } from '@/config/models';
+import type { MultiCharacterStrategy } from '@/lib/characterImage';
+import { DEFAULT_FRAME_RATE, FRAME_RATES } from '@/services/ffmpeg/normalize';
 
 const SettingsPanel = observer(() => {
   const [activeTab, setActiveTab] = useState<'text' | 'image' | 'video' | 'audio' | 'general' | 'subtitle' | 'export' | 'advanced'>('text');
@@ -129,56 +131,109 @@ const TextModelSettings = observer(() => {
           className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500"
         >
           <option value="openrouter">OpenRouter (Curated popular models)</option>
+          <option value="openai">OpenAI-compatible (OpenAI, llama.cpp, Ollama...)</option>
+          <option value="mock">Offline mock (deterministic, no API key)</option>
         </select>
       </div>
 
-      {/* Model Selection - Categorized */}
-      <div>
-        <label className="block text-sm font-medium mb-2">Model (Grouped by category)</label>
-        <select
-          value={textModel.modelId}
-          onChange={(e) => settingsStore.updateTextModel({ modelId: e.target.value })}
-          className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500 text-sm"
-        >
-          {Object.entries(RECOMMENDED_TEXT_MODELS).map(([category, modelList]) => (
-            <optgroup key={category} label={`━━━ ${category} ━━━`}>
-              {modelList.map((model: any) => (
-                <option key={model.id} value={model.id}>
-                  {model.name} - ${(model.pricing.prompt * 1000).toFixed(3)}/1K tok • {model.description}
-                </option>
-              ))}
-            </optgroup>
-          ))}
-        </select>
-        <p className="text-xs text-gray-500 mt-2">
-          💡 Recommended: Claude Haiku 4.5 (Fast) | Claude 3.5 Sonnet (Top Quality) | Gemini 2.5 Pro (Free)
+      {textModel.provider === 'mock' && (
+        <p className="text-xs text-gray-400 p-3 bg-gray-800/50 border border-gray-700 rounded-lg">
+          The mock provider returns a fixed sample story for every prompt. Use it to try the app offline without an API key.
         </p>
-      </div>
+      )}
 
-      {/* API Key */}
-      <div>
-        <label className="block text-sm font-medium mb-2">
-          OpenRouter API Key
-          <a
-            href="https://openrouter.ai/keys"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="ml-2 text-xs text-blue-400 hover:underline"
-          >
-            Get Key →
-          </a>
-        </label>
-        <input
-          type="password"
-          value={textModel.apiKey}
-          onChange={(e) => settingsStore.updateTextModel({ apiKey: e.target.value })}
-          placeholder="sk-or-..."
-          className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500"
-        />
-        <p className="text-xs text-gray-500 mt-1">
-          Your API key is stored locally and never sent to our servers
-        </p>
-      </div>
+      {/* OpenAI-compatible server */}
+      {textModel.provider === 'openai' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium mb-2">Base URL</label>
+            <input
+              type="text"
+              value={textModel.baseUrl || ''}
+              onChange={(e) => settingsStore.updateTextModel({ baseUrl: e.target.value })}
+              placeholder="https://api.openai.com/v1"
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              llama.cpp: http://localhost:8080/v1 • Ollama: http://localhost:11434/v1. The server must list it in OPENAI_ALLOWED_BASE_URLS or use it as OPENAI_BASE_URL
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Model ID</label>
+            <input
+              type="text"
+              value={textModel.modelId}
+              onChange={(e) => settingsStore.updateTextModel({ modelId: e.target.value })}
+              placeholder="gpt-4o-mini, llama3.1, ..."
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">API Key (optional for local servers)</label>
+            <input
+              type="password"
+              value={textModel.apiKey}
+              onChange={(e) => settingsStore.updateTextModel({ apiKey: e.target.value })}
+              placeholder="sk-..."
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500"
+            />
+          </div>
+        </>
+      )}
+
+      {textModel.provider === 'openrouter' && (
+        <>
+          {/* Model Selection - Categorized */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Model (Grouped by category)</label>
+            <select
+              value={textModel.modelId}
+              onChange={(e) => settingsStore.updateTextModel({ modelId: e.target.value })}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500 text-sm"
+            >
+              {Object.entries(RECOMMENDED_TEXT_MODELS).map(([category, modelList]) => (
+                <optgroup key={category} label={`━━━ ${category} ━━━`}>
+                  {modelList.map((model: any) => (
+                    <option key={model.id} value={model.id}>
+                      {model.name} - ${(model.pricing.prompt * 1000).toFixed(3)}/1K tok • {model.description}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-2">
+              💡 Recommended: Claude Haiku 4.5 (Fast) | Claude 3.5 Sonnet (Top Quality) | Gemini 2.5 Pro (Free)
+            </p>
+          </div>
+
+          {/* API Key */}
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              OpenRouter API Key
+              <a
+                href="https://openrouter.ai/keys"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-2 text-xs text-blue-400 hover:underline"
+              >
+                Get Key →
+              </a>
+            </label>
+            <input
+              type="password"
+              value={textModel.apiKey}
+              onChange={(e) => settingsStore.updateTextModel({ apiKey: e.target.value })}
+              placeholder="sk-or-..."
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Your API key is stored locally and never sent to our servers
+            </p>
+          </div>
+        </>
+      )}
 
       {/* Temperature */}
       <div>
@@ -337,6 +392,24 @@ const ImageModelSettings = observer(() => {
             💡 Recommended for character references: FLUX Schnell (Fast) | FLUX 1.1 Pro (High quality) | Ideogram V3 (Detailed)
           </p>
         </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Shots with Several Characters</label>
+          <select
+            value={settingsStore.settings.multiCharacterStrategy}
+            onChange={(e) =>
+              settingsStore.updateMultiCharacterStrategy(e.target.value as MultiCharacterStrategy)
+            }
+            className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg"
+          >
+            <option value="multi-reference">Multi-reference model (Runway Gen-4 Image, up to 3 characters)</option>
+            <option value="composite">Composite (Ideogram Character, then add each character with FLUX Kontext)</option>
+            <option value="primary">First character only (others described in the prompt)</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-2">
+            💡 Only the characters in a shot (@mentions in its content plus its cast list) are sent as references
+          </p>
+        </div>
       </div>
     </div>
   );
@@ -344,7 +417,7 @@ const ImageModelSettings = observer(() => {
 
 // Video Model Settings Tab
 const VideoModelSettings = observer(() => {
-  const { videoModel } = settingsStore.settings;
+  const { videoModel, refineMotionPrompts } = settingsStore.settings;
 
   return (
     <div className="space-y-6">
@@ -411,6 +484,26 @@ const VideoModelSettings = observer(() => {
           className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg"
         />
       </div>
+
+      <div className="pt-6 border-t border-gray-800">
+        <div className="flex items-center justify-between p-4 bg-gray-800 rounded-lg">
+          <div>
+            <p className="font-medium">Refine Motion Prompts</p>
+            <p className="text-sm text-gray-400 mt-1">
+              Let the text model rewrite each shot&apos;s motion prompt for the selected video model
+            </p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={refineMotionPrompts}
+              onChange={(e) => settingsStore.updateRefineMotionPrompts(e.target.checked)}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-yellow-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-yellow-500"></div>
+          </label>
+        </div>
+      </div>
     </div>
   );
 });
@@ -873,7 +966,42 @@ const ExportSettings = observer(() => {
           <option value="480p">480p (854x480)</option>
         </select>
         <p className="text-xs text-gray-500 mt-2">
-          Lower resolution reduces file size but decreases quality
+          Size of the short side, at the story&apos;s aspect ratio. Original keeps the first clip&apos;s
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">Frame Rate</label>
+        <select
+          value={exportSettings.frameRate || DEFAULT_FRAME_RATE}
+          onChange={(e) =>
+            settingsStore.updateExportSettings({ frameRate: Number(e.target.value) })
+          }
+          className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg"
+        >
+          {FRAME_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate} fps</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-2">
+          Video models return different frame rates; every clip is converted to this one
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">Framing</label>
+        <select
+          value={exportSettings.framing || 'letterbox'}
+          onChange={(e) =>
+            settingsStore.updateExportSettings({ framing: e.target.value as any })
+          }
+          className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg"
+        >
+          <option value="letterbox">Letterbox (Keep the whole picture)</option>
+          <option value="crop">Crop (Fill the frame)</option>
+        </select>
+        <p className="text-xs text-gray-500 mt-2">
+          How clips of another shape fit the story&apos;s aspect ratio
         </p>
       </div>
 
@@ -0,0 +1,107 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { storyStore, Shot, ShotCamera } from '@/stores/StoryStore';
+import {
+  CAMERA_ANGLE_LABELS,
+  CAMERA_ANGLES,
+  CAMERA_MOVEMENT_LABELS,
+  CAMERA_MOVEMENTS,
+  compactCamera,
+  isCameraAngle,
+  isCameraMovement,
+  isLensType,
+  isShotSize,
+  LENS_TYPE_LABELS,
+  LENS_TYPES,
+  SHOT_SIZE_LABELS,
+  SHOT_SIZES,
+} from '@/utils/camera';
+
+interface ShotCameraControlsProps {
+  sceneId: string;
+  shot: Shot;
+}
+
+const SELECT_CLASS = 'w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:border-yellow-500 text-sm';
+
+/**
+ * Shot size, angle, movement, lens and mood of a shot
+ * Used for the shot's image and video prompts
+ */
+const ShotCameraControls = observer(({ sceneId, shot }: ShotCameraControlsProps) => {
+  const camera = shot.camera || {};
+
+  const update = (changes: Partial<ShotCamera>) => {
+    storyStore.updateShot(sceneId, shot.id, { camera: compactCamera({ ...camera, ...changes }) });
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mt-2">
+      <div>
+        <label className="block text-xs font-medium mb-1 text-gray-400">Shot Size</label>
+        <select
+          value={camera.size || ''}
+          onChange={(e) => update({ size: isShotSize(e.target.value) ? e.target.value : undefined })}
+          className={SELECT_CLASS}
+        >
+          <option value="">Auto</option>
+          {SHOT_SIZES.map(size => (
+            <option key={size} value={size}>{SHOT_SIZE_LABELS[size]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium mb-1 text-gray-400">Angle</label>
+        <select
+          value={camera.angle || ''}
+          onChange={(e) => update({ angle: isCameraAngle(e.target.value) ? e.target.value : undefined })}
+          className={SELECT_CLASS}
+        >
+          <option value="">Auto</option>
+          {CAMERA_ANGLES.map(angle => (
+            <option key={angle} value={angle}>{CAMERA_ANGLE_LABELS[angle]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium mb-1 text-gray-400">Movement</label>
+        <select
+          value={camera.movement || ''}
+          onChange={(e) => update({ movement: isCameraMovement(e.target.value) ? e.target.value : undefined })}
+          className={SELECT_CLASS}
+        >
+          <option value="">Auto</option>
+          {CAMERA_MOVEMENTS.map(movement => (
+            <option key={movement} value={movement}>{CAMERA_MOVEMENT_LABELS[movement]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium mb-1 text-gray-400">Lens</label>
+        <select
+          value={camera.lens || ''}
+          onChange={(e) => update({ lens: isLensType(e.target.value) ? e.target.value : undefined })}
+          className={SELECT_CLASS}
+        >
+          <option value="">Auto</option>
+          {LENS_TYPES.map(lens => (
+            <option key={lens} value={lens}>{LENS_TYPE_LABELS[lens]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="col-span-2 md:col-span-1">
+        <label className="block text-xs font-medium mb-1 text-gray-400">Mood</label>
+        <input
+          type="text"
+          value={camera.mood || ''}
+          onChange={(e) => update({ mood: e.target.value })}
+          placeholder="e.g. tense, cold light"
+          className={SELECT_CLASS}
+        />
+      </div>
+    </div>
+  );
+});
+
+export default ShotCameraControls;
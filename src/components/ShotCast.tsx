@@ -0,0 +1,61 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { storyStore, Shot } from '@/stores/StoryStore';
+import { getMentionedCharacters } from '@/utils/mentions';
+import { hasCharacterReference } from '@/utils/characterReferences';
+
+interface ShotCastProps {
+  sceneId: string;
+  shot: Shot;
+}
+
+/**
+ * Character chips for a shot's cast: @mentioned characters are always in it,
+ * the rest can be added or removed; only the cast's reference images are used
+ */
+const ShotCast = observer(({ sceneId, shot }: ShotCastProps) => {
+  const { characters } = storyStore.story;
+  if (characters.length === 0) return null;
+
+  const mentioned = getMentionedCharacters(shot.content, characters);
+  const cast = shot.cast || [];
+
+  const toggle = (name: string) => {
+    const next = cast.includes(name)
+      ? cast.filter(n => n !== name)
+      : [...cast, name];
+    storyStore.updateShot(sceneId, shot.id, { cast: next });
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-2" onClick={(e) => e.stopPropagation()}>
+      {characters.map(character => {
+        const isMentioned = mentioned.includes(character);
+        const isCast = isMentioned || cast.includes(character.name);
+
+        return (
+          <button
+            key={character.name}
+            onClick={() => toggle(character.name)}
+            disabled={isMentioned}
+            className={`text-xs px-2 py-0.5 rounded-full transition ${
+              isCast
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+            } ${isMentioned ? 'cursor-default' : ''}`}
+            title={
+              isMentioned
+                ? `@${character.name} is mentioned in this shot`
+                : isCast ? 'Remove from this shot' : 'Add to this shot'
+            }
+          >
+            {isCast ? '✓ ' : '+ '}{character.name}{!hasCharacterReference(character) && isCast ? ' (no reference)' : ''}
+          </button>
+        );
+      })}
+    </div>
+  );
+});
+
+export default ShotCast;
@@ -0,0 +1,69 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { storyStore, Shot } from '@/stores/StoryStore';
+import { getShotCast } from '@/utils/mentions';
+import { CHARACTER_VIEW_LABELS, CHARACTER_VIEWS, isCharacterView } from '@/utils/characterReferences';
+
+interface ShotCharacterLooksProps {
+  sceneId: string;
+  shot: Shot;
+}
+
+/**
+ * View and wardrobe pickers for the characters in a shot that have named
+ * references or wardrobes; "Auto" lets the image route pick from the shot text
+ */
+const ShotCharacterLooks = observer(({ sceneId, shot }: ShotCharacterLooksProps) => {
+  const cast = getShotCast(shot, storyStore.story.characters).filter(
+    character => (character.references || []).length > 0 || (character.wardrobes || []).length > 0
+  );
+  if (cast.length === 0) return null;
+
+  return (
+    <div className="space-y-1 mt-2" onClick={(e) => e.stopPropagation()}>
+      {cast.map(character => {
+        const look = shot.characterLooks?.[character.name] || {};
+        const wardrobes = character.wardrobes || [];
+
+        return (
+          <div key={character.name} className="flex items-center gap-2 text-xs">
+            <span className="w-20 truncate text-gray-400" title={character.name}>{character.name}</span>
+            <select
+              value={look.view || ''}
+              onChange={(e) => storyStore.setShotCharacterLook(sceneId, shot.id, character.name, {
+                ...look,
+                view: isCharacterView(e.target.value) ? e.target.value : undefined,
+              })}
+              className="flex-1 min-w-0 px-2 py-1 bg-gray-700 border border-gray-600 rounded"
+              title="Reference view"
+            >
+              <option value="">Auto view</option>
+              {CHARACTER_VIEWS.map(view => (
+                <option key={view} value={view}>{CHARACTER_VIEW_LABELS[view]}</option>
+              ))}
+            </select>
+            {wardrobes.length > 0 && (
+              <select
+                value={look.wardrobeId || ''}
+                onChange={(e) => storyStore.setShotCharacterLook(sceneId, shot.id, character.name, {
+                  ...look,
+                  wardrobeId: e.target.value || undefined,
+                })}
+                className="flex-1 min-w-0 px-2 py-1 bg-gray-700 border border-gray-600 rounded"
+                title="Wardrobe"
+              >
+                <option value="">Default outfit</option>
+                {wardrobes.map(w => (
+                  <option key={w.id} value={w.id}>{w.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+export default ShotCharacterLooks;
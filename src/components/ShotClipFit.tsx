@@ -0,0 +1,54 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { storyStore, Shot } from '@/stores/StoryStore';
+import { CLIP_FIT_LABELS, CLIP_FIT_MODES, ClipFitPlan, describeClipFit, isClipFitMode } from '@/utils/clipFit';
+import { formatShotDuration } from '@/utils/shotDuration';
+
+interface ShotClipFitProps {
+  sceneId: string;
+  shot: Shot;
+  plan?: ClipFitPlan;          // Missing while the shot is being measured
+}
+
+function formatSeconds(seconds: number): string {
+  return formatShotDuration(Math.round(seconds * 10) / 10);
+}
+
+/**
+ * How a shot's clip is matched to its narration at export, with the
+ * measured lengths and a warning when they are far apart
+ */
+const ShotClipFit = observer(({ sceneId, shot, plan }: ShotClipFitProps) => (
+  <div onClick={(e) => e.stopPropagation()} className="space-y-1 text-xs">
+    <div className="flex items-center justify-between gap-2">
+      <label className="text-gray-400">Fit to narration</label>
+      <select
+        value={shot.clipFit || 'auto'}
+        onChange={(e) => storyStore.updateShot(sceneId, shot.id, {
+          clipFit: isClipFitMode(e.target.value) && e.target.value !== 'auto' ? e.target.value : undefined,
+        })}
+        className="px-2 py-0.5 bg-gray-700 border border-gray-600 rounded"
+      >
+        {CLIP_FIT_MODES.map(mode => (
+          <option key={mode} value={mode}>{CLIP_FIT_LABELS[mode]}</option>
+        ))}
+      </select>
+    </div>
+    {plan ? (
+      <>
+        <p className="text-gray-500">
+          {plan.clipSeconds ? `Clip ${formatSeconds(plan.clipSeconds)}` : 'Still'}
+          {plan.narrationSeconds ? ` · Narration ${formatSeconds(plan.narrationSeconds)}` : ' · No narration'}
+          {' → '}{describeClipFit(plan)}
+          {plan.regenerate && ' (animated again at export)'}
+        </p>
+        {plan.warning && <p className="text-yellow-400">⚠️ {plan.warning}</p>}
+      </>
+    ) : (
+      <p className="text-gray-500">Measuring...</p>
+    )}
+  </div>
+));
+
+export default ShotClipFit;
@@ -0,0 +1,58 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { storyStore, Shot } from '@/stores/StoryStore';
+import {
+  formatShotDuration,
+  getShotDuration,
+  MAX_SHOT_DURATION,
+  MIN_SHOT_DURATION,
+  parseShotDuration,
+  suggestShotDuration,
+} from '@/utils/shotDuration';
+
+interface ShotDurationSelectProps {
+  sceneId: string;
+  shot: Shot;
+  className: string;
+}
+
+const WHOLE_SECONDS = Array.from(
+  { length: MAX_SHOT_DURATION - MIN_SHOT_DURATION + 1 },
+  (_, i) => MIN_SHOT_DURATION + i
+);
+
+/**
+ * Target length of a shot; warns when its subtitle needs longer to read aloud
+ */
+const ShotDurationSelect = observer(({ sceneId, shot, className }: ShotDurationSelectProps) => {
+  const duration = getShotDuration(shot);
+  const needed = suggestShotDuration(shot.subtitle);
+
+  // Keep a half-second value from the story model selectable
+  const options = WHOLE_SECONDS.includes(duration)
+    ? WHOLE_SECONDS
+    : [...WHOLE_SECONDS, duration].sort((a, b) => a - b);
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      <select
+        value={duration}
+        onChange={(e) => storyStore.updateShot(sceneId, shot.id, { duration: parseShotDuration(e.target.value) })}
+        className={className}
+        title="How long the shot lasts; used for the animation, narration and subtitles"
+      >
+        {options.map(seconds => (
+          <option key={seconds} value={seconds}>{formatShotDuration(seconds)}</option>
+        ))}
+      </select>
+      {needed > duration && (
+        <p className="text-xs text-yellow-400 mt-1">
+          Subtitle needs about {formatShotDuration(needed)} to read aloud
+        </p>
+      )}
+    </div>
+  );
+});
+
+export default ShotDurationSelect;
@@ -0,0 +1,56 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { storyStore, Shot } from '@/stores/StoryStore';
+import { isTimeOfDay, TIME_OF_DAY_LABELS, TIMES_OF_DAY } from '@/utils/locations';
+
+interface ShotLocationProps {
+  sceneId: string;
+  shot: Shot;
+}
+
+/**
+ * Location and time-of-day pickers for a shot
+ */
+const ShotLocation = observer(({ sceneId, shot }: ShotLocationProps) => {
+  const locations = storyStore.story.locations || [];
+  if (locations.length === 0) return null;
+
+  const location = storyStore.findLocation(shot.locationId);
+
+  return (
+    <div className="flex gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+      <select
+        value={shot.locationId || ''}
+        onChange={(e) => storyStore.updateShot(sceneId, shot.id, { locationId: e.target.value || undefined })}
+        className="flex-1 min-w-0 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs"
+        title="Location"
+      >
+        <option value="">📍 No location</option>
+        {locations.map(l => (
+          <option key={l.id} value={l.id}>
+            📍 {l.name}{l.plates.length === 0 ? ' (no plate)' : ''}
+          </option>
+        ))}
+      </select>
+      {location && (
+        <select
+          value={shot.timeOfDay || ''}
+          onChange={(e) => {
+            const value = e.target.value;
+            storyStore.updateShot(sceneId, shot.id, { timeOfDay: isTimeOfDay(value) ? value : undefined });
+          }}
+          className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs"
+          title="Time of day"
+        >
+          <option value="">Any time</option>
+          {TIMES_OF_DAY.map(timeOfDay => (
+            <option key={timeOfDay} value={timeOfDay}>{TIME_OF_DAY_LABELS[timeOfDay]}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+});
+
+export default ShotLocation;
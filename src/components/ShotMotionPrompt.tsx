@@ -0,0 +1,90 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
+import { storyStore, Shot } from '@/stores/StoryStore';
+import { suggestMotionPrompt } from '@/lib/generation';
+
+interface ShotMotionPromptProps {
+  sceneId: string;
+  shot: Shot;
+}
+
+/**
+ * Motion prompt a shot is animated with
+ * Without an edit the server builds one from the shot each time; the prompt
+ * last used is shown so it can be tweaked. An edited or suggested prompt is
+ * sent as is until it is reset.
+ */
+const ShotMotionPrompt = observer(({ sceneId, shot }: ShotMotionPromptProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  const status = shot.motionPromptEdited ? 'Custom' : shot.motionPrompt ? 'Last used' : 'Auto';
+
+  const suggest = async () => {
+    setIsSuggesting(true);
+    try {
+      await suggestMotionPrompt(sceneId, shot);
+    } catch (error: any) {
+      console.error('Motion prompt error:', error);
+      alert(`Failed to write motion prompt: ${error.message}`);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-gray-400 hover:text-gray-200 transition"
+      >
+        <span>{isOpen ? '▾' : '▸'} Motion Prompt</span>
+        <span className={`px-2 py-0.5 rounded ${shot.motionPromptEdited ? 'bg-yellow-600 text-black' : 'bg-gray-700'}`}>
+          {status}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={shot.motionPrompt || ''}
+            onChange={(e) => {
+              const motionPrompt = e.target.value;
+              storyStore.updateShot(sceneId, shot.id, motionPrompt.trim()
+                ? { motionPrompt, motionPromptEdited: true }
+                : { motionPrompt: undefined, motionPromptEdited: undefined });
+            }}
+            placeholder="Built from the shot's content and camera when left empty"
+            rows={4}
+            disabled={shot.isAnimating}
+            className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:border-yellow-500 resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={suggest}
+              disabled={isSuggesting || shot.isAnimating}
+              className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded transition"
+              title="Write a prompt from the shot for the selected video model"
+            >
+              {isSuggesting ? '⏳ Writing...' : '✨ Suggest'}
+            </button>
+            {shot.motionPromptEdited && (
+              <button
+                onClick={() => storyStore.updateShot(sceneId, shot.id, { motionPromptEdited: undefined })}
+                disabled={shot.isAnimating}
+                className="flex-1 px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded transition"
+                title="Build the prompt from the shot again on the next animation"
+              >
+                ↺ Reset
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default ShotMotionPrompt;
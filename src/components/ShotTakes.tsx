@@ -0,0 +1,205 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
+import { storyStore, Shot, ShotTake, TakeKind } from '@/stores/StoryStore';
+import { getTakes, TAKE_URL_FIELDS } from '@/utils/shotTakes';
+import { AssetAudio, AssetImage, AssetVideo } from './AssetMedia';
+
+interface ShotTakesProps {
+  sceneId: string;
+  shot: Shot;
+  kind: TakeKind;
+}
+
+const KIND_LABELS: Record<TakeKind, string> = {
+  image: 'Image',
+  animation: 'Video',
+  audio: 'Audio',
+};
+
+function formatTime(createdAt: number): string {
+  return createdAt ? new Date(createdAt).toLocaleString() : 'Before take history';
+}
+
+function TakeMedia({ take }: { take: ShotTake }) {
+  if (take.kind === 'image') {
+    return (
+      <div className="aspect-video bg-gray-700 rounded relative overflow-hidden">
+        <AssetImage src={take.url} alt="Take" fill className="object-cover" unoptimized />
+      </div>
+    );
+  }
+  if (take.kind === 'animation') {
+    return (
+      <AssetVideo src={take.url} controls loop className="w-full aspect-video bg-gray-700 rounded object-cover" />
+    );
+  }
+  if (!take.url) {
+    return (
+      <div className="p-3 bg-gray-700 rounded text-xs text-gray-400">
+        This take&apos;s audio was left out of an older project export. Regenerate to listen.
+      </div>
+    );
+  }
+  return <AssetAudio src={take.url} controls className="w-full" />;
+}
+
+function TakeDetails({ take }: { take: ShotTake }) {
+  return (
+    <dl className="text-xs text-gray-400 space-y-1 mt-2">
+      <div><span className="text-gray-500">{take.source === 'uploaded' ? 'Uploaded' : 'Created'}:</span> {formatTime(take.createdAt)}</div>
+      {take.fileName && <div className="truncate"><span className="text-gray-500">File:</span> {take.fileName}</div>}
+      {take.model && <div><span className="text-gray-500">Model:</span> {take.model}</div>}
+      {take.seed !== undefined && <div><span className="text-gray-500">Seed:</span> {take.seed}</div>}
+      {take.prompt && <div className="line-clamp-3"><span className="text-gray-500">Prompt:</span> {take.prompt}</div>}
+    </dl>
+  );
+}
+
+/**
+ * "Takes" button plus a modal listing every generated or uploaded version of one
+ * media kind for a shot; takes can be compared side by side, made active, or deleted
+ */
+const ShotTakes = observer(({ sceneId, shot, kind }: ShotTakesProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const takes = getTakes(shot, kind);
+  const activeUrl = shot[TAKE_URL_FIELDS[kind]];
+
+  if (takes.length === 0) return null;
+
+  const toggleCompare = (takeId: string) => {
+    setCompareIds(ids =>
+      ids.includes(takeId)
+        ? ids.filter(id => id !== takeId)
+        : [...ids, takeId].slice(-2)
+    );
+  };
+
+  const deleteTake = (take: ShotTake) => {
+    if (!confirm('Delete this take?')) return;
+    storyStore.deleteTake(sceneId, shot.id, take.id);
+    setCompareIds(ids => ids.filter(id => id !== take.id));
+  };
+
+  const compared = compareIds
+    .map(id => takes.find(take => take.id === id))
+    .filter((take): take is ShotTake => !!take);
+
+  return (
+    <>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(true);
+        }}
+        className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded transition whitespace-nowrap"
+        title={`${KIND_LABELS[kind]} takes`}
+      >
+        🗂️ {KIND_LABELS[kind]} takes ({takes.length})
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center p-4 cursor-default"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="bg-gray-900 rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col border border-gray-700">
+            <div className="flex items-center justify-between p-6 border-b border-gray-800">
+              <div>
+                <h2 className="text-2xl font-bold">🗂️ {KIND_LABELS[kind]} Takes</h2>
+                <p className="text-xs text-gray-400 mt-1">{shot.subtitle}</p>
+              </div>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="w-10 h-10 flex items-center justify-center rounded-lg hover:bg-gray-800 transition text-2xl"
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-6">
+              {/* Side-by-side comparison */}
+              {compared.length === 2 && (
+                <div className="border border-purple-700 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold text-purple-300">Compare</h3>
+                    <button
+                      onClick={() => setCompareIds([])}
+                      className="text-xs text-gray-400 hover:text-white"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    {compared.map(take => (
+                      <div key={take.id}>
+                        <TakeMedia take={take} />
+                        <TakeDetails take={take} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <p className="text-xs text-gray-500">
+                Select two takes to compare them side by side.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {[...takes].reverse().map(take => {
+                  const isActive = !!activeUrl && take.url === activeUrl;
+                  const isUntracked = !(shot.takes || []).some(t => t.id === take.id);
+
+                  return (
+                    <div
+                      key={take.id}
+                      className={`bg-gray-800 rounded-lg p-3 ${isActive ? 'ring-2 ring-yellow-500' : ''}`}
+                    >
+                      <TakeMedia take={take} />
+                      <TakeDetails take={take} />
+                      <div className="flex items-center gap-2 mt-3">
+                        <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={compareIds.includes(take.id)}
+                            onChange={() => toggleCompare(take.id)}
+                          />
+                          Compare
+                        </label>
+                        <div className="flex-1" />
+                        {isActive ? (
+                          <span className="text-xs bg-yellow-500 text-black font-semibold px-2 py-1 rounded">Active</span>
+                        ) : (
+                          <button
+                            onClick={() => storyStore.pinTake(sceneId, shot.id, take.id)}
+                            disabled={!take.url}
+                            className="text-xs px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded transition"
+                          >
+                            Use this take
+                          </button>
+                        )}
+                        {!isUntracked && (
+                          <button
+                            onClick={() => deleteTake(take)}
+                            className="text-xs px-2 py-1 bg-red-600/80 hover:bg-red-700 rounded transition"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+});
+
+export default ShotTakes;
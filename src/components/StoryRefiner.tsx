@@ -0,0 +1,369 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
+import { storyStore, StoryData } from '@/stores/StoryStore';
+import { settingsStore } from '@/stores/SettingsStore';
+import { StoryValidationError } from '@/utils/storySchema';
+import { ShotFields, StoryPatch, StoryPatchOperation, validateStoryPatch } from '@/utils/storyPatch';
+import { RefineFocus } from '@/utils/storyRefinement';
+import { summarizeCamera } from '@/utils/camera';
+import { formatShotDuration } from '@/utils/shotDuration';
+
+const EXAMPLE_INSTRUCTIONS = [
+  'Make scene 2 darker and more tense',
+  'Split the first shot into two shots',
+  'Add a short epilogue scene',
+  'Shorten all subtitles',
+];
+
+interface FieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+interface ChangePreview {
+  kind: 'added' | 'removed' | 'changed' | 'moved';
+  label: string;
+  fields: FieldChange[];
+}
+
+function sceneLabel(story: StoryData, sceneId: string): string {
+  const index = story.scenes.findIndex(s => s.id === sceneId);
+  return index === -1 ? 'Scene' : `Scene ${index + 1}`;
+}
+
+function shotLabel(story: StoryData, sceneId: string, shotId: string): string {
+  const scene = story.scenes.find(s => s.id === sceneId);
+  const index = scene?.shots.findIndex(s => s.id === shotId) ?? -1;
+  return `${sceneLabel(story, sceneId)} · Shot ${index + 1}`;
+}
+
+// A shot field as text; camera and duration get their display labels
+function formatShotField(shot: Partial<ShotFields> | undefined, field: string): string | undefined {
+  if (field === 'camera') return summarizeCamera(shot?.camera);
+  if (field === 'duration') return shot?.duration ? formatShotDuration(shot.duration) : undefined;
+  return (shot as any)?.[field];
+}
+
+/**
+ * Turn a patch operation into a before/after preview against the current story
+ */
+function describeOperation(story: StoryData, operation: StoryPatchOperation): ChangePreview {
+  switch (operation.op) {
+    case 'update_scene': {
+      const scene = story.scenes.find(s => s.id === operation.sceneId);
+      return {
+        kind: 'changed',
+        label: `${sceneLabel(story, operation.sceneId)} updated`,
+        fields: Object.entries(operation.changes).map(([field, after]) => ({
+          field,
+          before: (scene as any)?.[field],
+          after,
+        })),
+      };
+    }
+    case 'add_scene':
+      return {
+        kind: 'added',
+        label: operation.afterSceneId
+          ? `New scene after ${sceneLabel(story, operation.afterSceneId)}`
+          : 'New scene at the end',
+        fields: [
+          { field: 'title', after: operation.scene.title },
+          { field: 'description', after: operation.scene.description },
+          ...operation.scene.shots.map((shot, i) => ({
+            field: `shot ${i + 1}`,
+            after: `${shot.subtitle} — ${shot.content}`,
+          })),
+        ],
+      };
+    case 'remove_scene': {
+      const scene = story.scenes.find(s => s.id === operation.sceneId);
+      return {
+        kind: 'removed',
+        label: `${sceneLabel(story, operation.sceneId)} removed`,
+        fields: [
+          { field: 'title', before: scene?.title },
+          { field: 'shots', before: `${scene?.shots.length ?? 0} shot(s)` },
+        ],
+      };
+    }
+    case 'reorder_scenes':
+      return {
+        kind: 'moved',
+        label: 'Scenes reordered',
+        fields: [{
+          field: 'order',
+          before: story.scenes.map((_, i) => i + 1).join(', '),
+          after: operation.sceneIds.map(id => story.scenes.findIndex(s => s.id === id) + 1).join(', '),
+        }],
+      };
+    case 'update_shot': {
+      const shot = story.scenes
+        .find(s => s.id === operation.sceneId)
+        ?.shots.find(s => s.id === operation.shotId);
+      return {
+        kind: 'changed',
+        label: `${shotLabel(story, operation.sceneId, operation.shotId)} updated`,
+        fields: Object.keys(operation.changes).map(field => ({
+          field,
+          before: formatShotField(shot, field),
+          after: formatShotField(operation.changes, field),
+        })),
+      };
+    }
+    case 'add_shot':
+      return {
+        kind: 'added',
+        label: operation.afterShotId
+          ? `New shot after ${shotLabel(story, operation.sceneId, operation.afterShotId)}`
+          : `New shot at the end of ${sceneLabel(story, operation.sceneId)}`,
+        fields: [
+          { field: 'subtitle', after: operation.shot.subtitle },
+          { field: 'location', after: operation.shot.location },
+          { field: 'content', after: operation.shot.content },
+          ...(operation.shot.camera ? [{ field: 'camera', after: summarizeCamera(operation.shot.camera) }] : []),
+          ...(operation.shot.duration ? [{ field: 'duration', after: formatShotDuration(operation.shot.duration) }] : []),
+        ],
+      };
+    case 'remove_shot': {
+      const shot = story.scenes
+        .find(s => s.id === operation.sceneId)
+        ?.shots.find(s => s.id === operation.shotId);
+      return {
+        kind: 'removed',
+        label: `${shotLabel(story, operation.sceneId, operation.shotId)} removed`,
+        fields: [
+          { field: 'subtitle', before: shot?.subtitle },
+          { field: 'content', before: shot?.content },
+        ],
+      };
+    }
+    case 'reorder_shots': {
+      const scene = story.scenes.find(s => s.id === operation.sceneId);
+      return {
+        kind: 'moved',
+        label: `${sceneLabel(story, operation.sceneId)} shots reordered`,
+        fields: [{
+          field: 'order',
+          before: scene?.shots.map((_, i) => i + 1).join(', '),
+          after: operation.shotIds.map(id => (scene?.shots.findIndex(s => s.id === id) ?? -1) + 1).join(', '),
+        }],
+      };
+    }
+  }
+}
+
+const KIND_STYLES: Record<ChangePreview['kind'], string> = {
+  added: 'border-green-700 bg-green-900/20 text-green-300',
+  removed: 'border-red-700 bg-red-900/20 text-red-300',
+  changed: 'border-yellow-700 bg-yellow-900/10 text-yellow-300',
+  moved: 'border-blue-700 bg-blue-900/20 text-blue-300',
+};
+
+const StoryRefiner = observer(() => {
+  const [instruction, setInstruction] = useState('');
+  const [scope, setScope] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<StoryValidationError[]>([]);
+  const [patch, setPatch] = useState<StoryPatch | null>(null);
+
+  const { story } = storyStore;
+
+  // scope is "" (whole story), "sceneId" or "sceneId/shotId"
+  const getFocus = (): RefineFocus | undefined => {
+    if (!scope) return undefined;
+    const [sceneId, shotId] = scope.split('/');
+    return { sceneId, ...(shotId ? { shotId } : {}) };
+  };
+
+  const requestRefinement = async () => {
+    if (!instruction.trim()) return;
+
+    setIsRefining(true);
+    setError(null);
+    setValidationErrors([]);
+    setPatch(null);
+
+    try {
+      const response = await fetch('/api/refine-story', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          story: storyStore.story,
+          instruction: instruction.trim(),
+          focus: getFocus(),
+          modelConfig: settingsStore.settings.textModel,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setValidationErrors(data.validationErrors || []);
+        throw new Error(data.error || 'Failed to refine story');
+      }
+
+      if (data.patch.operations.length === 0) {
+        setError('The model did not suggest any changes. Try a more specific instruction.');
+        return;
+      }
+
+      setPatch(data.patch);
+    } catch (err: any) {
+      console.error('Story refinement error:', err);
+      setError(err.message || 'Failed to refine story');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const applyPatch = () => {
+    if (!patch) return;
+
+    // The story may have been edited by hand since the patch was suggested
+    if (!validateStoryPatch(patch, storyStore.story).valid) {
+      setError('The story changed since these edits were suggested. Please request them again.');
+      setPatch(null);
+      return;
+    }
+
+    storyStore.applyPatch(patch);
+    setPatch(null);
+    setInstruction('');
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-bold mb-1">✨ Refine with AI</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Describe a change in plain words. You will see the proposed edits before anything is applied.
+      </p>
+
+      <div className="flex gap-3 mb-3">
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          disabled={isRefining}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500 text-sm max-w-xs"
+        >
+          <option value="">Whole story</option>
+          {story.scenes.map((scene, sceneIdx) => (
+            <optgroup key={scene.id} label={`Scene ${sceneIdx + 1}: ${scene.title}`}>
+              <option value={scene.id}>Scene {sceneIdx + 1}</option>
+              {scene.shots.map((shot, shotIdx) => (
+                <option key={shot.id} value={`${scene.id}/${shot.id}`}>
+                  Scene {sceneIdx + 1} · Shot {shotIdx + 1}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') requestRefinement();
+          }}
+          disabled={isRefining}
+          placeholder='e.g. "make scene 2 darker" or "split this shot into two"'
+          className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:border-yellow-500 text-sm"
+        />
+        <button
+          onClick={requestRefinement}
+          disabled={!instruction.trim() || isRefining}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg transition text-sm font-semibold flex items-center gap-2"
+        >
+          {isRefining ? (
+            <>
+              <div className="spinner w-4 h-4 border-2"></div>
+              Thinking...
+            </>
+          ) : (
+            'Suggest Changes'
+          )}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-2">
+        {EXAMPLE_INSTRUCTIONS.map((example) => (
+          <button
+            key={example}
+            onClick={() => setInstruction(example)}
+            disabled={isRefining}
+            className="text-xs px-3 py-1 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-full transition disabled:opacity-50"
+          >
+            {example}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+          ⚠️ {error}
+          {validationErrors.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-red-200/80 list-disc list-inside">
+              {validationErrors.map((err, idx) => (
+                <li key={idx}>
+                  {err.path && <code className="text-red-300">{err.path}</code>} {err.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Patch preview */}
+      {patch && (
+        <div className="mt-4 border border-gray-700 rounded-lg p-4">
+          {patch.summary && (
+            <p className="text-sm text-gray-300 mb-3">{patch.summary}</p>
+          )}
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {patch.operations.map((operation, idx) => {
+              const preview = describeOperation(story, operation);
+              return (
+                <div key={idx} className={`border rounded-lg p-3 ${KIND_STYLES[preview.kind]}`}>
+                  <div className="text-sm font-semibold mb-2">{preview.label}</div>
+                  <div className="space-y-2">
+                    {preview.fields.map((change, fieldIdx) => (
+                      <div key={fieldIdx} className="text-xs">
+                        <div className="text-gray-500 mb-0.5">{change.field}</div>
+                        {change.before !== undefined && change.before !== change.after && (
+                          <div className="text-red-300/80 line-through">{change.before}</div>
+                        )}
+                        {change.after !== undefined && (
+                          <div className="text-green-300">{change.after}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-3 justify-end mt-4">
+            <button
+              onClick={() => setPatch(null)}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition text-sm"
+            >
+              Discard
+            </button>
+            <button
+              onClick={applyPatch}
+              className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 text-black rounded-lg transition text-sm font-semibold"
+            >
+              Apply {patch.operations.length} Change{patch.operations.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default StoryRefiner;
@@ -2,7 +2,111 @@
 
 import { observer } from 'mobx-react-lite';
 import { storyStore } from '@/stores/StoryStore';
-import { useState } from 'react';
+import { historyStore } from '@/stores/HistoryStore';
+import { useEffect, useState } from 'react';
+import { findUnknownMentions, MentionIssue, reviewMentions } from '@/utils/mentions';
+import StoryRefiner from './StoryRefiner';
+import ShotCameraControls from './ShotCameraControls';
+import ShotDurationSelect from './ShotDurationSelect';
+
+/**
+ * Character name field that renames on blur or Enter, so every @mention is
+ * rewritten once rather than on each keystroke
+ */
+const CharacterNameInput = observer(({ index }: { index: number }) => {
+  const name = storyStore.story.characters[index].name;
+  const [draft, setDraft] = useState(name);
+
+  useEffect(() => setDraft(name), [name]);
+
+  const commit = () => {
+    const newName = draft.trim();
+    const taken = storyStore.story.characters.some(
+      (c, i) => i !== index && c.name.trim().toLowerCase() === newName.toLowerCase()
+    );
+
+    if (!newName || taken) {
+      if (taken) alert(`There is already a character named "${newName}"`);
+      setDraft(name);
+      return;
+    }
+    storyStore.renameCharacter(index, newName);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:border-yellow-500 text-sm"
+    />
+  );
+});
+
+const ISSUE_LABELS: Record<MentionIssue['kind'], string> = {
+  unknown: 'Unknown character',
+  misspelled: 'Possible misspelling',
+  unused: 'Unused character',
+};
+
+/**
+ * @mention problems across the story, with one-click fixes for misspellings
+ */
+const MentionIssues = observer(() => {
+  const issues = reviewMentions(storyStore.story);
+  if (issues.length === 0) return null;
+
+  const addCharacter = (name: string) => {
+    storyStore.addCharacter({ name, description: '' });
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-6 mb-6 border border-yellow-700/50">
+      <h2 className="text-xl font-bold mb-1">⚠️ Character Check</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Shots refer to characters as @Name; only mentioned characters get their reference images
+      </p>
+      <ul className="space-y-2">
+        {issues.map(issue => (
+          <li key={`${issue.kind}-${issue.name}`} className="flex items-start justify-between gap-4 p-3 bg-gray-800 rounded-lg text-sm">
+            <div>
+              <span className={issue.kind === 'unused' ? 'text-gray-400' : 'text-yellow-400'}>
+                {ISSUE_LABELS[issue.kind]}:
+              </span>{' '}
+              {issue.kind === 'unused' ? (
+                <>{issue.name} is not in any shot</>
+              ) : (
+                <>
+                  @{issue.name}
+                  {issue.suggestion && <> (did you mean @{issue.suggestion}?)</>}
+                  <span className="text-gray-500"> in {issue.shots.map(shot => shot.label).join(', ')}</span>
+                </>
+              )}
+            </div>
+            {issue.kind === 'misspelled' && (
+              <button
+                onClick={() => storyStore.replaceMention(issue.name, issue.suggestion!)}
+                className="shrink-0 text-xs px-2 py-1 bg-yellow-500 hover:bg-yellow-600 text-black rounded transition"
+              >
+                Change to @{issue.suggestion}
+              </button>
+            )}
+            {issue.kind === 'unknown' && (
+              <button
+                onClick={() => addCharacter(issue.name)}
+                className="shrink-0 text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded transition"
+              >
+                Add as character
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
 
 const StoryReview = observer(() => {
   const [editingScene, setEditingScene] = useState<string | null>(null);
@@ -14,7 +118,7 @@ const StoryReview = observer(() => {
 
   const handleRegenerate = () => {
     if (confirm('Regenerate story? Current content will be overwritten.')) {
-      storyStore.reset();
+      historyStore.startOver(() => storyStore.reset());
     }
   };
 
@@ -100,14 +204,7 @@ const StoryReview = observer(() => {
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium mb-2">Character Name</label>
-                    <input
-                      type="text"
-                      value={character.name}
-                      onChange={(e) =>
-                        storyStore.updateCharacter(index, { name: e.target.value })
-                      }
-                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:border-yellow-500 text-sm"
-                    />
+                    <CharacterNameInput index={index} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium mb-2">Character Description</label>
@@ -138,6 +235,11 @@ const StoryReview = observer(() => {
         </div>
       )}
 
+      <MentionIssues />
+
+      {/* Natural-language edits */}
+      <StoryRefiner />
+
       {/* Scenes */}
       <div className="space-y-6 mb-6">
         {storyStore.story.scenes.map((scene) => (
@@ -170,7 +272,7 @@ const StoryReview = observer(() => {
                   key={shot.id}
                   className="bg-gray-800 rounded-lg p-4 border border-gray-700"
                 >
-                  <div className="grid grid-cols-3 gap-3 mb-2">
+                  <div className="grid grid-cols-4 gap-3 mb-2">
                     <div>
                       <label className="block text-xs font-medium mb-1 text-gray-400">
                         Shot Subtitle
@@ -197,6 +299,16 @@ const StoryReview = observer(() => {
                         className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:border-yellow-500 text-sm"
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs font-medium mb-1 text-gray-400">
+                        Duration
+                      </label>
+                      <ShotDurationSelect
+                        sceneId={scene.id}
+                        shot={shot}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:border-yellow-500 text-sm"
+                      />
+                    </div>
                   </div>
                   <div>
                     <label className="block text-xs font-medium mb-1 text-gray-400">
@@ -210,7 +322,20 @@ const StoryReview = observer(() => {
                       rows={3}
                       className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:outline-none focus:border-yellow-500 text-sm"
                     />
+                    <div className="flex flex-wrap gap-1 mt-2 text-xs">
+                      <span className="text-gray-500">Cast:</span>
+                      {(shot.cast || []).length === 0 && <span className="text-gray-500">none</span>}
+                      {(shot.cast || []).map(name => (
+                        <span key={name} className="px-2 py-0.5 bg-purple-600/40 rounded-full">{name}</span>
+                      ))}
+                      {findUnknownMentions(shot.content, storyStore.story.characters).map(name => (
+                        <span key={name} className="px-2 py-0.5 bg-red-600/40 text-red-200 rounded-full" title="Not a defined character">
+                          @{name}?
+                        </span>
+                      ))}
+                    </div>
                   </div>
+                  <ShotCameraControls sceneId={scene.id} shot={shot} />
                 </div>
               ))}
             </div>
@@ -2,15 +2,25 @@
 
 import { observer } from 'mobx-react-lite';
 import { storyStore, Shot } from '@/stores/StoryStore';
-import { settingsStore } from '@/stores/SettingsStore';
 import { useState, useEffect } from 'react';
-import Image from 'next/image';
+import { generateShotImage, getShotTasks } from '@/lib/generation';
+import { uploadShotMedia } from '@/lib/mediaUpload';
+import { summarizeCamera } from '@/utils/camera';
+import { formatShotDuration, getShotDuration } from '@/utils/shotDuration';
 import CharacterGenerator from './CharacterGenerator';
+import LocationLibrary from './LocationLibrary';
+import ShotTakes from './ShotTakes';
+import ShotCast from './ShotCast';
+import ShotCharacterLooks from './ShotCharacterLooks';
+import ShotLocation from './ShotLocation';
+import { AssetImage } from './AssetMedia';
+import MediaUploadButton from './MediaUploadButton';
+import { generationStore, describeBatchFailures } from '@/stores/GenerationStore';
+import GenerationBatchControls from './GenerationBatchControls';
 
 const Storyboard = observer(() => {
-  const [generatingAll, setGeneratingAll] = useState(false);
   const [selectedShots, setSelectedShots] = useState<Set<string>>(new Set());
-  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const imageBatch = generationStore.getActiveBatch('image');
 
   // Reset stuck generation states on component mount
   useEffect(() => {
@@ -35,83 +45,25 @@ const Storyboard = observer(() => {
 
   const generateImage = async (sceneId: string, shot: Shot) => {
     try {
-      storyStore.setGeneratingShot(sceneId, shot.id, true);
-
-      // Check if we have character references
-      const characterReferences = storyStore.getCharacterReferences();
-      const hasCharacterRefs = Object.keys(characterReferences).length > 0;
-
-      // Use character-aware API if references exist
-      const apiEndpoint = hasCharacterRefs
-        ? '/api/generate-image-with-character'
-        : '/api/generate-image';
-
-      const response = await fetch(apiEndpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt: `${shot.location}. ${shot.content}`,
-          style: storyStore.story.style,
-          aspectRatio: storyStore.story.aspectRatio,
-          characterReferences: hasCharacterRefs ? characterReferences : undefined,
-          modelConfig: settingsStore.settings.imageModel,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.error) {
-        throw new Error(data.error);
-      }
-
-      storyStore.updateShot(sceneId, shot.id, {
-        imageUrl: data.imageUrl,
-        isGenerating: false,
-      });
+      await generateShotImage(sceneId, shot);
     } catch (error) {
       console.error('Failed to generate image:', error);
-      storyStore.setGeneratingShot(sceneId, shot.id, false);
       alert('Failed to generate image. Check console for details.');
     }
   };
 
   const generateAllImages = async () => {
-    setGeneratingAll(true);
-
     // Collect all shots that need generation
-    const shotsToGenerate: Array<{ sceneId: string; shot: Shot }> = [];
-    for (const scene of storyStore.story.scenes) {
-      for (const shot of scene.shots) {
-        if (!shot.imageUrl && !shot.isGenerating) {
-          shotsToGenerate.push({ sceneId: scene.id, shot });
-        }
-      }
-    }
-
-    setProgress({ current: 0, total: shotsToGenerate.length });
-
-    // Generate with concurrency limit (5 at a time to avoid rate limits)
-    const concurrency = 5;
-    let completed = 0;
-
-    for (let i = 0; i < shotsToGenerate.length; i += concurrency) {
-      const batch = shotsToGenerate.slice(i, i + concurrency);
-      await Promise.all(
-        batch.map(async ({ sceneId, shot }) => {
-          await generateImage(sceneId, shot);
-          completed++;
-          setProgress({ current: completed, total: shotsToGenerate.length });
-        })
-      );
-
-      // Small delay between batches to be safe
-      if (i + concurrency < shotsToGenerate.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+    const tasks = getShotTasks(shot => !shot.imageUrl && !shot.isGenerating, generateShotImage);
+    if (tasks.length === 0) return;
+
+    // Concurrency, retries and rate limits are handled by the scheduler;
+    // each image is its own undo step
+    const result = await generationStore.runBatch('image', 'Generating images', tasks);
+    const failures = describeBatchFailures(result, tasks.length);
+    if (failures) {
+      alert(`Some images could not be generated.\n\n${failures}`);
     }
-
-    setGeneratingAll(false);
-    setProgress({ current: 0, total: 0 });
   };
 
   const toggleShotSelection = (shotId: string) => {
@@ -158,10 +110,10 @@ const Storyboard = observer(() => {
           </button>
           <button
             onClick={generateAllImages}
-            disabled={generatingAll}
+            disabled={!!imageBatch}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition"
           >
-            {generatingAll ? `Generating... (${progress.current}/${progress.total})` : 'Generate All Images'}
+            {imageBatch ? 'Generating...' : 'Generate All Images'}
           </button>
           {hasImages && (
             <>
@@ -183,8 +135,11 @@ const Storyboard = observer(() => {
         </div>
       </div>
 
+      <GenerationBatchControls kind="image" className="mb-6" />
+
       {/* Character Reference Generator */}
       <CharacterGenerator />
+      <LocationLibrary />
 
       <div className="space-y-8">
         {storyStore.story.scenes.map((scene) => (
@@ -206,7 +161,7 @@ const Storyboard = observer(() => {
                       <div className="spinner"></div>
                     ) : shot.imageUrl ? (
                       <>
-                        <Image
+                        <AssetImage
                           src={shot.imageUrl}
                           alt={shot.subtitle}
                           fill
@@ -228,22 +183,50 @@ const Storyboard = observer(() => {
                         >
                           🔄 Regenerate
                         </button>
+                        <MediaUploadButton
+                          kind="image"
+                          onUpload={file => uploadShotMedia(scene.id, shot.id, 'image', file)}
+                          className="absolute bottom-2 left-2 px-2 py-1 bg-gray-700/90 hover:bg-gray-600 rounded text-xs transition"
+                          title="Upload an image as a new take"
+                        >
+                          ⬆️ Upload
+                        </MediaUploadButton>
                       </>
                     ) : (
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          generateImage(scene.id, shot);
-                        }}
-                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded transition"
-                      >
-                        Generate Image
-                      </button>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            generateImage(scene.id, shot);
+                          }}
+                          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded transition"
+                        >
+                          Generate Image
+                        </button>
+                        <MediaUploadButton
+                          kind="image"
+                          onUpload={file => uploadShotMedia(scene.id, shot.id, 'image', file)}
+                          className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded transition"
+                          title="Use your own image for this shot"
+                        >
+                          ⬆️ Upload
+                        </MediaUploadButton>
+                      </div>
                     )}
                   </div>
-                  <h3 className="font-semibold mb-1">{shot.subtitle}</h3>
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <h3 className="font-semibold">{shot.subtitle}</h3>
+                    <ShotTakes sceneId={scene.id} shot={shot} kind="image" />
+                  </div>
                   <p className="text-sm text-gray-400 mb-1">{shot.location}</p>
+                  <p className="text-xs text-gray-500 mb-1">
+                    ⏱ {formatShotDuration(getShotDuration(shot))}
+                    {shot.camera && <> · 🎥 {summarizeCamera(shot.camera)}</>}
+                  </p>
                   <p className="text-sm text-gray-300">{shot.content}</p>
+                  <ShotCast sceneId={scene.id} shot={shot} />
+                  <ShotCharacterLooks sceneId={scene.id} shot={shot} />
+                  <ShotLocation sceneId={scene.id} shot={shot} />
                 </div>
               ))}
             </div>
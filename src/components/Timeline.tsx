@@ -0,0 +1,499 @@
+'use client';
+
+import { observer } from 'mobx-react-lite';
+import { PointerEvent, useEffect, useState } from 'react';
+import { storyStore, StoryData, TimelineClip } from '@/stores/StoryStore';
+import type { TransitionType } from '@/lib/renderService';
+import { measureShotTiming, ShotTiming } from '@/lib/clipFitting';
+import { useAssetUrl } from '@/hooks/useAssetUrl';
+import { formatShotDuration, getShotDuration } from '@/utils/shotDuration';
+import {
+  getClipRange,
+  getTimelineEntries,
+  isClipEdited,
+  MAX_AUDIO_OFFSET_SECONDS,
+  MIN_CLIP_SECONDS,
+  TimelineEntry,
+} from '@/utils/timeline';
+import { loadWaveform, Waveform } from '@/utils/waveform';
+import { getTransitionSeconds, isTransitionType, MAX_TRANSITION_SECONDS, TRANSITION_TYPES } from '@/services/ffmpeg/transitions';
+import { AssetImage } from './AssetMedia';
+
+const ZOOM_LEVELS = [20, 40, 80];   // Pixels per second
+const DEFAULT_ZOOM = 40;
+const SCENE_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-pink-500', 'bg-orange-500', 'bg-teal-500'];
+const DEFAULT_TRANSITION_SECONDS = 0.5;
+
+const TRANSITION_LABELS: Record<TransitionType, string> = {
+  cut: 'Cut',
+  crossfade: 'Crossfade',
+  'fade-black': 'Fade through black',
+  'dip-white': 'Dip to white',
+};
+
+const TRANSITION_ICONS: Record<TransitionType, string> = {
+  cut: '',
+  crossfade: '⨯',
+  'fade-black': '■',
+  'dip-white': '□',
+};
+
+type EditField = 'inPoint' | 'outPoint' | 'audioOffset';
+
+// A trim or narration move in progress; written to the store on release
+interface DragEdit {
+  shotId: string;
+  field: EditField;
+  startX: number;
+  startValue: number;
+  value: number;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
+
+function formatSeconds(seconds: number): string {
+  return formatShotDuration(round(seconds));
+}
+
+/**
+ * Keep an edit inside the clip (or the offset range)
+ */
+function clampEdit(field: EditField, value: number, clip: TimelineClip, clipSeconds?: number): number {
+  const range = getClipRange(clip, clipSeconds);
+  if (field === 'inPoint') {
+    return Math.max(0, Math.min(value, (range.outPoint ?? Infinity) - MIN_CLIP_SECONDS));
+  }
+  if (field === 'outPoint') {
+    return Math.min(clipSeconds ?? Infinity, Math.max(value, range.inPoint + MIN_CLIP_SECONDS));
+  }
+  return Math.max(-MAX_AUDIO_OFFSET_SECONDS, Math.min(value, MAX_AUDIO_OFFSET_SECONDS));
+}
+
+/**
+ * Store an edit; values at their default are removed
+ */
+function commitEdit(shotId: string, field: EditField, value: number, clipSeconds?: number) {
+  const rounded = round(value);
+  const isDefault = field === 'outPoint'
+    ? clipSeconds !== undefined && rounded >= round(clipSeconds)
+    : rounded === 0;
+  storyStore.updateTimelineClip(shotId, { [field]: isDefault ? undefined : rounded });
+}
+
+function NarrationWaveform({ url }: { url: string }) {
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    loadWaveform(url)
+      .then(result => {
+        if (!cancelled) setWaveform(result);
+      })
+      .catch(error => console.warn('Could not draw waveform:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  if (!waveform) {
+    return <div className="w-full h-full bg-green-900/40 rounded" />;
+  }
+  return (
+    <svg viewBox={`0 0 ${waveform.peaks.length} 100`} preserveAspectRatio="none" className="w-full h-full">
+      {waveform.peaks.map((peak, i) => (
+        <rect key={i} x={i} y={50 - peak * 48} width={0.8} height={Math.max(1, peak * 96)} className="fill-green-400" />
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Plays the selected clip between its in and out points
+ */
+function ClipPreview({ url, inPoint, outPoint }: { url: string; inPoint: number; outPoint?: number }) {
+  const playable = useAssetUrl(url);
+  if (!playable) return null;
+  const fragment = `#t=${inPoint.toFixed(2)}${outPoint !== undefined ? `,${outPoint.toFixed(2)}` : ''}`;
+  return <video key={fragment} src={`${playable}${fragment}`} controls className="w-full rounded bg-black" />;
+}
+
+/**
+ * Transition into a clip from the one before; its audio crossfades alike
+ */
+function TransitionControls({ clip }: { clip: TimelineClip }) {
+  const transition = clip.transition;
+  const type = transition?.type || 'cut';
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <label className="block">
+        <span className="text-gray-400">Transition in</span>
+        <select
+          value={type}
+          onChange={(e) => {
+            const value = e.target.value;
+            if (!isTransitionType(value)) return;
+            storyStore.updateTimelineClip(clip.shotId, {
+              transition: value === 'cut'
+                ? undefined
+                : { type: value, duration: transition?.duration ?? DEFAULT_TRANSITION_SECONDS },
+            });
+          }}
+          className="w-full mt-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded"
+        >
+          {TRANSITION_TYPES.map(option => (
+            <option key={option} value={option}>{TRANSITION_LABELS[option]}</option>
+          ))}
+        </select>
+      </label>
+      {transition && transition.type !== 'cut' && (
+        <label className="block">
+          <span className="text-gray-400">Length (s)</span>
+          <input
+            type="number"
+            step={0.1}
+            min={0.1}
+            max={MAX_TRANSITION_SECONDS}
+            value={transition.duration}
+            onChange={(e) => {
+              const seconds = parseFloat(e.target.value);
+              if (Number.isFinite(seconds) && seconds > 0) {
+                storyStore.updateTimelineClip(clip.shotId, {
+                  transition: { ...transition, duration: round(Math.min(seconds, MAX_TRANSITION_SECONDS)) },
+                });
+              }
+            }}
+            className="w-full mt-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+interface ClipInspectorProps {
+  entry: TimelineEntry;
+  timing?: ShotTiming;
+  isFirst: boolean;            // No transition into the first clip
+}
+
+function ClipInspector({ entry, timing, isFirst }: ClipInspectorProps) {
+  const { shot, clip } = entry;
+  const clipSeconds = timing?.clipSeconds;
+  const range = getClipRange(clip, clipSeconds);
+
+  const numberField = (label: string, field: EditField, value: number, min: number, max?: number) => (
+    <label className="block">
+      <span className="text-gray-400">{label}</span>
+      <input
+        type="number"
+        step={0.1}
+        min={min}
+        max={max}
+        value={round(value)}
+        onChange={(e) => {
+          const seconds = parseFloat(e.target.value);
+          if (Number.isFinite(seconds)) {
+            commitEdit(shot.id, field, clampEdit(field, seconds, clip, clipSeconds), clipSeconds);
+          }
+        }}
+        className="w-full mt-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded"
+      />
+    </label>
+  );
+
+  return (
+    <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+      <div>
+        {shot.animationUrl ? (
+          <ClipPreview url={shot.animationUrl} inPoint={range.inPoint} outPoint={range.outPoint} />
+        ) : (
+          <p className="text-gray-400">Still image, shown for {formatShotDuration(getShotDuration(shot))}</p>
+        )}
+      </div>
+      <div className="space-y-2">
+        {!isFirst && <TransitionControls clip={clip} />}
+        {shot.animationUrl && (
+          <div className="grid grid-cols-2 gap-2">
+            {numberField('In (s)', 'inPoint', range.inPoint, 0, clipSeconds)}
+            {numberField('Out (s)', 'outPoint', range.outPoint ?? clipSeconds ?? 0, MIN_CLIP_SECONDS, clipSeconds)}
+          </div>
+        )}
+        {shot.audioUrl && numberField(
+          'Narration offset (s)',
+          'audioOffset',
+          clip.audioOffset || 0,
+          -MAX_AUDIO_OFFSET_SECONDS,
+          MAX_AUDIO_OFFSET_SECONDS
+        )}
+      </div>
+      <div className="space-y-1 text-xs text-gray-400">
+        <p className="line-clamp-3">{shot.subtitle}</p>
+        {clipSeconds !== undefined && (
+          <p>Clip {formatSeconds(clipSeconds)}{range.length !== undefined && range.length < clipSeconds ? ` · trimmed to ${formatSeconds(range.length)}` : ''}</p>
+        )}
+        {timing?.narrationSeconds !== undefined && <p>Narration {formatSeconds(timing.narrationSeconds)}</p>}
+        <p className="text-gray-500">Shots are fitted to their narration at export (see Fit to narration)</p>
+        {isClipEdited(clip) && (
+          <button
+            onClick={() => storyStore.updateTimelineClip(shot.id, {
+              inPoint: undefined,
+              outPoint: undefined,
+              audioOffset: undefined,
+              transition: undefined,
+            })}
+            className="mt-2 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-200"
+          >
+            ↺ Reset clip
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Shots without an image or animation have nothing to show on the timeline
+function getShownEntries(story: StoryData): TimelineEntry[] {
+  return getTimelineEntries(story).filter(entry => entry.shot.animationUrl || entry.shot.imageUrl);
+}
+
+/**
+ * Timeline of the story's clips and narration: drag clips to reorder them
+ * across scenes, drag their edges to trim and a waveform to move narration;
+ * the selected clip's transition and exact times are set below the tracks.
+ * Edits are saved on the story as its edit decision list and used by every
+ * export.
+ */
+const Timeline = observer(({ className = '' }: { className?: string }) => {
+  const [timings, setTimings] = useState<Record<string, ShotTiming>>({});
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragEdit | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
+
+  const allEntries = getTimelineEntries(storyStore.story);
+  const entries = getShownEntries(storyStore.story);
+  const sceneIndex = new Map(storyStore.story.scenes.map((scene, index) => [scene.id, index]));
+
+  // Measure again when a shot's media changes
+  const mediaKey = entries.map(({ shot }) => [shot.id, shot.animationUrl, shot.audioUrl].join('|')).join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(getShownEntries(storyStore.story).map(async ({ shot }) => [shot.id, await measureShotTiming(shot)] as const))
+      .then(results => {
+        if (!cancelled) setTimings(Object.fromEntries(results));
+      })
+      .catch(error => console.error('Failed to measure clips:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaKey]);
+
+  if (entries.length === 0) return null;
+
+  // The stored clip, with any edit being dragged
+  const currentClip = ({ shot, clip }: TimelineEntry): TimelineClip =>
+    drag && drag.shotId === shot.id ? { ...clip, [drag.field]: drag.value } : clip;
+
+  const shownSeconds = (entry: TimelineEntry): number => {
+    const clipSeconds = timings[entry.shot.id]?.clipSeconds;
+    if (!entry.shot.animationUrl) return getShotDuration(entry.shot);
+    return getClipRange(currentClip(entry), clipSeconds).length ?? getShotDuration(entry.shot);
+  };
+
+  const startDrag = (e: PointerEvent<HTMLElement>, shotId: string, field: EditField, value: number) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setSelectedId(shotId);
+    setDrag({ shotId, field, startX: e.clientX, startValue: value, value });
+  };
+
+  const moveDrag = (e: PointerEvent<HTMLElement>, entry: TimelineEntry) => {
+    if (!drag || drag.shotId !== entry.shot.id) return;
+    // Dragging a clip's start edge right moves its in point later
+    const value = drag.startValue + (e.clientX - drag.startX) / zoom;
+    setDrag({ ...drag, value: clampEdit(drag.field, value, entry.clip, timings[entry.shot.id]?.clipSeconds) });
+  };
+
+  const endDrag = () => {
+    if (!drag) return;
+    if (round(drag.value) !== round(drag.startValue)) {
+      commitEdit(drag.shotId, drag.field, drag.value, timings[drag.shotId]?.clipSeconds);
+    }
+    setDrag(null);
+  };
+
+  const dropOn = (shotId: string) => {
+    if (movingId && movingId !== shotId) {
+      storyStore.moveTimelineClip(movingId, allEntries.findIndex(entry => entry.shot.id === shotId));
+    }
+    setMovingId(null);
+  };
+
+  // Transitions overlap the clips on either side
+  const totalSeconds = entries.reduce((total, entry, i) => total + shownSeconds(entry) - (i > 0
+    ? getTransitionSeconds(entry.clip.transition, shownSeconds(entries[i - 1]), shownSeconds(entry))
+    : 0), 0);
+  const selected = entries.find(entry => entry.shot.id === selectedId);
+
+  return (
+    <div className={`bg-gray-900 rounded-lg p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-lg font-bold">🎞️ Timeline</h2>
+          <p className="text-xs text-gray-400">
+            {entries.length} shots · {formatSeconds(totalSeconds)} before fitting to narration. Drag clips to reorder, their edges to trim, narration to move it
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => setZoom(ZOOM_LEVELS[Math.max(0, ZOOM_LEVELS.indexOf(zoom) - 1)])}
+            disabled={zoom === ZOOM_LEVELS[0]}
+            className="w-8 h-8 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded"
+            title="Zoom out"
+          >
+            −
+          </button>
+          <button
+            onClick={() => setZoom(ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, ZOOM_LEVELS.indexOf(zoom) + 1)])}
+            disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+            className="w-8 h-8 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded"
+            title="Zoom in"
+          >
+            +
+          </button>
+          {storyStore.story.timeline && (
+            <button
+              onClick={() => storyStore.resetTimeline()}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+              title="Back to story order without trims"
+            >
+              ↺ Reset
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex flex-col gap-1 min-w-full">
+          {/* Video track */}
+          <div className="flex gap-0.5">
+            {entries.map((entry, position) => {
+              const { shot, sceneId } = entry;
+              const clip = currentClip(entry);
+              const transition = position > 0 ? clip.transition : undefined;
+              const clipSeconds = timings[shot.id]?.clipSeconds;
+              const range = getClipRange(clip, clipSeconds);
+              const index = sceneIndex.get(sceneId) ?? 0;
+              const scene = storyStore.story.scenes[index];
+              const shotNumber = (scene?.shots.findIndex(s => s.id === shot.id) ?? 0) + 1;
+
+              return (
+                <div
+                  key={shot.id}
+                  style={{ width: shownSeconds(entry) * zoom }}
+                  className={`relative h-16 flex-shrink-0 rounded overflow-hidden bg-gray-700 ${
+                    selectedId === shot.id ? 'ring-2 ring-yellow-500' : ''
+                  } ${movingId && movingId !== shot.id ? 'hover:ring-2 hover:ring-blue-400' : ''}`}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => dropOn(shot.id)}
+                >
+                  <div
+                    draggable
+                    onDragStart={() => setMovingId(shot.id)}
+                    onDragEnd={() => setMovingId(null)}
+                    onClick={() => setSelectedId(shot.id)}
+                    className="absolute inset-0 cursor-grab"
+                    title={`${scene?.title || ''} · Shot ${shotNumber}: ${shot.subtitle}`}
+                  >
+                    {shot.imageUrl && (
+                      <AssetImage src={shot.imageUrl} alt="" fill className="object-cover opacity-60 pointer-events-none" unoptimized />
+                    )}
+                    <div className={`absolute top-0 left-0 right-0 h-1 ${SCENE_COLORS[index % SCENE_COLORS.length]}`} />
+                    {transition && transition.type !== 'cut' && (
+                      <span
+                        className="absolute top-1.5 left-3 text-[10px] bg-gray-900/80 px-1 rounded"
+                        title={`${TRANSITION_LABELS[transition.type]} ${formatSeconds(transition.duration)}`}
+                      >
+                        {TRANSITION_ICONS[transition.type]} {formatSeconds(transition.duration)}
+                      </span>
+                    )}
+                    <div className="absolute bottom-1 left-2 right-2 text-[10px] leading-tight truncate">
+                      S{index + 1}·{shotNumber} {shot.animationUrl ? formatSeconds(shownSeconds(entry)) : 'Still'}
+                    </div>
+                  </div>
+
+                  {shot.animationUrl && (
+                    <>
+                      <div
+                        onPointerDown={(e) => startDrag(e, shot.id, 'inPoint', range.inPoint)}
+                        onPointerMove={(e) => moveDrag(e, entry)}
+                        onPointerUp={endDrag}
+                        className="absolute left-0 top-0 bottom-0 w-2 bg-yellow-500/60 hover:bg-yellow-400 cursor-ew-resize"
+                        title={`In ${formatSeconds(range.inPoint)}`}
+                      />
+                      <div
+                        onPointerDown={(e) => startDrag(e, shot.id, 'outPoint', range.outPoint ?? clipSeconds ?? 0)}
+                        onPointerMove={(e) => moveDrag(e, entry)}
+                        onPointerUp={endDrag}
+                        className="absolute right-0 top-0 bottom-0 w-2 bg-yellow-500/60 hover:bg-yellow-400 cursor-ew-resize"
+                        title={`Out ${range.outPoint !== undefined ? formatSeconds(range.outPoint) : 'end'}`}
+                      />
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Narration track */}
+          <div className="flex gap-0.5">
+            {entries.map((entry) => {
+              const { shot } = entry;
+              const width = shownSeconds(entry) * zoom;
+              const narrationSeconds = timings[shot.id]?.narrationSeconds;
+              const offset = currentClip(entry).audioOffset || 0;
+              const overrun = narrationSeconds ? narrationSeconds + offset - shownSeconds(entry) : 0;
+
+              return (
+                <div
+                  key={shot.id}
+                  style={{ width }}
+                  className="relative h-10 flex-shrink-0 rounded overflow-hidden bg-gray-800"
+                >
+                  {shot.audioUrl && (
+                    <div
+                      onPointerDown={(e) => startDrag(e, shot.id, 'audioOffset', offset)}
+                      onPointerMove={(e) => moveDrag(e, entry)}
+                      onPointerUp={endDrag}
+                      style={{ left: offset * zoom, width: (narrationSeconds || shownSeconds(entry)) * zoom }}
+                      className="absolute top-0 bottom-0 cursor-ew-resize"
+                      title={`Narration${offset ? ` moved ${formatSeconds(offset)}` : ''}`}
+                    >
+                      <NarrationWaveform url={shot.audioUrl} />
+                    </div>
+                  )}
+                  {overrun > 0.05 && (
+                    <span className="absolute top-0.5 right-1 text-[10px] text-yellow-300 bg-gray-900/80 px-1 rounded">
+                      +{formatSeconds(overrun)}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {selected && (
+        <ClipInspector entry={selected} timing={timings[selected.shot.id]} isFirst={entries[0] === selected} />
+      )}
+    </div>
+  );
+});
+
+export default Timeline;
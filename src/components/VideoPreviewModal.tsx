@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { observer } from 'mobx-react-lite';
 import { settingsStore } from '@/stores/SettingsStore';
+import { useAssetUrl } from '@/hooks/useAssetUrl';
 
 interface VideoPreviewModalProps {
   videoUrl: string;
@@ -12,11 +13,14 @@ interface VideoPreviewModalProps {
 }
 
 const VideoPreviewModal = observer(({
-  videoUrl,
-  audioUrl,
+  videoUrl: videoSrc,
+  audioUrl: audioSrc,
   subtitle,
   onClose,
 }: VideoPreviewModalProps) => {
+  // Either may be an asset reference
+  const videoUrl = useAssetUrl(videoSrc);
+  const audioUrl = useAssetUrl(audioSrc);
   const [mergedUrl, setMergedUrl] = useState<string | null>(null);
   const containerRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
@@ -24,7 +28,7 @@ const VideoPreviewModal = observer(({
   useEffect(() => {
     // For preview, never merge - just play video directly
     // Audio will be played separately via HTML5 audio element
-    setMergedUrl(videoUrl);
+    setMergedUrl(videoUrl || null);
 
     return () => {
       // Cleanup blob URL
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { assetStore } from '@/lib/assetStore';
+
+/**
+ * Playable URL for a media field that may hold an `asset:` reference
+ * Starts with the server route and switches to the IndexedDB copy once loaded
+ */
+export function useAssetUrl(url: string | undefined): string | undefined {
+  const [resolved, setResolved] = useState(() => assetStore.getCachedUrl(url));
+
+  useEffect(() => {
+    setResolved(assetStore.getCachedUrl(url));
+    if (!url) return;
+
+    let cancelled = false;
+    assetStore.resolveUrl(url).then(playable => {
+      if (!cancelled) setResolved(playable);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return resolved;
+}
@@ -0,0 +1,240 @@
+/**
+ * Content-addressed asset store in IndexedDB
+ * Keeps a local copy of every generated image, video and audio file next to
+ * the saved projects, keyed by SHA-256, so projects no longer depend on
+ * provider URLs that expire. The server keeps the same files under the same
+ * hashes (see serverAssetStore); either copy can restore the other.
+ */
+
+import { projectDB, ASSET_STORE_NAME } from './projectDB';
+import {
+  getAssetHash,
+  getAssetPath,
+  guessMimeType,
+  isAssetRef,
+  toAssetRef,
+} from '@/utils/assetRef';
+
+export interface StoredAsset {
+  hash: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  sourceUrl?: string;
+}
+
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+class AssetStore {
+  // Object URLs handed out for rendering, one per hash
+  private objectUrls = new Map<string, string>();
+  // Server uploads in flight, so the same asset is not sent twice
+  private uploads = new Map<string, Promise<void>>();
+
+  /**
+   * Get an asset from IndexedDB
+   */
+  async get(hash: string): Promise<StoredAsset | null> {
+    const db = await projectDB.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([ASSET_STORE_NAME], 'readonly');
+      const request = transaction.objectStore(ASSET_STORE_NAME).get(hash);
+
+      request.onsuccess = () => {
+        resolve(request.result || null);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get asset'));
+      };
+    });
+  }
+
+  /**
+   * Store a blob under its hash and return an `asset:` reference
+   */
+  async put(blob: Blob, sourceUrl?: string): Promise<string> {
+    const hash = await hashBlob(blob);
+    const ref = toAssetRef(hash);
+
+    if (await this.get(hash)) return ref;
+
+    const asset: StoredAsset = {
+      hash,
+      blob,
+      mimeType: blob.type || guessMimeType(sourceUrl || ''),
+      size: blob.size,
+      createdAt: Date.now(),
+      ...(sourceUrl ? { sourceUrl } : {}),
+    };
+
+    const db = await projectDB.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([ASSET_STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(ASSET_STORE_NAME).put(asset);
+
+      request.onsuccess = () => {
+        resolve(ref);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to save asset to IndexedDB'));
+      };
+    });
+  }
+
+  /**
+   * Download any URL (including data: URLs) into the store
+   */
+  async importUrl(url: string): Promise<string> {
+    if (isAssetRef(url)) {
+      await this.cacheFromServer(url);
+      return url;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download asset: ${response.status}`);
+    }
+    const blob = await response.blob();
+    const ref = await this.put(blob, url.startsWith('data:') ? undefined : url);
+
+    this.ensureOnServer(ref).catch(error => {
+      console.warn('Failed to copy asset to server:', error);
+    });
+    return ref;
+  }
+
+  /**
+   * Copy an asset the server just generated into IndexedDB in the background
+   * Remote URLs (kept when the server could not download them) are ignored
+   */
+  keepLocalCopy(url: string | undefined): void {
+    if (!url || !isAssetRef(url)) return;
+
+    this.cacheFromServer(url).catch(error => {
+      console.warn('Failed to keep a local copy of generated media:', error);
+    });
+  }
+
+  /**
+   * Keep a local copy of an asset the server just stored
+   */
+  async cacheFromServer(ref: string): Promise<void> {
+    const hash = getAssetHash(ref);
+    if (await this.get(hash)) return;
+
+    const response = await fetch(getAssetPath(hash));
+    if (!response.ok) {
+      throw new Error(`Asset ${hash} is not available on the server`);
+    }
+
+    const storedRef = await this.put(await response.blob(), getAssetPath(hash));
+    if (storedRef !== ref) {
+      throw new Error(`Asset ${hash} failed its checksum`);
+    }
+  }
+
+  /**
+   * Make sure the server has an asset, uploading the local copy if needed
+   * Needed before the server passes the asset to a model
+   */
+  async ensureOnServer(ref: string): Promise<void> {
+    if (!isAssetRef(ref)) return;
+    const hash = getAssetHash(ref);
+
+    const pending = this.uploads.get(hash);
+    if (pending) return pending;
+
+    const upload = (async () => {
+      const head = await fetch(getAssetPath(hash), { method: 'HEAD' });
+      if (head.ok) return;
+
+      const asset = await this.get(hash);
+      if (!asset) {
+        throw new Error(`Asset ${hash} is missing locally and on the server`);
+      }
+
+      const response = await fetch('/api/assets', {
+        method: 'POST',
+        headers: { 'Content-Type': asset.mimeType },
+        body: asset.blob,
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to upload asset');
+      }
+    })();
+
+    this.uploads.set(hash, upload);
+    try {
+      await upload;
+    } finally {
+      this.uploads.delete(hash);
+    }
+  }
+
+  /**
+   * URL to use right now for a media field
+   * Returns the local object URL once loaded, otherwise the server route;
+   * non-asset URLs are returned unchanged
+   */
+  getCachedUrl(url: string): string;
+  getCachedUrl(url: string | undefined): string | undefined;
+  getCachedUrl(url: string | undefined): string | undefined {
+    if (!url || !isAssetRef(url)) return url;
+    const hash = getAssetHash(url);
+    return this.objectUrls.get(hash) || getAssetPath(hash);
+  }
+
+  /**
+   * Resolve a media field to a playable URL, preferring the local copy
+   */
+  async resolveUrl(url: string): Promise<string> {
+    if (!isAssetRef(url)) return url;
+    const hash = getAssetHash(url);
+
+    const cached = this.objectUrls.get(hash);
+    if (cached) return cached;
+
+    try {
+      const asset = await this.get(hash);
+      if (asset) {
+        const objectUrl = URL.createObjectURL(asset.blob);
+        this.objectUrls.set(hash, objectUrl);
+        return objectUrl;
+      }
+    } catch (error) {
+      console.warn('Failed to read asset from IndexedDB:', error);
+    }
+
+    return getAssetPath(hash);
+  }
+
+  /**
+   * Get an asset's bytes for export, from IndexedDB or the server
+   */
+  async getBlob(url: string): Promise<Blob> {
+    if (isAssetRef(url)) {
+      const asset = await this.get(getAssetHash(url));
+      if (asset) return asset.blob;
+    }
+
+    const response = await fetch(this.getCachedUrl(url));
+    if (!response.ok) {
+      throw new Error(`Failed to load asset: ${response.status}`);
+    }
+    return response.blob();
+  }
+}
+
+// Singleton instance
+export const assetStore = new AssetStore();
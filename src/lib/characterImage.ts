@@ -0,0 +1,281 @@
+/**
+ * Shot images that keep characters consistent with their reference images
+ * Only the characters cast in a shot are passed in. A single character goes
+ * to Ideogram Character; shots with several use a MultiCharacterStrategy:
+ *
+ *   'multi-reference'  one call to Runway Gen-4 Image, which takes up to
+ *                      three tagged reference images
+ *   'composite'        Ideogram Character for the first character, then one
+ *                      FLUX Kontext edit per extra character that adds them
+ *                      from their reference image
+ *   'primary'          Ideogram Character with the first character only; the
+ *                      others are described in the prompt
+ *
+ * A shot linked to a location with a reference plate always goes to Gen-4
+ * Image, with the plate as one of its references, since it is the only model
+ * here that takes character and set references together.
+ */
+
+import type Replicate from 'replicate';
+import type { Character, CharacterView } from '@/stores/StoryStore';
+import { resolveAssetInput } from './serverAssetStore';
+import { describeLocation, describeTimeOfDay, LocationReference } from './locationImage';
+import { findMentions } from '@/utils/mentions';
+import { resolveSeed } from '@/utils/seed';
+import { CHARACTER_VIEW_PROMPTS } from '@/utils/characterReferences';
+
+export type MultiCharacterStrategy = 'multi-reference' | 'composite' | 'primary';
+
+export const DEFAULT_MULTI_CHARACTER_STRATEGY: MultiCharacterStrategy = 'multi-reference';
+
+const IDEOGRAM_CHARACTER_MODEL = 'ideogram-ai/ideogram-character';
+const IDEOGRAM_CHARACTER_VERSION = `${IDEOGRAM_CHARACTER_MODEL}:5e79783fdb5bb4b1bf267212e64bb28a60cd3bdde00fbf6a1be28df0f55cc4b7`;
+const MULTI_REFERENCE_MODEL = 'runwayml/gen4-image';
+const MULTI_REFERENCE_LIMIT = 3;
+const COMPOSITE_MODEL = 'flux-kontext-apps/multi-image-kontext-pro';
+const REFERENCE_EDIT_MODEL = 'black-forest-labs/flux-kontext-pro';
+
+type CharacterDescription = Pick<Character, 'name' | 'description' | 'prompt'>;
+
+export type CharacterReference = CharacterDescription & {
+  referenceImageUrl: string;          // The reference chosen for this shot
+  wardrobe?: string;                  // Outfit for this shot, described in the prompt
+};
+
+export interface CharacterImageRequest {
+  prompt: string;                     // Shot prompt, may contain @mentions
+  style: string;
+  aspectRatio: string;
+  characters: CharacterReference[];   // Cast of the shot, in order of importance
+  strategy?: MultiCharacterStrategy;
+  location?: LocationReference;
+  seed?: number;
+}
+
+export interface CharacterImageResult {
+  imageUrl: string;                   // Replicate output URL
+  modelUsed: string;
+  prompt: string;
+  seed?: number;
+}
+
+export function isMultiCharacterStrategy(value: unknown): value is MultiCharacterStrategy {
+  return value === 'multi-reference' || value === 'composite' || value === 'primary';
+}
+
+function describeCharacter(character: CharacterDescription & { wardrobe?: string }): string {
+  const wardrobe = character.wardrobe ? `, wearing ${character.wardrobe}` : '';
+  return `${character.name}: ${character.prompt || character.description}${wardrobe}`;
+}
+
+/**
+ * Shot prompt with the cast's descriptions folded in
+ */
+export function buildCastPrompt(
+  style: string,
+  prompt: string,
+  characters: Array<CharacterDescription & { wardrobe?: string }>
+): string {
+  if (characters.length === 0) return `${style} style: ${prompt}`;
+  return `${style} style: ${prompt}. Characters: ${characters.map(describeCharacter).join('. ')}.`;
+}
+
+function firstOutput(output: unknown): string {
+  return (Array.isArray(output) ? output[0] : output) as string;
+}
+
+async function runIdeogramCharacter(
+  replicate: Replicate,
+  prompt: string,
+  character: CharacterReference,
+  request: CharacterImageRequest,
+  seed?: number
+): Promise<string> {
+  const output = await replicate.run(IDEOGRAM_CHARACTER_VERSION as any, {
+    input: {
+      prompt,
+      character_reference_image: await resolveAssetInput(character.referenceImageUrl),
+      aspect_ratio: request.aspectRatio,
+      style_type: request.style.toLowerCase().includes('realistic') ? 'Realistic' : 'Fiction',
+      magic_prompt_option: 'On', // Enhance prompt for better results
+      ...(seed !== undefined ? { seed } : {}),
+    },
+  });
+  return firstOutput(output);
+}
+
+/**
+ * Gen-4 reference tags: 3-15 letters and digits, starting with a letter
+ */
+function toReferenceTag(name: string, index: number, used: Set<string>): string {
+  let tag = name.replace(/[^A-Za-z0-9]/g, '');
+  if (!/^[A-Za-z]/.test(tag)) tag = `c${tag}`;
+  tag = tag.slice(0, 13);
+  if (tag.length < 3 || used.has(tag.toLowerCase())) tag = `${tag}${index + 1}`.padEnd(3, 'x');
+  used.add(tag.toLowerCase());
+  return tag;
+}
+
+async function generateWithIdeogram(replicate: Replicate, request: CharacterImageRequest): Promise<CharacterImageResult> {
+  const [primary] = request.characters;
+  const prompt = `${buildCastPrompt(request.style, request.prompt, request.characters)} Maintain character appearance and height consistency.`;
+  const seed = resolveSeed(IDEOGRAM_CHARACTER_MODEL, request.seed);
+
+  const imageUrl = await runIdeogramCharacter(replicate, prompt, primary, request, seed);
+  return { imageUrl, modelUsed: IDEOGRAM_CHARACTER_MODEL, prompt, seed };
+}
+
+async function generateWithMultiReference(replicate: Replicate, request: CharacterImageRequest): Promise<CharacterImageResult> {
+  const { location } = request;
+  const characterLimit = location ? MULTI_REFERENCE_LIMIT - 1 : MULTI_REFERENCE_LIMIT;
+  const referenced = request.characters.slice(0, characterLimit);
+  const described = request.characters.slice(characterLimit);
+  if (described.length > 0) {
+    console.warn(`${MULTI_REFERENCE_MODEL} takes ${MULTI_REFERENCE_LIMIT} references; describing ${described.map(c => c.name).join(', ')} in text`);
+  }
+
+  const used = new Set<string>();
+  const tags = referenced.map((character, index) => toReferenceTag(character.name, index, used));
+  const locationTag = location ? toReferenceTag(location.name, referenced.length, used) : null;
+
+  // Point @mentions of referenced characters at their tags
+  let shotPrompt = request.prompt;
+  findMentions(request.prompt, request.characters)
+    .reverse()
+    .forEach(mention => {
+      const index = referenced.findIndex(c => c.name === mention.character?.name);
+      if (index !== -1) {
+        shotPrompt = `${shotPrompt.slice(0, mention.start)}@${tags[index]}${shotPrompt.slice(mention.end)}`;
+      }
+    });
+
+  const cast = [
+    ...referenced.map((character, index) => `@${tags[index]} is ${describeCharacter(character)}`),
+    ...described.map(describeCharacter),
+  ];
+  if (location) {
+    const lighting = describeTimeOfDay(location.timeOfDay);
+    cast.push(`Set in @${locationTag}, ${describeLocation(location)}${lighting ? `, ${lighting}` : ''}`);
+  }
+  const prompt = `${request.style} style: ${shotPrompt}. ${cast.join('. ')}.`;
+
+  const referenceUrls = [
+    ...referenced.map(c => c.referenceImageUrl),
+    ...(location ? [location.imageUrl] : []),
+  ];
+
+  const output = await replicate.run(MULTI_REFERENCE_MODEL as any, {
+    input: {
+      prompt,
+      aspect_ratio: request.aspectRatio,
+      reference_images: await Promise.all(referenceUrls.map(url => resolveAssetInput(url))),
+      reference_tags: locationTag ? [...tags, locationTag] : tags,
+    },
+  });
+  return { imageUrl: firstOutput(output), modelUsed: MULTI_REFERENCE_MODEL, prompt };
+}
+
+async function generateWithCompositing(replicate: Replicate, request: CharacterImageRequest): Promise<CharacterImageResult> {
+  const [primary, ...others] = request.characters;
+  const base = await generateWithIdeogram(replicate, { ...request, characters: [primary] });
+
+  // Add the other characters one at a time, each from their own reference
+  let imageUrl = base.imageUrl;
+  for (const character of others) {
+    const output = await replicate.run(COMPOSITE_MODEL as any, {
+      input: {
+        prompt: `Add ${describeCharacter(character)} from the second image into the scene of the first image. `
+          + `Scene: ${request.prompt}. Keep the setting, lighting and the other characters unchanged.`,
+        input_image_1: imageUrl,
+        input_image_2: await resolveAssetInput(character.referenceImageUrl),
+        aspect_ratio: 'match_input_image',
+        output_format: 'png',
+      },
+    });
+    imageUrl = firstOutput(output);
+  }
+
+  return {
+    imageUrl,
+    modelUsed: `${IDEOGRAM_CHARACTER_MODEL} + ${COMPOSITE_MODEL}`,
+    prompt: base.prompt,
+    seed: base.seed,
+  };
+}
+
+/**
+ * Generate a shot image from the references of the characters in it
+ */
+export async function generateCharacterImage(
+  replicate: Replicate,
+  request: CharacterImageRequest
+): Promise<CharacterImageResult> {
+  if (request.characters.length === 0) {
+    throw new Error('At least one character reference is required');
+  }
+  if (request.location) {
+    return generateWithMultiReference(replicate, request);
+  }
+  if (request.characters.length === 1) {
+    return generateWithIdeogram(replicate, request);
+  }
+
+  switch (request.strategy || DEFAULT_MULTI_CHARACTER_STRATEGY) {
+    case 'composite':
+      return generateWithCompositing(replicate, request);
+    case 'primary':
+      return generateWithIdeogram(replicate, request);
+    default:
+      return generateWithMultiReference(replicate, request);
+  }
+}
+
+export interface CharacterViewRequest extends CharacterDescription {
+  style: string;
+  view: CharacterView;
+  wardrobe?: string;                  // Outfit description, unset for the default outfit
+  baseReferenceUrl?: string;          // Existing reference to redraw from
+  modelId: string;                    // Text-to-image model when there is no base
+}
+
+/**
+ * Generate one named reference of a character
+ * Redrawn from an existing reference when there is one, so every view shows
+ * the same character; otherwise drawn from the character's description
+ */
+export async function generateCharacterView(
+  replicate: Replicate,
+  request: CharacterViewRequest
+): Promise<CharacterImageResult> {
+  const viewPrompt = CHARACTER_VIEW_PROMPTS[request.view];
+  const wardrobe = request.wardrobe ? `, wearing ${request.wardrobe}` : '';
+
+  if (request.baseReferenceUrl) {
+    const prompt = `The same character as in the image, ${viewPrompt}${wardrobe}. `
+      + 'Keep the face, hair, body proportions, height and art style identical. Clean white background.';
+
+    const output = await replicate.run(REFERENCE_EDIT_MODEL as any, {
+      input: {
+        prompt,
+        input_image: await resolveAssetInput(request.baseReferenceUrl),
+        aspect_ratio: '1:1',
+        output_format: 'png',
+      },
+    });
+    return { imageUrl: firstOutput(output), modelUsed: REFERENCE_EDIT_MODEL, prompt };
+  }
+
+  const prompt = `${request.style} style character design: ${request.prompt || request.description}${wardrobe}.
+${viewPrompt}, clean white background, professional character design, highly detailed,
+consistent style, consistent proportions and height`;
+
+  const output = await replicate.run(request.modelId as any, {
+    input: {
+      prompt,
+      aspect_ratio: '1:1',
+      output_format: 'png',
+      output_quality: 90,
+    },
+  });
+  return { imageUrl: firstOutput(output), modelUsed: request.modelId, prompt };
+}
@@ -0,0 +1,133 @@
+/**
+ * Export-time clip fitting
+ * Measures each shot's clip and narration in the browser, applies the
+ * timeline's in/out points and narration offset, and plans how they are
+ * matched (see utils/clipFit). Shots set to 'regenerate' get a longer
+ * animation first. Used by the export views and the pipeline's export stage.
+ */
+
+import { storyStore, Shot } from '@/stores/StoryStore';
+import { ClipFitPlan, getSegmentTiming, planClipFit } from '@/utils/clipFit';
+import { getMediaDuration } from '@/utils/mediaProbe';
+import { getShotDuration, parseShotDuration } from '@/utils/shotDuration';
+import { findTimelineClip, getClipEdit, getClipRange, getNarrationEnd } from '@/utils/timeline';
+import type { VideoSegment } from '@/utils/videoComposer';
+import { assetStore } from './assetStore';
+import { generateShotAnimation } from './generation';
+
+export interface ShotTiming {
+  clipSeconds?: number;        // Missing for a shot exported as a still
+  narrationSeconds?: number;
+}
+
+async function measure(url: string, kind: 'video' | 'audio'): Promise<number | undefined> {
+  try {
+    return await getMediaDuration(await assetStore.resolveUrl(url), kind);
+  } catch (error) {
+    console.warn(`Could not measure ${kind} ${url.substring(0, 80)}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Length of a shot's clip and narration
+ * Media that cannot be read counts as missing, so the shot plays as it is
+ */
+export async function measureShotTiming(shot: Shot): Promise<ShotTiming> {
+  const [clipSeconds, narrationSeconds] = await Promise.all([
+    shot.animationUrl ? measure(shot.animationUrl, 'video') : undefined,
+    shot.audioUrl ? measure(shot.audioUrl, 'audio') : undefined,
+  ]);
+  return { clipSeconds, narrationSeconds };
+}
+
+/**
+ * Plan for one shot from its current media and timeline clip
+ */
+export async function planShotFit(shot: Shot): Promise<ClipFitPlan> {
+  const timing = await measureShotTiming(shot);
+  const clip = findTimelineClip(storyStore.story, shot.id);
+  const edit = getClipEdit(clip, !shot.animationUrl, timing.clipSeconds);
+  const narrationSeconds = getNarrationEnd(timing.narrationSeconds, clip);
+
+  if (shot.animationUrl && timing.clipSeconds === undefined) {
+    return {
+      strategy: 'none',
+      clipSeconds: 0,
+      narrationSeconds,
+      targetSeconds: 0,
+      warning: 'The clip could not be measured; it is exported as it is',
+      edit,
+    };
+  }
+  const clipSeconds = timing.clipSeconds === undefined ? undefined : getClipRange(clip, timing.clipSeconds).length;
+  return { ...planClipFit(shot, clipSeconds, narrationSeconds), edit };
+}
+
+function findSceneId(shotId: string): string | undefined {
+  return storyStore.story.scenes.find(scene => scene.shots.some(shot => shot.id === shotId))?.id;
+}
+
+/**
+ * Animate a shot again, asking for a clip as long as its narration needs
+ * Skipped when the model was already asked for that length, since it cannot
+ * produce a longer clip
+ */
+async function regenerateLonger(shot: Shot, plan: ClipFitPlan, signal?: AbortSignal): Promise<boolean> {
+  const sceneId = findSceneId(shot.id);
+  const duration = parseShotDuration(Math.ceil(plan.targetSeconds));
+  if (!sceneId || !shot.imageUrl || !duration || getShotDuration(shot) >= duration) {
+    return false;
+  }
+
+  storyStore.updateShot(sceneId, shot.id, { duration });
+  await generateShotAnimation(sceneId, shot, { signal });
+  return true;
+}
+
+/**
+ * Plan every shot of an export, in order
+ * Shots set to 'regenerate' whose narration outruns the clip are animated
+ * again first (unless `regenerate` is false, e.g. for a preview); if the clip
+ * is still short it is stretched like 'auto'.
+ */
+export async function fitShotsForExport(
+  shots: Shot[],
+  options: { signal?: AbortSignal; onStatus?: (message: string) => void; regenerate?: boolean } = {}
+): Promise<ClipFitPlan[]> {
+  const { signal, onStatus, regenerate = true } = options;
+  const plans: ClipFitPlan[] = [];
+
+  for (let i = 0; i < shots.length; i++) {
+    const shot = shots[i];
+    onStatus?.(`Measuring shot ${i + 1} of ${shots.length}`);
+    let plan = await planShotFit(shot);
+
+    if (plan.regenerate) {
+      if (regenerate) {
+        onStatus?.(`Animating shot ${i + 1} again for its narration`);
+        if (await regenerateLonger(shot, plan, signal)) {
+          plan = await planShotFit(shot);
+        }
+      }
+      plan = { ...planClipFit({ ...shot, clipFit: 'auto' }, plan.clipSeconds, plan.narrationSeconds), edit: plan.edit };
+    }
+
+    signal?.throwIfAborted();
+    plans.push(plan);
+  }
+  return plans;
+}
+
+/**
+ * Browser export segment for a shot's clip, fitted by its plan
+ */
+export function toVideoSegment(shot: Shot, plan: ClipFitPlan): VideoSegment {
+  return {
+    url: shot.animationUrl!,
+    subtitle: shot.subtitle,
+    audioUrl: shot.audioUrl,
+    ...getSegmentTiming(plan),
+    ...(plan.clipSeconds ? { clipDuration: plan.clipSeconds } : {}),
+  };
+}
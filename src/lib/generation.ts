@@ -0,0 +1,641 @@
+/**
+ * Generation steps that write their results into storyStore
+ * Shared by the step views (AIStoryGenerator, Storyboard, EditView, ...) and
+ * the pipeline runner (see stores/PipelineStore). Each step throws on failure
+ * and accepts an AbortSignal, so it can run as a generation scheduler task.
+ */
+
+import { storyStore, Character, CharacterView, Shot, StoryData, TimeOfDay } from '@/stores/StoryStore';
+import { settingsStore, ModelConfig } from '@/stores/SettingsStore';
+import { historyStore } from '@/stores/HistoryStore';
+import type { GenerationTask } from '@/stores/GenerationStore';
+import { assetStore } from './assetStore';
+import type { ConcatRequest } from './renderService';
+import type { OutputSettings } from '@/services/ffmpeg/normalize';
+import type { VideoGenerationInput, VideoGenerationResult } from './videoGeneration';
+import type { Job } from './jobs/types';
+import type { LocationReference } from './locationImage';
+import type { MotionPromptOptions, MotionShotContext } from './motionPrompt';
+import {
+  addIdsToStory,
+  generatePlateId,
+  generateReferenceId,
+  generateSceneId,
+  generateShotId,
+} from '@/utils/idGenerator';
+import { readGenerationResponse } from '@/utils/generationRequest';
+import { cancelJob, submitJob, waitForJob } from '@/utils/jobClient';
+import { createTake } from '@/utils/shotTakes';
+import { getBasePlate, getLocationPlate } from '@/utils/locations';
+import { getReferenceCandidates } from '@/utils/characterReferences';
+import { describeFraming } from '@/utils/camera';
+import { ClipFitPlan, getSegmentTiming } from '@/utils/clipFit';
+import { getShotDuration } from '@/utils/shotDuration';
+import { StoryValidationError } from '@/utils/storySchema';
+import { readStoryStream, StoryStreamEvent } from '@/utils/storyStream';
+
+/**
+ * Story generation failed; `validationErrors` lists schema problems, if any
+ */
+export class StoryGenerationError extends Error {
+  constructor(message: string, public validationErrors: StoryValidationError[] = []) {
+    super(message);
+    this.name = 'StoryGenerationError';
+  }
+}
+
+export interface StoryRequest {
+  prompt: string;
+  style?: string;
+  aspectRatio?: string;
+  modelConfig: ModelConfig;
+}
+
+/**
+ * Stream a new story into storyStore, replacing the current one
+ * Scenes and shots appear as they arrive; the validated story replaces them
+ * at the end, keeping the IDs handed out while streaming. The new story
+ * starts a new undo history rather than adding steps. The current story and
+ * its history stay until the first part of the new one arrives, and come
+ * back if generation then fails or is cancelled.
+ */
+export async function streamStory(
+  request: StoryRequest,
+  options: { signal?: AbortSignal; onStatus?: (status: string) => void } = {}
+): Promise<StoryData> {
+  const { signal, onStatus } = options;
+
+  let restorePrevious: (() => void) | undefined;
+  const sceneIds: string[] = [];
+  const shotIds: string[][] = [];
+  let finished: StoryData | null = null;
+
+  const ensureScene = (sceneIndex: number) => {
+    while (sceneIds.length <= sceneIndex) {
+      const id = generateSceneId();
+      sceneIds.push(id);
+      shotIds.push([]);
+      storyStore.addScene({ id, title: '', description: '', shots: [] });
+    }
+    return sceneIds[sceneIndex];
+  };
+
+  const applyEvent = (event: StoryStreamEvent) => {
+    switch (event.type) {
+      case 'meta':
+        storyStore.setStory({
+          ...(event.title !== undefined ? { title: event.title } : {}),
+          ...(event.synopsis !== undefined ? { synopsis: event.synopsis } : {}),
+        });
+        break;
+      case 'character':
+        if (storyStore.story.characters[event.index]) {
+          storyStore.updateCharacter(event.index, event.character);
+        } else {
+          storyStore.addCharacter(event.character);
+        }
+        break;
+      case 'sceneInfo': {
+        const sceneId = ensureScene(event.sceneIndex);
+        storyStore.updateScene(sceneId, {
+          ...(event.title !== undefined ? { title: event.title } : {}),
+          ...(event.description !== undefined ? { description: event.description } : {}),
+        });
+        break;
+      }
+      case 'shot': {
+        const sceneId = ensureScene(event.sceneIndex);
+        const ids = shotIds[event.sceneIndex];
+        if (ids[event.shotIndex]) {
+          storyStore.updateShot(sceneId, ids[event.shotIndex], event.shot);
+        } else {
+          const id = generateShotId();
+          ids[event.shotIndex] = id;
+          storyStore.addShot(sceneId, { id, ...event.shot });
+        }
+        onStatus?.(`Scene ${event.sceneIndex + 1}, shot ${event.shotIndex + 1} received...`);
+        break;
+      }
+      case 'repairing':
+        onStatus?.(`Fixing ${event.errors.length} problem(s) in the story (attempt ${event.attempt})...`);
+        break;
+      case 'done': {
+        // Reuse streamed IDs by position, then fill in any that are missing
+        const story: StoryData = addIdsToStory({
+          ...event.story,
+          scenes: event.story.scenes.map((scene, sceneIndex) => ({
+            ...scene,
+            id: sceneIds[sceneIndex],
+            shots: scene.shots.map((shot, shotIndex) => ({
+              ...shot,
+              id: shotIds[sceneIndex]?.[shotIndex],
+            })),
+          })),
+        });
+        storyStore.setStory(story);
+        finished = story;
+        break;
+      }
+      case 'error':
+        throw new StoryGenerationError(event.error, event.validationErrors);
+    }
+  };
+  const handleEvent = (event: StoryStreamEvent) => {
+    if (!restorePrevious && event.type !== 'repairing' && event.type !== 'error') {
+      restorePrevious = historyStore.startOver(() => storyStore.reset());
+    }
+    historyStore.untracked(() => applyEvent(event));
+  };
+
+  onStatus?.('Waiting for the first scene...');
+
+  try {
+    const response = await fetch('/api/generate-story/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        prompt: request.prompt.trim(),
+        style: request.style,
+        aspectRatio: request.aspectRatio,
+        modelConfig: request.modelConfig,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new StoryGenerationError(data.error || 'Failed to generate story', data.validationErrors);
+    }
+
+    await readStoryStream(response, handleEvent);
+
+    if (!finished) {
+      throw new StoryGenerationError('Story stream ended unexpectedly. Please try again.');
+    }
+    return finished;
+  } catch (error) {
+    restorePrevious?.();
+    throw error;
+  }
+}
+
+/**
+ * Scheduler tasks for every shot matching `filter`, labelled by position
+ */
+export function getShotTasks(
+  filter: (shot: Shot) => boolean,
+  run: (sceneId: string, shot: Shot, signal: AbortSignal) => Promise<unknown>
+): GenerationTask[] {
+  return storyStore.story.scenes.flatMap((scene, sceneIndex) =>
+    scene.shots
+      .map((shot, shotIndex) => ({ shot, label: `Scene ${sceneIndex + 1}, shot ${shotIndex + 1}` }))
+      .filter(({ shot }) => filter(shot))
+      .map(({ shot, label }) => ({
+        id: shot.id,
+        label,
+        run: async (signal: AbortSignal) => {
+          await run(scene.id, shot, signal);
+        },
+      }))
+  );
+}
+
+/**
+ * Scheduler tasks for every character matching `filter`
+ */
+export function getCharacterTasks(filter: (character: Character) => boolean): GenerationTask[] {
+  return storyStore.story.characters
+    .map((character, index) => ({ character, index }))
+    .filter(({ character }) => filter(character))
+    .map(({ character, index }) => ({
+      id: `character-${index}`,
+      label: character.name,
+      run: (signal: AbortSignal) => generateCharacterReference(index, signal),
+    }));
+}
+
+/**
+ * Generate a character's reference image
+ */
+export async function generateCharacterReference(index: number, signal?: AbortSignal): Promise<void> {
+  const character = storyStore.story.characters[index];
+
+  try {
+    storyStore.setGeneratingCharacter(index, true);
+
+    const response = await fetch('/api/generate-character', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        characterName: character.name,
+        description: character.description,
+        prompt: character.prompt,
+        style: storyStore.story.style,
+        aspectRatio: '1:1',
+        modelConfig: settingsStore.settings.characterImageModel,
+        imageModelConfig: settingsStore.settings.imageModel, // Share API key from shot image model
+      }),
+      signal,
+    });
+
+    const data = await readGenerationResponse(response, 'Failed to generate character');
+
+    storyStore.updateCharacter(index, { referenceImageUrl: data.imageUrl });
+    assetStore.keepLocalCopy(data.imageUrl);
+  } finally {
+    storyStore.setGeneratingCharacter(index, false);
+  }
+}
+
+/**
+ * Generate one named reference (view, optionally in a wardrobe) of a character
+ * Redrawn from the character sheet, or the default-outfit front view, when
+ * there is one, so all references show the same character
+ */
+export async function generateCharacterReferenceView(
+  index: number,
+  view: CharacterView,
+  wardrobeId?: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const character = storyStore.story.characters[index];
+  if (!character) throw new Error('Character not found');
+
+  const wardrobe = character.wardrobes?.find(w => w.id === wardrobeId);
+  const defaultFront = character.references?.find(r => r.view === 'front' && !r.wardrobeId);
+  const baseReferenceUrl = character.referenceImageUrl || defaultFront?.url;
+  if (baseReferenceUrl) {
+    await assetStore.ensureOnServer(baseReferenceUrl);
+  }
+
+  const response = await fetch('/api/generate-character', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      characterName: character.name,
+      description: character.description,
+      prompt: character.prompt,
+      style: storyStore.story.style,
+      view,
+      wardrobe: wardrobe ? wardrobe.description || wardrobe.name : undefined,
+      baseReferenceUrl,
+      modelConfig: settingsStore.settings.characterImageModel,
+      imageModelConfig: settingsStore.settings.imageModel,
+    }),
+    signal,
+  });
+
+  const data = await readGenerationResponse(response, 'Failed to generate character reference');
+
+  storyStore.setCharacterReference(index, {
+    id: generateReferenceId(),
+    view,
+    ...(wardrobeId ? { wardrobeId } : {}),
+    url: data.imageUrl,
+    source: 'generated',
+    createdAt: Date.now(),
+  });
+  assetStore.keepLocalCopy(data.imageUrl);
+}
+
+/**
+ * Generate a reference plate for one time of day of a location
+ * A location that already has a plate gets a relit copy of it, so every
+ * time of day shows the same set
+ */
+export async function generateLocationPlate(locationId: string, timeOfDay: TimeOfDay, signal?: AbortSignal): Promise<void> {
+  const location = storyStore.findLocation(locationId);
+  if (!location) throw new Error('Location not found');
+
+  const basePlate = getBasePlate(location, timeOfDay);
+  if (basePlate) {
+    await assetStore.ensureOnServer(basePlate.url);
+  }
+
+  const response = await fetch('/api/generate-location', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      locationName: location.name,
+      description: location.description,
+      timeOfDay,
+      style: storyStore.story.style,
+      aspectRatio: storyStore.story.aspectRatio,
+      basePlateUrl: basePlate?.url,
+      modelConfig: settingsStore.settings.imageModel,
+    }),
+    signal,
+  });
+
+  const data = await readGenerationResponse(response, 'Failed to generate location');
+
+  storyStore.setLocationPlate(locationId, {
+    id: generatePlateId(),
+    url: data.imageUrl,
+    timeOfDay,
+    source: 'generated',
+    createdAt: Date.now(),
+  });
+  assetStore.keepLocalCopy(data.imageUrl);
+}
+
+/**
+ * Plate of the shot's location for its time of day, if it has one
+ */
+function getShotLocationReference(shot: Shot): LocationReference | undefined {
+  const location = storyStore.findLocation(shot.locationId);
+  const plate = location && getLocationPlate(location, shot.timeOfDay);
+  if (!location || !plate) return undefined;
+
+  return {
+    name: location.name,
+    description: location.description,
+    imageUrl: plate.url,
+    ...(shot.timeOfDay ? { timeOfDay: shot.timeOfDay } : {}),
+  };
+}
+
+/**
+ * Generate a shot image and store it as a new take
+ */
+export async function generateShotImage(sceneId: string, shot: Shot, signal?: AbortSignal): Promise<void> {
+  try {
+    storyStore.setGeneratingShot(sceneId, shot.id, true);
+
+    // Only the characters in this shot are sent as references
+    const characterReferences = storyStore.getShotCharacterReferences(shot);
+    const hasCharacterRefs = Object.keys(characterReferences).length > 0;
+
+    const locationReference = getShotLocationReference(shot);
+    const framing = describeFraming(shot.camera);
+
+    // The server picks each character's reference and hands it to the model,
+    // so it needs its own copy of every candidate
+    const referenceUrls = Object.values(characterReferences).flatMap(char =>
+      getReferenceCandidates(char, shot.characterLooks?.[char.name])
+    );
+    await Promise.all([
+      ...referenceUrls.map(url => assetStore.ensureOnServer(url)),
+      ...(locationReference ? [assetStore.ensureOnServer(locationReference.imageUrl)] : []),
+    ]);
+
+    // Use character-aware API if references exist
+    const apiEndpoint = hasCharacterRefs
+      ? '/api/generate-image-with-character'
+      : '/api/generate-image';
+
+    const response = await fetch(apiEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        prompt: framing ? `${shot.location}. ${shot.content}. ${framing}` : `${shot.location}. ${shot.content}`,
+        style: storyStore.story.style,
+        aspectRatio: storyStore.story.aspectRatio,
+        characterReferences: hasCharacterRefs ? characterReferences : undefined,
+        characterLooks: hasCharacterRefs ? shot.characterLooks : undefined,
+        multiCharacterStrategy: settingsStore.settings.multiCharacterStrategy,
+        locationReference,
+        modelConfig: settingsStore.settings.imageModel,
+      }),
+      signal,
+    });
+
+    const data = await readGenerationResponse(response, 'Failed to generate image');
+
+    storyStore.addTake(sceneId, shot.id, createTake('image', data.imageUrl, {
+      model: data.modelUsed,
+      prompt: data.prompt,
+      seed: data.seed,
+    }));
+    assetStore.keepLocalCopy(data.imageUrl);
+  } finally {
+    storyStore.setGeneratingShot(sceneId, shot.id, false);
+  }
+}
+
+/**
+ * Generate narration for a shot's subtitle and store it as a new take
+ */
+export async function generateShotAudio(sceneId: string, shot: Shot, signal?: AbortSignal): Promise<void> {
+  try {
+    storyStore.setGeneratingAudioShot(sceneId, shot.id, true);
+
+    const { voiceModel } = settingsStore.settings;
+
+    const response = await fetch('/api/generate-audio', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: shot.subtitle,
+        voiceConfig: voiceModel,
+      }),
+      signal,
+    });
+
+    const data = await readGenerationResponse(response, 'Failed to generate audio');
+
+    // Narration keeps its spoken length; clips are fitted to it at export
+    const audioUrl = await assetStore.importUrl(data.audioUrl);
+
+    storyStore.addTake(sceneId, shot.id, createTake('audio', audioUrl, {
+      model: [voiceModel.provider, voiceModel.model, voiceModel.voiceId].filter(Boolean).join(' / '),
+      prompt: shot.subtitle,
+    }));
+  } finally {
+    storyStore.setGeneratingAudioShot(sceneId, shot.id, false);
+  }
+}
+
+// Animation jobs being followed, so a result is applied once however many
+// views follow the same job
+const followedJobs = new Map<string, { result: Promise<VideoGenerationResult>; listeners: Set<(job: Job) => void> }>();
+
+/**
+ * Wait for a shot's animation job, then store the video as a new take
+ * Clears the shot's busy state however the job ends
+ */
+export function followAnimationJob(
+  sceneId: string,
+  shotId: string,
+  jobId: string,
+  onUpdate?: (job: Job) => void
+): Promise<VideoGenerationResult> {
+  const existing = followedJobs.get(jobId);
+  if (existing) {
+    if (onUpdate) existing.listeners.add(onUpdate);
+    return existing.result;
+  }
+
+  const listeners = new Set<(job: Job) => void>(onUpdate ? [onUpdate] : []);
+  const result = (async () => {
+    try {
+      const data = await waitForJob<VideoGenerationResult>(jobId, {
+        onUpdate: job => listeners.forEach(listener => listener(job)),
+      });
+
+      storyStore.addTake(sceneId, shotId, createTake('animation', data.videoUrl, {
+        model: data.modelUsed,
+        prompt: data.prompt,
+        seed: data.seed,
+      }));
+      assetStore.keepLocalCopy(data.videoUrl);
+      return data;
+    } finally {
+      storyStore.setAnimationJob(sceneId, shotId, undefined);
+      storyStore.setAnimatingShot(sceneId, shotId, false);
+      followedJobs.delete(jobId);
+    }
+  })();
+
+  followedJobs.set(jobId, { result, listeners });
+  return result;
+}
+
+// What the server builds a shot's motion prompt from
+function getMotionShotContext(shot: Shot): MotionShotContext {
+  return {
+    subtitle: shot.subtitle,
+    content: shot.content,
+    location: shot.location,
+    ...(shot.camera ? { camera: shot.camera } : {}),
+  };
+}
+
+/**
+ * Motion prompt fields of a shot's animation job
+ * A prompt the user wrote or approved is sent as is; otherwise the server
+ * builds one from the shot. Job inputs are kept on the server, so the text
+ * model goes without its API key and refinement uses the server's key.
+ */
+function getMotionPromptInput(shot: Shot): MotionPromptOptions {
+  const { refineMotionPrompts, textModel: { provider, modelId, baseUrl } } = settingsStore.settings;
+  return {
+    shot: getMotionShotContext(shot),
+    ...(shot.motionPromptEdited && shot.motionPrompt?.trim() ? { motionPrompt: shot.motionPrompt } : {}),
+    ...(refineMotionPrompts ? { refine: true, textModel: { provider, modelId, baseUrl } } : {}),
+  };
+}
+
+/**
+ * Have the server write a motion prompt for a shot and keep it on the shot
+ * for the user to edit; the next animation uses it as is
+ */
+export async function suggestMotionPrompt(sceneId: string, shot: Shot, signal?: AbortSignal): Promise<string> {
+  const { videoModel, refineMotionPrompts, textModel } = settingsStore.settings;
+
+  const response = await fetch('/api/motion-prompt', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      shot: getMotionShotContext(shot),
+      modelConfig: videoModel,
+      refine: refineMotionPrompts,
+      textModel,
+    }),
+    signal,
+  });
+
+  const data = await readGenerationResponse<{ prompt: string }>(response, 'Failed to write motion prompt');
+  storyStore.updateShot(sceneId, shot.id, { motionPrompt: data.prompt, motionPromptEdited: true });
+  return data.prompt;
+}
+
+/**
+ * Animate a shot's image as a server job and store the video as a new take
+ * Follows the shot's existing job instead if it has one; aborting `signal`
+ * cancels the job
+ */
+export async function generateShotAnimation(
+  sceneId: string,
+  shot: Shot,
+  options: { signal?: AbortSignal; onUpdate?: (job: Job) => void } = {}
+): Promise<VideoGenerationResult> {
+  const { signal, onUpdate } = options;
+  let jobId = shot.animationJobId;
+
+  try {
+    storyStore.setAnimatingShot(sceneId, shot.id, true);
+
+    if (!jobId) {
+      // The server reads the source image from its own asset store
+      await assetStore.ensureOnServer(shot.imageUrl!);
+      signal?.throwIfAborted();
+
+      // Generate video as a server job, so closing the tab does not lose it
+      const job = await submitJob<VideoGenerationInput>('generate-video', {
+        imageUrl: shot.imageUrl!,
+        modelConfig: { modelId: settingsStore.settings.videoModel.modelId },
+        duration: getShotDuration(shot),
+        ...getMotionPromptInput(shot),
+      });
+      jobId = job.id;
+      storyStore.setAnimationJob(sceneId, shot.id, jobId);
+    }
+  } catch (error) {
+    storyStore.setAnimatingShot(sceneId, shot.id, false);
+    throw error;
+  }
+
+  const cancel = () => {
+    cancelJob(jobId!).catch(error => console.warn('Failed to cancel animation job:', error));
+  };
+  signal?.addEventListener('abort', cancel);
+  try {
+    return await followAnimationJob(sceneId, shot.id, jobId, onUpdate);
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Frame size, rate and framing every exported clip is brought to, from the
+ * export settings and the story's aspect ratio
+ */
+export function getExportOutput(): OutputSettings {
+  const { exportSettings } = settingsStore.settings;
+  return {
+    resolution: exportSettings.resolution,
+    aspectRatio: storyStore.story.aspectRatio,
+    frameRate: exportSettings.frameRate,
+    framing: exportSettings.framing,
+  };
+}
+
+/**
+ * Render service request for `shots` in order, using the export settings
+ * Shots without an animation are shown as stills of their image. `plans`
+ * (from fitShotsForExport, one per shot) set how long each shot lasts.
+ */
+export function buildComposeRequest(shots: Shot[], plans: ClipFitPlan[]): ConcatRequest {
+  const { exportSettings, subtitleSettings } = settingsStore.settings;
+  return {
+    videos: shots.map((shot, index) => ({
+      url: shot.animationUrl || shot.imageUrl!,
+      kind: shot.animationUrl ? 'video' : 'image',
+      subtitle: shot.subtitle,
+      audioUrl: shot.audioUrl,
+      ...getSegmentTiming(plans[index]),
+    })),
+    options: {
+      quality: exportSettings.quality,
+      ...getExportOutput(),
+      includeSubtitles: exportSettings.includeSubtitles,
+      subtitleStyle: subtitleSettings,
+    },
+  };
+}
+
+/**
+ * Start a 'compose-video' job for a render request
+ */
+export async function submitComposeJob(request: ConcatRequest): Promise<Job> {
+  // The render service reads stored media through this server
+  await Promise.all(
+    request.videos.flatMap(video => [video.url, video.audioUrl])
+      .filter((url): url is string => !!url)
+      .map(url => assetStore.ensureOnServer(url))
+  );
+
+  // Render in the background so long stories report progress and can be cancelled
+  return submitJob('compose-video', request);
+}
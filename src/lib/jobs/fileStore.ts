@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Job, JobStore } from './types';
+
+const JOB_ID_PATTERN = /^[a-z0-9-]+$/i;
+
+/**
+ * Jobs kept as one JSON file each under `dir`; survives server restarts
+ */
+export function createFileJobStore(dir: string): JobStore {
+  const getFile = (id: string) => {
+    if (!JOB_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid job ID "${id}"`);
+    }
+    return path.join(dir, `${id}.json`);
+  };
+
+  const read = async (file: string): Promise<Job | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    async get(id) {
+      if (!JOB_ID_PATTERN.test(id)) return null;
+      return read(getFile(id));
+    },
+
+    async save(job) {
+      const file = getFile(job.id);
+      await fs.mkdir(dir, { recursive: true });
+
+      // Write to a temp file first so readers never see half a job
+      const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(job, null, 2));
+      await fs.rename(tempFile, file);
+    },
+
+    async list() {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch {
+        return [];
+      }
+
+      const jobs = await Promise.all(
+        names.filter(name => name.endsWith('.json')).map(name => read(path.join(dir, name)))
+      );
+      return jobs.filter((job): job is Job => job !== null);
+    },
+
+    async delete(id) {
+      await fs.rm(getFile(id), { force: true });
+    },
+  };
+}
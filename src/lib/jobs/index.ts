@@ -0,0 +1,55 @@
+/**
+ * Server-side job queue for long-running generation tasks
+ * Routes submit work with `getJobQueue().submit(type, input)` and hand the
+ * job ID to the client, which polls or streams it through /api/jobs.
+ *
+ * JOB_STORE picks the backing store: 'file' (default, JOB_STORAGE_DIR or
+ * ./.jobs, survives restarts) or 'memory'. JOB_CONCURRENCY caps how many
+ * jobs run at once (default 3).
+ */
+
+import path from 'path';
+import { composeVideo, ComposeVideoResult, ConcatRequest } from '@/lib/renderService';
+import { generateVideo, VideoGenerationInput, VideoGenerationResult } from '@/lib/videoGeneration';
+import { createFileJobStore } from './fileStore';
+import { createMemoryJobStore } from './memoryStore';
+import { JobQueue } from './queue';
+import { JobStore } from './types';
+
+export * from './types';
+export { JobQueue } from './queue';
+export { createFileJobStore } from './fileStore';
+export { createMemoryJobStore } from './memoryStore';
+
+const DEFAULT_JOB_CONCURRENCY = 3;
+
+function createJobStore(): JobStore {
+  if (process.env.JOB_STORE === 'memory') {
+    return createMemoryJobStore();
+  }
+  return createFileJobStore(process.env.JOB_STORAGE_DIR || path.join(process.cwd(), '.jobs'));
+}
+
+function createJobQueue(): JobQueue {
+  const concurrency = parseInt(process.env.JOB_CONCURRENCY || '', 10) || DEFAULT_JOB_CONCURRENCY;
+  const queue = new JobQueue(createJobStore(), concurrency);
+
+  queue.register<VideoGenerationInput, VideoGenerationResult>('generate-video', (input, { signal, reportProgress }) =>
+    generateVideo(input, { signal, onProgress: reportProgress })
+  );
+  queue.register<ConcatRequest, ComposeVideoResult>('compose-video', (input, { signal, reportProgress }) =>
+    composeVideo(input, { signal, onProgress: reportProgress })
+  );
+
+  return queue;
+}
+
+// Kept on globalThis so dev-server module reloads share one queue
+const globalForJobs = globalThis as unknown as { jobQueue?: JobQueue };
+
+export function getJobQueue(): JobQueue {
+  if (!globalForJobs.jobQueue) {
+    globalForJobs.jobQueue = createJobQueue();
+  }
+  return globalForJobs.jobQueue;
+}
@@ -0,0 +1,28 @@
+import { Job, JobStore } from './types';
+
+/**
+ * Jobs kept in process memory; lost when the server restarts
+ */
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, Job>();
+  const copy = (job: Job): Job => JSON.parse(JSON.stringify(job));
+
+  return {
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? copy(job) : null;
+    },
+
+    async save(job) {
+      jobs.set(job.id, copy(job));
+    },
+
+    async list() {
+      return Array.from(jobs.values()).map(copy);
+    },
+
+    async delete(id) {
+      jobs.delete(id);
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import { EventEmitter } from 'events';
+import { getUpstreamStatus } from '@/lib/upstreamError';
+import { isJobFinished, Job, JobHandler, JobStore, UnknownJobTypeError } from './types';
+
+// Finished jobs older than this are removed when the queue starts
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+function generateJobId(): string {
+  return `job-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/**
+ * Runs registered job handlers in the background with a concurrency limit
+ * Every state change is written to the store and published to subscribers,
+ * so clients can poll or stream a job and pick it up again after a reload
+ */
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  // Jobs owned by this process; the in-memory copy is the source of truth while running
+  private active = new Map<string, { job: Job; controller: AbortController }>();
+  private pending: string[] = [];
+  // Jobs whose handler hasn't returned; a cancelled job stays here until it does,
+  // so a handler that ignores the abort signal still takes up a slot
+  private running = new Set<string>();
+  private events = new EventEmitter();
+  // Store writes per job, chained so progress updates land in order
+  private writes = new Map<string, Promise<void>>();
+  private started: Promise<void> | null = null;
+
+  constructor(private store: JobStore, private concurrency = 2) {
+    this.events.setMaxListeners(0);
+  }
+
+  register<TInput, TResult>(type: string, handler: JobHandler<TInput, TResult>): void {
+    this.handlers.set(type, handler);
+  }
+
+  hasHandler(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  /**
+   * Queue a job and return it immediately
+   */
+  async submit<TInput>(type: string, input: TInput): Promise<Job<TInput>> {
+    if (!this.handlers.has(type)) {
+      throw new UnknownJobTypeError(type);
+    }
+    await this.start();
+
+    const now = Date.now();
+    const job: Job<TInput> = {
+      id: generateJobId(),
+      type,
+      status: 'queued',
+      input,
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.active.set(job.id, { job, controller: new AbortController() });
+    await this.persist(job);
+    this.pending.push(job.id);
+    this.pump();
+
+    return job;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    await this.start();
+    const entry = this.active.get(id);
+    return entry ? { ...entry.job } : this.store.get(id);
+  }
+
+  /**
+   * Cancel a queued or running job; finished jobs are returned unchanged
+   */
+  async cancel(id: string): Promise<Job | null> {
+    await this.start();
+
+    const entry = this.active.get(id);
+    if (!entry) return this.store.get(id);
+
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    entry.controller.abort();
+    this.finish(entry.job, { status: 'cancelled', message: 'Cancelled' });
+    return entry.job;
+  }
+
+  /**
+   * Listen for updates to one job; returns an unsubscribe function
+   */
+  subscribe(id: string, listener: (job: Job) => void): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  /**
+   * Recover stored jobs on first use, after handlers are registered
+   */
+  private start(): Promise<void> {
+    if (!this.started) {
+      this.started = this.recover();
+    }
+    return this.started;
+  }
+
+  private update(job: Job, patch: Partial<Job>): void {
+    Object.assign(job, patch, { updatedAt: Date.now() });
+    this.events.emit(job.id, { ...job });
+    this.persist(job).catch(error => {
+      console.error(`Failed to save job ${job.id}:`, error);
+    });
+  }
+
+  private finish(job: Job, patch: Partial<Job>): void {
+    if (isJobFinished(job)) return;
+    this.update(job, { ...patch, finishedAt: Date.now() });
+    this.active.delete(job.id);
+  }
+
+  private persist(job: Job): Promise<void> {
+    const snapshot = { ...job };
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous.catch(() => {}).then(() => this.store.save(snapshot));
+
+    this.writes.set(job.id, write);
+    write.finally(() => {
+      if (this.writes.get(job.id) === write) this.writes.delete(job.id);
+    }).catch(() => {});
+    return write;
+  }
+
+  private pump(): void {
+    let slots = this.concurrency - this.running.size;
+
+    while (slots > 0 && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const entry = this.active.get(id);
+      if (!entry) continue;
+      slots--;
+      this.run(entry.job, entry.controller);
+    }
+  }
+
+  private async run(job: Job, controller: AbortController): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    this.running.add(job.id);
+    this.update(job, { status: 'running', startedAt: Date.now(), message: 'Started' });
+
+    try {
+      if (!handler) {
+        throw new UnknownJobTypeError(job.type);
+      }
+
+      const result = await handler(job.input, {
+        jobId: job.id,
+        signal: controller.signal,
+        reportProgress: (progress, message) => {
+          if (isJobFinished(job)) return;
+          this.update(job, {
+            progress: Math.min(1, Math.max(0, progress)),
+            ...(message !== undefined ? { message } : {}),
+          });
+        },
+      });
+
+      this.finish(job, { status: 'succeeded', progress: 1, message: 'Done', result });
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        this.finish(job, { status: 'cancelled', message: 'Cancelled' });
+      } else {
+        console.error(`Job ${job.id} (${job.type}) failed:`, error);
+        const errorStatus = getUpstreamStatus(error);
+        this.finish(job, {
+          status: 'failed',
+          error: error?.message || 'Job failed',
+          ...(errorStatus !== undefined ? { errorStatus } : {}),
+        });
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.pump();
+    }
+  }
+
+  /**
+   * Pick up jobs left behind by a previous server process
+   * Queued jobs run again; jobs that were mid-run cannot be resumed and fail
+   */
+  private async recover(): Promise<void> {
+    let jobs: Job[];
+    try {
+      jobs = await this.store.list();
+    } catch (error) {
+      console.error('Failed to read stored jobs:', error);
+      return;
+    }
+
+    const now = Date.now();
+    for (const job of jobs.sort((a, b) => a.createdAt - b.createdAt)) {
+      if (isJobFinished(job)) {
+        if (now - (job.finishedAt || job.updatedAt) > FINISHED_JOB_RETENTION_MS) {
+          await this.store.delete(job.id).catch(() => {});
+        }
+      } else if (job.status === 'queued' && this.handlers.has(job.type)) {
+        this.active.set(job.id, { job, controller: new AbortController() });
+        this.pending.push(job.id);
+      } else {
+        job.status = 'failed';
+        job.error = 'Interrupted by a server restart';
+        job.finishedAt = job.updatedAt = now;
+        await this.store.save(job).catch(() => {});
+      }
+    }
+
+    this.pump();
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Background job types
+ * Shared by the server queue and the browser client (see utils/jobClient),
+ * so this file must not import anything server-only
+ */
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<TInput = unknown, TResult = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  input: TInput;
+  progress: number;             // 0-1
+  message?: string;             // Human-readable step, e.g. "Generating video (40%)"
+  result?: TResult;
+  error?: string;
+  errorStatus?: number;         // HTTP status of a failed provider request, e.g. 429
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export function isJobFinished(job: Pick<Job, 'status'>): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Where jobs are kept; swap implementations with JOB_STORE
+ */
+export interface JobStore {
+  get(id: string): Promise<Job | null>;
+  save(job: Job): Promise<void>;
+  list(): Promise<Job[]>;
+  delete(id: string): Promise<void>;
+}
+
+export interface JobContext {
+  jobId: string;
+  signal: AbortSignal;          // Aborted when the job is cancelled
+  reportProgress(progress: number, message?: string): void;
+}
+
+export type JobHandler<TInput = any, TResult = any> = (input: TInput, context: JobContext) => Promise<TResult>;
+
+export class UnknownJobTypeError extends Error {
+  constructor(public type: string) {
+    super(`Unknown job type "${type}"`);
+    this.name = 'UnknownJobTypeError';
+  }
+}
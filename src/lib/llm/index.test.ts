@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resolveTextModel, TextProviderConfigError } from './index';
+
+describe('resolveTextModel', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses a client base URL the server does not allow', () => {
+    vi.stubEnv('OPENAI_ALLOWED_BASE_URLS', '');
+
+    for (const baseUrl of ['http://169.254.169.254/latest', 'http://localhost:11434/v1', 'https://example.com/v1']) {
+      expect(() => resolveTextModel({ provider: 'openai', baseUrl, apiKey: 'sk-client' }))
+        .toThrow(TextProviderConfigError);
+    }
+  });
+
+  it('accepts an allowed base URL, and local ones without a key', () => {
+    vi.stubEnv('OPENAI_ALLOWED_BASE_URLS', 'http://localhost:11434/v1/, https://llm.example.com/v1');
+
+    expect(resolveTextModel({ provider: 'openai', baseUrl: 'http://localhost:11434/v1' }).provider.id).toBe('openai');
+    expect(() => resolveTextModel({ provider: 'openai', baseUrl: 'https://llm.example.com/v1' }))
+      .toThrow('OpenAI API key is required');
+  });
+
+  it('only sends the server key to the server base URL', () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-server');
+    vi.stubEnv('OPENAI_BASE_URL', '');
+    vi.stubEnv('OPENAI_ALLOWED_BASE_URLS', 'https://llm.example.com/v1');
+
+    expect(() => resolveTextModel({ provider: 'openai' })).not.toThrow();
+    expect(() => resolveTextModel({ provider: 'openai', baseUrl: 'https://llm.example.com/v1' }))
+      .toThrow('OpenAI API key is required');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Text LLM provider registry
+ * Routes call `resolveTextModel` with the client's settings.textModel and
+ * get back a ready-to-use provider plus the effective model parameters
+ */
+
+import { createMockProvider } from './mock';
+import { createOpenAICompatibleProvider, OPENAI_DEFAULT_BASE_URL } from './openaiCompatible';
+import { createOpenRouterProvider } from './openrouter';
+import { TextModelConfig, TextProvider, TextProviderId } from './types';
+
+export * from './types';
+
+export const DEFAULT_TEXT_MODEL_ID = 'meta-llama/llama-3.1-405b-instruct';
+
+export interface ResolvedTextModel {
+  provider: TextProvider;
+  modelId: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export class TextProviderConfigError extends Error {}
+
+function isTextProviderId(value: unknown): value is TextProviderId {
+  return value === 'openrouter' || value === 'openai' || value === 'mock';
+}
+
+function isLocalUrl(url: string): boolean {
+  return /^https?:\/\/(localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1\]|host\.docker\.internal)(:|\/|$)/.test(url);
+}
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Base URL for the OpenAI-compatible provider, and whether it is the server's own
+ * A client may only pick another server listed in OPENAI_ALLOWED_BASE_URLS
+ * (comma-separated), so the server never sends requests to hosts, internal or
+ * not, that its operator did not choose. The server's key is only ever sent
+ * to the server's base URL.
+ */
+function resolveOpenAIBaseUrl(requested: string | undefined): { baseUrl: string; isServerUrl: boolean } {
+  const serverUrl = normalizeBaseUrl(process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL);
+  const baseUrl = requested?.trim() ? normalizeBaseUrl(requested) : serverUrl;
+  if (baseUrl === serverUrl) {
+    return { baseUrl, isServerUrl: true };
+  }
+
+  const allowed = (process.env.OPENAI_ALLOWED_BASE_URLS || '')
+    .split(',')
+    .map(normalizeBaseUrl)
+    .filter(Boolean);
+  if (!allowed.includes(baseUrl)) {
+    throw new TextProviderConfigError(
+      `OpenAI base URL ${baseUrl} is not allowed on this server. Add it to OPENAI_ALLOWED_BASE_URLS or set it as OPENAI_BASE_URL.`
+    );
+  }
+  return { baseUrl, isServerUrl: false };
+}
+
+/**
+ * Pick the provider adapter for a text model config
+ * Falls back to server environment variables for keys and base URL; the
+ * server's OpenAI key only goes with its own base URL
+ * Throws TextProviderConfigError when required settings are missing
+ */
+export function resolveTextModel(config: TextModelConfig | undefined): ResolvedTextModel {
+  const providerId: TextProviderId = isTextProviderId(config?.provider)
+    ? config!.provider as TextProviderId
+    : 'openrouter';
+
+  const temperature = config?.temperature ?? 0.7;
+  const maxTokens = config?.maxTokens || 4000;
+  let modelId = config?.modelId || DEFAULT_TEXT_MODEL_ID;
+  let provider: TextProvider;
+
+  switch (providerId) {
+    case 'mock':
+      provider = createMockProvider();
+      modelId = 'mock';
+      break;
+
+    case 'openai': {
+      const { baseUrl, isServerUrl } = resolveOpenAIBaseUrl(config?.baseUrl);
+      const apiKey = config?.apiKey || (isServerUrl ? process.env.OPENAI_API_KEY : '') || '';
+      if (!apiKey && !isLocalUrl(baseUrl)) {
+        throw new TextProviderConfigError(
+          'OpenAI API key is required for remote servers. Please configure it in Settings.'
+        );
+      }
+      provider = createOpenAICompatibleProvider(apiKey, baseUrl);
+      break;
+    }
+
+    default: {
+      const apiKey = config?.apiKey || process.env.OPENROUTER_API_KEY || '';
+      if (!apiKey) {
+        throw new TextProviderConfigError(
+          'OpenRouter API key is required. Please configure it in Settings.'
+        );
+      }
+      provider = createOpenRouterProvider(apiKey);
+    }
+  }
+
+  return { provider, modelId, temperature, maxTokens };
+}
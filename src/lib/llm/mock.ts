@@ -0,0 +1,151 @@
+import { ChatMessage, TextCompletionRequest, TextProvider } from './types';
+
+/**
+ * Deterministic offline provider
+ * Answers are derived from the request only, so the same prompt always gives
+ * the same output; useful for working without a network or API key
+ */
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 15;
+
+const CAST = [
+  { name: 'Mira', description: 'A curious young explorer', prompt: 'A young woman with short black hair, green scarf, brown leather jacket, bright determined eyes' },
+  { name: 'Bolt', description: 'A loyal little robot companion', prompt: 'A small round robot with a copper body, single blue glowing eye and stubby antenna' },
+  { name: 'Elder Rowan', description: 'A wise mentor who knows the old secrets', prompt: 'An old man with a long white beard, deep blue hooded robe and a carved wooden staff' },
+  { name: 'Juno', description: 'A mischievous rival with a kind heart', prompt: 'A teenage girl with red curly hair, patched overalls and a mischievous grin' },
+];
+
+const SCENES = [
+  { title: 'The Beginning', description: 'The journey starts', mood: 'soft morning light, calm and hopeful' },
+  { title: 'The Challenge', description: 'Things get difficult', mood: 'dramatic shadows, tense atmosphere' },
+  { title: 'The Resolution', description: 'Everything comes together', mood: 'warm golden sunset, joyful mood' },
+];
+
+function hashString(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function lastUserMessage(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return messages[i].content;
+  }
+  return '';
+}
+
+function buildMockStory(idea: string): string {
+  const hash = hashString(idea);
+  const hero = CAST[hash % CAST.length];
+  const friend = CAST[(hash + 1) % CAST.length];
+  const topic = idea.trim().replace(/[.!?]+$/, '') || 'An unexpected adventure';
+
+  const story = {
+    title: topic.length > 40 ? `${topic.slice(0, 40).trim()}...` : topic,
+    synopsis: `${topic}. ${hero.name} and ${friend.name} set out together, face a challenge that tests their friendship, and find their way home changed.`,
+    characters: [hero, friend],
+    scenes: SCENES.map((scene, index) => ({
+      title: scene.title,
+      description: `${scene.description}: ${topic.toLowerCase()}`,
+      shots: [
+        {
+          subtitle: `${hero.name} takes a deep breath. Chapter ${index + 1} begins.`,
+          location: `Wide open landscape, ${scene.mood}`,
+          content: `Wide shot: @${hero.name} stands at the center of the frame looking ahead, ${scene.mood}`,
+        },
+        {
+          subtitle: `"Stay close," says ${friend.name}.`,
+          location: `Close quarters, ${scene.mood}`,
+          content: `Medium shot: @${friend.name} turns toward @${hero.name} and smiles, ${scene.mood}`,
+        },
+      ],
+    })),
+  };
+
+  return JSON.stringify(story, null, 2);
+}
+
+/**
+ * Rewrite the focused (or first) shot so the instruction is visible in the result
+ */
+function buildMockPatch(input: string): string {
+  let story: any = null;
+  let instruction = '';
+  let focus: { sceneId?: string; shotId?: string } = {};
+  try {
+    ({ story, instruction, focus = {} } = JSON.parse(input));
+  } catch {
+    // Not a refine request body
+  }
+
+  const scene = story?.scenes?.find((s: any) => s.id === focus.sceneId) || story?.scenes?.[0];
+  const shot = scene?.shots?.find((s: any) => s.id === focus.shotId) || scene?.shots?.[0];
+
+  if (!scene || !shot) {
+    return JSON.stringify({ summary: 'Nothing to change', operations: [] });
+  }
+
+  return JSON.stringify({
+    summary: `Applied "${instruction}" to the first shot of "${scene.title}"`,
+    operations: [
+      {
+        op: 'update_shot',
+        sceneId: scene.id,
+        shotId: shot.id,
+        changes: { content: `${shot.content} (${instruction})` },
+      },
+    ],
+  }, null, 2);
+}
+
+/**
+ * Hand back the built motion prompt, so refinement is a no-op offline
+ */
+function buildMockMotionPrompt(input: string): string {
+  try {
+    const { draft } = JSON.parse(input);
+    if (typeof draft === 'string') return draft;
+  } catch {
+    // Not a motion prompt request body
+  }
+  return input;
+}
+
+function respond(request: TextCompletionRequest): string {
+  const input = lastUserMessage(request.messages);
+
+  switch (request.task) {
+    case 'story':
+      return buildMockStory(input);
+    case 'refine':
+      return buildMockPatch(input);
+    case 'motion':
+      return buildMockMotionPrompt(input);
+    default:
+      return request.jsonMode ? JSON.stringify({ text: input }) : `Mock response: ${input}`;
+  }
+}
+
+export function createMockProvider(): TextProvider {
+  return {
+    id: 'mock',
+
+    async complete(request) {
+      return respond(request);
+    },
+
+    async *stream(request, signal) {
+      const text = respond(request);
+      for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+        if (signal?.aborted) {
+          throw new Error('Request aborted');
+        }
+        await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+        yield text.slice(i, i + CHUNK_SIZE);
+      }
+    },
+  };
+}
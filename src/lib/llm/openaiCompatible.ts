@@ -0,0 +1,72 @@
+import { UpstreamHttpError } from '@/lib/upstreamError';
+import { readChatCompletionStream } from './sse';
+import { TextCompletionRequest, TextProvider } from './types';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Adapter for the OpenAI chat completions API
+ * Also covers local servers exposing the same API, e.g.
+ * llama.cpp (http://localhost:8080/v1) or Ollama (http://localhost:11434/v1)
+ */
+export function createOpenAICompatibleProvider(
+  apiKey: string,
+  baseUrl: string = OPENAI_DEFAULT_BASE_URL
+): TextProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const send = async (request: TextCompletionRequest, stream: boolean, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without a key
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let message = `Text model request failed (${response.status})`;
+      try {
+        message = JSON.parse(errorText).error?.message || message;
+      } catch {
+        if (errorText) message = `${message}: ${errorText.slice(0, 200)}`;
+      }
+      throw new UpstreamHttpError(message, response);
+    }
+
+    return response;
+  };
+
+  return {
+    id: 'openai',
+
+    async complete(request) {
+      const response = await send(request, false);
+      const data = await response.json();
+
+      if (!data.choices || data.choices.length === 0) {
+        throw new Error('No response from text model');
+      }
+
+      return data.choices[0].message.content;
+    },
+
+    async *stream(request, signal) {
+      const response = await send(request, true, signal);
+      yield* readChatCompletionStream(response);
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { callOpenRouter, streamOpenRouter, OpenRouterRequest } from '@/utils/openrouter';
+import { TextCompletionRequest, TextProvider } from './types';
+
+/**
+ * JSON mode is only passed through for model families known to support it
+ */
+function supportsJsonMode(modelId: string): boolean {
+  return modelId.includes('gpt-4') || modelId.includes('gpt-3.5') ||
+    modelId.includes('claude-3') || modelId.includes('claude-sonnet') ||
+    modelId.includes('gemini');
+}
+
+function toOpenRouterRequest(request: TextCompletionRequest): OpenRouterRequest {
+  const openRouterRequest: OpenRouterRequest = {
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+  };
+
+  if (request.jsonMode && supportsJsonMode(request.model)) {
+    openRouterRequest.response_format = { type: 'json_object' };
+    console.log('Using JSON mode for model:', request.model);
+  }
+
+  return openRouterRequest;
+}
+
+export function createOpenRouterProvider(apiKey: string): TextProvider {
+  return {
+    id: 'openrouter',
+    complete: (request) => callOpenRouter(apiKey, toOpenRouterRequest(request)),
+    stream: (request, signal) => streamOpenRouter(apiKey, toOpenRouterRequest(request), signal),
+  };
+}
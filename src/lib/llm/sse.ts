@@ -0,0 +1,46 @@
+/**
+ * Server-sent events parser for OpenAI-style chat completion streams
+ * (OpenRouter, OpenAI, llama.cpp, Ollama all use the same format)
+ */
+export async function* readChatCompletionStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('No response body from text model');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        // Skip blank lines and SSE comments (": OPENROUTER PROCESSING")
+        if (!line.startsWith('data:')) continue;
+
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        const data = JSON.parse(payload);
+        if (data.error) {
+          throw new Error(data.error.message || 'Text model stream error');
+        }
+
+        const delta = data.choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
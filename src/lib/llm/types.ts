@@ -0,0 +1,52 @@
+/**
+ * Text LLM provider types
+ * Every text route talks to a TextProvider, so the backend (OpenRouter,
+ * an OpenAI-compatible server or the offline mock) is a settings choice
+ */
+
+export type TextProviderId = 'openrouter' | 'openai' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What the request is for; lets the mock provider return a suitable answer
+ */
+export type TextTask = 'story' | 'refine' | 'motion';
+
+export interface TextCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;         // Ask for a JSON object response where supported
+  task?: TextTask;
+}
+
+export interface TextProvider {
+  id: TextProviderId;
+
+  /**
+   * Return the full completion text
+   */
+  complete(request: TextCompletionRequest): Promise<string>;
+
+  /**
+   * Yield completion text deltas as they arrive; abort via `signal`
+   */
+  stream(request: TextCompletionRequest, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+/**
+ * Text model settings as sent by the client (subset of ModelConfig)
+ */
+export interface TextModelConfig {
+  provider?: string;
+  modelId?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
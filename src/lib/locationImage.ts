@@ -0,0 +1,136 @@
+/**
+ * Location reference plates and shots set in them
+ * Plates are empty establishing shots of a location. A time-of-day variant is
+ * an edit of an existing plate that only changes the lighting, and a shot
+ * without characters is an edit of its location's plate, so the set keeps its
+ * layout everywhere it appears.
+ */
+
+import type Replicate from 'replicate';
+import type { TimeOfDay } from '@/stores/StoryStore';
+import { resolveAssetInput } from './serverAssetStore';
+import { resolveSeed } from '@/utils/seed';
+import { isTimeOfDay } from '@/utils/locations';
+
+export const LOCATION_EDIT_MODEL = 'black-forest-labs/flux-kontext-pro';
+
+export interface LocationReference {
+  name: string;
+  description: string;
+  imageUrl: string;                   // Plate for the shot's time of day
+  timeOfDay?: TimeOfDay;
+}
+
+export interface LocationPlateRequest {
+  name: string;
+  description: string;
+  timeOfDay: TimeOfDay;
+  style: string;
+  aspectRatio: string;
+  modelId: string;                    // Text-to-image model for a first plate
+  basePlateUrl?: string;              // Existing plate to derive a variant from
+}
+
+export interface LocationImageResult {
+  imageUrl: string;                   // Replicate output URL
+  modelUsed: string;
+  prompt: string;
+  seed?: number;
+}
+
+const TIME_OF_DAY_LIGHTING: Record<TimeOfDay, string> = {
+  dawn: 'at dawn, soft pink and gold early morning light, long shadows',
+  day: 'in daytime, bright natural daylight',
+  dusk: 'at dusk, warm orange sunset light fading to blue',
+  night: 'at night, dark sky, moonlight and practical lights',
+};
+
+/**
+ * `locationReference` from a request body, or undefined when missing or malformed
+ */
+export function parseLocationReference(value: any): LocationReference | undefined {
+  if (!value || typeof value.imageUrl !== 'string' || typeof value.name !== 'string') return undefined;
+  return {
+    name: value.name,
+    description: typeof value.description === 'string' ? value.description : '',
+    imageUrl: value.imageUrl,
+    ...(isTimeOfDay(value.timeOfDay) ? { timeOfDay: value.timeOfDay } : {}),
+  };
+}
+
+function firstOutput(output: unknown): string {
+  return (Array.isArray(output) ? output[0] : output) as string;
+}
+
+export function describeLocation(location: Pick<LocationReference, 'name' | 'description'>): string {
+  return location.description ? `${location.name}: ${location.description}` : location.name;
+}
+
+export function describeTimeOfDay(timeOfDay: TimeOfDay | undefined): string {
+  return timeOfDay ? TIME_OF_DAY_LIGHTING[timeOfDay] : '';
+}
+
+/**
+ * Generate a reference plate: from text for a location's first plate, or as
+ * a relit copy of an existing plate for another time of day
+ */
+export async function generateLocationPlate(
+  replicate: Replicate,
+  request: LocationPlateRequest
+): Promise<LocationImageResult> {
+  const lighting = TIME_OF_DAY_LIGHTING[request.timeOfDay];
+
+  if (request.basePlateUrl) {
+    const prompt = `Show this exact same place ${lighting}. Change only the lighting, sky and light sources; `
+      + 'keep the layout, architecture, furniture, props and camera angle unchanged. No people.';
+
+    const output = await replicate.run(LOCATION_EDIT_MODEL as any, {
+      input: {
+        prompt,
+        input_image: await resolveAssetInput(request.basePlateUrl),
+        aspect_ratio: 'match_input_image',
+        output_format: 'png',
+      },
+    });
+    return { imageUrl: firstOutput(output), modelUsed: LOCATION_EDIT_MODEL, prompt };
+  }
+
+  const prompt = `${request.style} style environment design: ${describeLocation(request)}, ${lighting}.
+Wide establishing shot, empty set with no people or characters, clear readable layout,
+highly detailed, consistent style, location reference plate`;
+
+  const output = await replicate.run(request.modelId as any, {
+    input: {
+      prompt,
+      aspect_ratio: request.aspectRatio,
+      output_format: 'png',
+      output_quality: 90,
+    },
+  });
+  return { imageUrl: firstOutput(output), modelUsed: request.modelId, prompt };
+}
+
+/**
+ * Generate a shot inside a location by editing its reference plate
+ */
+export async function generateInLocation(
+  replicate: Replicate,
+  request: { prompt: string; style: string; aspectRatio: string; location: LocationReference; seed?: number }
+): Promise<LocationImageResult> {
+  const lighting = describeTimeOfDay(request.location.timeOfDay);
+  const prompt = `${request.style} style: ${request.prompt}. `
+    + `Set in this exact location (${describeLocation(request.location)})${lighting ? `, ${lighting}` : ''}; `
+    + 'keep its layout, architecture and props.';
+  const seed = resolveSeed(LOCATION_EDIT_MODEL, request.seed);
+
+  const output = await replicate.run(LOCATION_EDIT_MODEL as any, {
+    input: {
+      prompt,
+      input_image: await resolveAssetInput(request.location.imageUrl),
+      aspect_ratio: request.aspectRatio,
+      output_format: 'png',
+      ...(seed !== undefined ? { seed } : {}),
+    },
+  });
+  return { imageUrl: firstOutput(output), modelUsed: LOCATION_EDIT_MODEL, prompt, seed };
+}
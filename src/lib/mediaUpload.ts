@@ -0,0 +1,176 @@
+/**
+ * Uploaded media
+ * Concept art, photos of actors, existing footage and recorded narration are
+ * checked, kept in the local asset store and set on characters, shots and
+ * locations the same way generated media is, so animation, preview and export
+ * treat both alike.
+ */
+
+import { storyStore, CharacterView, TakeKind, TimeOfDay } from '@/stores/StoryStore';
+import { generatePlateId, generateReferenceId } from '@/utils/idGenerator';
+import { createTake } from '@/utils/shotTakes';
+import { loadMediaMetadata, MediaProbeError } from '@/utils/mediaProbe';
+import { assetStore } from './assetStore';
+
+export type UploadKind = 'image' | 'video' | 'audio';
+
+const MB = 1024 * 1024;
+
+export const UPLOAD_LIMITS: Record<UploadKind, { mimeTypes: string[]; maxBytes: number }> = {
+  image: {
+    mimeTypes: ['image/png', 'image/jpeg', 'image/webp'],
+    maxBytes: 20 * MB,
+  },
+  video: {
+    mimeTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+    maxBytes: 200 * MB,
+  },
+  audio: {
+    mimeTypes: ['audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/ogg', 'audio/webm'],
+    maxBytes: 50 * MB,
+  },
+};
+
+// Value for a file input's `accept`
+export function getUploadAccept(kind: UploadKind): string {
+  return UPLOAD_LIMITS[kind].mimeTypes.join(',');
+}
+
+// Shot media kinds map onto upload kinds; an animation is a video file
+const TAKE_UPLOAD_KINDS: Record<TakeKind, UploadKind> = {
+  image: 'image',
+  animation: 'video',
+  audio: 'audio',
+};
+
+export function getTakeUploadKind(kind: TakeKind): UploadKind {
+  return TAKE_UPLOAD_KINDS[kind];
+}
+
+/**
+ * An uploaded file was rejected; the message is meant for the user
+ */
+export class MediaUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaUploadError';
+  }
+}
+
+/**
+ * Load a video or audio file's metadata; resolves with the element once its
+ * duration (and, for video, size) is known
+ */
+async function probeMediaElement(file: File, kind: 'video' | 'audio'): Promise<HTMLMediaElement> {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    return await loadMediaMetadata(objectUrl, kind);
+  } catch (error) {
+    throw new MediaUploadError(
+      error instanceof MediaProbeError && error.reason === 'timeout'
+        ? `${file.name} could not be read in time`
+        : `${file.name} is not a playable ${kind} file`
+    );
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+/**
+ * Check an uploaded file's type and size, and that the browser can decode it
+ * Throws MediaUploadError when it cannot be used
+ */
+export async function validateMediaFile(file: File, kind: UploadKind): Promise<void> {
+  const { mimeTypes, maxBytes } = UPLOAD_LIMITS[kind];
+
+  if (!mimeTypes.includes(file.type)) {
+    throw new MediaUploadError(
+      `${file.name} is not a supported ${kind} file (${file.type || 'unknown type'}). Supported: ${mimeTypes.join(', ')}`
+    );
+  }
+  if (file.size === 0) {
+    throw new MediaUploadError(`${file.name} is empty`);
+  }
+  if (file.size > maxBytes) {
+    throw new MediaUploadError(`${file.name} is larger than ${Math.round(maxBytes / MB)} MB`);
+  }
+
+  if (kind === 'image') {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(file);
+    } catch {
+      throw new MediaUploadError(`${file.name} is not a readable image`);
+    }
+    bitmap.close();
+    return;
+  }
+
+  const element = await probeMediaElement(file, kind);
+  if (!Number.isFinite(element.duration) || element.duration <= 0) {
+    throw new MediaUploadError(`${file.name} has no playable length`);
+  }
+  if (element instanceof HTMLVideoElement && (element.videoWidth === 0 || element.videoHeight === 0)) {
+    throw new MediaUploadError(`${file.name} has no video track`);
+  }
+}
+
+/**
+ * Use an uploaded image as a character's main reference sheet
+ */
+export async function uploadCharacterImage(index: number, file: File): Promise<void> {
+  await validateMediaFile(file, 'image');
+  const url = await assetStore.put(file);
+  storyStore.updateCharacter(index, { referenceImageUrl: url });
+}
+
+/**
+ * Upload one named reference (view, optionally in a wardrobe) of a character
+ */
+export async function uploadCharacterReference(
+  index: number,
+  view: CharacterView,
+  wardrobeId: string | undefined,
+  file: File
+): Promise<void> {
+  await validateMediaFile(file, 'image');
+
+  const url = await assetStore.put(file);
+  storyStore.setCharacterReference(index, {
+    id: generateReferenceId(),
+    view,
+    ...(wardrobeId ? { wardrobeId } : {}),
+    url,
+    source: 'uploaded',
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Upload a reference plate for one time of day of a location
+ */
+export async function uploadLocationPlate(locationId: string, timeOfDay: TimeOfDay, file: File): Promise<void> {
+  await validateMediaFile(file, 'image');
+
+  const url = await assetStore.put(file);
+  storyStore.setLocationPlate(locationId, {
+    id: generatePlateId(),
+    url,
+    timeOfDay,
+    source: 'uploaded',
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Upload a shot's image, video or narration as a new take and make it active
+ */
+export async function uploadShotMedia(sceneId: string, shotId: string, kind: TakeKind, file: File): Promise<void> {
+  await validateMediaFile(file, getTakeUploadKind(kind));
+
+  const url = await assetStore.put(file);
+  storyStore.addTake(sceneId, shotId, createTake(kind, url, {
+    source: 'uploaded',
+    fileName: file.name,
+  }));
+}
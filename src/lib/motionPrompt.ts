@@ -0,0 +1,178 @@
+/**
+ * Motion prompts for image-to-video models
+ * Built from the shot (action, setting and camera direction) in the length
+ * and phrasing each model family handles best, and optionally rewritten by
+ * the text model. Shared by /api/generate-video, the 'generate-video' job and
+ * /api/motion-prompt.
+ */
+
+import { resolveTextModel, TextModelConfig } from '@/lib/llm';
+import type { ShotCamera } from '@/stores/StoryStore';
+import { describeCameraMotion, parseShotCamera } from '@/utils/camera';
+
+/**
+ * What the prompt is built from; sent by the client for each shot
+ */
+export interface MotionShotContext {
+  subtitle?: string;
+  content?: string;
+  location?: string;
+  camera?: ShotCamera;
+}
+
+export interface MotionPromptOptions {
+  motionPrompt?: string;       // Written or approved by the user; used as is
+  shot?: MotionShotContext;
+  refine?: boolean;            // Let the text model rewrite the built prompt
+  textModel?: TextModelConfig;
+}
+
+interface MotionPromptProfile {
+  maxLength: number;
+  // Long, chronological descriptions or one short instruction
+  detail: 'descriptive' | 'concise';
+}
+
+// Checked in order against the model ID, like MODEL_CONFIGS in videoGeneration
+const MOTION_PROMPT_PROFILES: Array<[string, MotionPromptProfile]> = [
+  ['lightricks/ltx-video', { maxLength: 800, detail: 'descriptive' }],
+  ['google/veo', { maxLength: 1000, detail: 'descriptive' }],
+  ['wan-video/wan', { maxLength: 600, detail: 'descriptive' }],
+  ['minimax/', { maxLength: 400, detail: 'concise' }],
+  ['bytedance/seedance', { maxLength: 400, detail: 'concise' }],
+  ['kwaivgi/kling', { maxLength: 500, detail: 'concise' }],
+  ['luma/', { maxLength: 400, detail: 'concise' }],
+  ['open-mmlab/pia', { maxLength: 200, detail: 'concise' }],
+];
+
+const DEFAULT_PROFILE: MotionPromptProfile = { maxLength: 400, detail: 'concise' };
+
+export function getMotionPromptProfile(modelId: string): MotionPromptProfile {
+  return MOTION_PROMPT_PROFILES.find(([key]) => modelId.includes(key))?.[1] || DEFAULT_PROFILE;
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// Mentions read as plain names in a prompt
+function toPlainText(text: string | undefined): string {
+  return (text || '').replace(/@/g, '').replace(/\s+/g, ' ').trim().replace(/[.\s]+$/, '');
+}
+
+function firstSentence(text: string): string {
+  return text.match(/^.+?[.!?](?=\s|$)/)?.[0].replace(/[.!?]$/, '') || text;
+}
+
+// Cut at a word boundary so the model never gets half a word
+function clip(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[,.;:\s]+$/, '');
+}
+
+/**
+ * Read shot context from a request body, keeping only usable fields
+ */
+export function parseMotionShotContext(value: unknown): MotionShotContext | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const camera = parseShotCamera(raw.camera);
+
+  const context: MotionShotContext = {
+    ...(isText(raw.subtitle) ? { subtitle: raw.subtitle } : {}),
+    ...(isText(raw.content) ? { content: raw.content } : {}),
+    ...(isText(raw.location) ? { location: raw.location } : {}),
+    ...(camera ? { camera } : {}),
+  };
+  return Object.keys(context).length > 0 ? context : undefined;
+}
+
+/**
+ * Motion prompt for a shot from a template; empty when the shot gives
+ * nothing to go on, so the model's default prompt is kept
+ */
+export function buildMotionPrompt(modelId: string, context: MotionShotContext = {}): string {
+  const profile = getMotionPromptProfile(modelId);
+  const motion = describeCameraMotion(context.camera);
+  const action = toPlainText(context.content);
+  if (!motion && !action) return '';
+
+  const parts = profile.detail === 'descriptive'
+    ? [
+      motion && `${motion[0].toUpperCase()}${motion.slice(1)}`,
+      action,
+      context.location && `Setting: ${toPlainText(context.location)}`,
+      'Smooth, natural motion that stays true to the image, no text or captions',
+    ]
+    : [
+      motion && `${motion[0].toUpperCase()}${motion.slice(1)}`,
+      action && firstSentence(action),
+      'smooth natural motion',
+    ];
+
+  return clip(parts.filter(Boolean).join('. '), profile.maxLength);
+}
+
+function buildRefineSystemPrompt(modelId: string, profile: MotionPromptProfile): string {
+  return `You write prompts for the image-to-video model ${modelId}. The model animates a still image of a storyboard shot; the prompt only needs to say how things move.
+
+Describe the subject's action and the camera movement, in present tense. ${profile.detail === 'descriptive'
+    ? 'Write one detailed paragraph in the order things happen, including the setting, lighting and mood.'
+    : 'Write one or two short sentences; start with the camera movement.'}
+
+Rules:
+- At most ${profile.maxLength} characters
+- Keep the camera movement and framing you are given
+- Use the narration only to understand the moment; never ask for text, subtitles or captions in the video
+- Return ONLY the prompt, without quotes or explanations`;
+}
+
+/**
+ * Rewrite a built prompt with the text model
+ * Throws TextProviderConfigError when the text model is not configured
+ */
+export async function refineMotionPrompt(
+  modelId: string,
+  context: MotionShotContext,
+  draft: string,
+  textModel: TextModelConfig | undefined
+): Promise<string> {
+  const profile = getMotionPromptProfile(modelId);
+  const { provider, modelId: textModelId, temperature } = resolveTextModel(textModel);
+
+  const response = await provider.complete({
+    model: textModelId,
+    messages: [
+      { role: 'system', content: buildRefineSystemPrompt(modelId, profile) },
+      { role: 'user', content: JSON.stringify({ draft, shot: context }) },
+    ],
+    temperature,
+    maxTokens: 400,
+    task: 'motion',
+  });
+
+  const prompt = response.trim().replace(/^["'`]+|["'`]+$/g, '').trim();
+  return clip(prompt || draft, profile.maxLength);
+}
+
+/**
+ * Prompt to animate a shot with
+ * The user's prompt wins; otherwise the template, refined when asked for.
+ * A failed refinement falls back to the template.
+ */
+export async function resolveMotionPrompt(modelId: string, options: MotionPromptOptions): Promise<string> {
+  if (isText(options.motionPrompt)) return options.motionPrompt.trim();
+
+  const context = options.shot || {};
+  const draft = buildMotionPrompt(modelId, context);
+  if (!draft || !options.refine) return draft;
+
+  try {
+    return await refineMotionPrompt(modelId, context, draft, options.textModel);
+  } catch (error: any) {
+    console.warn('Motion prompt refinement failed, using the built prompt:', error.message);
+    return draft;
+  }
+}
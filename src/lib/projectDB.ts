@@ -5,10 +5,12 @@
 
 import { StoryData } from '@/stores/StoryStore';
 import { ProjectData } from '@/utils/projectIO';
+import { CURRENT_SCHEMA_VERSION, MigrationReport, migrateProject } from '@/utils/projectMigrations';
 
 const DB_NAME = 'AIStoryTool';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'projects';
+export const ASSET_STORE_NAME = 'assets'; // Generated media by content hash, see assetStore
 
 export interface StoredProject {
   id: string;
@@ -17,6 +19,8 @@ export interface StoredProject {
   createdAt: number;
   updatedAt: number;
   thumbnail?: string; // Optional base64 thumbnail
+  migration?: MigrationReport; // Set on load when `data` was upgraded from an older schema
+  loadError?: string;          // Set on load when `data` cannot be read (e.g. saved by a newer app)
 }
 
 class ProjectDB {
@@ -49,14 +53,19 @@ class ProjectDB {
           objectStore.createIndex('updatedAt', 'updatedAt', { unique: false });
           objectStore.createIndex('name', 'name', { unique: false });
         }
+
+        // Version 2: content-addressed media
+        if (!db.objectStoreNames.contains(ASSET_STORE_NAME)) {
+          db.createObjectStore(ASSET_STORE_NAME, { keyPath: 'hash' });
+        }
       };
     });
   }
 
   /**
-   * Ensure DB is initialized
+   * Ensure DB is initialized (also used by the asset store)
    */
-  private async ensureDB(): Promise<IDBDatabase> {
+  async ensureDB(): Promise<IDBDatabase> {
     if (!this.db) {
       await this.init();
     }
@@ -80,6 +89,21 @@ class ProjectDB {
     }
   }
 
+  /**
+   * Upgrade a stored project's data to the current schema
+   * Failures are recorded on the project instead of thrown, so one
+   * unreadable project does not break the project list
+   */
+  private upgradeProject(project: StoredProject): StoredProject {
+    try {
+      const { project: data, report } = migrateProject(project.data);
+      return report.applied.length > 0 ? { ...project, data, migration: report } : { ...project, data };
+    } catch (error: any) {
+      console.warn(`Project ${project.id} could not be upgraded:`, error);
+      return { ...project, loadError: error.message };
+    }
+  }
+
   /**
    * Save a project to IndexedDB
    */
@@ -99,6 +123,7 @@ class ProjectDB {
 
     const projectData: ProjectData = {
       version: '1.0.0',
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       timestamp: now,
       story: cleanStory,
       currentStep,
@@ -134,7 +159,7 @@ class ProjectDB {
   }
 
   /**
-   * Get a single project by ID
+   * Get a single project by ID, upgraded to the current schema
    */
   async getProject(id: string): Promise<StoredProject | null> {
     const db = await this.ensureDB();
@@ -145,7 +170,7 @@ class ProjectDB {
       const request = store.get(id);
 
       request.onsuccess = () => {
-        resolve(request.result || null);
+        resolve(request.result ? this.upgradeProject(request.result) : null);
       };
 
       request.onerror = () => {
@@ -155,7 +180,7 @@ class ProjectDB {
   }
 
   /**
-   * Get all projects, sorted by last updated
+   * Get all projects, sorted by last updated and upgraded to the current schema
    */
   async getAllProjects(): Promise<StoredProject[]> {
     const db = await this.ensureDB();
@@ -171,7 +196,7 @@ class ProjectDB {
       request.onsuccess = (event) => {
         const cursor = (event.target as IDBRequest).result;
         if (cursor) {
-          projects.push(cursor.value);
+          projects.push(this.upgradeProject(cursor.value));
           cursor.continue();
         } else {
           resolve(projects);
@@ -217,8 +242,10 @@ class ProjectDB {
     const newId = `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const now = Date.now();
 
+    // Load-time fields are not stored
+    const { migration, loadError, ...storedFields } = project;
     const duplicatedProject: StoredProject = {
-      ...project,
+      ...storedFields,
       id: newId,
       name: `${project.name} (Copy)`,
       createdAt: now,
@@ -0,0 +1,36 @@
+/**
+ * Upstream rate limits
+ * A provider error is a rate limit when it carries HTTP 429 (see
+ * lib/upstreamError); the message is not trusted, since any text can
+ * contain "429". Generation routes pass them on as 429 with Retry-After so
+ * the browser's generation scheduler can back off instead of failing the shot.
+ */
+
+import { NextResponse } from 'next/server';
+import { getUpstreamStatus } from '@/lib/upstreamError';
+
+export function isUpstreamRateLimit(error: any): boolean {
+  return getUpstreamStatus(error) === 429;
+}
+
+function getRetryAfterSeconds(error: any): number | undefined {
+  const header = error?.response?.headers?.get?.('retry-after');
+  const seconds = header ? parseFloat(header) : NaN;
+  return Number.isFinite(seconds) ? Math.ceil(seconds) : undefined;
+}
+
+/**
+ * A 429 response for a rate-limited provider error, or null for other errors
+ */
+export function rateLimitResponse(error: any): NextResponse | null {
+  if (!isUpstreamRateLimit(error)) return null;
+
+  const retryAfter = getRetryAfterSeconds(error);
+  return NextResponse.json(
+    { error: error?.message || 'Rate limited by the provider', retryAfter },
+    {
+      status: 429,
+      headers: retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : undefined,
+    }
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Client for the FFmpeg render service (src/services/ffmpeg)
+ * Used by /api/compose-video and /api/add-audio (wait for the file) and the
+ * 'compose-video' job (background render, stored as an asset)
+ *
+ * FFMPEG_SERVICE_URL points at the service. The service downloads media
+ * itself, so asset references are rewritten to this app's /api/assets URLs
+ * under RENDER_ASSET_BASE_URL (falls back to the calling request's origin).
+ */
+
+import { putAsset } from '@/lib/serverAssetStore';
+import type {
+  AddAudioRequest,
+  ConcatRequest,
+  RenderInfo,
+  RenderOperation,
+} from '@/services/ffmpeg/types';
+import { getAssetHash, getAssetPath, isAssetRef, toAssetRef } from '@/utils/assetRef';
+
+export type {
+  AddAudioRequest,
+  ClipFit,
+  ConcatRequest,
+  RenderFraming,
+  RenderInfo,
+  RenderOptions,
+  RenderResolution,
+  RenderSegment,
+  SegmentTransition,
+  SubtitleStyle,
+  TransitionType,
+} from '@/services/ffmpeg/types';
+
+export const FFMPEG_SERVICE_URL = process.env.FFMPEG_SERVICE_URL || 'http://localhost:3001';
+
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * The render service answered with an error; `status` is its HTTP status
+ */
+export class RenderServiceError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RenderServiceError';
+  }
+}
+
+async function readServiceError(response: Response, fallback: string): Promise<RenderServiceError> {
+  const data = await response.json().catch(() => null);
+  return new RenderServiceError(data?.error || `${fallback} (${response.status})`, response.status);
+}
+
+function toServiceUrl(url: string | undefined, origin: string): string | undefined {
+  if (!url || !isAssetRef(url)) return url;
+  const base = process.env.RENDER_ASSET_BASE_URL || origin;
+  return `${base.replace(/\/$/, '')}${getAssetPath(getAssetHash(url))}`;
+}
+
+/**
+ * Rewrite asset references in a concat request to URLs the service can fetch
+ */
+export function resolveConcatUrls(request: ConcatRequest, origin: string): ConcatRequest {
+  return {
+    ...request,
+    videos: request.videos.map(video => ({
+      ...video,
+      url: toServiceUrl(video.url, origin)!,
+      audioUrl: toServiceUrl(video.audioUrl, origin),
+    })),
+  };
+}
+
+export function resolveAddAudioUrls(request: AddAudioRequest, origin: string): AddAudioRequest {
+  return {
+    ...request,
+    videoUrl: toServiceUrl(request.videoUrl, origin)!,
+    audioUrl: toServiceUrl(request.audioUrl, origin)!,
+  };
+}
+
+/**
+ * Render and wait for the MP4 in the same request
+ * Aborting `signal` closes the connection, which cancels the render
+ */
+export async function renderNow(operation: RenderOperation, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(`${FFMPEG_SERVICE_URL}/${operation.operation}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(operation.request),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await readServiceError(response, 'Render failed');
+  }
+  return response;
+}
+
+export interface RenderProgressOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number, message?: string) => void;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Run a background render, polling its progress, and return the MP4 bytes
+ * Aborting `signal` cancels the render on the service
+ */
+export async function renderInBackground(operation: RenderOperation, options: RenderProgressOptions = {}): Promise<Buffer> {
+  const { signal, onProgress } = options;
+
+  const startResponse = await fetch(`${FFMPEG_SERVICE_URL}/renders`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(operation),
+    signal,
+  });
+  if (!startResponse.ok) {
+    throw await readServiceError(startResponse, 'Failed to start render');
+  }
+
+  let render: RenderInfo = await startResponse.json();
+  const renderUrl = `${FFMPEG_SERVICE_URL}/renders/${render.id}`;
+
+  try {
+    while (render.status === 'queued' || render.status === 'running') {
+      await wait(POLL_INTERVAL_MS, signal);
+      signal?.throwIfAborted();
+
+      const response = await fetch(renderUrl, { signal });
+      if (!response.ok) {
+        throw await readServiceError(response, 'Failed to check render');
+      }
+      render = await response.json();
+      onProgress?.(render.progress, render.message);
+    }
+
+    if (render.status !== 'succeeded') {
+      throw new RenderServiceError(render.error || `Render ${render.status}`, 500);
+    }
+
+    const output = await fetch(`${renderUrl}/output`, { signal });
+    if (!output.ok) {
+      throw await readServiceError(output, 'Failed to download render');
+    }
+    return Buffer.from(await output.arrayBuffer());
+  } finally {
+    // Cancels an unfinished render, or frees the finished file on the service
+    fetch(renderUrl, { method: 'DELETE' }).catch(() => {});
+  }
+}
+
+export interface ComposeVideoResult {
+  videoUrl: string;                   // Asset reference of the finished MP4
+  size: number;
+}
+
+/**
+ * 'compose-video' job: render the story and keep it in the asset store
+ * Expects asset references already resolved (see resolveConcatUrls)
+ */
+export async function composeVideo(
+  request: ConcatRequest,
+  options: RenderProgressOptions = {}
+): Promise<ComposeVideoResult> {
+  const data = await renderInBackground({ operation: 'concat', request }, options);
+  const info = await putAsset(data, 'video/mp4');
+  return { videoUrl: toAssetRef(info.hash), size: info.size };
+}
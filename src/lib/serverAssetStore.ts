@@ -0,0 +1,269 @@
+/**
+ * Content-addressed asset store on the server filesystem
+ * Files live under ASSET_STORAGE_DIR (default ./.assets) as
+ * `<first two hash chars>/<hash>` with a JSON sidecar holding the metadata
+ */
+
+import { createHash } from 'crypto';
+import { promises as dns } from 'dns';
+import { promises as fs } from 'fs';
+import { BlockList, isIP } from 'net';
+import path from 'path';
+import { getAssetHash, guessMimeType, isAssetHash, isAssetRef, toAssetRef } from '@/utils/assetRef';
+import { proxyReplicateUrl } from '@/utils/cdnProxy';
+
+export interface StoredAssetInfo {
+  hash: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  sourceUrl?: string;
+}
+
+export class AssetNotFoundError extends Error {
+  constructor(public hash: string) {
+    super(`Asset ${hash} is not stored on the server`);
+    this.name = 'AssetNotFoundError';
+  }
+}
+
+/**
+ * A file the store won't take: not image, video or audio, too large, or from
+ * a host the server must not reach. `status` is the HTTP status to answer with
+ */
+export class AssetRejectedError extends Error {
+  constructor(message: string, public status: 400 | 413 = 400) {
+    super(message);
+    this.name = 'AssetRejectedError';
+  }
+}
+
+// Largest file taken from an upload or a download (ASSET_MAX_BYTES overrides)
+const DEFAULT_MAX_ASSET_BYTES = 200 * 1024 * 1024;
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, shared and reserved ranges; a client-supplied
+// url must not make the server fetch from its own network
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+export function getMaxAssetBytes(): number {
+  const configured = Number(process.env.ASSET_MAX_BYTES);
+  return configured > 0 ? configured : DEFAULT_MAX_ASSET_BYTES;
+}
+
+/**
+ * Whether the store keeps files of this type: images, video and audio, but
+ * not SVG, which can carry script
+ */
+export function isAllowedMediaType(mimeType: string): boolean {
+  return /^(image|video|audio)\/[\w.+-]+$/i.test(mimeType) && mimeType.toLowerCase() !== 'image/svg+xml';
+}
+
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Reject a url whose host is, or resolves to, a private or loopback address
+ */
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new AssetRejectedError('An http(s) url is required');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await dns.lookup(hostname, { all: true }).catch(() => [])).map(({ address }) => address);
+
+  if (addresses.length === 0) {
+    throw new AssetRejectedError(`Could not resolve ${url.hostname}`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new AssetRejectedError(`${url.hostname} is not a public host`);
+  }
+}
+
+/**
+ * Read a request or response body, giving up once it passes `maxBytes`
+ */
+export async function readLimitedBody(
+  body: ReadableStream<Uint8Array> | null,
+  maxBytes = getMaxAssetBytes()
+): Promise<Buffer> {
+  if (!body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new AssetRejectedError(`File is larger than ${maxBytes} bytes`, 413);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function getAssetDir(): string {
+  return process.env.ASSET_STORAGE_DIR || path.join(process.cwd(), '.assets');
+}
+
+function getAssetFile(hash: string): string {
+  return path.join(getAssetDir(), hash.slice(0, 2), hash);
+}
+
+export function hashBuffer(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Metadata for a stored asset, or null when it is not on disk
+ */
+export async function getAssetInfo(hash: string): Promise<StoredAssetInfo | null> {
+  if (!isAssetHash(hash)) return null;
+
+  try {
+    const json = await fs.readFile(`${getAssetFile(hash)}.json`, 'utf-8');
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an asset's bytes and metadata, or null when it is not on disk
+ */
+export async function readAsset(hash: string): Promise<{ info: StoredAssetInfo; data: Buffer } | null> {
+  const info = await getAssetInfo(hash);
+  if (!info) return null;
+
+  try {
+    const data = await fs.readFile(getAssetFile(hash));
+    return { info, data };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store bytes under their SHA-256; storing the same content twice is a no-op
+ * Only image, video and audio types are taken, since the file is served back
+ * from the app's own origin
+ */
+export async function putAsset(data: Buffer, mimeType: string, sourceUrl?: string): Promise<StoredAssetInfo> {
+  if (!isAllowedMediaType(mimeType)) {
+    throw new AssetRejectedError(`Unsupported file type: ${mimeType}`);
+  }
+
+  const hash = hashBuffer(data);
+  const existing = await getAssetInfo(hash);
+  if (existing) return existing;
+
+  const file = getAssetFile(hash);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  // Write to a temp file first so a half-written asset is never served
+  const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, data);
+  await fs.rename(tempFile, file);
+
+  const info: StoredAssetInfo = {
+    hash,
+    mimeType,
+    size: data.length,
+    createdAt: Date.now(),
+    ...(sourceUrl ? { sourceUrl } : {}),
+  };
+  await fs.writeFile(`${file}.json`, JSON.stringify(info, null, 2));
+
+  return info;
+}
+
+/**
+ * Download a remote file into the store
+ * With `publicOnly` (urls from clients) the host and every redirect must
+ * resolve to a public address
+ */
+export async function ingestRemoteAsset(
+  url: string,
+  { publicOnly = false }: { publicOnly?: boolean } = {}
+): Promise<StoredAssetInfo> {
+  let target = url;
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    if (publicOnly) await assertPublicUrl(new URL(target));
+    response = await fetch(target, { redirect: publicOnly ? 'manual' : 'follow' });
+
+    const location = response.headers.get('location');
+    if (!publicOnly || response.status < 300 || response.status >= 400 || !location) break;
+    if (redirects >= MAX_REDIRECTS) {
+      throw new AssetRejectedError(`Too many redirects from ${url}`);
+    }
+    target = new URL(location, target).toString();
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const maxBytes = getMaxAssetBytes();
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel().catch(() => {});
+    throw new AssetRejectedError(`File is larger than ${maxBytes} bytes`, 413);
+  }
+
+  const data = await readLimitedBody(response.body, maxBytes);
+  return putAsset(data, guessMimeType(target, response.headers.get('content-type')), url);
+}
+
+/**
+ * Keep a freshly generated file before its provider URL expires
+ * Returns an asset reference, or the CDN-proxied URL when the download fails
+ */
+export async function persistGeneratedMedia(url: string): Promise<string> {
+  try {
+    const info = await ingestRemoteAsset(url);
+    return toAssetRef(info.hash);
+  } catch (error: any) {
+    console.error('Failed to store generated media, keeping remote URL:', error.message);
+    return proxyReplicateUrl(url) || url;
+  }
+}
+
+/**
+ * Turn a media reference from a client into a model input
+ * Asset references become the file bytes (the Replicate client uploads them);
+ * anything else is passed through as a URL
+ */
+export async function resolveAssetInput(url: string): Promise<string | Buffer> {
+  if (!isAssetRef(url)) return url;
+
+  const asset = await readAsset(getAssetHash(url));
+  if (!asset) {
+    throw new AssetNotFoundError(getAssetHash(url));
+  }
+  return asset.data;
+}
@@ -0,0 +1,22 @@
+/**
+ * Errors from provider APIs
+ * Fetch-based providers throw UpstreamHttpError so their HTTP status and
+ * Retry-After reach lib/rateLimit the same way as the Replicate client's
+ * ApiError, which also carries the response. Free of server-only imports,
+ * since lib/llm is shared with the browser.
+ */
+
+export class UpstreamHttpError extends Error {
+  constructor(message: string, public response: Response) {
+    super(message);
+    this.name = 'UpstreamHttpError';
+  }
+}
+
+/**
+ * HTTP status of a provider error, if it has one
+ */
+export function getUpstreamStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? error?.status;
+  return typeof status === 'number' ? status : undefined;
+}
@@ -0,0 +1,401 @@
+/**
+ * Image-to-video generation on Replicate
+ * Shared by /api/generate-video (waits for the result) and the
+ * 'generate-video' job (runs in the background, see lib/jobs)
+ */
+
+import Replicate, { Prediction } from 'replicate';
+import { persistGeneratedMedia, resolveAssetInput } from '@/lib/serverAssetStore';
+import { resolveSeed } from '@/utils/seed';
+import { DEFAULT_SHOT_DURATION, parseShotDuration } from '@/utils/shotDuration';
+import { MotionPromptOptions, parseMotionShotContext, resolveMotionPrompt } from './motionPrompt';
+
+const replicate = new Replicate({
+  auth: process.env.REPLICATE_API_TOKEN,
+});
+
+export const DEFAULT_VIDEO_MODEL = 'stability-ai/stable-video-diffusion:3f0457e4619daac51203dedb472816fd4af51f3149fa7a9e0b5ffcf1b8172438';
+
+// Stable Video Diffusion takes no prompt; a static shot asks for less motion
+const STATIC_MOTION_BUCKET_ID = 40;
+
+const EXPIRED_IMAGE_MESSAGE = 'Image URL has expired. Please go back to Storyboard and regenerate the image (click 🔄 Regenerate), then try again.';
+
+// Known working image-to-video models with their specific parameters
+// Based on https://replicate.com/collections/image-to-video
+const MODEL_CONFIGS: Record<string, any> = {
+  'stability-ai/stable-video-diffusion': {
+    input_image: true,
+    frames: { count: 25, minFps: 5, maxFps: 30 }, // Fixed length; the frame rate sets the duration
+    params: {
+      motion_bucket_id: 127,
+      cond_aug: 0.02,
+      video_length: "25_frames_with_svd_xt", // 25 frames; see frames
+      sizing_strategy: 'maintain_aspect_ratio',
+      frames_per_second: 6,
+    }
+  },
+  'lightricks/ltx-video': {
+    image: true,
+    prompt_required: true,
+    numFrames: { fps: 32, multipleOf: 8, max: 257 }, // num_frames is 8n + 1
+    params: {
+      prompt: 'Animate this image with smooth, natural camera motion',
+      num_frames: 161, // 5 seconds at 32 fps (default fps for ltx-video); see numFrames
+      num_inference_steps: 30,
+    }
+  },
+  'google/veo': {
+    image: true,
+    prompt_required: true,
+    durations: [4, 5, 6, 7, 8],
+    params: {
+      duration: 5,
+      aspect_ratio: '16:9',
+      prompt: 'Animate this image with smooth, natural motion',
+    }
+  },
+  'wan-video/wan': {
+    image: true,
+    prompt_required: true,
+    durations: [5],
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion',
+    }
+  },
+  'minimax/hailuo': {
+    image: true,
+    prompt_required: true,
+    durations: [6, 10],
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion',
+    }
+  },
+  'minimax/video-01': {
+    image: true,
+    prompt_required: true,
+    durations: [6],
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion',
+    },
+  },
+  'bytedance/seedance': {
+    image: true,
+    prompt_required: true,
+    durations: [3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion, cinematic camera movement',
+    },
+  },
+  'bytedance/seedance-1-lite': {
+    image: true,
+    prompt_required: true,
+    durations: [3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion, cinematic camera movement',
+    },
+  },
+  'kwaivgi/kling': {
+    image: true,
+    prompt_required: true, // Kling needs both image and prompt
+    durations: [5, 10],
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion', // Default prompt
+    }
+  },
+  'luma/ray': {
+    image: true,
+    prompt_required: true,
+    durations: [5, 9],
+    params: {
+      extend: false,
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion',
+    }
+  },
+  'luma/modify-video': {
+    image: true,
+    prompt_required: true,
+    durations: [5],
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion',
+    },
+  },
+  'fofr/tooncrafter': {
+    image: true,
+    durations: [5],
+    params: {
+      duration: 5,
+    },
+  },
+  'open-mmlab/pia': {
+    image: true,
+    prompt_required: true,
+    durations: [5],
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion',
+    },
+  },
+};
+
+function getModelConfig(modelId: string) {
+  // Try exact match first
+  for (const [key, config] of Object.entries(MODEL_CONFIGS)) {
+    if (modelId.includes(key)) {
+      return config;
+    }
+  }
+
+  // Default config for unknown models - duration is passed through as is
+  return {
+    input_image: true,
+    image: true, // Try both
+    prompt_required: true,
+    params: {
+      duration: 5,
+      prompt: 'Animate this image with smooth, natural motion',
+      motion_bucket_id: 127,
+      frames_per_second: 6,
+    }
+  };
+}
+
+export interface VideoGenerationInput extends MotionPromptOptions {
+  imageUrl: string;
+  modelConfig?: { modelId?: string };
+  seed?: number;
+  duration?: number;           // Shot length in seconds; mapped to what the model supports
+}
+
+/**
+ * A 'generate-video' job input without credentials
+ * Job inputs are written to the job store and returned with the job, so
+ * only the known fields are kept and API keys are dropped; the job runs with
+ * the server's keys
+ */
+export function toVideoJobInput(input: VideoGenerationInput): VideoGenerationInput {
+  const { imageUrl, modelConfig, seed, duration, shot, motionPrompt, refine, textModel } = input;
+  return {
+    imageUrl,
+    ...(modelConfig ? { modelConfig: { modelId: modelConfig.modelId } } : {}),
+    ...(seed !== undefined ? { seed } : {}),
+    ...(duration !== undefined ? { duration } : {}),
+    ...(shot !== undefined ? { shot } : {}),
+    ...(motionPrompt !== undefined ? { motionPrompt } : {}),
+    ...(refine !== undefined ? { refine } : {}),
+    ...(textModel ? {
+      textModel: {
+        provider: textModel.provider,
+        modelId: textModel.modelId,
+        baseUrl: textModel.baseUrl,
+        temperature: textModel.temperature,
+        maxTokens: textModel.maxTokens,
+      },
+    } : {}),
+  };
+}
+
+export interface VideoGenerationResult {
+  videoUrl: string;
+  modelUsed: string;
+  prompt?: string;
+  seed?: number;
+  duration?: number;           // Length the model was asked for, in seconds
+  warning?: string;
+}
+
+export interface VideoGenerationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number, message?: string) => void;
+}
+
+/**
+ * The source image is no longer reachable by the model provider
+ */
+export class ImageExpiredError extends Error {
+  constructor() {
+    super(EXPIRED_IMAGE_MESSAGE);
+    this.name = 'ImageExpiredError';
+  }
+}
+
+function isNotFoundError(error: any): boolean {
+  return !!error?.message && (
+    error.message.includes('404') ||
+    error.message.includes('Not Found')
+  );
+}
+
+/**
+ * Rough progress of a running prediction from its status and logs
+ * Most video models log a tqdm-style "NN%" bar while sampling
+ */
+function getPredictionProgress(prediction: Prediction): { progress: number; message: string } {
+  if (prediction.status === 'starting') {
+    return { progress: 0.05, message: 'Starting model' };
+  }
+
+  const percentages = prediction.logs?.match(/(\d{1,3})%/g);
+  const last = percentages ? parseInt(percentages[percentages.length - 1], 10) : NaN;
+  if (!isNaN(last) && last <= 100) {
+    return { progress: 0.1 + 0.8 * (last / 100), message: `Generating video (${last}%)` };
+  }
+
+  return { progress: 0.1, message: 'Generating video' };
+}
+
+/**
+ * Shortest supported duration that fits `seconds`, so narration is not cut
+ * off; the longest one when none does
+ */
+function pickSupportedDuration(supported: number[], seconds: number): number {
+  return supported.find(option => option >= seconds) ?? supported[supported.length - 1];
+}
+
+/**
+ * Ask the model for a clip of about `seconds`
+ * Returns the length actually asked for
+ */
+function applyDuration(config: any, input: any, seconds: number): number {
+  if (config.frames) {
+    const { count, minFps, maxFps } = config.frames;
+    input.frames_per_second = Math.min(maxFps, Math.max(minFps, Math.round(count / seconds)));
+    return count / input.frames_per_second;
+  }
+  if (config.numFrames) {
+    const { fps, multipleOf, max } = config.numFrames;
+    const frames = Math.ceil((seconds * fps) / multipleOf) * multipleOf + 1;
+    input.num_frames = Math.min(max, frames);
+    return (input.num_frames - 1) / fps;
+  }
+  input.duration = config.durations ? pickSupportedDuration(config.durations, seconds) : Math.round(seconds);
+  return input.duration;
+}
+
+async function runModel(
+  modelId: string,
+  imageInput: string | Buffer,
+  requestedSeed: number | undefined,
+  targetDuration: number,
+  motion: MotionPromptOptions,
+  options: VideoGenerationOptions
+): Promise<Omit<VideoGenerationResult, 'warning'>> {
+  const config = getModelConfig(modelId);
+
+  // Build input object
+  const input: any = { ...config.params };
+  const duration = applyDuration(config, input, targetDuration);
+
+  // Prompted models get a prompt for this shot instead of the canned one
+  if (typeof input.prompt === 'string') {
+    options.onProgress?.(0.02, 'Writing motion prompt');
+    input.prompt = await resolveMotionPrompt(modelId, motion) || input.prompt;
+  }
+  if (motion.shot?.camera?.movement === 'static' && input.motion_bucket_id !== undefined) {
+    input.motion_bucket_id = STATIC_MOTION_BUCKET_ID;
+  }
+
+  // Add image parameter based on model requirements
+  if (config.input_image) {
+    input.input_image = imageInput;
+  }
+  if (config.image) {
+    input.image = imageInput;
+  }
+
+  const seed = resolveSeed(modelId, requestedSeed);
+  if (seed !== undefined) {
+    input.seed = seed;
+  }
+
+  // Some models need both image and prompt - ensure prompt is included
+  // The prompt is already in config.params if defined
+
+  const output = await replicate.run(
+    modelId as any,
+    { input, signal: options.signal },
+    prediction => {
+      if (prediction.status === 'starting' || prediction.status === 'processing') {
+        const { progress, message } = getPredictionProgress(prediction);
+        options.onProgress?.(progress, message);
+      }
+    }
+  );
+
+  // replicate.run resolves with the cancelled prediction's output on abort
+  options.signal?.throwIfAborted();
+
+  options.onProgress?.(0.95, 'Saving video');
+  const videoUrl = await persistGeneratedMedia(output as any);
+
+  return { videoUrl: videoUrl as string, modelUsed: modelId, prompt: input.prompt, seed, duration };
+}
+
+/**
+ * Animate an image, retrying once with the default model when the
+ * configured one fails
+ * Throws ImageExpiredError when the source image can no longer be fetched
+ * and AssetNotFoundError when an `asset:` image is not on the server
+ */
+export async function generateVideo(
+  { imageUrl, modelConfig, seed: requestedSeed, duration: requestedDuration, ...motionInput }: VideoGenerationInput,
+  options: VideoGenerationOptions = {}
+): Promise<VideoGenerationResult> {
+  console.log(`Starting video generation with image URL: ${imageUrl.substring(0, 80)}...`);
+
+  // Use model from settings or fallback to default
+  const modelId = modelConfig?.modelId || DEFAULT_VIDEO_MODEL;
+
+  console.log(`Generating video with model: ${modelId}`);
+
+  // Stored assets are sent to the model as file bytes
+  const imageInput = await resolveAssetInput(imageUrl);
+
+  // Shot context and duration come from the request body as is
+  const motion: MotionPromptOptions = { ...motionInput, shot: parseMotionShotContext(motionInput.shot) };
+  const duration = parseShotDuration(requestedDuration) ?? DEFAULT_SHOT_DURATION;
+
+  try {
+    return await runModel(modelId, imageInput, requestedSeed, duration, motion, options);
+  } catch (modelError: any) {
+    if (options.signal?.aborted) throw modelError;
+
+    console.error(`Error with model ${modelId}:`, modelError.message);
+
+    // Check if error is due to expired image URL (404)
+    if (isNotFoundError(modelError)) {
+      console.error('Image URL has expired (404 error)');
+      throw new ImageExpiredError();
+    }
+
+    // If model fails and it's not the default, retry with default
+    if (modelId === DEFAULT_VIDEO_MODEL) {
+      throw modelError;
+    }
+
+    console.log(`Retrying with default model: ${DEFAULT_VIDEO_MODEL}`);
+    options.onProgress?.(0, 'Retrying with default model');
+
+    try {
+      const result = await runModel(DEFAULT_VIDEO_MODEL, imageInput, requestedSeed, duration, motion, options);
+      return {
+        ...result,
+        warning: `Original model failed, used fallback: ${DEFAULT_VIDEO_MODEL}`,
+      };
+    } catch (fallbackError: any) {
+      // Check if fallback also failed due to 404
+      if (!options.signal?.aborted && isNotFoundError(fallbackError)) {
+        throw new ImageExpiredError();
+      }
+      throw fallbackError;
+    }
+  }
+}
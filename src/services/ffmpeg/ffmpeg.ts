@@ -0,0 +1,145 @@
+/**
+ * Thin wrappers around the local ffmpeg and ffprobe binaries
+ * FFMPEG_PATH and FFPROBE_PATH override the binaries found on PATH
+ */
+
+import { spawn } from 'child_process';
+
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE = process.env.FFPROBE_PATH || 'ffprobe';
+
+// Keep the tail of stderr for error messages
+const STDERR_TAIL_BYTES = 4000;
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super('Render was cancelled');
+    this.name = 'RenderCancelledError';
+  }
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  durationSeconds?: number;           // Expected output length, for progress
+  onProgress?: (fraction: number) => void;
+}
+
+function run(
+  binary: string,
+  args: string[],
+  signal: AbortSignal | undefined,
+  onStdout?: (chunk: string) => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RenderCancelledError());
+      return;
+    }
+
+    const child = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+
+    const onAbort = () => child.kill('SIGKILL');
+    signal?.addEventListener('abort', onAbort);
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => {
+      if (onStdout) {
+        onStdout(chunk);
+      } else {
+        stdout += chunk;
+      }
+    });
+
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => {
+      stderr = (stderr + chunk).slice(-STDERR_TAIL_BYTES);
+    });
+
+    child.on('error', error => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error(`Failed to start ${binary}: ${error.message}`));
+    });
+
+    child.on('close', code => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        reject(new RenderCancelledError());
+      } else if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${binary} exited with code ${code}: ${stderr.trim().split('\n').slice(-3).join(' | ')}`));
+      }
+    });
+  });
+}
+
+/**
+ * Run ffmpeg, reporting progress from its `-progress` output
+ */
+export async function runFFmpeg(args: string[], options: RunOptions = {}): Promise<void> {
+  const { signal, durationSeconds, onProgress } = options;
+  let buffer = '';
+
+  await run(
+    FFMPEG,
+    ['-hide_banner', '-nostats', '-loglevel', 'error', '-progress', 'pipe:1', ...args],
+    signal,
+    chunk => {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        // out_time_us (out_time_ms in older builds, also microseconds)
+        const match = line.match(/^out_time_(?:us|ms)=(\d+)/);
+        if (match && durationSeconds && onProgress) {
+          onProgress(Math.min(1, parseInt(match[1], 10) / 1e6 / durationSeconds));
+        }
+      }
+    }
+  );
+
+  onProgress?.(1);
+}
+
+export interface MediaInfo {
+  duration: number;                   // Seconds
+  width?: number;
+  height?: number;
+  frameRate?: number;                 // Frames per second of the video stream
+  hasAudio: boolean;
+}
+
+/**
+ * "30000/1001" as frames per second
+ */
+function parseFrameRate(value: string | undefined): number | undefined {
+  const [num, den] = (value || '').split('/').map(Number);
+  const rate = den ? num / den : num;
+  return Number.isFinite(rate) && rate > 0 ? rate : undefined;
+}
+
+/**
+ * Duration, frame size, frame rate and whether a file has an audio stream
+ */
+export async function probeMedia(file: string, signal?: AbortSignal): Promise<MediaInfo> {
+  const output = await run(
+    FFPROBE,
+    ['-v', 'error', '-show_entries', 'format=duration:stream=codec_type,width,height,r_frame_rate', '-of', 'json', file],
+    signal
+  );
+
+  const data = JSON.parse(output);
+  const streams: any[] = data.streams || [];
+  const video = streams.find(stream => stream.codec_type === 'video');
+
+  return {
+    duration: parseFloat(data.format?.duration) || 0,
+    width: video?.width,
+    height: video?.height,
+    frameRate: parseFrameRate(video?.r_frame_rate),
+    hasAudio: streams.some(stream => stream.codec_type === 'audio'),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Output format of an export
+ * Video models return their own frame sizes, frame rates and pixel formats,
+ * so every segment is brought to one format before the join. Only imports
+ * ./types, so the browser composer (utils/videoComposer) normalizes the same way.
+ */
+
+import { RenderFraming, RenderOptions, RenderResolution } from './types';
+
+export const FRAME_RATES = [24, 25, 30];
+export const DEFAULT_FRAME_RATE = 24;
+export const MAX_FRAME_RATE = 60;
+
+export const FRAMINGS: RenderFraming[] = ['letterbox', 'crop'];
+
+// Short side of the frame for each resolution; 1080p portrait is 1080x1920
+export const RESOLUTION_HEIGHTS: Record<Exclude<RenderResolution, 'original'>, number> = {
+  '480p': 480,
+  '720p': 720,
+  '1080p': 1080,
+};
+
+// Short side when neither the resolution nor the first segment gives one
+const DEFAULT_SHORT_SIDE = 720;
+
+// Every segment's audio, so segments share one layout
+export const NORMALIZE_AUDIO_FILTER = 'aformat=sample_rates=44100:channel_layouts=stereo';
+
+export type OutputSettings = Pick<RenderOptions, 'resolution' | 'frameRate' | 'framing' | 'aspectRatio'>;
+
+export interface OutputFormat {
+  width: number;
+  height: number;
+  frameRate: number;
+  framing: RenderFraming;
+}
+
+export function isResolution(value: unknown): value is RenderResolution {
+  return value === 'original' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(RESOLUTION_HEIGHTS, value));
+}
+
+export function isFraming(value: unknown): value is RenderFraming {
+  return FRAMINGS.includes(value as RenderFraming);
+}
+
+/**
+ * Width over height of a 'W:H' aspect ratio; undefined if it isn't one
+ */
+export function parseAspectRatio(value: string | undefined): number | undefined {
+  const match = value?.match(/^\s*(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)\s*$/);
+  if (!match) return undefined;
+  const ratio = Number(match[1]) / Number(match[2]);
+  return ratio > 0 && Number.isFinite(ratio) ? ratio : undefined;
+}
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Frame size and rate of an export
+ * The resolution sets the short side, 'original' takes it from `source` (the
+ * first segment); the aspect ratio defaults to the source's, else 16:9.
+ * Sizes are even, as yuv420p needs.
+ */
+export function getOutputFormat(
+  settings: OutputSettings = {},
+  source: { width?: number; height?: number } = {}
+): OutputFormat {
+  const hasSource = !!(source.width && source.height);
+  const ratio = parseAspectRatio(settings.aspectRatio)
+    ?? (hasSource ? source.width! / source.height! : 16 / 9);
+  const shortSide = settings.resolution && settings.resolution !== 'original'
+    ? RESOLUTION_HEIGHTS[settings.resolution]
+    : hasSource ? Math.min(source.width!, source.height!) : DEFAULT_SHORT_SIDE;
+
+  return {
+    width: toEven(ratio >= 1 ? shortSide * ratio : shortSide),
+    height: toEven(ratio >= 1 ? shortSide : shortSide / ratio),
+    frameRate: settings.frameRate || DEFAULT_FRAME_RATE,
+    framing: settings.framing || 'letterbox',
+  };
+}
+
+/**
+ * Video filters bringing any clip to `format`: letterboxed (or cropped) to
+ * its size, at its frame rate, in yuv420p
+ */
+export function normalizeVideoFilter({ width, height, frameRate, framing }: OutputFormat): string {
+  const fill = framing === 'crop'
+    ? `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`
+    : `scale=${width}:${height}:force_original_aspect_ratio=decrease:force_divisible_by=2,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`;
+  return `${fill},setsar=1,fps=${frameRate},format=yuv420p`;
+}
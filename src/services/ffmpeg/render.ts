@@ -0,0 +1,442 @@
+/**
+ * Render operations: concatenate story clips and add audio
+ * Each operation works inside its own directory and returns the path of
+ * the finished MP4; the caller removes the directory afterwards.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { probeMedia, runFFmpeg } from './ffmpeg';
+import {
+  getOutputFormat,
+  isFraming,
+  isResolution,
+  MAX_FRAME_RATE,
+  normalizeVideoFilter,
+  NORMALIZE_AUDIO_FILTER,
+  OutputFormat,
+  parseAspectRatio,
+} from './normalize';
+import { buildSubtitleFile, subtitlesFilter } from './subtitles';
+import {
+  buildJoinGraph,
+  hasTransitions,
+  isTransitionType,
+  JoinInput,
+  MAX_TRANSITION_SECONDS,
+  TRANSITION_TYPES,
+} from './transitions';
+import {
+  AddAudioRequest,
+  ClipFit,
+  ConcatRequest,
+  RenderQuality,
+  RenderSegment,
+} from './types';
+
+// Same trade-offs as QUALITY_PRESETS in utils/videoComposer (browser export)
+const QUALITY_PRESETS: Record<RenderQuality, { crf: number; preset: string }> = {
+  low: { crf: 30, preset: 'ultrafast' },
+  medium: { crf: 26, preset: 'ultrafast' },
+  high: { crf: 23, preset: 'veryfast' },
+  ultra: { crf: 20, preset: 'fast' },
+};
+
+const MAX_SEGMENTS = 200;
+const MAX_STILL_SECONDS = 600;
+const DEFAULT_STILL_SECONDS = 5;
+const CLIP_FITS: ClipFit[] = ['hold', 'loop', 'slow'];
+
+// Clips this close to their segment's duration are not stretched
+const FIT_TOLERANCE_SECONDS = 0.05;
+
+/**
+ * The request body is malformed; reported to the client as 400
+ */
+export class RenderRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderRequestError';
+  }
+}
+
+export interface RenderContext {
+  workDir: string;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number, message?: string) => void;
+}
+
+function isMediaUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^(https?:|data:)/.test(value);
+}
+
+export function validateConcatRequest(body: any): ConcatRequest {
+  const videos = body?.videos;
+  if (!Array.isArray(videos) || videos.length === 0) {
+    throw new RenderRequestError('videos must be a non-empty array');
+  }
+  if (videos.length > MAX_SEGMENTS) {
+    throw new RenderRequestError(`At most ${MAX_SEGMENTS} videos can be joined`);
+  }
+
+  videos.forEach((video: any, index: number) => {
+    if (!isMediaUrl(video?.url)) {
+      throw new RenderRequestError(`videos[${index}].url must be an http(s) or data: URL`);
+    }
+    if (video.audioUrl !== undefined && video.audioUrl !== null && video.audioUrl !== '' && !isMediaUrl(video.audioUrl)) {
+      throw new RenderRequestError(`videos[${index}].audioUrl must be an http(s) or data: URL`);
+    }
+    if (video.kind !== undefined && video.kind !== 'video' && video.kind !== 'image') {
+      throw new RenderRequestError(`videos[${index}].kind must be "video" or "image"`);
+    }
+    if (video.duration !== undefined && !(typeof video.duration === 'number' && video.duration > 0 && video.duration <= MAX_STILL_SECONDS)) {
+      throw new RenderRequestError(`videos[${index}].duration must be a number of seconds between 0 and ${MAX_STILL_SECONDS}`);
+    }
+    if (video.fit !== undefined && !CLIP_FITS.includes(video.fit)) {
+      throw new RenderRequestError(`videos[${index}].fit must be one of ${CLIP_FITS.join(', ')}`);
+    }
+    if (video.inPoint !== undefined && !(typeof video.inPoint === 'number' && video.inPoint >= 0 && video.inPoint < MAX_STILL_SECONDS)) {
+      throw new RenderRequestError(`videos[${index}].inPoint must be a number of seconds between 0 and ${MAX_STILL_SECONDS}`);
+    }
+    if (video.outPoint !== undefined && !(typeof video.outPoint === 'number' && video.outPoint > (video.inPoint || 0) && video.outPoint <= MAX_STILL_SECONDS)) {
+      throw new RenderRequestError(`videos[${index}].outPoint must be a number of seconds after inPoint`);
+    }
+    if (video.audioOffset !== undefined && !(typeof video.audioOffset === 'number' && Math.abs(video.audioOffset) <= MAX_STILL_SECONDS)) {
+      throw new RenderRequestError(`videos[${index}].audioOffset must be a number of seconds between -${MAX_STILL_SECONDS} and ${MAX_STILL_SECONDS}`);
+    }
+    if (video.transition !== undefined) {
+      if (!isTransitionType(video.transition?.type)) {
+        throw new RenderRequestError(`videos[${index}].transition.type must be one of ${TRANSITION_TYPES.join(', ')}`);
+      }
+      const seconds = video.transition.duration;
+      if (!(typeof seconds === 'number' && seconds >= 0 && seconds <= MAX_TRANSITION_SECONDS)) {
+        throw new RenderRequestError(`videos[${index}].transition.duration must be a number of seconds between 0 and ${MAX_TRANSITION_SECONDS}`);
+      }
+    }
+  });
+
+  const options = body.options || {};
+  if (options.quality !== undefined && !(options.quality in QUALITY_PRESETS)) {
+    throw new RenderRequestError(`Unknown quality "${options.quality}"`);
+  }
+  if (options.resolution !== undefined && !isResolution(options.resolution)) {
+    throw new RenderRequestError(`Unknown resolution "${options.resolution}"`);
+  }
+  if (options.aspectRatio !== undefined && !(typeof options.aspectRatio === 'string' && parseAspectRatio(options.aspectRatio))) {
+    throw new RenderRequestError('options.aspectRatio must look like "16:9"');
+  }
+  if (options.frameRate !== undefined && !(typeof options.frameRate === 'number' && options.frameRate > 0 && options.frameRate <= MAX_FRAME_RATE)) {
+    throw new RenderRequestError(`options.frameRate must be a number between 0 and ${MAX_FRAME_RATE}`);
+  }
+  if (options.framing !== undefined && !isFraming(options.framing)) {
+    throw new RenderRequestError(`Unknown framing "${options.framing}"`);
+  }
+
+  return { videos, options };
+}
+
+export function validateAddAudioRequest(body: any): AddAudioRequest {
+  if (!isMediaUrl(body?.videoUrl) || !isMediaUrl(body?.audioUrl)) {
+    throw new RenderRequestError('videoUrl and audioUrl are required http(s) or data: URLs');
+  }
+  if (body.volume !== undefined && (typeof body.volume !== 'number' || body.volume < 0 || body.volume > 10)) {
+    throw new RenderRequestError('volume must be a number between 0 and 10');
+  }
+  return { videoUrl: body.videoUrl, audioUrl: body.audioUrl, volume: body.volume };
+}
+
+/**
+ * Save an http(s) or data: URL to `file`
+ */
+async function download(url: string, file: string, signal?: AbortSignal): Promise<void> {
+  if (url.startsWith('data:')) {
+    const comma = url.indexOf(',');
+    const meta = url.slice(5, comma);
+    const payload = url.slice(comma + 1);
+    const data = meta.endsWith(';base64')
+      ? Buffer.from(payload, 'base64')
+      : Buffer.from(decodeURIComponent(payload));
+    await fs.writeFile(file, data);
+    return;
+  }
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url.substring(0, 100)}: ${response.status} ${response.statusText}`);
+  }
+  await fs.writeFile(file, Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Cut a clip to its in/out points, losslessly; the result is encoded again
+ * with the rest of the segment
+ */
+async function cutClip(file: string, segment: RenderSegment, index: number, context: RenderContext): Promise<string> {
+  const cutFile = path.join(context.workDir, `cut-${index}.mp4`);
+  const args = ['-y'];
+  if (segment.inPoint) {
+    args.push('-ss', segment.inPoint.toFixed(3));
+  }
+  args.push('-i', file);
+  if (segment.outPoint !== undefined) {
+    args.push('-t', (segment.outPoint - (segment.inPoint || 0)).toFixed(3));
+  }
+  args.push('-map', '0:v:0', '-c:v', 'libx264', '-preset', 'ultrafast', '-qp', '0', '-an', cutFile);
+
+  await runFFmpeg(args, { signal: context.signal });
+  return cutFile;
+}
+
+/**
+ * Narration filters: move it by `audioOffset`, then pad it with silence (the
+ * clip decides the length)
+ */
+function narrationFilters(audioOffset: number | undefined): string {
+  const filters: string[] = [];
+  if (audioOffset && audioOffset > 0) {
+    filters.push(`adelay=${Math.round(audioOffset * 1000)}:all=1`);
+  } else if (audioOffset && audioOffset < 0) {
+    filters.push(`atrim=start=${(-audioOffset).toFixed(3)}`, 'asetpts=PTS-STARTPTS');
+  }
+  filters.push('apad');
+  return filters.join(',');
+}
+
+/**
+ * Encode one clip to H.264/AAC with its narration (or silence) and subtitle
+ * Every segment gets the same codecs, frame size, frame rate and audio
+ * layout, so the results can be joined without re-encoding. An image segment
+ * becomes a still clip. `format` is undefined for the first segment, which
+ * sets it from the options and its own size.
+ */
+async function renderSegment(
+  segment: RenderSegment,
+  index: number,
+  request: ConcatRequest,
+  format: OutputFormat | undefined,
+  context: RenderContext,
+  onProgress: (fraction: number) => void
+): Promise<{ file: string; format: OutputFormat }> {
+  const { workDir, signal } = context;
+  const options = request.options || {};
+  const quality = QUALITY_PRESETS[options.quality || 'high'];
+
+  const isStill = segment.kind === 'image';
+  let videoFile = path.join(workDir, `input-${index}.${isStill ? 'image' : 'video'}`);
+  await download(segment.url, videoFile, signal);
+  let info = await probeMedia(videoFile, signal);
+  const output = format || getOutputFormat(options, info);
+
+  // A trimmed clip is cut first and then treated like any clip
+  if (!isStill && (segment.inPoint || segment.outPoint !== undefined)) {
+    videoFile = await cutClip(videoFile, segment, index, context);
+    info = await probeMedia(videoFile, signal);
+  }
+
+  let audioFile: string | null = null;
+  if (segment.audioUrl) {
+    audioFile = path.join(workDir, `input-${index}.audio`);
+    try {
+      await download(segment.audioUrl, audioFile, signal);
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      console.warn(`Segment ${index}: audio unavailable, using silence:`, error.message);
+      audioFile = null;
+    }
+  }
+
+  // A still lasts as long as asked, else as long as its narration;
+  // a clip is cut to the asked length, or stretched with `fit`
+  let duration = info.duration;
+  if (isStill) {
+    const narration = audioFile ? await probeMedia(audioFile, signal).catch(() => null) : null;
+    const narrationEnd = narration ? narration.duration + (segment.audioOffset || 0) : 0;
+    duration = segment.duration || (narrationEnd > 0 ? narrationEnd : 0) || DEFAULT_STILL_SECONDS;
+  } else if (segment.duration) {
+    duration = segment.duration;
+  }
+  const fit = !isStill && info.duration > 0 && duration > info.duration + FIT_TOLERANCE_SECONDS
+    ? segment.fit || 'hold'
+    : undefined;
+
+  const args = ['-y'];
+  if (isStill) {
+    args.push('-loop', '1', '-framerate', String(output.frameRate));
+  } else if (fit === 'loop') {
+    args.push('-stream_loop', '-1');
+  }
+  args.push('-i', videoFile);
+  if (audioFile) {
+    args.push('-i', audioFile);
+  } else {
+    args.push('-f', 'lavfi', '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100');
+  }
+
+  const filters: string[] = [];
+  if (fit === 'hold') {
+    filters.push(`tpad=stop_mode=clone:stop_duration=${(duration - info.duration).toFixed(3)}`);
+  } else if (fit === 'slow') {
+    filters.push(`setpts=${(duration / info.duration).toFixed(4)}*PTS`);
+  }
+
+  filters.push(normalizeVideoFilter(output));
+
+  if (options.includeSubtitles && segment.subtitle?.trim()) {
+    const subtitleFile = path.join(workDir, `subtitle-${index}.ass`);
+    await fs.writeFile(subtitleFile, buildSubtitleFile(segment.subtitle, options.subtitleStyle, output));
+    filters.push(subtitlesFilter(subtitleFile));
+  }
+
+  args.push('-vf', filters.join(','));
+
+  const outputFile = path.join(workDir, `segment-${index}.mp4`);
+  args.push(
+    '-map', '0:v:0',
+    '-map', '1:a:0',
+    '-c:v', 'libx264',
+    '-preset', quality.preset,
+    '-crf', String(quality.crf),
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac',
+    '-b:a', '128k',
+    '-af', `${narrationFilters(audioFile ? segment.audioOffset : undefined)},${NORMALIZE_AUDIO_FILTER}`,
+    ...(duration > 0 ? ['-t', duration.toFixed(3)] : ['-shortest']),
+    '-movflags', '+faststart',
+    outputFile
+  );
+
+  await runFFmpeg(args, { signal, durationSeconds: duration, onProgress });
+  return { file: outputFile, format: output };
+}
+
+/**
+ * Join encoded segments with their transitions; re-encodes the whole video
+ */
+async function joinWithTransitions(
+  segmentFiles: string[],
+  inputs: JoinInput[],
+  request: ConcatRequest,
+  format: OutputFormat,
+  outputFile: string,
+  context: RenderContext,
+  onProgress: (fraction: number) => void
+): Promise<void> {
+  const quality = QUALITY_PRESETS[request.options?.quality || 'high'];
+  const graph = buildJoinGraph(inputs, format);
+
+  await runFFmpeg(
+    [
+      '-y',
+      ...segmentFiles.flatMap(file => ['-i', file]),
+      '-filter_complex', graph.filter,
+      '-map', graph.video,
+      '-map', graph.audio,
+      '-c:v', 'libx264',
+      '-preset', quality.preset,
+      '-crf', String(quality.crf),
+      '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac',
+      '-b:a', '128k',
+      '-movflags', '+faststart',
+      outputFile,
+    ],
+    { signal: context.signal, durationSeconds: graph.duration, onProgress }
+  );
+}
+
+/**
+ * Join story clips (and stills) into one MP4, mixing in narration, burning
+ * in subtitles and rendering the transitions between them
+ */
+export async function concatVideos(request: ConcatRequest, context: RenderContext): Promise<string> {
+  const { workDir, signal, onProgress } = context;
+  const total = request.videos.length;
+  const segmentFiles: string[] = [];
+  let format: OutputFormat | undefined;
+
+  // Segments take most of the progress bar, the final join the rest; a join
+  // with transitions encodes everything again
+  const wantsTransitions = request.videos.some((video, i) => i > 0 && video.transition && video.transition.type !== 'cut');
+  const segmentShare = wantsTransitions ? 0.7 : 0.95;
+
+  for (let i = 0; i < total; i++) {
+    onProgress?.((i / total) * segmentShare, `Rendering clip ${i + 1} of ${total}`);
+    const segment = await renderSegment(request.videos[i], i, request, format, context, fraction => {
+      onProgress?.(((i + fraction) / total) * segmentShare);
+    });
+    segmentFiles.push(segment.file);
+    format = segment.format;
+  }
+
+  onProgress?.(segmentShare, 'Joining clips');
+  const outputFile = path.join(workDir, 'output.mp4');
+
+  if (wantsTransitions) {
+    const inputs: JoinInput[] = [];
+    for (let i = 0; i < total; i++) {
+      const info = await probeMedia(segmentFiles[i], signal);
+      inputs.push({ duration: info.duration, transition: request.videos[i].transition });
+    }
+    if (hasTransitions(inputs)) {
+      await joinWithTransitions(segmentFiles, inputs, request, format!, outputFile, context, fraction => {
+        onProgress?.(segmentShare + fraction * (1 - segmentShare));
+      });
+      onProgress?.(1, 'Done');
+      return outputFile;
+    }
+  }
+
+  // Only cuts: segments share codecs and format, so they are joined without re-encoding
+  const listFile = path.join(workDir, 'segments.txt');
+  await fs.writeFile(listFile, segmentFiles.map(file => `file '${path.basename(file)}'`).join('\n'));
+  await runFFmpeg(
+    ['-y', '-f', 'concat', '-safe', '0', '-i', listFile, '-c', 'copy', '-movflags', '+faststart', outputFile],
+    { signal }
+  );
+
+  onProgress?.(1, 'Done');
+  return outputFile;
+}
+
+/**
+ * Replace a video's audio track with `audioUrl`, scaled by `volume`
+ */
+export async function addAudio(request: AddAudioRequest, context: RenderContext): Promise<string> {
+  const { workDir, signal, onProgress } = context;
+
+  onProgress?.(0, 'Downloading media');
+  const videoFile = path.join(workDir, 'input.video');
+  const audioFile = path.join(workDir, 'input.audio');
+  await Promise.all([
+    download(request.videoUrl, videoFile, signal),
+    download(request.audioUrl, audioFile, signal),
+  ]);
+  const info = await probeMedia(videoFile, signal);
+
+  onProgress?.(0.1, 'Mixing audio');
+  const outputFile = path.join(workDir, 'output.mp4');
+  await runFFmpeg(
+    [
+      '-y',
+      '-i', videoFile,
+      '-i', audioFile,
+      '-map', '0:v:0',
+      '-map', '1:a:0',
+      '-c:v', 'copy',
+      '-af', `volume=${request.volume ?? 1}`,
+      '-c:a', 'aac',
+      '-b:a', '128k',
+      '-shortest',
+      '-movflags', '+faststart',
+      outputFile,
+    ],
+    {
+      signal,
+      durationSeconds: info.duration,
+      onProgress: fraction => onProgress?.(0.1 + fraction * 0.9),
+    }
+  );
+
+  onProgress?.(1, 'Done');
+  return outputFile;
+}
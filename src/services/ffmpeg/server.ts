@@ -0,0 +1,329 @@
+/**
+ * FFmpeg render service
+ * Standalone HTTP server (no Next.js) that runs the local ffmpeg binary.
+ *
+ *   GET    /health              { status: 'ok' }
+ *   POST   /concat              ConcatRequest   -> video/mp4 (waits for the render)
+ *   POST   /add-audio           AddAudioRequest -> video/mp4 (waits for the render)
+ *   POST   /renders             RenderOperation -> 202 RenderInfo (runs in the background)
+ *   GET    /renders/<id>        RenderInfo with progress
+ *   GET    /renders/<id>/output video/mp4 once succeeded
+ *   DELETE /renders/<id>        cancel, or discard a finished render
+ *
+ * Closing the connection of a waiting /concat or /add-audio request cancels
+ * its render. Errors are JSON: { error }.
+ *
+ * Environment: PORT (3001), RENDER_WORK_DIR (<tmp>/story-renders),
+ * RENDER_CONCURRENCY (1), FFMPEG_PATH, FFPROBE_PATH, SUBTITLE_FONT
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { RenderCancelledError } from './ffmpeg';
+import {
+  addAudio,
+  concatVideos,
+  RenderContext,
+  RenderRequestError,
+  validateAddAudioRequest,
+  validateConcatRequest,
+} from './render';
+import { RenderInfo, RenderOperation } from './types';
+
+const PORT = parseInt(process.env.PORT || '', 10) || 3001;
+const WORK_DIR = process.env.RENDER_WORK_DIR || path.join(os.tmpdir(), 'story-renders');
+const CONCURRENCY = parseInt(process.env.RENDER_CONCURRENCY || '', 10) || 1;
+const MAX_BODY_BYTES = 100 * 1024 * 1024;      // data: URLs can be large
+const FINISHED_RENDER_TTL_MS = 60 * 60 * 1000;  // Background outputs are kept this long
+
+interface Render {
+  info: RenderInfo;
+  controller: AbortController;
+  workDir: string;
+  outputFile?: string;
+  done: Promise<void>;
+}
+
+const renders = new Map<string, Render>();
+
+// Renders are CPU-bound; extra ones wait for a slot
+let activeRenders = 0;
+const waitingForSlot: Array<() => void> = [];
+
+async function acquireSlot(): Promise<void> {
+  if (activeRenders < CONCURRENCY) {
+    activeRenders++;
+    return;
+  }
+  await new Promise<void>(resolve => waitingForSlot.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waitingForSlot.shift();
+  if (next) {
+    next();
+  } else {
+    activeRenders--;
+  }
+}
+
+function generateRenderId(): string {
+  return `render-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+function isFinished(info: RenderInfo): boolean {
+  return info.status === 'succeeded' || info.status === 'failed' || info.status === 'cancelled';
+}
+
+async function removeRender(render: Render): Promise<void> {
+  renders.delete(render.info.id);
+  await fs.rm(render.workDir, { recursive: true, force: true }).catch(() => {});
+}
+
+/**
+ * Validate an operation and start rendering it in the background
+ * Throws RenderRequestError for bad requests
+ */
+function startRender(operation: RenderOperation): Render {
+  const run = operation.operation === 'concat'
+    ? (() => {
+      const request = validateConcatRequest(operation.request);
+      return (context: RenderContext) => concatVideos(request, context);
+    })()
+    : operation.operation === 'add-audio'
+      ? (() => {
+        const request = validateAddAudioRequest(operation.request);
+        return (context: RenderContext) => addAudio(request, context);
+      })()
+      : null;
+
+  if (!run) {
+    throw new RenderRequestError(`Unknown operation "${(operation as any)?.operation}"`);
+  }
+
+  const id = generateRenderId();
+  const info: RenderInfo = {
+    id,
+    operation: operation.operation,
+    status: 'queued',
+    progress: 0,
+    createdAt: Date.now(),
+  };
+  const controller = new AbortController();
+  const render: Render = {
+    info,
+    controller,
+    workDir: path.join(WORK_DIR, id),
+    done: Promise.resolve(),
+  };
+
+  render.done = (async () => {
+    await acquireSlot();
+    try {
+      if (controller.signal.aborted) throw new RenderCancelledError();
+
+      info.status = 'running';
+      await fs.mkdir(render.workDir, { recursive: true });
+
+      render.outputFile = await run({
+        workDir: render.workDir,
+        signal: controller.signal,
+        onProgress: (fraction, message) => {
+          info.progress = fraction;
+          if (message) info.message = message;
+        },
+      });
+
+      info.size = (await fs.stat(render.outputFile)).size;
+      info.status = 'succeeded';
+      info.progress = 1;
+    } catch (error: any) {
+      if (controller.signal.aborted || error instanceof RenderCancelledError) {
+        info.status = 'cancelled';
+        info.message = 'Cancelled';
+      } else {
+        console.error(`Render ${id} failed:`, error);
+        info.status = 'failed';
+        info.error = error.message || 'Render failed';
+      }
+    } finally {
+      info.finishedAt = Date.now();
+      releaseSlot();
+    }
+  })();
+
+  renders.set(id, render);
+  return render;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(json),
+  });
+  res.end(json);
+}
+
+function sendError(res: http.ServerResponse, error: any): void {
+  if (error instanceof RenderRequestError) {
+    sendJson(res, 400, { error: error.message });
+  } else {
+    console.error('Render service error:', error);
+    sendJson(res, 500, { error: error?.message || 'Internal error' });
+  }
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RenderRequestError('Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new RenderRequestError('Request body must be JSON');
+  }
+}
+
+async function sendOutput(res: http.ServerResponse, render: Render, filename: string): Promise<void> {
+  res.writeHead(200, {
+    'Content-Type': 'video/mp4',
+    'Content-Length': String(render.info.size),
+    'Content-Disposition': `attachment; filename="${filename}"`,
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const stream = createReadStream(render.outputFile!);
+    stream.on('error', reject);
+    res.on('close', resolve);
+    stream.pipe(res);
+  });
+}
+
+/**
+ * POST /concat and /add-audio: render, then answer with the file
+ */
+async function handleWaitingRender(req: http.IncomingMessage, res: http.ServerResponse, operation: RenderOperation['operation']) {
+  const render = startRender({ operation, request: await readJsonBody(req) } as RenderOperation);
+
+  // A client that hangs up no longer wants the result
+  const cancelOnClose = () => {
+    if (!res.writableEnded) render.controller.abort();
+  };
+  res.on('close', cancelOnClose);
+
+  try {
+    await render.done;
+
+    if (render.info.status === 'succeeded') {
+      const prefix = operation === 'concat' ? 'story' : 'video-with-audio';
+      await sendOutput(res, render, `${prefix}-${Date.now()}.mp4`);
+    } else if (render.info.status === 'failed' && !res.headersSent) {
+      sendJson(res, 500, { error: render.info.error });
+    }
+  } finally {
+    res.off('close', cancelOnClose);
+    await removeRender(render);
+  }
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const [, resource, id, sub] = url.pathname.split('/');
+
+  if (req.method === 'GET' && resource === 'health') {
+    sendJson(res, 200, { status: 'ok', renders: renders.size, activeRenders });
+    return;
+  }
+
+  if (req.method === 'POST' && (resource === 'concat' || resource === 'add-audio') && !id) {
+    await handleWaitingRender(req, res, resource);
+    return;
+  }
+
+  if (resource === 'renders') {
+    if (req.method === 'POST' && !id) {
+      const render = startRender(await readJsonBody(req));
+      sendJson(res, 202, render.info);
+      return;
+    }
+
+    const render = id ? renders.get(id) : undefined;
+    if (!render) {
+      sendJson(res, 404, { error: 'Render not found' });
+      return;
+    }
+
+    if (req.method === 'GET' && !sub) {
+      sendJson(res, 200, render.info);
+      return;
+    }
+
+    if (req.method === 'GET' && sub === 'output') {
+      if (render.info.status !== 'succeeded') {
+        sendJson(res, 409, { error: `Render is ${render.info.status}` });
+        return;
+      }
+      await sendOutput(res, render, `${render.info.operation}-${render.info.id}.mp4`);
+      return;
+    }
+
+    if (req.method === 'DELETE' && !sub) {
+      if (isFinished(render.info)) {
+        await removeRender(render);
+      } else {
+        render.controller.abort();
+        await render.done;
+      }
+      sendJson(res, 200, render.info);
+      return;
+    }
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+}
+
+// Drop background outputs nobody collected
+const sweeper = setInterval(() => {
+  const now = Date.now();
+  renders.forEach(render => {
+    if (render.info.finishedAt && now - render.info.finishedAt > FINISHED_RENDER_TTL_MS) {
+      removeRender(render);
+    }
+  });
+}, 5 * 60 * 1000);
+sweeper.unref();
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    if (!res.headersSent) {
+      sendError(res, error);
+    } else {
+      res.destroy(error);
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`FFmpeg render service listening on port ${PORT} (work dir ${WORK_DIR})`);
+});
+
+function shutdown() {
+  console.log('Shutting down render service...');
+  renders.forEach(render => render.controller.abort());
+  server.close(() => process.exit(0));
+  setTimeout(() => process.exit(0), 5000).unref();
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
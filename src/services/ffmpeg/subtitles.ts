@@ -0,0 +1,99 @@
+/**
+ * Subtitle burn-in via ASS files and ffmpeg's `subtitles` filter (libass)
+ */
+
+import { SubtitleStyle } from './types';
+
+const DEFAULT_STYLE: SubtitleStyle = {
+  fontSize: 24,
+  fontColor: '#FFFFFF',
+  backgroundColor: '#000000',
+  backgroundOpacity: 0.8,
+  position: 'bottom',
+  outlineWidth: 2,
+  outlineColor: '#000000',
+};
+
+// Style sizes are given for a frame this tall (matches the browser preview)
+const REFERENCE_HEIGHT = 720;
+const FONT_NAME = process.env.SUBTITLE_FONT || 'DejaVu Sans';
+
+const ALIGNMENT: Record<SubtitleStyle['position'], number> = {
+  bottom: 2,
+  center: 5,
+  top: 8,
+};
+
+/**
+ * #RRGGBB plus opacity (0-1) as an ASS colour, &HAABBGGRR
+ */
+function toAssColor(hex: string, opacity = 1): string {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  const rgb = match ? match[1] : 'FFFFFF';
+  const alpha = Math.round((1 - Math.min(1, Math.max(0, opacity))) * 255);
+  const pad = (value: number | string) => value.toString(16).toUpperCase().padStart(2, '0');
+  return `&H${pad(alpha)}${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`.toUpperCase();
+}
+
+function escapeAssText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/[{}]/g, match => (match === '{' ? '(' : ')'))
+    .replace(/\r?\n/g, '\\N');
+}
+
+/**
+ * ASS document showing `text` for the whole clip
+ */
+export function buildSubtitleFile(
+  text: string,
+  style: Partial<SubtitleStyle> = {},
+  frame: { width?: number; height?: number } = {}
+): string {
+  const s = { ...DEFAULT_STYLE, ...style };
+  const playResY = REFERENCE_HEIGHT;
+  const playResX = frame.width && frame.height
+    ? Math.round(REFERENCE_HEIGHT * frame.width / frame.height)
+    : Math.round(REFERENCE_HEIGHT * 16 / 9);
+
+  // BorderStyle 3 draws a box in OutlineColour; 1 draws an outline
+  const boxed = s.backgroundOpacity > 0;
+  const borderStyle = boxed ? 3 : 1;
+  const outlineColor = boxed ? toAssColor(s.backgroundColor, s.backgroundOpacity) : toAssColor(s.outlineColor);
+  const outline = boxed ? Math.max(4, s.outlineWidth) : s.outlineWidth;
+
+  const styleLine = [
+    'Default', FONT_NAME, s.fontSize,
+    toAssColor(s.fontColor), toAssColor(s.fontColor), outlineColor, toAssColor(s.backgroundColor, 0),
+    0, 0, 0, 0, 100, 100, 0, 0,
+    borderStyle, outline, 0, ALIGNMENT[s.position] || 2,
+    40, 40, 40, 1,
+  ].join(',');
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${playResX}`,
+    `PlayResY: ${playResY}`,
+    'WrapStyle: 0',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${styleLine}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    `Dialogue: 0,0:00:00.00,9:59:59.99,Default,,0,0,0,,${escapeAssText(text)}`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * `subtitles` filter for an ASS file in the render's work directory
+ */
+export function subtitlesFilter(file: string): string {
+  if (/['\\:]/.test(file)) {
+    throw new Error(`Unsupported characters in subtitle path: ${file}`);
+  }
+  return `subtitles=filename='${file}'`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Transitions between segments
+ * Builds the filter graph that joins encoded segments, with xfade for the
+ * picture and acrossfade for the sound. Only imports ./types and
+ * ./normalize, so the browser composer (utils/videoComposer) builds the same
+ * graph for ffmpeg.wasm.
+ */
+
+import { normalizeVideoFilter, NORMALIZE_AUDIO_FILTER, OutputFormat } from './normalize';
+import { SegmentTransition, TransitionType } from './types';
+
+export const TRANSITION_TYPES: TransitionType[] = ['cut', 'crossfade', 'fade-black', 'dip-white'];
+export const MAX_TRANSITION_SECONDS = 3;
+
+// Shorter transitions are rendered as cuts
+const MIN_TRANSITION_SECONDS = 0.05;
+
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, 'cut'>, string> = {
+  crossfade: 'fade',
+  'fade-black': 'fadeblack',
+  'dip-white': 'fadewhite',
+};
+
+export interface JoinInput {
+  duration: number;                   // Seconds; 0 when unknown, which forces cuts on both sides
+  transition?: SegmentTransition;     // From the previous input; ignored on the first
+}
+
+export interface JoinGraph {
+  filter: string;                     // For -filter_complex
+  video: string;                      // Output labels to -map
+  audio: string;
+  duration: number;                   // Seconds of the joined result
+}
+
+export function isTransitionType(value: unknown): value is TransitionType {
+  return TRANSITION_TYPES.includes(value as TransitionType);
+}
+
+/**
+ * Seconds a transition actually takes between two inputs; 0 for a cut
+ * Each side gives at most half of its length, so transitions never overlap.
+ */
+export function getTransitionSeconds(
+  transition: SegmentTransition | undefined,
+  before: number,
+  after: number
+): number {
+  if (!transition || transition.type === 'cut') return 0;
+  const seconds = Math.min(transition.duration, MAX_TRANSITION_SECONDS, before / 2, after / 2);
+  return seconds >= MIN_TRANSITION_SECONDS ? seconds : 0;
+}
+
+export function hasTransitions(inputs: JoinInput[]): boolean {
+  return inputs.some((input, index) =>
+    index > 0 && getTransitionSeconds(input.transition, inputs[index - 1].duration, input.duration) > 0
+  );
+}
+
+/**
+ * Filter graph joining inputs 0..n-1 in order
+ * Inputs are normalized segments with an audio track each; they go through
+ * normalization again (a no-op for them) and get one time base, since xfade
+ * and concat need everything to match.
+ */
+export function buildJoinGraph(inputs: JoinInput[], format: OutputFormat): JoinGraph {
+  const filters: string[] = [];
+
+  inputs.forEach((_input, i) => {
+    filters.push(`[${i}:v]${normalizeVideoFilter(format)},settb=AVTB[v${i}]`);
+    filters.push(`[${i}:a]${NORMALIZE_AUDIO_FILTER},asetpts=PTS-STARTPTS[a${i}]`);
+  });
+
+  let video = '[v0]';
+  let audio = '[a0]';
+  let duration = inputs[0]?.duration || 0;
+
+  for (let i = 1; i < inputs.length; i++) {
+    const input = inputs[i];
+    const seconds = getTransitionSeconds(input.transition, inputs[i - 1].duration, input.duration);
+    const nextVideo = `[vj${i}]`;
+    const nextAudio = `[aj${i}]`;
+
+    if (seconds > 0) {
+      const name = XFADE_TRANSITIONS[input.transition!.type as Exclude<TransitionType, 'cut'>];
+      filters.push(
+        `${video}[v${i}]xfade=transition=${name}:duration=${seconds.toFixed(3)}:offset=${(duration - seconds).toFixed(3)}${nextVideo}`
+      );
+      filters.push(`${audio}[a${i}]acrossfade=d=${seconds.toFixed(3)}${nextAudio}`);
+      duration += input.duration - seconds;
+    } else {
+      filters.push(`${video}${audio}[v${i}][a${i}]concat=n=2:v=1:a=1${nextVideo}${nextAudio}`);
+      duration += input.duration;
+    }
+    video = nextVideo;
+    audio = nextAudio;
+  }
+
+  return { filter: filters.join(';'), video, audio, duration };
+}
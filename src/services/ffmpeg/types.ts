@@ -0,0 +1,117 @@
+/**
+ * Render service contracts
+ * Request and response shapes for the FFmpeg render service (server.ts),
+ * shared with the Next.js side (lib/renderService). Keep this file free of
+ * imports so the service builds on its own.
+ */
+
+/**
+ * Subtitle look for burn-in; same shape as SettingsStore's SubtitleSettings
+ * Font size and outline are in pixels of a 720p-tall frame, as in the preview
+ */
+export interface SubtitleStyle {
+  fontSize: number;
+  fontColor: string;          // #RRGGBB
+  backgroundColor: string;    // #RRGGBB
+  backgroundOpacity: number;  // 0-1; 0 draws an outline instead of a box
+  position: 'top' | 'center' | 'bottom';
+  outlineWidth: number;
+  outlineColor: string;       // #RRGGBB
+}
+
+export type RenderQuality = 'low' | 'medium' | 'high' | 'ultra';
+export type RenderResolution = '480p' | '720p' | '1080p' | 'original';
+
+/**
+ * How a clip of another shape fills the frame: scaled to fit with black
+ * bars, or scaled to cover and cut at the edges
+ */
+export type RenderFraming = 'letterbox' | 'crop';
+
+/**
+ * Every segment is brought to the output's size, frame rate, yuv420p and
+ * 44.1 kHz stereo before the join; see normalize.ts
+ */
+export interface RenderOptions {
+  quality?: RenderQuality;            // Default 'high'
+  resolution?: RenderResolution;      // Short side of the frame; default 'original', the first segment's
+  aspectRatio?: string;               // 'W:H', e.g. the story's '16:9'; default the first segment's
+  frameRate?: number;                 // Default 24
+  framing?: RenderFraming;            // Default 'letterbox'
+  includeSubtitles?: boolean;         // Burn in each segment's subtitle; default false
+  subtitleStyle?: SubtitleStyle;
+}
+
+/**
+ * How a clip shorter than its segment is stretched: freeze the last frame,
+ * play it again from the start, or slow it down
+ */
+export type ClipFit = 'hold' | 'loop' | 'slow';
+
+/**
+ * How a segment follows the one before it; see transitions.ts
+ */
+export type TransitionType = 'cut' | 'crossfade' | 'fade-black' | 'dip-white';
+
+export interface SegmentTransition {
+  type: TransitionType;
+  duration: number;                   // Seconds, shortened to fit half of either segment
+}
+
+export interface RenderSegment {
+  url: string;                        // http(s) or data: URL of the clip
+  kind?: 'video' | 'image';           // Default 'video'; an image is shown as a still
+  duration?: number;                  // Seconds the segment lasts. Stills default to their narration's length, else 5;
+                                      // clips default to their own length and are cut or stretched to it
+  fit?: ClipFit;                      // Stretches a clip shorter than `duration`; default 'hold'
+  inPoint?: number;                   // Seconds into a clip where it starts; default 0
+  outPoint?: number;                  // Seconds into a clip where it ends; default its end. `duration` and `fit`
+                                      // apply to the part between the two
+  subtitle?: string;
+  audioUrl?: string;                  // Narration mixed under the clip
+  audioOffset?: number;               // Narration starts this many seconds into the segment; negative cuts its start
+  transition?: SegmentTransition;     // From the previous segment into this one, video and audio; default a cut
+}
+
+/**
+ * POST /concat: encode each segment (audio, subtitles) and join them
+ */
+export interface ConcatRequest {
+  videos: RenderSegment[];
+  options?: RenderOptions;
+}
+
+/**
+ * POST /add-audio: replace a video's audio track
+ */
+export interface AddAudioRequest {
+  videoUrl: string;
+  audioUrl: string;
+  volume?: number;                    // Gain applied to the audio, default 1
+}
+
+export type RenderOperation =
+  | { operation: 'concat'; request: ConcatRequest }
+  | { operation: 'add-audio'; request: AddAudioRequest };
+
+export type RenderStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Background render, as returned by POST/GET /renders
+ * The finished file is served from GET /renders/<id>/output
+ */
+export interface RenderInfo {
+  id: string;
+  operation: RenderOperation['operation'];
+  status: RenderStatus;
+  progress: number;                   // 0-1
+  message?: string;
+  error?: string;
+  size?: number;                      // Output bytes once succeeded
+  createdAt: number;
+  finishedAt?: number;
+}
+
+export interface RenderErrorResponse {
+  error: string;
+}
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { describeBatchFailures, GenerationTask, generationStore } from './GenerationStore';
+import { settingsStore } from './SettingsStore';
+import { GenerationRequestError } from '@/utils/generationRequest';
+
+/**
+ * Task whose attempts are settled by the test, one at a time
+ */
+function controlledTask(id: string) {
+  const attempts: Array<{ resolve: () => void; reject: (error: unknown) => void; signal: AbortSignal }> = [];
+  const task: GenerationTask = {
+    id,
+    label: `Shot ${id}`,
+    run: signal => new Promise<void>((resolve, reject) => {
+      attempts.push({ resolve, reject, signal });
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }),
+  };
+  return { task, attempts, last: () => attempts[attempts.length - 1] };
+}
+
+function taskStatuses(kind: 'image' | 'audio' = 'image') {
+  return generationStore.getActiveBatch(kind)?.tasks.map(task => task.status);
+}
+
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe('generationStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    generationStore.rateLimitedUntil = 0;
+    settingsStore.updateAdvancedSettings({ parallelGenerationLimit: 2, retryAttempts: 1 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('shares the concurrency limit between batches', async () => {
+    const tasks = ['a', 'b', 'c'].map(controlledTask);
+    const audio = controlledTask('d');
+    const images = generationStore.runBatch('image', 'Images', tasks.map(t => t.task));
+    const sounds = generationStore.runBatch('audio', 'Audio', [audio.task]);
+    await flush();
+
+    expect(taskStatuses('image')).toEqual(['running', 'running', 'queued']);
+    expect(taskStatuses('audio')).toEqual(['queued']);
+
+    tasks[0].last().resolve();
+    await flush();
+    expect(taskStatuses('image')).toEqual(['succeeded', 'running', 'running']);
+
+    tasks[1].last().resolve();
+    tasks[2].last().resolve();
+    await flush();
+    await expect(images).resolves.toEqual({ status: 'finished', succeeded: ['a', 'b', 'c'], failed: [] });
+
+    audio.last().resolve();
+    await expect(sounds).resolves.toMatchObject({ status: 'finished', succeeded: ['d'] });
+  });
+
+  it('retries failed tasks with backoff and reports them once attempts run out', async () => {
+    const shot = controlledTask('a');
+    const result = generationStore.runBatch('image', 'Images', [shot.task]);
+    await flush();
+
+    shot.last().reject(new GenerationRequestError('Server error', 500));
+    await flush();
+    expect(taskStatuses()).toEqual(['retrying']);
+
+    // 1s backoff with ±25% jitter
+    await vi.advanceTimersByTimeAsync(749);
+    expect(shot.attempts).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(501);
+    expect(shot.attempts).toHaveLength(2);
+    expect(taskStatuses()).toEqual(['running']);
+
+    shot.last().reject(new GenerationRequestError('Server error again', 500));
+    const { failed } = await result;
+    expect(failed).toEqual([{ id: 'a', label: 'Shot a', error: 'Server error again' }]);
+    expect(describeBatchFailures({ status: 'finished', succeeded: [], failed }, 1))
+      .toBe('1 of 1 failed after retries:\n• Shot a: Server error again');
+  });
+
+  it('does not retry client errors', async () => {
+    const shot = controlledTask('a');
+    const result = generationStore.runBatch('image', 'Images', [shot.task]);
+    await flush();
+
+    shot.last().reject(new GenerationRequestError('Prompt rejected', 400));
+    await expect(result).resolves.toMatchObject({ failed: [{ id: 'a', error: 'Prompt rejected' }] });
+    expect(shot.attempts).toHaveLength(1);
+  });
+
+  it('holds back every batch while rate limited, without using up attempts', async () => {
+    settingsStore.updateAdvancedSettings({ retryAttempts: 0 });
+    const shot = controlledTask('a');
+    const audio = controlledTask('b');
+    const images = generationStore.runBatch('image', 'Images', [shot.task]);
+    await flush();
+
+    shot.last().reject(new GenerationRequestError('Too many requests', 429, 5000));
+    await flush();
+    const sounds = generationStore.runBatch('audio', 'Audio', [audio.task]);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(shot.attempts).toHaveLength(1);
+    expect(audio.attempts).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(shot.attempts).toHaveLength(2);
+    expect(audio.attempts).toHaveLength(1);
+    expect(generationStore.getActiveBatch('image')?.tasks[0].attempts).toBe(1);
+
+    shot.last().resolve();
+    audio.last().resolve();
+    await expect(images).resolves.toMatchObject({ succeeded: ['a'], failed: [] });
+    await expect(sounds).resolves.toMatchObject({ succeeded: ['b'] });
+  });
+
+  it('starts no new tasks while paused', async () => {
+    settingsStore.updateAdvancedSettings({ parallelGenerationLimit: 1 });
+    const [first, second] = ['a', 'b'].map(controlledTask);
+    const result = generationStore.runBatch('image', 'Images', [first.task, second.task]);
+    await flush();
+
+    const batchId = generationStore.getActiveBatch('image')!.id;
+    generationStore.pause(batchId);
+    first.last().resolve();
+    await flush();
+    expect(taskStatuses()).toEqual(['succeeded', 'queued']);
+
+    generationStore.resume(batchId);
+    await flush();
+    expect(taskStatuses()).toEqual(['succeeded', 'running']);
+
+    second.last().resolve();
+    await expect(result).resolves.toMatchObject({ status: 'finished', succeeded: ['a', 'b'] });
+  });
+
+  it('cancels queued and running tasks when the signal aborts', async () => {
+    settingsStore.updateAdvancedSettings({ parallelGenerationLimit: 1 });
+    const [first, second] = ['a', 'b'].map(controlledTask);
+    const controller = new AbortController();
+    const result = generationStore.runBatch('image', 'Images', [first.task, second.task], controller.signal);
+    await flush();
+
+    controller.abort();
+    expect(first.last().signal.aborted).toBe(true);
+    await expect(result).resolves.toEqual({ status: 'cancelled', succeeded: [], failed: [] });
+    expect(second.attempts).toHaveLength(0);
+    expect(generationStore.getActiveBatch('image')).toBeUndefined();
+  });
+
+  it('resolves at once for an empty or already cancelled batch', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(generationStore.runBatch('image', 'Images', [])).resolves.toMatchObject({ status: 'finished' });
+    await expect(generationStore.runBatch('image', 'Images', [controlledTask('a').task], controller.signal))
+      .resolves.toMatchObject({ status: 'cancelled' });
+  });
+});
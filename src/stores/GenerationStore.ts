@@ -0,0 +1,348 @@
+import { makeAutoObservable } from 'mobx';
+import { settingsStore } from './SettingsStore';
+import { getRetryAfterMs, isRateLimitError, isRetryableError } from '@/utils/generationRequest';
+
+/**
+ * Generation scheduler
+ * Every batch (character references, shot images, animations, audio) queues
+ * its tasks here. Tasks from all batches share one concurrency cap
+ * (advancedSettings.parallelGenerationLimit) and are retried with exponential
+ * backoff (advancedSettings.retryAttempts). A rate-limited task holds back
+ * every batch until the provider's Retry-After has passed.
+ */
+
+export type GenerationKind = 'character' | 'image' | 'animation' | 'audio';
+export type BatchStatus = 'running' | 'paused' | 'cancelled' | 'finished';
+export type GenerationTaskStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface GenerationTask {
+  id: string;                       // Shot or character ID
+  label: string;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export interface GenerationTaskState {
+  id: string;
+  label: string;
+  status: GenerationTaskStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface GenerationBatch {
+  id: string;
+  kind: GenerationKind;
+  label: string;
+  status: BatchStatus;
+  tasks: GenerationTaskState[];
+  createdAt: number;
+}
+
+export interface BatchProgress {
+  total: number;
+  done: number;                     // Succeeded, failed or cancelled
+  succeeded: number;
+  failed: number;
+  running: number;
+  retrying: number;
+}
+
+export interface BatchResult {
+  status: 'finished' | 'cancelled';
+  succeeded: string[];
+  failed: Array<{ id: string; label: string; error: string }>;
+}
+
+interface QueueEntry {
+  batchId: string;
+  task: GenerationTask;
+  notBefore: number;                // Backoff: not started before this time
+  rateLimitRetries: number;
+}
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const DEFAULT_RATE_LIMIT_WAIT_MS = 10000;
+const MAX_RATE_LIMIT_RETRIES = 5;   // Separate from retryAttempts
+
+function isFinishedTask(status: GenerationTaskStatus): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Exponential backoff with ±25% jitter, so retries from one batch spread out
+ */
+function getBackoffMs(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+}
+
+export function getBatchProgress(batch: GenerationBatch): BatchProgress {
+  const count = (status: GenerationTaskStatus) => batch.tasks.filter(task => task.status === status).length;
+  return {
+    total: batch.tasks.length,
+    done: batch.tasks.filter(task => isFinishedTask(task.status)).length,
+    succeeded: count('succeeded'),
+    failed: count('failed'),
+    running: count('running'),
+    retrying: count('retrying'),
+  };
+}
+
+/**
+ * One-paragraph summary of a batch's failures for an alert, or null if none failed
+ */
+export function describeBatchFailures(result: BatchResult, total: number): string | null {
+  if (result.failed.length === 0) return null;
+
+  const lines = result.failed.slice(0, 10).map(failure => `• ${failure.label}: ${failure.error}`);
+  if (result.failed.length > 10) {
+    lines.push(`• …and ${result.failed.length - 10} more`);
+  }
+  return `${result.failed.length} of ${total} failed after retries:\n${lines.join('\n')}`;
+}
+
+class GenerationStore {
+  batches: GenerationBatch[] = [];
+  rateLimitedUntil = 0;
+
+  private queue: QueueEntry[] = [];
+  private controllers = new Map<string, AbortController>();
+  private resolvers = new Map<string, (result: BatchResult) => void>();
+  private activeCount = 0;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    makeAutoObservable<GenerationStore, 'queue' | 'controllers' | 'resolvers' | 'activeCount' | 'wakeTimer'>(this, {
+      queue: false,
+      controllers: false,
+      resolvers: false,
+      activeCount: false,
+      wakeTimer: false,
+    });
+  }
+
+  /**
+   * The unfinished batch of a kind, for showing its progress and controls
+   */
+  getActiveBatch(kind: GenerationKind): GenerationBatch | undefined {
+    return this.batches.find(batch => batch.kind === kind);
+  }
+
+  /**
+   * Queue tasks as one batch and resolve once every task has finished
+   * Task failures are collected in the result rather than thrown; aborting
+   * `signal` cancels the batch
+   */
+  runBatch(kind: GenerationKind, label: string, tasks: GenerationTask[], signal?: AbortSignal): Promise<BatchResult> {
+    const batch: GenerationBatch = {
+      id: `batch-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      kind,
+      label,
+      status: 'running',
+      tasks: tasks.map(task => ({ id: task.id, label: task.label, status: 'queued', attempts: 0 })),
+      createdAt: Date.now(),
+    };
+
+    if (tasks.length === 0 || signal?.aborted) {
+      return Promise.resolve({ status: signal?.aborted ? 'cancelled' : 'finished', succeeded: [], failed: [] });
+    }
+
+    this.batches.push(batch);
+    tasks.forEach(task => this.queue.push({ batchId: batch.id, task, notBefore: 0, rateLimitRetries: 0 }));
+
+    const result = new Promise<BatchResult>(resolve => this.resolvers.set(batch.id, resolve));
+    if (signal) {
+      const cancel = () => this.cancel(batch.id);
+      signal.addEventListener('abort', cancel);
+      result.finally(() => signal.removeEventListener('abort', cancel));
+    }
+    this.pump();
+    return result;
+  }
+
+  /**
+   * Stop starting new tasks; running ones finish
+   */
+  pause(batchId: string) {
+    const batch = this.findBatch(batchId);
+    if (batch?.status === 'running') {
+      batch.status = 'paused';
+    }
+  }
+
+  resume(batchId: string) {
+    const batch = this.findBatch(batchId);
+    if (batch?.status === 'paused') {
+      batch.status = 'running';
+      this.pump();
+    }
+  }
+
+  /**
+   * Drop queued tasks and abort running ones
+   */
+  cancel(batchId: string) {
+    const batch = this.findBatch(batchId);
+    if (!batch || batch.status === 'cancelled' || batch.status === 'finished') return;
+
+    batch.status = 'cancelled';
+    this.queue = this.queue.filter(entry => entry.batchId !== batchId);
+    batch.tasks.forEach(task => {
+      if (!isFinishedTask(task.status) && task.status !== 'running') {
+        task.status = 'cancelled';
+      }
+    });
+    batch.tasks.forEach(task => this.controllers.get(this.taskKey(batchId, task.id))?.abort());
+
+    this.finishBatchIfDone(batch);
+  }
+
+  private findBatch(batchId: string): GenerationBatch | undefined {
+    return this.batches.find(batch => batch.id === batchId);
+  }
+
+  private findTaskState(batch: GenerationBatch, taskId: string): GenerationTaskState {
+    return batch.tasks.find(task => task.id === taskId)!;
+  }
+
+  private taskKey(batchId: string, taskId: string): string {
+    return `${batchId}:${taskId}`;
+  }
+
+  private get concurrencyLimit(): number {
+    return Math.max(1, settingsStore.settings.advancedSettings.parallelGenerationLimit || 1);
+  }
+
+  private get retryAttempts(): number {
+    return Math.max(0, settingsStore.settings.advancedSettings.retryAttempts || 0);
+  }
+
+  /**
+   * Start queued tasks while there is room, and wake up for delayed ones
+   */
+  private pump() {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    while (this.activeCount < this.concurrencyLimit) {
+      if (this.rateLimitedUntil > now) {
+        nextWake = this.rateLimitedUntil;
+        break;
+      }
+
+      const index = this.queue.findIndex(entry =>
+        this.findBatch(entry.batchId)?.status === 'running' && entry.notBefore <= now
+      );
+      if (index === -1) {
+        this.queue.forEach(entry => {
+          if (this.findBatch(entry.batchId)?.status === 'running') {
+            nextWake = Math.min(nextWake, entry.notBefore);
+          }
+        });
+        break;
+      }
+
+      const [entry] = this.queue.splice(index, 1);
+      this.startTask(entry);
+    }
+
+    if (nextWake !== Infinity) {
+      this.wakeTimer = setTimeout(() => this.pump(), Math.max(0, nextWake - Date.now()));
+    }
+  }
+
+  private startTask(entry: QueueEntry) {
+    const batch = this.findBatch(entry.batchId)!;
+    const state = this.findTaskState(batch, entry.task.id);
+    const key = this.taskKey(batch.id, entry.task.id);
+    const controller = new AbortController();
+
+    this.controllers.set(key, controller);
+    this.activeCount++;
+    state.status = 'running';
+    state.attempts++;
+
+    entry.task.run(controller.signal)
+      .then(() => this.onTaskSucceeded(state))
+      .catch(error => this.onTaskFailed(batch, state, entry, error, controller.signal.aborted))
+      .finally(() => {
+        this.controllers.delete(key);
+        this.activeCount--;
+        this.finishBatchIfDone(batch);
+        this.pump();
+      });
+  }
+
+  private onTaskSucceeded(state: GenerationTaskState) {
+    state.status = 'succeeded';
+    state.error = undefined;
+  }
+
+  private onTaskFailed(
+    batch: GenerationBatch,
+    state: GenerationTaskState,
+    entry: QueueEntry,
+    error: any,
+    aborted: boolean
+  ) {
+    if (aborted || batch.status === 'cancelled') {
+      state.status = 'cancelled';
+      return;
+    }
+
+    state.error = error?.message || 'Generation failed';
+
+    // Rate limits hold back every batch, and do not use up retry attempts
+    if (isRateLimitError(error) && entry.rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+      const wait = getRetryAfterMs(error) ?? DEFAULT_RATE_LIMIT_WAIT_MS * 2 ** entry.rateLimitRetries;
+      this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + wait);
+      console.warn(`${state.label}: rate limited, waiting ${Math.round(wait / 1000)}s`);
+
+      state.status = 'retrying';
+      state.attempts--;
+      this.queue.unshift({ ...entry, rateLimitRetries: entry.rateLimitRetries + 1 });
+      return;
+    }
+
+    if (isRetryableError(error) && state.attempts <= this.retryAttempts) {
+      const delay = getBackoffMs(state.attempts);
+      console.warn(`${state.label}: attempt ${state.attempts} failed, retrying in ${delay}ms:`, state.error);
+
+      state.status = 'retrying';
+      this.queue.push({ ...entry, notBefore: Date.now() + delay });
+      return;
+    }
+
+    console.error(`${state.label}: generation failed:`, error);
+    state.status = 'failed';
+  }
+
+  private finishBatchIfDone(batch: GenerationBatch) {
+    if (!batch.tasks.every(task => isFinishedTask(task.status))) return;
+
+    const resolve = this.resolvers.get(batch.id);
+    if (!resolve) return;
+    this.resolvers.delete(batch.id);
+
+    if (batch.status !== 'cancelled') {
+      batch.status = 'finished';
+    }
+    this.batches = this.batches.filter(b => b.id !== batch.id);
+
+    resolve({
+      status: batch.status === 'cancelled' ? 'cancelled' : 'finished',
+      succeeded: batch.tasks.filter(task => task.status === 'succeeded').map(task => task.id),
+      failed: batch.tasks
+        .filter(task => task.status === 'failed')
+        .map(task => ({ id: task.id, label: task.label, error: task.error || 'Generation failed' })),
+    });
+  }
+}
+
+export const generationStore = new GenerationStore();
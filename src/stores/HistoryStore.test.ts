@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { historyStore } from './HistoryStore';
+import { LocationPlate, storyStore } from './StoryStore';
+
+const plate: LocationPlate = {
+  id: 'plate-1',
+  url: 'asset://plate-1',
+  timeOfDay: 'day',
+  source: 'generated',
+  createdAt: 0,
+};
+
+const pastLabels = () => historyStore.past.map(entry => entry.label);
+
+describe('historyStore', () => {
+  beforeEach(() => {
+    historyStore.startOver(() => storyStore.reset());
+  });
+
+  it('records location edits and plate changes as steps', () => {
+    storyStore.addLocation({ id: 'l1', name: 'Harbor', description: 'Docks at dawn', plates: [] });
+    storyStore.updateLocation('l1', { name: 'Port' });
+    storyStore.setLocationPlate('l1', plate);
+    storyStore.removeLocationPlate('l1', plate.id);
+
+    expect(pastLabels()).toEqual([
+      'Add location',
+      'Edit location Port',
+      'New plate for Port',
+      'Remove plate for Port',
+    ]);
+
+    historyStore.undo();
+    expect(storyStore.findLocation('l1')?.plates.map(p => p.id)).toEqual(['plate-1']);
+    historyStore.undo();
+    expect(storyStore.findLocation('l1')?.plates).toEqual([]);
+    historyStore.undo();
+    expect(storyStore.findLocation('l1')?.name).toBe('Harbor');
+    historyStore.undo();
+    expect(storyStore.story.locations).toEqual([]);
+  });
+
+  it('undoes an earlier step without keeping later location edits', () => {
+    storyStore.addLocation({ id: 'l1', name: 'Harbor', description: 'Docks at dawn', plates: [] });
+    storyStore.setStory({ title: 'Night Shift' });
+    storyStore.updateLocation('l1', { name: 'Port' });
+    storyStore.setLocationPlate('l1', plate);
+
+    historyStore.undo();
+    historyStore.undo();
+    historyStore.undo();
+
+    expect(storyStore.story.title).toBe('');
+    expect(storyStore.findLocation('l1')).toMatchObject({ name: 'Harbor', plates: [] });
+
+    historyStore.redo();
+    historyStore.redo();
+    expect(storyStore.findLocation('l1')).toMatchObject({ name: 'Port', plates: [] });
+  });
+
+  it('records wardrobe edits as steps', () => {
+    storyStore.addCharacter({
+      name: 'Ana',
+      description: 'A night nurse',
+      wardrobes: [{ id: 'w1', name: 'Coat', description: 'Red wool coat' }],
+    });
+    storyStore.updateWardrobe(0, 'w1', { name: 'Cape' });
+
+    expect(pastLabels()).toEqual(['Add character', 'Edit character Ana']);
+
+    historyStore.undo();
+    expect(storyStore.story.characters[0].wardrobes).toEqual([
+      { id: 'w1', name: 'Coat', description: 'Red wool coat' },
+    ]);
+    historyStore.redo();
+    expect(storyStore.story.characters[0].wardrobes?.[0].name).toBe('Cape');
+  });
+
+  it('does not record loading or starting over as steps', () => {
+    storyStore.setStory({ title: 'Draft' });
+    expect(pastLabels()).toEqual(['Edit title']);
+
+    historyStore.openProject('project-1', () => storyStore.setStory({ title: 'Loaded' }));
+    expect(historyStore.canUndo).toBe(false);
+
+    historyStore.startOver(() => storyStore.reset());
+    expect(historyStore.canUndo).toBe(false);
+    expect(storyStore.story.title).toBe('');
+  });
+
+  it('puts the previous story and history back when a replacement is taken back', () => {
+    storyStore.setStory({ title: 'Draft' });
+    const restore = historyStore.startOver(() => storyStore.reset());
+    storyStore.setStory({ title: 'Half-streamed' });
+
+    restore();
+
+    expect(storyStore.story.title).toBe('Draft');
+    expect(pastLabels()).toEqual(['Edit title']);
+    historyStore.undo();
+    expect(storyStore.story.title).toBe('');
+  });
+});
@@ -0,0 +1,609 @@
+import { makeAutoObservable, observable, reaction, runInAction, toJS } from 'mobx';
+import { storyStore, Character, Shot, StoryData } from './StoryStore';
+import { getTimelineEntries } from '@/utils/timeline';
+
+/**
+ * Undo/redo history for StoryStore
+ * A reaction snapshots the story after every outermost MobX action, so every
+ * store mutation is covered without wrapping each action by hand; steps are
+ * labelled from what changed between two snapshots.
+ * Generation status flags (and running job IDs) are left out of snapshots:
+ * flipping `isGenerating` records nothing, and a regenerate ends up as a single "new image" step.
+ * History belongs to one project and is saved under its ID; loading a project,
+ * New Story and resets go through openProject/startOver, which are no steps.
+ */
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+const HISTORY_STORAGE_PREFIX = 'open-story-video-history:';
+const LEGACY_HISTORY_STORAGE_KEY = 'open-story-video-history';   // One history shared by every project
+const COALESCE_WINDOW_MS = 1000;   // Typing in one field within this window is one step
+const PERSIST_DELAY_MS = 1000;
+
+const TRANSIENT_SHOT_FIELDS = ['isGenerating', 'isAnimating', 'isGeneratingAudio', 'animationJobId'] as const;
+const TRANSIENT_CHARACTER_FIELDS = ['isGenerating'] as const;
+
+export interface HistoryEntry {
+  label: string;
+  timestamp: number;
+  story: StoryData;     // Snapshot without transient flags
+}
+
+interface PersistedHistory {
+  version: 1;
+  shots: Shot[];        // Shared shot table; scenes reference shots by index
+  past: PersistedEntry[];
+  future: PersistedEntry[];
+}
+
+interface PersistedEntry {
+  label: string;
+  timestamp: number;
+  story: Omit<StoryData, 'scenes'> & {
+    scenes: { id: string; title: string; description: string; shots: number[] }[];
+  };
+}
+
+function omit<T extends object>(source: T, keys: readonly string[]): T {
+  const result: any = {};
+  Object.keys(source).forEach(key => {
+    if (!keys.includes(key) && (source as any)[key] !== undefined) {
+      result[key] = (source as any)[key];
+    }
+  });
+  return result;
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(key => isEqual(a[key], b[key]));
+}
+
+const SHOT_FIELD_LABELS: Record<string, string> = {
+  imageUrl: 'New image',
+  animationUrl: 'New animation',
+  audioUrl: 'New narration',
+};
+
+interface ChangeDescription {
+  label: string;
+  key: string | null;   // Set when a single field changed, used for coalescing
+}
+
+function changedKeys(a: any, b: any): string[] {
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+  return keys.filter(key => !isEqual(a[key], b[key]));
+}
+
+function sameIds(a: { id: string }[], b: { id: string }[]): boolean {
+  return a.length === b.length && a.every(item => b.some(other => other.id === item.id));
+}
+
+/**
+ * Label a step from the difference between two snapshots
+ */
+function describeChange(prev: StoryData, next: StoryData): ChangeDescription {
+  const storyKeys = changedKeys(prev, next);
+
+  if (storyKeys.length > 1) {
+    if (prev.scenes.length === 0) return { label: 'Create story', key: null };
+    if (next.scenes.length === 0) return { label: 'Clear story', key: null };
+    const replaced = !next.scenes.some(scene => prev.scenes.some(p => p.id === scene.id));
+    return { label: replaced ? 'Replace story' : 'Edit story', key: null };
+  }
+
+  const [field] = storyKeys;
+
+  if (field === 'characters') {
+    if (prev.characters.length < next.characters.length) return { label: 'Add character', key: null };
+    if (prev.characters.length > next.characters.length) return { label: 'Delete character', key: null };
+
+    const changed = next.characters
+      .map((character, index) => ({ character, index, keys: changedKeys(prev.characters[index], character) }))
+      .filter(c => c.keys.length > 0);
+    if (changed.length !== 1) return { label: 'Edit characters', key: null };
+
+    const { character, index, keys } = changed[0];
+    if (keys.includes('referenceImageUrl') || keys.includes('references')) {
+      return { label: `New reference image for ${character.name}`, key: null };
+    }
+    return {
+      label: `Edit character ${character.name}`,
+      key: keys.length === 1 ? `character.${index}.${keys[0]}` : null,
+    };
+  }
+
+  if (field === 'locations') {
+    const before = prev.locations || [];
+    const after = next.locations || [];
+    if (before.length < after.length) return { label: 'Add location', key: null };
+    if (before.length > after.length) return { label: 'Delete location', key: null };
+
+    const changed = after.filter((location, i) => !isEqual(location, before[i]));
+    if (changed.length !== 1) return { label: 'Edit locations', key: null };
+
+    const location = changed[0];
+    const keys = changedKeys(before[after.indexOf(location)], location);
+    if (keys.includes('plates')) {
+      const removed = location.plates.length < before[after.indexOf(location)].plates.length;
+      return { label: `${removed ? 'Remove' : 'New'} plate for ${location.name}`, key: null };
+    }
+    return {
+      label: `Edit location ${location.name}`,
+      key: keys.length === 1 ? `location.${location.id}.${keys[0]}` : null,
+    };
+  }
+
+  if (field === 'scenes') {
+    if (prev.scenes.length < next.scenes.length) return { label: 'Add scene', key: null };
+    if (prev.scenes.length > next.scenes.length) return { label: 'Delete scene', key: null };
+    if (!sameIds(prev.scenes, next.scenes)) return { label: 'Edit scenes', key: null };
+    if (prev.scenes.some((scene, i) => scene.id !== next.scenes[i].id)) {
+      return { label: 'Reorder scenes', key: null };
+    }
+
+    const changedScenes = next.scenes.filter((scene, i) => !isEqual(scene, prev.scenes[i]));
+    if (changedScenes.length !== 1) return { label: 'Edit scenes', key: null };
+
+    const scene = changedScenes[0];
+    const sceneIndex = next.scenes.indexOf(scene);
+    const before = prev.scenes[sceneIndex];
+    const sceneKeys = changedKeys(before, scene);
+    const sceneName = `Scene ${sceneIndex + 1}`;
+
+    if (sceneKeys.length === 1 && sceneKeys[0] !== 'shots') {
+      return { label: `Edit ${sceneName} ${sceneKeys[0]}`, key: `scene.${scene.id}.${sceneKeys[0]}` };
+    }
+    if (sceneKeys.length > 1) return { label: `Edit ${sceneName}`, key: null };
+
+    if (before.shots.length < scene.shots.length) return { label: `Add shot to ${sceneName}`, key: null };
+    if (before.shots.length > scene.shots.length) return { label: `Delete shot from ${sceneName}`, key: null };
+    if (!sameIds(before.shots, scene.shots)) return { label: `Edit ${sceneName} shots`, key: null };
+    if (before.shots.some((shot, i) => shot.id !== scene.shots[i].id)) {
+      return { label: `Reorder shots in ${sceneName}`, key: null };
+    }
+
+    const changedShots = scene.shots.filter((shot, i) => shot !== before.shots[i] && !isEqual(shot, before.shots[i]));
+    if (changedShots.length !== 1) return { label: `Edit ${sceneName} shots`, key: null };
+
+    const shot = changedShots[0];
+    const shotIndex = scene.shots.indexOf(shot);
+    const shotKeys = changedKeys(before.shots[shotIndex], shot);
+    const shotName = `${sceneName} · Shot ${shotIndex + 1}`;
+    const mediaKey = shotKeys.find(key => SHOT_FIELD_LABELS[key]);
+
+    if (shotKeys.includes('takes')) {
+      const addedTake = (shot.takes?.length || 0) > (before.shots[shotIndex].takes?.length || 0);
+      if (!addedTake) return { label: `Delete take (${shotName})`, key: null };
+    } else if (mediaKey) {
+      return { label: `Switch take (${shotName})`, key: null };
+    }
+    if (mediaKey) {
+      return { label: `${SHOT_FIELD_LABELS[mediaKey]} (${shotName})`, key: null };
+    }
+    return {
+      label: `Edit ${shotName}${shotKeys.length === 1 ? ` ${shotKeys[0]}` : ''}`,
+      key: shotKeys.length === 1 ? `shot.${shot.id}.${shotKeys[0]}` : null,
+    };
+  }
+
+  if (field === 'timeline') {
+    if (!next.timeline) return { label: 'Reset timeline', key: null };
+    const order = (story: StoryData) => getTimelineEntries(story).map(entry => entry.shot.id).join(',');
+    return { label: order(prev) === order(next) ? 'Edit timeline' : 'Reorder timeline', key: null };
+  }
+
+  if (field) {
+    return { label: `Edit ${field}`, key: `story.${field}` };
+  }
+
+  return { label: 'Edit story', key: null };
+}
+
+class HistoryStore {
+  past: HistoryEntry[] = [];
+  future: HistoryEntry[] = [];
+
+  private present: StoryData;
+  private projectId: string | null = null;   // Unsaved story: kept in memory only
+  private shotCache = new Map<string, Shot>();   // Structural sharing between snapshots
+  private lastKey: string | null = null;
+  private lastTime = 0;
+  private groupDepth = 0;
+  private groupStart: { label: string; story: StoryData } | null = null;
+  private isRestoring = false;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.present = this.snapshot(storyStore.story);
+
+    makeAutoObservable<HistoryStore, 'present' | 'projectId' | 'shotCache' | 'lastKey' | 'lastTime' | 'groupDepth' | 'groupStart' | 'isRestoring' | 'persistTimer' | 'restore' | 'snapshot' | 'replaceUntracked'>(this, {
+      past: observable.shallow,
+      future: observable.shallow,
+      present: false,
+      projectId: false,
+      shotCache: false,
+      lastKey: false,
+      lastTime: false,
+      groupDepth: false,
+      groupStart: false,
+      isRestoring: false,
+      persistTimer: false,
+      // Not actions: the story store must update (and the reaction run)
+      // while `isRestoring` is still set
+      undo: false,
+      redo: false,
+      restore: false,
+      snapshot: false,
+      untracked: false,
+      group: false,
+      openProject: false,
+      startOver: false,
+      replaceUntracked: false,
+    });
+
+    // The story starts empty on every page load, so nothing is loaded until a
+    // project is opened
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+    }
+
+    reaction(
+      () => this.snapshot(storyStore.story),
+      (next) => this.onStoryChanged(next),
+      { equals: isEqual }
+    );
+  }
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  get undoLabel(): string | null {
+    return this.past.length > 0 ? this.past[this.past.length - 1].label : null;
+  }
+
+  get redoLabel(): string | null {
+    return this.future.length > 0 ? this.future[this.future.length - 1].label : null;
+  }
+
+  /**
+   * Record the store changes `change` makes as one step
+   * Synchronous only: async work such as a generation batch records each
+   * result as its own step, so edits made meanwhile stay separate.
+   */
+  group(label: string, change: () => void) {
+    if (this.groupDepth === 0) {
+      this.groupStart = { label, story: this.present };
+    }
+    this.groupDepth++;
+    try {
+      change();
+    } finally {
+      this.groupDepth--;
+      if (this.groupDepth === 0 && this.groupStart) {
+        const { story } = this.groupStart;
+        this.groupStart = null;
+        if (!isEqual(story, this.present)) {
+          this.push({ label, timestamp: Date.now(), story });
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply store changes without an undo step, e.g. a story arriving
+   * while it streams in
+   */
+  untracked(change: () => void) {
+    this.replaceUntracked(change);
+  }
+
+  /**
+   * Load a project's story with `load` and switch to that project's history
+   */
+  openProject(projectId: string, load: () => void) {
+    this.flushPersist();
+    this.replaceUntracked(load);
+    runInAction(() => {
+      this.projectId = projectId;
+      this.past = [];
+      this.future = [];
+    });
+    this.loadHistory();
+  }
+
+  /**
+   * Replace the story with `replace` (New Story, a reset, an import) and
+   * start an empty history; it is saved once attachProject names the project
+   * Returns a function that puts the previous story and its history back,
+   * for a replacement that fails halfway.
+   */
+  startOver(replace: () => void): () => void {
+    const previous = {
+      story: toJS(storyStore.story),
+      projectId: this.projectId,
+      past: this.past,
+      future: this.future,
+    };
+
+    this.flushPersist();
+    this.replaceUntracked(replace);
+    runInAction(() => {
+      this.projectId = null;
+      this.past = [];
+      this.future = [];
+    });
+    this.lastKey = null;
+
+    return () => {
+      this.replaceUntracked(() => storyStore.setStory(previous.story));
+      runInAction(() => {
+        this.projectId = previous.projectId;
+        this.past = previous.past;
+        this.future = previous.future;
+      });
+    };
+  }
+
+  /**
+   * The current story was saved as `projectId`; keep its history with it
+   */
+  attachProject(projectId: string) {
+    if (this.projectId === projectId) return;
+    this.projectId = projectId;
+    this.schedulePersist();
+  }
+
+  /**
+   * Drop the saved history of a deleted project
+   */
+  forgetProject(projectId: string) {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem(HISTORY_STORAGE_PREFIX + projectId);
+    if (this.projectId === projectId) {
+      this.projectId = null;
+    }
+  }
+
+  undo() {
+    const entry = this.past[this.past.length - 1];
+    if (!entry) return;
+    runInAction(() => {
+      this.past.pop();
+      this.future.push({ label: entry.label, timestamp: Date.now(), story: this.present });
+    });
+    this.restore(entry.story);
+  }
+
+  redo() {
+    const entry = this.future[this.future.length - 1];
+    if (!entry) return;
+    runInAction(() => {
+      this.future.pop();
+      this.past.push({ label: entry.label, timestamp: Date.now(), story: this.present });
+    });
+    this.restore(entry.story);
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+    this.present = this.snapshot(storyStore.story);
+    this.schedulePersist();
+  }
+
+  private replaceUntracked(change: () => void) {
+    this.isRestoring = true;
+    try {
+      change();
+    } finally {
+      this.isRestoring = false;
+      this.lastKey = null;
+    }
+  }
+
+  private onStoryChanged(next: StoryData) {
+    const previous = this.present;
+    this.present = next;
+
+    // Undo/redo itself and changes inside a group are not separate steps
+    if (this.isRestoring || this.groupDepth > 0) return;
+
+    const now = Date.now();
+    const { label, key } = describeChange(previous, next);
+    const coalesce = key !== null && key === this.lastKey &&
+      now - this.lastTime < COALESCE_WINDOW_MS && this.past.length > 0;
+
+    this.lastKey = key;
+    this.lastTime = now;
+
+    if (coalesce) {
+      // Keep the older "before" state so the whole burst undoes at once
+      this.future = [];
+      this.schedulePersist();
+      return;
+    }
+
+    this.push({ label, timestamp: now, story: previous });
+  }
+
+  private push(entry: HistoryEntry) {
+    this.past.push(entry);
+    if (this.past.length > MAX_HISTORY_ENTRIES) {
+      this.past.splice(0, this.past.length - MAX_HISTORY_ENTRIES);
+    }
+    this.future = [];
+    this.schedulePersist();
+  }
+
+  /**
+   * Put a snapshot back into the story store, keeping the generation flags of
+   * shots and characters that are still being processed
+   */
+  private restore(snapshot: StoryData) {
+    const current = storyStore.story;
+    const flagsByShot = new Map<string, Partial<Shot>>();
+    current.scenes.forEach(scene => scene.shots.forEach(shot => {
+      const flags: Partial<Shot> = {};
+      TRANSIENT_SHOT_FIELDS.forEach(field => {
+        if (shot[field]) Object.assign(flags, { [field]: shot[field] });
+      });
+      flagsByShot.set(shot.id, flags);
+    }));
+
+    const story: StoryData = JSON.parse(JSON.stringify(snapshot));
+    story.scenes.forEach(scene => {
+      scene.shots = scene.shots.map(shot => ({ ...shot, ...flagsByShot.get(shot.id) }));
+    });
+    story.characters = story.characters.map((character, index) => ({
+      ...character,
+      ...(current.characters[index]?.name === character.name && current.characters[index].isGenerating
+        ? { isGenerating: true }
+        : {}),
+    }));
+
+    this.replaceUntracked(() => storyStore.setStory(story));
+    this.schedulePersist();
+  }
+
+  /**
+   * Plain copy of the story without transient flags
+   * Unchanged shots reuse the previous snapshot's object
+   */
+  private snapshot(story: StoryData): StoryData {
+    const cache = new Map<string, Shot>();
+
+    const scenes = story.scenes.map(scene => ({
+      id: scene.id,
+      title: scene.title,
+      description: scene.description,
+      shots: scene.shots.map(shot => {
+        const plain = omit({ ...shot }, TRANSIENT_SHOT_FIELDS);
+        const cached = this.shotCache.get(shot.id);
+        const result = cached && isEqual(cached, plain) ? cached : plain;
+        cache.set(shot.id, result);
+        return result;
+      }),
+    }));
+
+    this.shotCache = cache;
+
+    return {
+      ...omit({ ...story }, ['scenes', 'characters']),
+      characters: story.characters.map((c: Character) => omit({ ...c }, TRANSIENT_CHARACTER_FIELDS)),
+      scenes,
+    } as StoryData;
+  }
+
+  private schedulePersist() {
+    if (typeof window === 'undefined' || !this.projectId) return;
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = setTimeout(() => this.saveHistory(), PERSIST_DELAY_MS);
+  }
+
+  // Save a pending change before switching projects
+  private flushPersist() {
+    if (!this.persistTimer) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    this.saveHistory();
+  }
+
+  /**
+   * Save to localStorage with shots shared between entries
+   * Drops the oldest steps when the storage quota is exceeded
+   */
+  private saveHistory() {
+    this.persistTimer = null;
+    if (!this.projectId) return;
+    const key = HISTORY_STORAGE_PREFIX + this.projectId;
+    let past = [...this.past];
+
+    while (true) {
+      const shots: Shot[] = [];
+      const shotIndex = new Map<Shot, number>();
+
+      const pack = (entry: HistoryEntry): PersistedEntry => ({
+        label: entry.label,
+        timestamp: entry.timestamp,
+        story: {
+          ...entry.story,
+          scenes: entry.story.scenes.map(scene => ({
+            id: scene.id,
+            title: scene.title,
+            description: scene.description,
+            shots: scene.shots.map(shot => {
+              if (!shotIndex.has(shot)) {
+                shotIndex.set(shot, shots.length);
+                shots.push(shot);
+              }
+              return shotIndex.get(shot)!;
+            }),
+          })),
+        },
+      });
+
+      const data: PersistedHistory = {
+        version: 1,
+        past: past.map(pack),
+        future: this.future.map(pack),
+        shots,
+      };
+
+      try {
+        localStorage.setItem(key, JSON.stringify(data));
+        return;
+      } catch (e) {
+        if (past.length === 0) {
+          console.error('Failed to save undo history:', e);
+          return;
+        }
+        past = past.slice(Math.ceil(past.length / 2));
+      }
+    }
+  }
+
+  private loadHistory() {
+    if (typeof window === 'undefined' || !this.projectId) return;
+
+    const saved = localStorage.getItem(HISTORY_STORAGE_PREFIX + this.projectId);
+    if (!saved) return;
+
+    try {
+      const data: PersistedHistory = JSON.parse(saved);
+      if (data.version !== 1) return;
+
+      const unpack = (entry: PersistedEntry): HistoryEntry => ({
+        label: entry.label,
+        timestamp: entry.timestamp,
+        story: {
+          ...entry.story,
+          scenes: entry.story.scenes.map(scene => ({
+            ...scene,
+            shots: scene.shots.map(index => data.shots[index]),
+          })),
+        },
+      });
+
+      runInAction(() => {
+        this.past = data.past.map(unpack).slice(-MAX_HISTORY_ENTRIES);
+        this.future = data.future.map(unpack);
+      });
+    } catch (e) {
+      console.error('Failed to load undo history:', e);
+    }
+  }
+}
+
+export const historyStore = new HistoryStore();
@@ -0,0 +1,454 @@
+import { makeAutoObservable, reaction, toJS } from 'mobx';
+import { storyStore } from './StoryStore';
+import { settingsStore } from './SettingsStore';
+import { historyStore } from './HistoryStore';
+import { generationStore, describeBatchFailures, GenerationKind, GenerationTask } from './GenerationStore';
+import { assetStore } from '@/lib/assetStore';
+import { fitShotsForExport } from '@/lib/clipFitting';
+import { projectDB } from '@/lib/projectDB';
+import {
+  buildComposeRequest,
+  generateShotAnimation,
+  generateShotAudio,
+  generateShotImage,
+  getCharacterTasks,
+  getShotTasks,
+  streamStory,
+  submitComposeJob,
+} from '@/lib/generation';
+import type { ComposeVideoResult } from '@/lib/renderService';
+import { cancelJob, JobFailedError, waitForJob } from '@/utils/jobClient';
+
+/**
+ * One-click pipeline: prompt → story → character references → shot images →
+ * animations and narration → composed video
+ * Stages start as soon as the stages they depend on are done (or skipped), so
+ * narration runs alongside images and animations. Media stages queue their
+ * work on the generation scheduler and only ask for what is still missing, so
+ * resuming a run, after a failure or a reload, picks up where it stopped.
+ * The run is kept in localStorage and the story in the project database.
+ */
+
+export type PipelineStageId = 'story' | 'characters' | 'images' | 'animations' | 'narration' | 'export';
+export type PipelineStageStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped' | 'blocked' | 'cancelled';
+export type PipelineStatus = 'running' | 'finished' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface PipelineStageDefinition {
+  id: PipelineStageId;
+  label: string;
+  dependsOn: PipelineStageId[];
+  optional: boolean;                  // Can be skipped when starting a run
+  batchKind?: GenerationKind;         // Scheduler batch that shows its progress
+}
+
+export const PIPELINE_STAGES: PipelineStageDefinition[] = [
+  { id: 'story', label: 'Story', dependsOn: [], optional: false },
+  { id: 'characters', label: 'Character references', dependsOn: ['story'], optional: true, batchKind: 'character' },
+  { id: 'images', label: 'Shot images', dependsOn: ['characters'], optional: false, batchKind: 'image' },
+  { id: 'animations', label: 'Animations', dependsOn: ['images'], optional: true, batchKind: 'animation' },
+  { id: 'narration', label: 'Narration', dependsOn: ['story'], optional: true, batchKind: 'audio' },
+  { id: 'export', label: 'Export video', dependsOn: ['images', 'animations', 'narration'], optional: true },
+];
+
+export interface PipelineStageState {
+  id: PipelineStageId;
+  status: PipelineStageStatus;
+  progress: number;                   // 0-1, for stages without a batch
+  message?: string;
+  error?: string;
+}
+
+export interface PipelineRun {
+  id: string;
+  prompt: string | null;              // Null when the run uses the current story
+  status: PipelineStatus;
+  stages: PipelineStageState[];
+  projectId?: string;                 // Project the story is saved to, for resuming after a reload
+  exportJobId?: string;               // Running 'compose-video' job
+  videoUrl?: string;                  // Asset reference of the finished video
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface PipelineOptions {
+  prompt: string | null;
+  skip: PipelineStageId[];
+  projectId?: string | null;
+}
+
+const PIPELINE_STORAGE_KEY = 'open-story-video-pipeline';
+
+/**
+ * Thrown inside a stage when the run was cancelled
+ */
+class PipelineCancelledError extends Error {
+  constructor() {
+    super('Pipeline cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+function isSettled(status: PipelineStageStatus): boolean {
+  return status === 'done' || status === 'skipped';
+}
+
+function getStageDefinition(id: PipelineStageId): PipelineStageDefinition {
+  return PIPELINE_STAGES.find(stage => stage.id === id)!;
+}
+
+class PipelineStore {
+  run: PipelineRun | null = null;
+  isOpen = false;
+
+  private controller: AbortController | null = null;
+
+  constructor() {
+    makeAutoObservable<PipelineStore, 'controller'>(this, { controller: false });
+    this.loadRun();
+
+    if (typeof window !== 'undefined') {
+      reaction(() => JSON.stringify(toJS(this.run)), json => this.saveRun(json));
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.run?.status === 'running';
+  }
+
+  /**
+   * A run that stopped before finishing, and can pick up where it left off
+   */
+  get canResume(): boolean {
+    const status = this.run?.status;
+    return status === 'failed' || status === 'cancelled' || status === 'interrupted';
+  }
+
+  getStage(id: PipelineStageId): PipelineStageState | undefined {
+    return this.run?.stages.find(stage => stage.id === id);
+  }
+
+  open() {
+    this.isOpen = true;
+  }
+
+  close() {
+    this.isOpen = false;
+  }
+
+  /**
+   * Start a new run; a null prompt runs the pipeline on the current story,
+   * which is saved first so the run always has a project to resume on
+   */
+  async start(options: PipelineOptions): Promise<void> {
+    if (this.isRunning) return;
+
+    this.run = {
+      id: `pipeline-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      prompt: options.prompt?.trim() || null,
+      status: 'running',
+      stages: PIPELINE_STAGES.map(stage => ({
+        id: stage.id,
+        status: stage.optional && options.skip.includes(stage.id) ? 'skipped' : 'pending',
+        progress: 0,
+      })),
+      projectId: options.projectId || undefined,
+      startedAt: Date.now(),
+    };
+
+    if (!this.run.prompt) {
+      this.updateStage('story', { status: 'done', progress: 1, message: 'Using the current story' });
+      await this.saveProject();
+    }
+    return this.execute();
+  }
+
+  /**
+   * Run the stages that did not finish again, on the run's project
+   * Throws when that project can no longer be loaded
+   */
+  async resume(): Promise<void> {
+    if (!this.run || !this.canResume) return;
+
+    // The open story may be another project by now (or, after a reload, none),
+    // so the run's project is always loaded; without it the run can't go on
+    const projectId = this.run.projectId;
+    if (this.getStage('story')?.status === 'done') {
+      const project = projectId ? await projectDB.getProject(projectId) : null;
+      if (!project || project.loadError) {
+        throw new Error('The project this run was saved to could not be loaded, so it cannot be resumed');
+      }
+      historyStore.openProject(project.id, () => {
+        storyStore.setStory(project.data.story);
+        storyStore.setCurrentStep(project.data.currentStep);
+      });
+    }
+
+    this.updateRun({ status: 'running', finishedAt: undefined });
+    this.run.stages.forEach(stage => {
+      if (!isSettled(stage.status)) {
+        this.updateStage(stage.id, { status: 'pending', error: undefined, message: undefined });
+      }
+    });
+    return this.execute();
+  }
+
+  /**
+   * Stop the run: aborts the running stages and cancels their batches and jobs
+   */
+  cancel() {
+    this.controller?.abort();
+  }
+
+  /**
+   * Forget the last run
+   */
+  clear() {
+    if (this.isRunning) return;
+    this.run = null;
+  }
+
+  private updateRun(updates: Partial<PipelineRun>) {
+    if (this.run) {
+      Object.assign(this.run, updates);
+    }
+  }
+
+  private updateStage(id: PipelineStageId, updates: Partial<PipelineStageState>) {
+    const stage = this.getStage(id);
+    if (stage) {
+      Object.assign(stage, updates);
+    }
+  }
+
+  /**
+   * Start every stage whose dependencies are settled until none are left
+   */
+  private async execute(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+    const running = new Map<PipelineStageId, Promise<void>>();
+
+    try {
+      for (;;) {
+        this.run!.stages.forEach(stage => {
+          if (stage.status !== 'pending' || controller.signal.aborted) return;
+
+          const dependencies = getStageDefinition(stage.id).dependsOn.map(id => this.getStage(id)!.status);
+          if (dependencies.some(status => status === 'failed' || status === 'blocked' || status === 'cancelled')) {
+            this.updateStage(stage.id, { status: 'blocked', message: 'Waiting on an earlier stage' });
+          } else if (dependencies.every(isSettled)) {
+            running.set(stage.id, this.runStage(stage.id, controller.signal).finally(() => running.delete(stage.id)));
+          }
+        });
+
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+      }
+    } finally {
+      this.controller = null;
+    }
+
+    const stages = this.run!.stages;
+    const status: PipelineStatus = controller.signal.aborted
+      ? 'cancelled'
+      : stages.every(stage => isSettled(stage.status)) ? 'finished' : 'failed';
+    if (controller.signal.aborted) {
+      stages.forEach(stage => {
+        if (stage.status === 'pending') this.updateStage(stage.id, { status: 'cancelled' });
+      });
+    }
+    this.updateRun({ status, finishedAt: Date.now() });
+  }
+
+  private async runStage(id: PipelineStageId, signal: AbortSignal): Promise<void> {
+    this.updateStage(id, { status: 'running', progress: 0, message: undefined, error: undefined });
+
+    try {
+      switch (id) {
+        case 'story':
+          await this.runStoryStage(signal);
+          break;
+        case 'characters':
+          await this.runBatchStage(id, getCharacterTasks(character =>
+            !character.referenceImageUrl && !!character.prompt && !character.isGenerating
+          ), signal);
+          break;
+        case 'images':
+          await this.runBatchStage(id, getShotTasks(shot => !shot.imageUrl && !shot.isGenerating, generateShotImage), signal);
+          break;
+        case 'animations':
+          storyStore.setCurrentStep('edit');
+          await this.runBatchStage(id, getShotTasks(
+            // Shots with a job from before a reload follow that job
+            shot => !!shot.imageUrl && !shot.animationUrl && (!!shot.animationJobId || !shot.isAnimating),
+            (sceneId, shot, taskSignal) => generateShotAnimation(sceneId, shot, { signal: taskSignal })
+          ), signal);
+          break;
+        case 'narration':
+          await this.runBatchStage(id, getShotTasks(
+            shot => !!shot.subtitle && !shot.audioUrl && !shot.isGeneratingAudio,
+            generateShotAudio
+          ), signal);
+          break;
+        case 'export':
+          await this.runExportStage(signal);
+          break;
+      }
+
+      this.updateStage(id, { status: 'done', progress: 1 });
+      await this.saveProject();
+    } catch (error: any) {
+      if (signal.aborted || error instanceof PipelineCancelledError) {
+        this.updateStage(id, { status: 'cancelled', message: 'Cancelled' });
+      } else {
+        console.error(`Pipeline stage "${id}" failed:`, error);
+        this.updateStage(id, { status: 'failed', error: error.message || 'Stage failed' });
+      }
+    }
+  }
+
+  private async runStoryStage(signal: AbortSignal) {
+    const { textModel, defaultStyle, defaultAspectRatio } = settingsStore.settings;
+
+    await streamStory(
+      {
+        prompt: this.run!.prompt!,
+        style: defaultStyle,
+        aspectRatio: defaultAspectRatio,
+        modelConfig: textModel,
+      },
+      { signal, onStatus: message => this.updateStage('story', { message }) }
+    );
+
+    // The pipeline stands in for the manual review
+    storyStore.setCurrentStep('storyboard');
+  }
+
+  private async runBatchStage(id: PipelineStageId, tasks: GenerationTask[], signal: AbortSignal) {
+    const stage = getStageDefinition(id);
+    if (tasks.length === 0) {
+      this.updateStage(id, { message: 'Nothing left to generate' });
+      return;
+    }
+
+    const result = await generationStore.runBatch(stage.batchKind!, `Pipeline: ${stage.label.toLowerCase()}`, tasks, signal);
+    if (result.status === 'cancelled') {
+      throw new PipelineCancelledError();
+    }
+
+    const failures = describeBatchFailures(result, tasks.length);
+    if (failures) {
+      throw new Error(failures);
+    }
+    this.updateStage(id, { message: `${result.succeeded.length} generated` });
+  }
+
+  private async runExportStage(signal: AbortSignal) {
+    let jobId = this.run!.exportJobId;
+
+    if (!jobId) {
+      const shots = storyStore.getTimelineShots().filter(shot => shot.animationUrl || shot.imageUrl);
+      if (shots.length === 0) {
+        throw new Error('No shots have an image or animation to export');
+      }
+
+      // Fit clips to their narration before rendering
+      const plans = await fitShotsForExport(shots, {
+        signal,
+        onStatus: message => this.updateStage('export', { message }),
+      });
+
+      this.updateStage('export', { message: 'Starting render' });
+      const job = await submitComposeJob(buildComposeRequest(shots, plans));
+      jobId = job.id;
+      this.updateRun({ exportJobId: jobId, videoUrl: undefined });
+    }
+
+    const cancel = () => {
+      cancelJob(jobId!).catch(error => console.warn('Failed to cancel export job:', error));
+    };
+    // Cancelled while the job was being submitted; the abort event has passed
+    if (signal.aborted) {
+      cancel();
+      this.updateRun({ exportJobId: undefined });
+      throw new PipelineCancelledError();
+    }
+    signal.addEventListener('abort', cancel);
+    try {
+      const result = await waitForJob<ComposeVideoResult>(jobId, {
+        onUpdate: job => this.updateStage('export', { progress: job.progress, message: job.message }),
+      });
+
+      assetStore.keepLocalCopy(result.videoUrl);
+      this.updateRun({ videoUrl: result.videoUrl });
+      this.updateStage('export', { message: `${(result.size / 1024 / 1024).toFixed(1)} MB` });
+    } catch (error) {
+      if (error instanceof JobFailedError && error.job.status === 'cancelled') {
+        throw new PipelineCancelledError();
+      }
+      throw error;
+    } finally {
+      signal.removeEventListener('abort', cancel);
+      this.updateRun({ exportJobId: undefined });
+    }
+  }
+
+  /**
+   * Checkpoint the story after each stage, so a reload can resume the run
+   */
+  private async saveProject() {
+    if (!storyStore.story.title) return;
+
+    try {
+      const projectId = await projectDB.saveProject(
+        storyStore.story,
+        storyStore.currentStep,
+        settingsStore.settings,
+        this.run?.projectId
+      );
+      this.updateRun({ projectId });
+      historyStore.attachProject(projectId);
+    } catch (error) {
+      console.warn('Failed to save pipeline project:', error);
+    }
+  }
+
+  private saveRun(json: string) {
+    try {
+      if (this.run) {
+        localStorage.setItem(PIPELINE_STORAGE_KEY, json);
+      } else {
+        localStorage.removeItem(PIPELINE_STORAGE_KEY);
+      }
+    } catch (e) {
+      console.error('Failed to save pipeline run:', e);
+    }
+  }
+
+  private loadRun() {
+    if (typeof window === 'undefined') return;
+
+    const saved = localStorage.getItem(PIPELINE_STORAGE_KEY);
+    if (!saved) return;
+
+    try {
+      const run: PipelineRun = JSON.parse(saved);
+
+      // The page was closed mid-run; resuming starts the unfinished stages again
+      if (run.status === 'running') {
+        run.status = 'interrupted';
+        run.stages.forEach(stage => {
+          if (stage.status === 'running') {
+            stage.status = 'pending';
+            stage.message = undefined;
+          }
+        });
+      }
+      this.run = run;
+    } catch (e) {
+      console.error('Failed to load pipeline run:', e);
+    }
+  }
+}
+
+export const pipelineStore = new PipelineStore();
@@ -1,11 +1,13 @@
 import { makeAutoObservable } from 'mobx';
+import type { MultiCharacterStrategy } from '@/lib/characterImage';
 
-export type ModelProvider = 'openrouter' | 'replicate' | 'openai' | 'elevenlabs';
+export type ModelProvider = 'openrouter' | 'replicate' | 'openai' | 'elevenlabs' | 'mock';
 
 export interface ModelConfig {
   provider: ModelProvider;
   modelId: string;
   apiKey: string;
+  baseUrl?: string;      // OpenAI-compatible servers (OpenAI, llama.cpp, Ollama...)
   temperature?: number;
   maxTokens?: number;
 }
@@ -33,6 +35,8 @@ export interface SubtitleSettings {
 export interface ExportSettings {
   quality: 'low' | 'medium' | 'high' | 'ultra';
   resolution?: '480p' | '720p' | '1080p' | 'original';
+  frameRate?: number;                  // Every clip is converted to it; default 24
+  framing?: 'letterbox' | 'crop';      // How clips of another shape fill the story's aspect ratio
   includeSubtitles: boolean;
 }
 
@@ -50,9 +54,11 @@ export interface Settings {
   // Image Generation Models
   imageModel: ModelConfig;
   characterImageModel: ModelConfig;
+  multiCharacterStrategy: MultiCharacterStrategy;  // Shots with several referenced characters
 
   // Video Generation Models
   videoModel: ModelConfig;
+  refineMotionPrompts: boolean;  // Let the text model rewrite each shot's motion prompt
 
   // Voice/Audio Generation
   voiceModel: VoiceConfig;
@@ -90,11 +96,13 @@ const DEFAULT_SETTINGS: Settings = {
     modelId: 'tencent/hunyuan-image-3',
     apiKey: '',
   },
+  multiCharacterStrategy: 'multi-reference',
   videoModel: {
     provider: 'replicate',
     modelId: 'bytedance/seedance-1-lite',
     apiKey: '',
   },
+  refineMotionPrompts: false,
   voiceModel: {
     provider: 'openai',
     apiKey: '',
@@ -117,6 +125,8 @@ const DEFAULT_SETTINGS: Settings = {
   exportSettings: {
     quality: 'high',
     resolution: 'original',
+    frameRate: 24,
+    framing: 'letterbox',
     includeSubtitles: true,
   },
   advancedSettings: {
@@ -180,12 +190,24 @@ class SettingsStore {
     this.saveSettings();
   }
 
+  // Update how shots with several characters are generated
+  updateMultiCharacterStrategy(strategy: MultiCharacterStrategy) {
+    this.settings.multiCharacterStrategy = strategy;
+    this.saveSettings();
+  }
+
   // Update video model config
   updateVideoModel(updates: Partial<ModelConfig>) {
     this.settings.videoModel = { ...this.settings.videoModel, ...updates };
     this.saveSettings();
   }
 
+  // Update whether motion prompts are rewritten by the text model
+  updateRefineMotionPrompts(enabled: boolean) {
+    this.settings.refineMotionPrompts = enabled;
+    this.saveSettings();
+  }
+
   // Update voice model config
   updateVoiceModel(updates: Partial<VoiceConfig>) {
     this.settings.voiceModel = { ...this.settings.voiceModel, ...updates };
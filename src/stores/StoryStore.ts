@@ -1,13 +1,100 @@
 import { makeAutoObservable } from 'mobx';
+import { applyStoryPatch, reorderById, StoryPatch } from '@/utils/storyPatch';
+import { getTakes, TAKE_URL_FIELDS } from '@/utils/shotTakes';
+import {
+  getCastExtras,
+  getShotCast,
+  renameMentions,
+  replaceUnknownMention,
+  resolveShotCast,
+} from '@/utils/mentions';
+import { hasCharacterReference } from '@/utils/characterReferences';
+import { getTimelineEntries, moveTimelineClip, updateTimelineClip } from '@/utils/timeline';
+import type { SegmentTransition } from '@/lib/renderService';
+
+export type CharacterView = 'front' | 'side' | 'back' | 'closeup' | 'happy' | 'sad' | 'angry' | 'surprised';
+
+export interface CharacterReferenceImage {
+  id: string;
+  view: CharacterView;
+  wardrobeId?: string;         // Unset for the character's default outfit
+  url: string;
+  source: 'generated' | 'uploaded';
+  createdAt: number;
+}
+
+export interface Wardrobe {
+  id: string;
+  name: string;
+  description: string;         // Outfit, used in prompts
+}
 
 export interface Character {
   name: string;
   description: string;
   prompt?: string;
   referenceImageUrl?: string;  // Character reference image for consistency
+  references?: CharacterReferenceImage[]; // Named views, at most one per view and wardrobe
+  wardrobes?: Wardrobe[];
   isGenerating?: boolean;       // Character image generation status
 }
 
+// Which reference of a character a shot uses; unset fields are chosen automatically
+export interface CharacterLook {
+  view?: CharacterView;
+  wardrobeId?: string;
+}
+
+export type TimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
+
+export interface LocationPlate {
+  id: string;
+  url: string;
+  timeOfDay: TimeOfDay;
+  source: 'generated' | 'uploaded';
+  createdAt: number;
+}
+
+export interface Location {
+  id: string;
+  name: string;
+  description: string;
+  plates: LocationPlate[];     // Reference images, at most one per time of day
+}
+
+export type ShotSize = 'extreme-wide' | 'wide' | 'full' | 'medium' | 'medium-close-up' | 'close-up' | 'extreme-close-up';
+export type CameraAngle = 'eye-level' | 'high' | 'low' | 'overhead' | 'dutch' | 'over-the-shoulder' | 'pov';
+export type CameraMovement =
+  | 'static' | 'pan-left' | 'pan-right' | 'tilt-up' | 'tilt-down' | 'dolly-in' | 'dolly-out'
+  | 'tracking' | 'crane-up' | 'crane-down' | 'orbit' | 'handheld' | 'zoom-in' | 'zoom-out';
+export type LensType = 'ultra-wide' | 'wide' | 'normal' | 'telephoto' | 'macro';
+
+// Camera direction of a shot; unset fields are left to the model
+export interface ShotCamera {
+  size?: ShotSize;
+  angle?: CameraAngle;
+  movement?: CameraMovement;
+  lens?: LensType;
+  mood?: string;               // Free text, e.g. "tense, cold blue light"
+}
+
+// How a shot's clip is matched to its narration at export; see utils/clipFit
+export type ClipFitMode = 'auto' | 'trim' | 'hold' | 'loop' | 'slow' | 'regenerate';
+
+export type TakeKind = 'image' | 'animation' | 'audio';
+
+export interface ShotTake {
+  id: string;
+  kind: TakeKind;
+  url: string;
+  model?: string;
+  prompt?: string;
+  seed?: number;
+  source?: 'generated' | 'uploaded';   // Missing means generated
+  fileName?: string;           // Original name of an uploaded file
+  createdAt: number;           // 0 for media generated before takes were tracked
+}
+
 export interface Shot {
   id: string;
   subtitle: string;
@@ -16,9 +103,20 @@ export interface Shot {
   imageUrl?: string;
   isGenerating?: boolean;
   isAnimating?: boolean;
+  animationJobId?: string;     // Background job generating the animation (see lib/jobs)
   animationUrl?: string;
   audioUrl?: string;
   isGeneratingAudio?: boolean;
+  takes?: ShotTake[];          // Every generated image/animation/audio version
+  cast?: string[];             // Characters in the shot: @mentioned in content first, then ones added by hand
+  characterLooks?: Record<string, CharacterLook>; // By character name
+  locationId?: string;         // Location from the story's library; `location` stays as free-text detail
+  timeOfDay?: TimeOfDay;
+  camera?: ShotCamera;
+  duration?: number;           // Target length in seconds; see utils/shotDuration
+  clipFit?: ClipFitMode;       // Missing means 'auto'
+  motionPrompt?: string;       // Prompt the shot was last animated with, or the user's own
+  motionPromptEdited?: boolean; // The user wrote or approved motionPrompt; animate with it as is
 }
 
 export interface Scene {
@@ -28,11 +126,31 @@ export interface Scene {
   shots: Shot[];
 }
 
+/**
+ * One entry of the timeline; times are seconds into the shot's clip
+ */
+export interface TimelineClip {
+  shotId: string;
+  inPoint?: number;            // Missing means the start of the clip
+  outPoint?: number;           // Missing means the end of the clip
+  audioOffset?: number;        // Narration starts this much after the clip; negative cuts its start
+  transition?: SegmentTransition; // Into this clip from the one before; missing means a cut
+}
+
+/**
+ * Edit decision list: export order and trims, across scenes; see utils/timeline
+ */
+export interface Timeline {
+  clips: TimelineClip[];
+}
+
 export interface StoryData {
   title: string;
   synopsis: string;
   characters: Character[];
+  locations?: Location[];
   scenes: Scene[];
+  timeline?: Timeline;         // Missing means story order, untrimmed
   style?: string;
   aspectRatio?: string;
 }
@@ -42,6 +160,7 @@ class StoryStore {
     title: '',
     synopsis: '',
     characters: [],
+    locations: [],
     scenes: [],
     style: '3D Cartoon',
     aspectRatio: '16:9',
@@ -55,6 +174,16 @@ class StoryStore {
 
   setStory(story: Partial<StoryData>) {
     this.story = { ...this.story, ...story };
+    // A whole story brings its own location library and timeline
+    if (story.scenes && !story.locations) {
+      this.story.locations = [];
+    }
+    if (story.scenes && !story.timeline) {
+      this.story.timeline = undefined;
+    }
+    if (story.scenes || story.characters) {
+      this.syncCasts(() => {});
+    }
   }
 
   setCurrentStep(step: 'input' | 'review' | 'storyboard' | 'edit') {
@@ -62,17 +191,163 @@ class StoryStore {
   }
 
   addCharacter(character: Character) {
-    this.story.characters.push(character);
+    this.syncCasts(() => {
+      this.story.characters.push(character);
+    });
   }
 
   removeCharacter(index: number) {
-    this.story.characters.splice(index, 1);
+    this.syncCasts(() => {
+      this.story.characters.splice(index, 1);
+    });
+  }
+
+  // Rename a character and rewrite its @mentions across all scenes
+  renameCharacter(index: number, name: string) {
+    const character = this.story.characters[index];
+    const newName = name.trim();
+    if (!character || !newName || newName === character.name) return;
+
+    const { characters } = this.story;
+    this.syncCasts(() => {
+      this.story.scenes.forEach((scene) => {
+        scene.description = renameMentions(scene.description, character, newName, characters);
+        scene.shots.forEach((shot) => {
+          shot.subtitle = renameMentions(shot.subtitle, character, newName, characters);
+          shot.content = renameMentions(shot.content, character, newName, characters);
+          if (shot.characterLooks?.[character.name]) {
+            const { [character.name]: look, ...others } = shot.characterLooks;
+            shot.characterLooks = { ...others, [newName]: look };
+          }
+        });
+      });
+      character.name = newName;
+    });
+  }
+
+  // Add a named reference, replacing the one for the same view and wardrobe
+  setCharacterReference(index: number, reference: CharacterReferenceImage) {
+    const character = this.story.characters[index];
+    if (!character) return;
+
+    const others = (character.references || []).filter(
+      (r) => r.view !== reference.view || r.wardrobeId !== reference.wardrobeId
+    );
+    character.references = [...others, reference];
+  }
+
+  removeCharacterReference(index: number, referenceId: string) {
+    const character = this.story.characters[index];
+    if (character?.references) {
+      character.references = character.references.filter((r) => r.id !== referenceId);
+    }
+  }
+
+  addWardrobe(index: number, wardrobe: Wardrobe) {
+    const character = this.story.characters[index];
+    if (character) {
+      character.wardrobes = [...(character.wardrobes || []), wardrobe];
+    }
+  }
+
+  // Wardrobes are replaced, not edited in place: history snapshots share them
+  updateWardrobe(index: number, wardrobeId: string, updates: Partial<Omit<Wardrobe, 'id'>>) {
+    const character = this.story.characters[index];
+    if (character?.wardrobes?.some((w) => w.id === wardrobeId)) {
+      character.wardrobes = character.wardrobes.map((w) => (w.id === wardrobeId ? { ...w, ...updates } : w));
+    }
+  }
+
+  // Delete a wardrobe with its references; shots wearing it go back to the default outfit
+  removeWardrobe(index: number, wardrobeId: string) {
+    const character = this.story.characters[index];
+    if (!character) return;
+
+    character.wardrobes = (character.wardrobes || []).filter((w) => w.id !== wardrobeId);
+    character.references = (character.references || []).filter((r) => r.wardrobeId !== wardrobeId);
+    this.getAllShots().forEach((shot) => {
+      const look = shot.characterLooks?.[character.name];
+      if (look?.wardrobeId === wardrobeId) {
+        this.setLook(shot, character.name, { ...look, wardrobeId: undefined });
+      }
+    });
+  }
+
+  setShotCharacterLook(sceneId: string, shotId: string, name: string, look: CharacterLook) {
+    const shot = this.findShot(sceneId, shotId);
+    if (shot) {
+      this.setLook(shot, name, look);
+    }
+  }
+
+  // Point every @mention of an undefined name at a character instead
+  replaceMention(name: string, characterName: string) {
+    this.syncCasts(() => {
+      this.getAllShots().forEach((shot) => {
+        shot.content = replaceUnknownMention(shot.content, name, characterName, this.story.characters);
+      });
+    });
+  }
+
+  addLocation(location: Location) {
+    this.story.locations = [...(this.story.locations || []), location];
+  }
+
+  // Locations are replaced, not edited in place: history snapshots share them
+  updateLocation(locationId: string, updates: Partial<Omit<Location, 'id' | 'plates'>>) {
+    this.replaceLocation(locationId, (location) => ({ ...location, ...updates }));
+  }
+
+  // Delete a location and unlink the shots that used it
+  removeLocation(locationId: string) {
+    this.story.locations = (this.story.locations || []).filter((l) => l.id !== locationId);
+    this.getAllShots().forEach((shot) => {
+      if (shot.locationId === locationId) {
+        shot.locationId = undefined;
+      }
+    });
+  }
+
+  // Add a reference plate, replacing the location's plate for the same time of day
+  setLocationPlate(locationId: string, plate: LocationPlate) {
+    this.replaceLocation(locationId, (location) => ({
+      ...location,
+      plates: [...location.plates.filter((p) => p.timeOfDay !== plate.timeOfDay), plate],
+    }));
+  }
+
+  removeLocationPlate(locationId: string, plateId: string) {
+    this.replaceLocation(locationId, (location) => ({
+      ...location,
+      plates: location.plates.filter((p) => p.id !== plateId),
+    }));
+  }
+
+  private replaceLocation(locationId: string, update: (location: Location) => Location) {
+    if (!this.findLocation(locationId)) return;
+    this.story.locations = this.story.locations!.map((l) => (l.id === locationId ? update(l) : l));
+  }
+
+  findLocation(locationId: string | undefined): Location | undefined {
+    return locationId ? this.story.locations?.find((l) => l.id === locationId) : undefined;
   }
 
   addScene(scene: Scene) {
     this.story.scenes.push(scene);
   }
 
+  insertScene(scene: Scene, index: number) {
+    this.story.scenes.splice(index, 0, scene);
+  }
+
+  removeScene(sceneId: string) {
+    this.story.scenes = this.story.scenes.filter((s) => s.id !== sceneId);
+  }
+
+  reorderScenes(sceneIds: string[]) {
+    this.story.scenes = reorderById(this.story.scenes, sceneIds);
+  }
+
   updateScene(sceneId: string, updates: Partial<Scene>) {
     const scene = this.story.scenes.find((s) => s.id === sceneId);
     if (scene) {
@@ -80,12 +355,65 @@ class StoryStore {
     }
   }
 
+  addShot(sceneId: string, shot: Shot) {
+    const scene = this.story.scenes.find((s) => s.id === sceneId);
+    if (scene) {
+      scene.shots.push(this.withCast(shot));
+    }
+  }
+
+  insertShot(sceneId: string, shot: Shot, index: number) {
+    const scene = this.story.scenes.find((s) => s.id === sceneId);
+    if (scene) {
+      scene.shots.splice(index, 0, this.withCast(shot));
+    }
+  }
+
+  removeShot(sceneId: string, shotId: string) {
+    const scene = this.story.scenes.find((s) => s.id === sceneId);
+    if (scene) {
+      scene.shots = scene.shots.filter((s) => s.id !== shotId);
+    }
+  }
+
+  reorderShots(sceneId: string, shotIds: string[]) {
+    const scene = this.story.scenes.find((s) => s.id === sceneId);
+    if (scene) {
+      scene.shots = reorderById(scene.shots, shotIds);
+    }
+  }
+
+  // Move a shot on the timeline; scenes keep their own order
+  moveTimelineClip(shotId: string, index: number) {
+    this.story.timeline = moveTimelineClip(this.story, shotId, index);
+  }
+
+  // Trim a shot's clip or move its narration on the timeline
+  updateTimelineClip(shotId: string, updates: Partial<Omit<TimelineClip, 'shotId'>>) {
+    this.story.timeline = updateTimelineClip(this.story, shotId, updates);
+  }
+
+  // Back to story order without trims
+  resetTimeline() {
+    this.story.timeline = undefined;
+  }
+
+  // Apply a refine-story patch in one action
+  applyPatch(patch: StoryPatch) {
+    applyStoryPatch(this, patch);
+  }
+
   updateShot(sceneId: string, shotId: string, updates: Partial<Shot>) {
     const scene = this.story.scenes.find((s) => s.id === sceneId);
     if (scene) {
       const shot = scene.shots.find((s) => s.id === shotId);
-      if (shot) {
-        Object.assign(shot, updates);
+      if (!shot) return;
+
+      // Keep the cast in step with @mentions; characters added by hand stay
+      const extras = updates.cast ? undefined : getCastExtras(shot, this.story.characters);
+      Object.assign(shot, updates);
+      if (updates.content !== undefined || updates.cast) {
+        shot.cast = resolveShotCast(shot.content, this.story.characters, extras ?? getCastExtras(shot, this.story.characters));
       }
     }
   }
@@ -98,17 +426,115 @@ class StoryStore {
     this.updateShot(sceneId, shotId, { isAnimating });
   }
 
+  // Track the background job of a running animation; cleared when it finishes
+  setAnimationJob(sceneId: string, shotId: string, animationJobId: string | undefined) {
+    this.updateShot(sceneId, shotId, { animationJobId });
+  }
+
   setGeneratingAudioShot(sceneId: string, shotId: string, isGeneratingAudio: boolean) {
     this.updateShot(sceneId, shotId, { isGeneratingAudio });
   }
 
+  // Store a new generation result and make it the active take
+  addTake(sceneId: string, shotId: string, take: ShotTake) {
+    const shot = this.findShot(sceneId, shotId);
+    if (!shot) return;
+
+    // Keep media from before takes were tracked as a take of its own
+    const existing = shot.takes || [];
+    const untracked = getTakes(shot, take.kind).filter((t) => !existing.includes(t));
+    shot.takes = [...existing, ...untracked, take];
+    shot[TAKE_URL_FIELDS[take.kind]] = take.url;
+
+    // Show the prompt the model actually got, so it can be edited for the next take
+    if (take.kind === 'animation' && take.prompt) {
+      shot.motionPrompt = take.prompt;
+    }
+  }
+
+  // Make an existing take the active one
+  pinTake(sceneId: string, shotId: string, takeId: string) {
+    const shot = this.findShot(sceneId, shotId);
+    const take = shot?.takes?.find((t) => t.id === takeId);
+    if (shot && take && take.url) {
+      shot[TAKE_URL_FIELDS[take.kind]] = take.url;
+    }
+  }
+
+  // Delete a take; deleting the active take falls back to the newest remaining one.
+  // Media from before takes were tracked is listed by getTakes but only lives in
+  // the URL field, so deleting it clears that field
+  deleteTake(sceneId: string, shotId: string, takeId: string) {
+    const shot = this.findShot(sceneId, shotId);
+    if (!shot) return;
+    const take = (Object.keys(TAKE_URL_FIELDS) as TakeKind[])
+      .flatMap((kind) => getTakes(shot, kind))
+      .find((t) => t.id === takeId);
+    if (!take) return;
+
+    const remaining = (shot.takes || []).filter((t) => t.id !== takeId);
+    if (shot.takes) {
+      shot.takes = remaining;
+    }
+
+    const field = TAKE_URL_FIELDS[take.kind];
+    if (shot[field] === take.url) {
+      const others = remaining.filter((t) => t.kind === take.kind && t.url);
+      shot[field] = others.length > 0 ? others[others.length - 1].url : undefined;
+    }
+  }
+
+  private setLook(shot: Shot, name: string, look: CharacterLook) {
+    const { [name]: _previous, ...others } = shot.characterLooks || {};
+    shot.characterLooks = look.view || look.wardrobeId ? { ...others, [name]: look } : others;
+  }
+
+  private withCast(shot: Shot): Shot {
+    return { ...shot, cast: resolveShotCast(shot.content, this.story.characters, getCastExtras(shot, this.story.characters)) };
+  }
+
+  /**
+   * Run a change that may touch characters or shot content, then re-resolve
+   * every shot's cast; characters added by hand are remembered from before
+   */
+  private syncCasts(change: () => void) {
+    const extras = new Map(
+      this.getAllShots().map((shot) => [shot.id, getCastExtras(shot, this.story.characters)])
+    );
+    change();
+    this.getAllShots().forEach((shot) => {
+      shot.cast = resolveShotCast(
+        shot.content,
+        this.story.characters,
+        extras.get(shot.id) ?? getCastExtras(shot, this.story.characters)
+      );
+    });
+  }
+
+  private findShot(sceneId: string, shotId: string): Shot | undefined {
+    return this.story.scenes
+      .find((s) => s.id === sceneId)
+      ?.shots.find((s) => s.id === shotId);
+  }
+
   getAllShots(): Shot[] {
     return this.story.scenes.flatMap((scene) => scene.shots);
   }
 
+  // Every shot in export order (see utils/timeline)
+  getTimelineShots(): Shot[] {
+    return getTimelineEntries(this.story).map((entry) => entry.shot);
+  }
+
+  // Renaming here leaves @mentions alone; see renameCharacter
   updateCharacter(index: number, updates: Partial<Character>) {
-    if (this.story.characters[index]) {
-      Object.assign(this.story.characters[index], updates);
+    const character = this.story.characters[index];
+    if (!character) return;
+
+    if (updates.name !== undefined && updates.name !== character.name) {
+      this.syncCasts(() => Object.assign(character, updates));
+    } else {
+      Object.assign(character, updates);
     }
   }
 
@@ -116,6 +542,19 @@ class StoryStore {
     this.updateCharacter(index, { isGenerating });
   }
 
+  /**
+   * Reference images of the characters in one shot (see getShotCast)
+   */
+  getShotCharacterReferences(shot: Shot): Record<string, Character> {
+    const refs: Record<string, Character> = {};
+    getShotCast(shot, this.story.characters).forEach(char => {
+      if (hasCharacterReference(char)) {
+        refs[char.name] = char;
+      }
+    });
+    return refs;
+  }
+
   getCharacterReferences(): Record<string, Character> {
     const refs: Record<string, Character> = {};
     this.story.characters.forEach(char => {
@@ -131,6 +570,7 @@ class StoryStore {
       title: '',
       synopsis: '',
       characters: [],
+      locations: [],
       scenes: [],
       style: '3D Cartoon',
       aspectRatio: '16:9',
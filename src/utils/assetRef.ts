@@ -0,0 +1,57 @@
+/**
+ * Asset references
+ * Generated media is stored by the SHA-256 of its content; stories keep an
+ * `asset:<hash>` reference in the URL fields, resolved to a playable URL
+ * only when rendering or exporting
+ */
+
+export const ASSET_REF_PREFIX = 'asset:';
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export function isAssetHash(value: string): boolean {
+  return HASH_PATTERN.test(value);
+}
+
+export function isAssetRef(url: string | null | undefined): boolean {
+  return !!url && url.startsWith(ASSET_REF_PREFIX) && isAssetHash(url.slice(ASSET_REF_PREFIX.length));
+}
+
+export function toAssetRef(hash: string): string {
+  return `${ASSET_REF_PREFIX}${hash}`;
+}
+
+export function getAssetHash(ref: string): string {
+  return ref.slice(ASSET_REF_PREFIX.length);
+}
+
+/**
+ * Path of the server route that serves an asset
+ */
+export function getAssetPath(hash: string): string {
+  return `/api/assets/${hash}`;
+}
+
+/**
+ * Best guess at a MIME type for a downloaded file
+ */
+export function guessMimeType(url: string, contentType?: string | null): string {
+  if (contentType && contentType !== 'application/octet-stream') {
+    return contentType.split(';')[0].trim();
+  }
+
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'png': return 'image/png';
+    case 'jpg':
+    case 'jpeg': return 'image/jpeg';
+    case 'webp': return 'image/webp';
+    case 'gif': return 'image/gif';
+    case 'mp4': return 'video/mp4';
+    case 'webm': return 'video/webm';
+    case 'mov': return 'video/quicktime';
+    case 'mp3': return 'audio/mpeg';
+    case 'wav': return 'audio/wav';
+    default: return 'application/octet-stream';
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Camera direction
+ * Shot size, angle, movement, lens and mood are kept as structured fields on
+ * a shot instead of being buried in its content. Image prompts describe the
+ * framing; video prompts describe how the camera moves.
+ */
+
+import { CameraAngle, CameraMovement, LensType, ShotCamera, ShotSize } from '@/stores/StoryStore';
+
+export const SHOT_SIZES: ShotSize[] = ['extreme-wide', 'wide', 'full', 'medium', 'medium-close-up', 'close-up', 'extreme-close-up'];
+export const CAMERA_ANGLES: CameraAngle[] = ['eye-level', 'high', 'low', 'overhead', 'dutch', 'over-the-shoulder', 'pov'];
+export const CAMERA_MOVEMENTS: CameraMovement[] = [
+  'static', 'pan-left', 'pan-right', 'tilt-up', 'tilt-down', 'dolly-in', 'dolly-out',
+  'tracking', 'crane-up', 'crane-down', 'orbit', 'handheld', 'zoom-in', 'zoom-out',
+];
+export const LENS_TYPES: LensType[] = ['ultra-wide', 'wide', 'normal', 'telephoto', 'macro'];
+
+export const SHOT_SIZE_LABELS: Record<ShotSize, string> = {
+  'extreme-wide': 'Extreme wide',
+  wide: 'Wide',
+  full: 'Full',
+  medium: 'Medium',
+  'medium-close-up': 'Medium close-up',
+  'close-up': 'Close-up',
+  'extreme-close-up': 'Extreme close-up',
+};
+
+export const CAMERA_ANGLE_LABELS: Record<CameraAngle, string> = {
+  'eye-level': 'Eye level',
+  high: 'High angle',
+  low: 'Low angle',
+  overhead: 'Overhead',
+  dutch: 'Dutch angle',
+  'over-the-shoulder': 'Over the shoulder',
+  pov: 'Point of view',
+};
+
+export const CAMERA_MOVEMENT_LABELS: Record<CameraMovement, string> = {
+  static: 'Static',
+  'pan-left': 'Pan left',
+  'pan-right': 'Pan right',
+  'tilt-up': 'Tilt up',
+  'tilt-down': 'Tilt down',
+  'dolly-in': 'Dolly in',
+  'dolly-out': 'Dolly out',
+  tracking: 'Tracking',
+  'crane-up': 'Crane up',
+  'crane-down': 'Crane down',
+  orbit: 'Orbit',
+  handheld: 'Handheld',
+  'zoom-in': 'Zoom in',
+  'zoom-out': 'Zoom out',
+};
+
+export const LENS_TYPE_LABELS: Record<LensType, string> = {
+  'ultra-wide': 'Ultra wide (14mm)',
+  wide: 'Wide (24mm)',
+  normal: 'Normal (50mm)',
+  telephoto: 'Telephoto (85mm+)',
+  macro: 'Macro',
+};
+
+// How each value is phrased in image prompts
+const SHOT_SIZE_PROMPTS: Record<ShotSize, string> = {
+  'extreme-wide': 'extreme wide shot',
+  wide: 'wide shot',
+  full: 'full shot, head to toe',
+  medium: 'medium shot, waist up',
+  'medium-close-up': 'medium close-up, chest up',
+  'close-up': 'close-up shot',
+  'extreme-close-up': 'extreme close-up',
+};
+
+const CAMERA_ANGLE_PROMPTS: Record<CameraAngle, string> = {
+  'eye-level': 'eye-level angle',
+  high: 'high angle looking down',
+  low: 'low angle looking up',
+  overhead: "overhead bird's-eye view",
+  dutch: 'dutch angle, tilted horizon',
+  'over-the-shoulder': 'over-the-shoulder shot',
+  pov: 'point-of-view shot',
+};
+
+const LENS_TYPE_PROMPTS: Record<LensType, string> = {
+  'ultra-wide': 'ultra-wide 14mm lens',
+  wide: 'wide 24mm lens',
+  normal: '50mm lens',
+  telephoto: 'telephoto 85mm lens, shallow depth of field',
+  macro: 'macro lens, extreme detail',
+};
+
+// How each movement is asked for in video prompts
+const CAMERA_MOVEMENT_PROMPTS: Record<CameraMovement, string> = {
+  static: 'static camera, locked off, no camera movement',
+  'pan-left': 'the camera pans slowly to the left',
+  'pan-right': 'the camera pans slowly to the right',
+  'tilt-up': 'the camera tilts slowly upward',
+  'tilt-down': 'the camera tilts slowly downward',
+  'dolly-in': 'slow dolly in toward the subject',
+  'dolly-out': 'slow dolly out, revealing the surroundings',
+  tracking: 'tracking shot, the camera follows the subject',
+  'crane-up': 'crane shot rising upward',
+  'crane-down': 'crane shot descending',
+  orbit: 'the camera orbits slowly around the subject',
+  handheld: 'handheld camera with slight natural shake',
+  'zoom-in': 'slow zoom in',
+  'zoom-out': 'slow zoom out',
+};
+
+// Other ways models and people write the same values
+const ALIASES: Record<string, string> = {
+  'establishing': 'extreme-wide',
+  'long': 'wide',
+  'full-body': 'full',
+  'mid': 'medium',
+  'medium-closeup': 'medium-close-up',
+  'closeup': 'close-up',
+  'extreme-closeup': 'extreme-close-up',
+  'eye': 'eye-level',
+  'high-angle': 'high',
+  'low-angle': 'low',
+  'birds-eye': 'overhead',
+  'top-down': 'overhead',
+  'dutch-angle': 'dutch',
+  'point-of-view': 'pov',
+  'push-in': 'dolly-in',
+  'pull-out': 'dolly-out',
+  'pull-back': 'dolly-out',
+  'track': 'tracking',
+  'follow': 'tracking',
+  'arc': 'orbit',
+  'still': 'static',
+  'locked-off': 'static',
+  'standard': 'normal',
+};
+
+// Words models add around a value, e.g. "close-up shot", "low angle"
+const FILLER_WORDS = /\b(shot|camera|angle|lens|view|move|movement)\b/g;
+
+function slug(text: string): string {
+  return text.trim().toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function normalizeOption<T extends string>(value: unknown, options: T[]): T | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const match = (key: string) => {
+    const aliased = ALIASES[key] ?? key;
+    return options.includes(aliased as T) ? aliased as T : undefined;
+  };
+  return match(slug(value)) ?? match(slug(value.toLowerCase().replace(FILLER_WORDS, ' ')));
+}
+
+export function isShotSize(value: unknown): value is ShotSize {
+  return SHOT_SIZES.includes(value as ShotSize);
+}
+
+export function isCameraAngle(value: unknown): value is CameraAngle {
+  return CAMERA_ANGLES.includes(value as CameraAngle);
+}
+
+export function isCameraMovement(value: unknown): value is CameraMovement {
+  return CAMERA_MOVEMENTS.includes(value as CameraMovement);
+}
+
+export function isLensType(value: unknown): value is LensType {
+  return LENS_TYPES.includes(value as LensType);
+}
+
+/**
+ * Read camera direction from model output or imported data
+ * Values are matched leniently ("Close Up", "push in", "low angle");
+ * unknown ones are dropped. Undefined when nothing is left.
+ */
+export function parseShotCamera(value: unknown): ShotCamera | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const raw = value as Record<string, unknown>;
+
+  const size = normalizeOption(raw.size ?? raw.shotSize, SHOT_SIZES);
+  const angle = normalizeOption(raw.angle, CAMERA_ANGLES);
+  const movement = normalizeOption(raw.movement, CAMERA_MOVEMENTS);
+  const lens = normalizeOption(raw.lens, LENS_TYPES);
+  const mood = typeof raw.mood === 'string' ? raw.mood.trim() : '';
+
+  return compactCamera({ size, angle, movement, lens, mood });
+}
+
+/**
+ * Drop empty fields; undefined when no field is set
+ */
+export function compactCamera(camera: ShotCamera): ShotCamera | undefined {
+  const result: ShotCamera = {
+    ...(camera.size ? { size: camera.size } : {}),
+    ...(camera.angle ? { angle: camera.angle } : {}),
+    ...(camera.movement ? { movement: camera.movement } : {}),
+    ...(camera.lens ? { lens: camera.lens } : {}),
+    ...(camera.mood?.trim() ? { mood: camera.mood } : {}),
+  };
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Framing for image prompts, e.g. "close-up shot, low angle looking up,
+ * 50mm lens, tense mood"; empty when nothing is set
+ */
+export function describeFraming(camera: ShotCamera | undefined): string {
+  if (!camera) return '';
+  return [
+    camera.size && SHOT_SIZE_PROMPTS[camera.size],
+    camera.angle && CAMERA_ANGLE_PROMPTS[camera.angle],
+    camera.lens && LENS_TYPE_PROMPTS[camera.lens],
+    camera.mood?.trim() && `${camera.mood.trim()} mood`,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Camera motion for video prompts; empty when nothing is set
+ * Framing is included so the model keeps the composition of the image
+ */
+export function describeCameraMotion(camera: ShotCamera | undefined): string {
+  if (!camera) return '';
+  return [
+    camera.movement && CAMERA_MOVEMENT_PROMPTS[camera.movement],
+    camera.size && SHOT_SIZE_PROMPTS[camera.size],
+    camera.mood?.trim() && `${camera.mood.trim()} mood`,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Short label for display, e.g. "Close-up · Low angle · Dolly in"
+ */
+export function summarizeCamera(camera: ShotCamera | undefined): string {
+  if (!camera) return '';
+  return [
+    camera.size && SHOT_SIZE_LABELS[camera.size],
+    camera.angle && CAMERA_ANGLE_LABELS[camera.angle],
+    camera.movement && CAMERA_MOVEMENT_LABELS[camera.movement],
+    camera.lens && LENS_TYPE_LABELS[camera.lens],
+    camera.mood?.trim(),
+  ].filter(Boolean).join(' · ');
+}
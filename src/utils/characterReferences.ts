@@ -0,0 +1,101 @@
+/**
+ * Named character references
+ * Besides its main character sheet (`referenceImageUrl`), a character can have
+ * one reference per view (angles and key expressions) and per wardrobe. For a
+ * shot, the reference is picked from the shot's explicit choice or, failing
+ * that, from what the shot text says about angle and expression.
+ */
+
+import { Character, CharacterLook, CharacterView } from '@/stores/StoryStore';
+
+export const CHARACTER_VIEWS: CharacterView[] = ['front', 'side', 'back', 'closeup', 'happy', 'sad', 'angry', 'surprised'];
+
+export const CHARACTER_VIEW_LABELS: Record<CharacterView, string> = {
+  front: 'Front',
+  side: 'Side',
+  back: 'Back',
+  closeup: 'Close-up',
+  happy: 'Happy',
+  sad: 'Sad',
+  angry: 'Angry',
+  surprised: 'Surprised',
+};
+
+// How each view is asked for when it is generated
+export const CHARACTER_VIEW_PROMPTS: Record<CharacterView, string> = {
+  front: 'full body, front view, facing the camera, neutral pose',
+  side: 'full body, side profile view, facing left',
+  back: 'full body, seen from behind, back view',
+  closeup: 'head and shoulders close-up portrait, facing the camera, neutral expression',
+  happy: 'head and shoulders close-up, smiling happily',
+  sad: 'head and shoulders close-up, sad expression, teary eyes',
+  angry: 'head and shoulders close-up, angry expression, frowning',
+  surprised: 'head and shoulders close-up, surprised expression, wide eyes, open mouth',
+};
+
+// Words in a shot that call for a view, checked in this order
+const VIEW_KEYWORDS: Array<[CharacterView, RegExp]> = [
+  ['back', /\b(from behind|back view|back to the camera|walks away|walking away|turns away)\b/i],
+  ['side', /\b(profile|side view|from the side)\b/i],
+  ['happy', /\b(smil\w*|laugh\w*|happ\w*|joy\w*|grin\w*|cheer\w*)\b/i],
+  ['sad', /\b(cr(y|ies|ying)|sad\w*|tear\w*|sob\w*|weep\w*)\b/i],
+  ['angry', /\b(angr\w*|furious|shout\w*|yell\w*|frown\w*|rage)\b/i],
+  ['surprised', /\b(surpris\w*|shock\w*|gasp\w*|astonish\w*|startled)\b/i],
+  ['closeup', /\b(close-?up|closeup|face|portrait)\b/i],
+];
+
+export function isCharacterView(value: unknown): value is CharacterView {
+  return CHARACTER_VIEWS.includes(value as CharacterView);
+}
+
+/**
+ * View a shot's text calls for, or undefined when nothing stands out
+ */
+export function detectCharacterView(text: string): CharacterView | undefined {
+  return VIEW_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Reference image for a character in a shot
+ * Explicit view first, then the detected one, then front, within the chosen
+ * wardrobe; then the main character sheet
+ */
+export function chooseCharacterReference(
+  character: Character,
+  shotText: string,
+  look: CharacterLook = {}
+): { url: string; view?: CharacterView } | undefined {
+  const inWardrobe = (character.references || []).filter(ref => (ref.wardrobeId || undefined) === look.wardrobeId);
+  const wanted = look.view || detectCharacterView(shotText);
+
+  const match = (wanted && inWardrobe.find(ref => ref.view === wanted))
+    || inWardrobe.find(ref => ref.view === 'front');
+  if (match) return { url: match.url, view: match.view };
+
+  // The main sheet shows the default outfit; another wardrobe's own views come first
+  if (look.wardrobeId && inWardrobe[0]) return { url: inWardrobe[0].url, view: inWardrobe[0].view };
+  if (character.referenceImageUrl) return { url: character.referenceImageUrl };
+  if (inWardrobe[0]) return { url: inWardrobe[0].url, view: inWardrobe[0].view };
+
+  const any = (character.references || [])[0];
+  return any ? { url: any.url, view: any.view } : undefined;
+}
+
+/**
+ * Whether a character has any reference image at all
+ */
+export function hasCharacterReference(character: Character): boolean {
+  return !!character.referenceImageUrl || (character.references || []).length > 0;
+}
+
+/**
+ * Every reference image the server may pick from for a character in a shot
+ */
+export function getReferenceCandidates(character: Character, look: CharacterLook = {}): string[] {
+  const urls = (character.references || [])
+    .filter(ref => (ref.wardrobeId || undefined) === look.wardrobeId)
+    .map(ref => ref.url);
+  if (character.referenceImageUrl) urls.push(character.referenceImageUrl);
+  if (urls.length === 0 && character.references?.length) urls.push(character.references[0].url);
+  return Array.from(new Set(urls));
+}
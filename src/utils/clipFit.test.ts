@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { describeClipFit, getSegmentTiming, planClipFit } from './clipFit';
+
+describe('planClipFit', () => {
+  it('keeps a still for its duration, or as long as its narration needs', () => {
+    expect(planClipFit({ duration: 4 }, undefined, undefined)).toEqual({ strategy: 'none', targetSeconds: 4 });
+    expect(planClipFit({ duration: 4 }, undefined, 6)).toEqual({
+      strategy: 'none',
+      narrationSeconds: 6,
+      targetSeconds: 6.5,
+    });
+  });
+
+  it('plays a clip without narration as it is', () => {
+    expect(planClipFit({ duration: 5 }, 8, undefined)).toEqual({ strategy: 'none', clipSeconds: 8, targetSeconds: 8 });
+  });
+
+  it('treats lengths within the tolerance as a match', () => {
+    // Target is 5.5s (narration plus its tail)
+    expect(planClipFit({ duration: 5 }, 5.3, 5).strategy).toBe('none');
+    expect(planClipFit({ duration: 5 }, 5.75, 5).strategy).toBe('none');
+    expect(planClipFit({ duration: 5 }, 5.8, 5).strategy).toBe('trim');
+    expect(planClipFit({ duration: 5 }, 5.2, 5).strategy).not.toBe('none');
+  });
+
+  it('trims a longer clip, warning when much of it is cut', () => {
+    const plan = planClipFit({ duration: 5 }, 7, 4);
+    expect(plan).toMatchObject({ strategy: 'trim', targetSeconds: 5 });
+    expect(plan.warning).toBeUndefined();
+
+    expect(planClipFit({ duration: 5 }, 10, 4).warning).toBe('5s of the clip is cut after the narration');
+  });
+
+  it('slows a slightly short clip down and holds the last frame of a much shorter one', () => {
+    expect(planClipFit({ duration: 5 }, 5, 5.5)).toMatchObject({ strategy: 'slow', targetSeconds: 6 });
+    expect(planClipFit({ duration: 5 }, 5, 7)).toMatchObject({ strategy: 'hold', targetSeconds: 7.5 });
+  });
+
+  it('follows the shot fit mode and warns when the stretch is too large', () => {
+    expect(planClipFit({ duration: 5, clipFit: 'loop' }, 5, 5.5).strategy).toBe('loop');
+    expect(planClipFit({ duration: 5, clipFit: 'regenerate' }, 5, 7)).toMatchObject({
+      strategy: 'hold',
+      regenerate: true,
+    });
+
+    const stretched = planClipFit({ duration: 5, clipFit: 'slow' }, 4, 8);
+    expect(stretched).toMatchObject({ strategy: 'slow', targetSeconds: 8.5 });
+    expect(stretched.warning).toBe('The 4s clip is stretched to 8.5s');
+  });
+
+  it('trims the narration instead when asked to keep the clip length', () => {
+    expect(planClipFit({ duration: 5, clipFit: 'trim' }, 5, 6.5)).toEqual({
+      strategy: 'trim',
+      clipSeconds: 5,
+      narrationSeconds: 6.5,
+      targetSeconds: 5,
+      warning: 'The last 1.5s of the narration is cut',
+    });
+  });
+});
+
+describe('describeClipFit', () => {
+  it('describes each strategy', () => {
+    expect(describeClipFit({ strategy: 'hold', clipSeconds: 5, targetSeconds: 7.5 })).toBe('Last frame held for 2.5s');
+    expect(describeClipFit({ strategy: 'trim', clipSeconds: 7, targetSeconds: 5 })).toBe('Trimmed to 5s');
+    expect(describeClipFit({ strategy: 'none', targetSeconds: 4 })).toBe('Still for 4s');
+    expect(describeClipFit({ strategy: 'none', clipSeconds: 4, targetSeconds: 4 })).toBe('Plays as is');
+  });
+});
+
+describe('getSegmentTiming', () => {
+  it('sets the duration and fit the render needs, keeping timeline edits', () => {
+    const edit = { inPoint: 0.5 };
+    expect(getSegmentTiming({ strategy: 'none', clipSeconds: 5, targetSeconds: 5, edit })).toEqual(edit);
+    expect(getSegmentTiming({ strategy: 'trim', clipSeconds: 7, targetSeconds: 5, edit })).toEqual({ ...edit, duration: 5 });
+    expect(getSegmentTiming({ strategy: 'none', targetSeconds: 4 })).toEqual({ duration: 4 });
+    expect(getSegmentTiming({ strategy: 'slow', clipSeconds: 5, targetSeconds: 6 })).toEqual({ duration: 6, fit: 'slow' });
+  });
+});
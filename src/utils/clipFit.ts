@@ -0,0 +1,155 @@
+/**
+ * Fitting clips to their narration
+ * At export a narrated shot lasts as long as its narration needs, and at
+ * least its duration. A clip of another length is trimmed, or stretched by
+ * holding its last frame, looping it or slowing it down. 'regenerate' first
+ * asks the video model for a longer clip (see lib/clipFitting).
+ */
+
+import type { ClipFitMode, Shot } from '@/stores/StoryStore';
+import type { ClipFit, RenderSegment } from '@/lib/renderService';
+import { formatShotDuration, getShotDuration } from './shotDuration';
+import type { ClipEdit } from './timeline';
+
+export const CLIP_FIT_MODES: ClipFitMode[] = ['auto', 'trim', 'hold', 'loop', 'slow', 'regenerate'];
+
+export const CLIP_FIT_LABELS: Record<ClipFitMode, string> = {
+  auto: 'Auto',
+  trim: 'Trim',
+  hold: 'Hold last frame',
+  loop: 'Loop',
+  slow: 'Slow motion',
+  regenerate: 'Regenerate longer',
+};
+
+// Silence after the narration before the next shot starts
+const NARRATION_TAIL_SECONDS = 0.5;
+
+// Lengths this close count as a match
+const FIT_TOLERANCE_SECONDS = 0.25;
+
+// Auto slows a clip down by up to this much, where it is hardly noticeable;
+// longer gaps hold the last frame
+const MAX_SUBTLE_SLOWDOWN = 1.25;
+
+// Beyond either, the fitted shot will look wrong and the user is warned
+const MAX_FIT_GAP_SECONDS = 3;
+const MAX_STRETCH = 1.5;
+
+export type ClipFitStrategy = 'none' | 'trim' | ClipFit;
+
+export interface ClipFitPlan {
+  strategy: ClipFitStrategy;
+  clipSeconds?: number;        // Missing for a still image; after the timeline's in/out points
+  narrationSeconds?: number;   // When the narration ends, after the timeline's offset
+  targetSeconds: number;       // Length of the shot in the export
+  regenerate?: boolean;        // Ask the video model for a longer clip first
+  warning?: string;
+  edit?: ClipEdit;             // In/out points and narration offset from the timeline
+}
+
+export function isClipFitMode(value: unknown): value is ClipFitMode {
+  return CLIP_FIT_MODES.includes(value as ClipFitMode);
+}
+
+/**
+ * Decide how a shot's clip is matched to its narration
+ * `clipSeconds` is undefined for a still, which simply lasts the target
+ * length; without narration a clip plays as it is.
+ */
+export function planClipFit(
+  shot: Pick<Shot, 'duration' | 'clipFit'>,
+  clipSeconds: number | undefined,
+  narrationSeconds: number | undefined
+): ClipFitPlan {
+  const duration = getShotDuration(shot);
+  const target = narrationSeconds
+    ? Math.max(duration, narrationSeconds + NARRATION_TAIL_SECONDS)
+    : duration;
+
+  if (clipSeconds === undefined) {
+    return { strategy: 'none', narrationSeconds, targetSeconds: target };
+  }
+  if (!narrationSeconds) {
+    return { strategy: 'none', clipSeconds, targetSeconds: clipSeconds };
+  }
+
+  const plan = { clipSeconds, narrationSeconds };
+  const gap = target - clipSeconds;
+
+  if (gap < -FIT_TOLERANCE_SECONDS) {
+    return {
+      ...plan,
+      strategy: 'trim',
+      targetSeconds: target,
+      ...(-gap > MAX_FIT_GAP_SECONDS
+        ? { warning: `${formatShotDuration(round(-gap))} of the clip is cut after the narration` }
+        : {}),
+    };
+  }
+  if (gap <= FIT_TOLERANCE_SECONDS) {
+    return { ...plan, strategy: 'none', targetSeconds: clipSeconds };
+  }
+
+  // The shot needs longer than the clip
+  const mode = shot.clipFit || 'auto';
+  if (mode === 'trim') {
+    const cut = narrationSeconds - clipSeconds;
+    return {
+      ...plan,
+      strategy: 'trim',
+      targetSeconds: clipSeconds,
+      ...(cut > 0 ? { warning: `The last ${formatShotDuration(round(cut))} of the narration is cut` } : {}),
+    };
+  }
+
+  const strategy: ClipFit = mode === 'hold' || mode === 'loop' || mode === 'slow'
+    ? mode
+    : target / clipSeconds <= MAX_SUBTLE_SLOWDOWN ? 'slow' : 'hold';
+  const tooLarge = gap > MAX_FIT_GAP_SECONDS || target / clipSeconds > MAX_STRETCH;
+
+  return {
+    ...plan,
+    strategy,
+    targetSeconds: target,
+    ...(mode === 'regenerate' ? { regenerate: true } : {}),
+    ...(tooLarge
+      ? { warning: `The ${formatShotDuration(round(clipSeconds))} clip is stretched to ${formatShotDuration(round(target))}` }
+      : {}),
+  };
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
+
+/**
+ * What happens to the shot, e.g. "Last frame held for 2.5s"
+ */
+export function describeClipFit(plan: ClipFitPlan): string {
+  const target = formatShotDuration(round(plan.targetSeconds));
+  switch (plan.strategy) {
+    case 'trim':
+      return `Trimmed to ${target}`;
+    case 'hold':
+      return `Last frame held for ${formatShotDuration(round(plan.targetSeconds - (plan.clipSeconds || 0)))}`;
+    case 'loop':
+      return `Looped to ${target}`;
+    case 'slow':
+      return `Slowed down to ${target}`;
+    default:
+      return plan.clipSeconds === undefined ? `Still for ${target}` : 'Plays as is';
+  }
+}
+
+/**
+ * Length, fit and timeline edits of a render segment for the plan
+ */
+export function getSegmentTiming(plan: ClipFitPlan): Pick<RenderSegment, 'duration' | 'fit'> & ClipEdit {
+  const edit = plan.edit || {};
+  if (plan.clipSeconds === undefined || plan.strategy === 'trim') {
+    return { ...edit, duration: plan.targetSeconds };
+  }
+  if (plan.strategy === 'none') return edit;
+  return { ...edit, duration: plan.targetSeconds, fit: plan.strategy };
+}
@@ -0,0 +1,66 @@
+/**
+ * Errors from generation requests, classified for the generation scheduler
+ * Rate limits (HTTP 429 or a Retry-After, from a route or a failed job's
+ * provider) wait and retry; other client errors (4xx) are not worth retrying.
+ */
+
+import { JobFailedError } from './jobClient';
+
+export class GenerationRequestError extends Error {
+  constructor(message: string, public status?: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'GenerationRequestError';
+  }
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = parseFloat(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
+
+/**
+ * Parse a generation API response, throwing GenerationRequestError on failure
+ */
+export async function readGenerationResponse<T = any>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data.error) {
+    throw new GenerationRequestError(
+      data.error || `${fallbackError} (${response.status})`,
+      response.ok ? undefined : response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return data;
+}
+
+export function isRateLimitError(error: any): boolean {
+  if (error instanceof GenerationRequestError) {
+    return error.status === 429 || error.retryAfterMs !== undefined;
+  }
+  return error instanceof JobFailedError && error.job.errorStatus === 429;
+}
+
+/**
+ * Whether trying the same request again could succeed
+ */
+export function isRetryableError(error: any): boolean {
+  if (error?.name === 'AbortError') return false;
+  if (error instanceof JobFailedError) return error.job.status === 'failed';
+  if (error instanceof GenerationRequestError && error.status) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+}
+
+/**
+ * How long a rate-limited request asked us to wait, if it said
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  return error instanceof GenerationRequestError ? error.retryAfterMs : undefined;
+}
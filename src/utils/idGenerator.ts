@@ -27,6 +27,34 @@ export function generateShotId(): string {
   return generateUniqueId('shot');
 }
 
+/**
+ * Generate a unique location ID
+ */
+export function generateLocationId(): string {
+  return generateUniqueId('location');
+}
+
+/**
+ * Generate a unique location plate ID
+ */
+export function generatePlateId(): string {
+  return generateUniqueId('plate');
+}
+
+/**
+ * Generate a unique character reference ID
+ */
+export function generateReferenceId(): string {
+  return generateUniqueId('reference');
+}
+
+/**
+ * Generate a unique wardrobe ID
+ */
+export function generateWardrobeId(): string {
+  return generateUniqueId('wardrobe');
+}
+
 /**
  * Add unique IDs to a story object (scenes and shots)
  * Only generates new IDs if they don't already exist
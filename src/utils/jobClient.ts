@@ -0,0 +1,143 @@
+/**
+ * Browser client for background jobs (see lib/jobs and /api/jobs)
+ * Submit a job, keep its ID with the project, then follow it until it
+ * finishes; following works again after a reload as long as the ID is kept.
+ */
+
+import { isJobFinished, Job } from '@/lib/jobs/types';
+
+export const JOB_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+const POLL_INTERVAL_MS = 2000;
+
+export class JobNotFoundError extends Error {
+  constructor(public jobId: string) {
+    super(`Job ${jobId} not found`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+export class JobFailedError extends Error {
+  constructor(public job: Job) {
+    super(job.status === 'cancelled' ? 'Job was cancelled' : job.error || 'Job failed');
+    this.name = 'JobFailedError';
+  }
+}
+
+/**
+ * Serialize a job snapshot as one NDJSON line
+ */
+export function encodeJobEvent(job: Job): string {
+  return JSON.stringify(job) + '\n';
+}
+
+async function readJson(response: Response, fallbackError: string): Promise<any> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+export async function submitJob<TInput>(type: string, input: TInput): Promise<Job<TInput>> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, input }),
+  });
+  return (await readJson(response, 'Failed to submit job')).job;
+}
+
+/**
+ * Current state of a job, or null when the server does not know it
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`);
+  if (response.status === 404) return null;
+  return (await readJson(response, 'Failed to get job')).job;
+}
+
+export async function cancelJob(id: string): Promise<void> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (response.status === 404) return;
+  await readJson(response, 'Failed to cancel job');
+}
+
+/**
+ * Read job snapshots from the events stream until it ends
+ * Returns the last snapshot received
+ */
+async function streamJob(id: string, onUpdate: (job: Job) => void, signal?: AbortSignal): Promise<Job | null> {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(id)}/events`, { signal });
+  if (response.status === 404) {
+    throw new JobNotFoundError(id);
+  }
+  if (!response.ok || !response.body) {
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let last: Job | null = null;
+
+  const flush = (line: string) => {
+    if (line.trim()) {
+      last = JSON.parse(line);
+      onUpdate(last!);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      flush(buffer.slice(0, newlineIndex));
+      buffer = buffer.slice(newlineIndex + 1);
+    }
+  }
+
+  flush(buffer + decoder.decode());
+  return last;
+}
+
+/**
+ * Follow a job until it finishes and return its result
+ * Streams updates, falling back to polling if the stream drops.
+ * Throws JobFailedError for failed or cancelled jobs and JobNotFoundError
+ * when the server no longer has the job
+ */
+export async function waitForJob<TResult>(
+  id: string,
+  options: { onUpdate?: (job: Job) => void; signal?: AbortSignal } = {}
+): Promise<TResult> {
+  const onUpdate = options.onUpdate || (() => {});
+  let job: Job | null = null;
+
+  try {
+    job = await streamJob(id, onUpdate, options.signal);
+  } catch (error: any) {
+    if (options.signal?.aborted || error instanceof JobNotFoundError) throw error;
+    console.warn('Job stream failed, polling instead:', error);
+  }
+
+  while (!job || !isJobFinished(job)) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    options.signal?.throwIfAborted();
+
+    job = await getJob(id);
+    if (!job) {
+      throw new JobNotFoundError(id);
+    }
+    onUpdate(job);
+  }
+
+  if (job.status !== 'succeeded') {
+    throw new JobFailedError(job);
+  }
+  return job.result as TResult;
+}
@@ -0,0 +1,94 @@
+/**
+ * Location library helpers
+ * A location is a set reused across shots. Its reference plates (one per time
+ * of day) are handed to the image routes so the same room looks the same in
+ * every shot that links to it.
+ */
+
+import { Location, LocationPlate, Shot, StoryData, TimeOfDay } from '@/stores/StoryStore';
+import { generateLocationId } from './idGenerator';
+
+export const TIMES_OF_DAY: TimeOfDay[] = ['dawn', 'day', 'dusk', 'night'];
+
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  dawn: '🌅 Dawn',
+  day: '☀️ Day',
+  dusk: '🌇 Dusk',
+  night: '🌙 Night',
+};
+
+export function isTimeOfDay(value: unknown): value is TimeOfDay {
+  return TIMES_OF_DAY.includes(value as TimeOfDay);
+}
+
+/**
+ * Plate to use for a time of day
+ * Falls back to the day plate, then to any plate, so a location with a
+ * single plate still anchors every shot
+ */
+export function getLocationPlate(location: Location, timeOfDay?: TimeOfDay): LocationPlate | undefined {
+  return location.plates.find(p => p.timeOfDay === (timeOfDay || 'day'))
+    || location.plates.find(p => p.timeOfDay === 'day')
+    || location.plates[0];
+}
+
+/**
+ * Plate a new time-of-day variant is derived from, so variants keep the
+ * same layout: the day plate, or any other plate
+ */
+export function getBasePlate(location: Location, timeOfDay: TimeOfDay): LocationPlate | undefined {
+  const others = location.plates.filter(p => p.timeOfDay !== timeOfDay);
+  return others.find(p => p.timeOfDay === 'day') || others[0];
+}
+
+/**
+ * Number of shots linked to a location
+ */
+export function countLocationShots(story: Pick<StoryData, 'scenes'>, locationId: string): number {
+  return story.scenes.reduce(
+    (sum, scene) => sum + scene.shots.filter(shot => shot.locationId === locationId).length,
+    0
+  );
+}
+
+function normalizeLocationName(name: string): string {
+  return name.trim().toLowerCase().replace(/[.\s]+$/, '');
+}
+
+/**
+ * New locations for the distinct `location` texts of shots not linked yet,
+ * plus the links from shot ID to location ID (existing locations with the
+ * same name are reused)
+ */
+export function buildLocationsFromShots(story: Pick<StoryData, 'scenes' | 'locations'>): {
+  locations: Location[];
+  links: Array<{ sceneId: string; shotId: string; locationId: string }>;
+} {
+  const byName = new Map<string, Location>();
+  (story.locations || []).forEach(location => byName.set(normalizeLocationName(location.name), location));
+
+  const locations: Location[] = [];
+  const links: Array<{ sceneId: string; shotId: string; locationId: string }> = [];
+
+  story.scenes.forEach(scene => {
+    scene.shots.forEach((shot: Shot) => {
+      const key = normalizeLocationName(shot.location || '');
+      if (shot.locationId || !key) return;
+
+      let location = byName.get(key);
+      if (!location) {
+        location = {
+          id: generateLocationId(),
+          name: shot.location.trim().replace(/[.\s]+$/, ''),
+          description: '',
+          plates: [],
+        };
+        byName.set(key, location);
+        locations.push(location);
+      }
+      links.push({ sceneId: scene.id, shotId: shot.id, locationId: location.id });
+    });
+  });
+
+  return { locations, links };
+}
@@ -0,0 +1,56 @@
+/**
+ * Media metadata in the browser
+ * Loads only a file's metadata through a detached <video> or <audio> element,
+ * for checking uploads and measuring clips and narration before export.
+ */
+
+// How long to wait for the browser to read a file's metadata
+const PROBE_TIMEOUT_MS = 15000;
+
+/**
+ * Metadata could not be read; `reason` tells a slow source from a broken one
+ */
+export class MediaProbeError extends Error {
+  constructor(message: string, public reason: 'timeout' | 'unplayable') {
+    super(message);
+    this.name = 'MediaProbeError';
+  }
+}
+
+/**
+ * Load the metadata of `src`; resolves with the element once its duration
+ * (and, for video, size) is known
+ */
+export function loadMediaMetadata(src: string, kind: 'video' | 'audio'): Promise<HTMLMediaElement> {
+  const element = document.createElement(kind);
+
+  return new Promise<HTMLMediaElement>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new MediaProbeError(`Timed out reading ${kind} metadata`, 'timeout')),
+      PROBE_TIMEOUT_MS
+    );
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => {
+      clearTimeout(timer);
+      resolve(element);
+    };
+    element.onerror = () => {
+      clearTimeout(timer);
+      reject(new MediaProbeError(`Not a playable ${kind} file`, 'unplayable'));
+    };
+    element.src = src;
+  }).finally(() => {
+    element.removeAttribute('src');
+  });
+}
+
+/**
+ * Length of a video or audio file in seconds
+ */
+export async function getMediaDuration(src: string, kind: 'video' | 'audio'): Promise<number> {
+  const element = await loadMediaMetadata(src, kind);
+  if (!Number.isFinite(element.duration) || element.duration <= 0) {
+    throw new MediaProbeError(`The ${kind} file has no playable length`, 'unplayable');
+  }
+  return element.duration;
+}
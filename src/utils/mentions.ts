@@ -0,0 +1,276 @@
+/**
+ * @CharacterName mention parsing
+ * Shot content references characters as "@Name"; names may contain spaces
+ * (e.g. "@Little Girl"), so known character names are matched first and
+ * anything else falls back to a single word token.
+ */
+
+import { Character, Shot, StoryData } from '@/stores/StoryStore';
+
+export interface Mention {
+  name: string;        // Text as written after the @ sign
+  start: number;       // Index of the @ sign in the source text
+  end: number;         // Index just past the mention
+  character?: Character; // Matched character, if any
+}
+
+// Letters (with combining marks) and digits of any script; punctuation such
+// as ’ or — ends a name. A RegExp object, since tsconfig has no target that
+// allows the /u flag in a literal
+const WORD_CHAR = new RegExp('[\\p{L}\\p{M}\\p{N}_-]', 'u');
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Find every @mention in a piece of text
+ * Longest character names win so "@Anna Lee" is not read as "@Anna"
+ */
+export function findMentions(text: string, characters: Character[] = []): Mention[] {
+  if (!text) return [];
+
+  const candidates = characters
+    .filter(c => c.name && c.name.trim())
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const mentions: Mention[] = [];
+  let index = text.indexOf('@');
+
+  while (index !== -1) {
+    const rest = text.slice(index + 1);
+    const lowerRest = rest.toLowerCase();
+
+    const character = candidates.find(c => {
+      const name = normalizeName(c.name);
+      return lowerRest.startsWith(name) && !WORD_CHAR.test(rest.charAt(name.length));
+    });
+
+    if (character) {
+      const length = character.name.trim().length;
+      mentions.push({
+        name: rest.slice(0, length),
+        start: index,
+        end: index + 1 + length,
+        character,
+      });
+    } else {
+      let length = 0;
+      while (length < rest.length && WORD_CHAR.test(rest.charAt(length))) {
+        length++;
+      }
+      // Trailing hyphens belong to the sentence, not the name
+      while (length > 0 && rest.charAt(length - 1) === '-') {
+        length--;
+      }
+      if (length > 0) {
+        mentions.push({
+          name: rest.slice(0, length),
+          start: index,
+          end: index + 1 + length,
+        });
+      }
+    }
+
+    index = text.indexOf('@', index + 1);
+  }
+
+  return mentions;
+}
+
+/**
+ * Get the names of characters mentioned in a text that are not defined
+ */
+export function findUnknownMentions(text: string, characters: Character[]): string[] {
+  const unknown = findMentions(text, characters)
+    .filter(m => !m.character)
+    .map(m => m.name);
+  return Array.from(new Set(unknown));
+}
+
+/**
+ * Get the defined characters mentioned in a text, in order of first appearance
+ */
+export function getMentionedCharacters(text: string, characters: Character[]): Character[] {
+  const result: Character[] = [];
+  findMentions(text, characters).forEach(m => {
+    if (m.character && !result.includes(m.character)) {
+      result.push(m.character);
+    }
+  });
+  return result;
+}
+
+/**
+ * Characters in a shot: those @mentioned in its content, then the rest of its
+ * cast list, without duplicates
+ */
+export function getShotCast(shot: Pick<Shot, 'content' | 'cast'>, characters: Character[]): Character[] {
+  const result = getMentionedCharacters(shot.content, characters);
+  (shot.cast || []).forEach(name => {
+    const character = findCharacter(name, characters);
+    if (character && !result.includes(character)) {
+      result.push(character);
+    }
+  });
+  return result;
+}
+
+function findCharacter(name: string, characters: Character[]): Character | undefined {
+  return characters.find(c => normalizeName(c.name) === normalizeName(name));
+}
+
+/**
+ * Characters on a shot's cast list that are not @mentioned in its content,
+ * i.e. the ones added by hand
+ * Returned as objects so they survive a rename of the character
+ */
+export function getCastExtras(shot: Pick<Shot, 'content' | 'cast'>, characters: Character[]): Character[] {
+  const mentioned = getMentionedCharacters(shot.content, characters);
+  const result: Character[] = [];
+  (shot.cast || []).forEach(name => {
+    const character = findCharacter(name, characters);
+    if (character && !mentioned.includes(character) && !result.includes(character)) {
+      result.push(character);
+    }
+  });
+  return result;
+}
+
+/**
+ * Resolved cast list of a shot: the characters @mentioned in `content`, then
+ * `extras` that are still defined
+ */
+export function resolveShotCast(content: string, characters: Character[], extras: Character[] = []): string[] {
+  const result = getMentionedCharacters(content, characters);
+  extras.forEach(character => {
+    if (characters.includes(character) && !result.includes(character)) {
+      result.push(character);
+    }
+  });
+  return result.map(c => c.name);
+}
+
+/**
+ * Point every @mention of `character` in a text at `newName`
+ * `characters` must still hold the character under its old name
+ */
+export function renameMentions(text: string, character: Character, newName: string, characters: Character[]): string {
+  let result = text;
+  findMentions(text, characters)
+    .reverse()
+    .forEach(m => {
+      if (m.character === character) {
+        result = `${result.slice(0, m.start)}@${newName}${result.slice(m.end)}`;
+      }
+    });
+  return result;
+}
+
+/**
+ * Replace every @mention of an undefined name in a text with `newName`
+ */
+export function replaceUnknownMention(text: string, name: string, newName: string, characters: Character[]): string {
+  let result = text;
+  findMentions(text, characters)
+    .reverse()
+    .forEach(m => {
+      if (!m.character && m.name === name) {
+        result = `${result.slice(0, m.start)}@${newName}${result.slice(m.end)}`;
+      }
+    });
+  return result;
+}
+
+/**
+ * Edits (insert, delete, substitute, swap two neighbours) between two strings
+ */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a.charAt(i - 1) === b.charAt(j - 2) && a.charAt(i - 2) === b.charAt(j - 1)) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Closest defined character to a misspelled mention, if any is close enough
+ * A mention that is the start of a multi-word name ("@Little" for
+ * "Little Girl") also counts
+ */
+export function suggestCharacter(name: string, characters: Character[]): Character | undefined {
+  const target = normalizeName(name);
+  const maxDistance = target.length <= 4 ? 1 : 2;
+
+  let best: Character | undefined;
+  let bestDistance = Infinity;
+  characters.forEach(character => {
+    const candidate = normalizeName(character.name);
+    if (!candidate) return;
+
+    const distance = candidate.startsWith(`${target} `) ? 0 : editDistance(target, candidate);
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = character;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+export type MentionIssueKind = 'unknown' | 'misspelled' | 'unused';
+
+export interface MentionIssue {
+  kind: MentionIssueKind;
+  name: string;                 // Mention as written, or the unused character's name
+  suggestion?: string;          // Character a misspelled mention probably means
+  shots: Array<{ sceneId: string; shotId: string; label: string }>;
+}
+
+/**
+ * Check a story's @mentions: undefined names, likely misspellings of a
+ * defined character, and characters that appear in no shot
+ */
+export function reviewMentions(story: Pick<StoryData, 'characters' | 'scenes'>): MentionIssue[] {
+  const { characters } = story;
+  const unknown = new Map<string, MentionIssue>();
+  const used = new Set<Character>();
+
+  story.scenes.forEach((scene, sceneIndex) => {
+    scene.shots.forEach((shot, shotIndex) => {
+      getShotCast(shot, characters).forEach(c => used.add(c));
+
+      findUnknownMentions(shot.content, characters).forEach(name => {
+        let issue = unknown.get(name);
+        if (!issue) {
+          const suggestion = suggestCharacter(name, characters);
+          issue = {
+            kind: suggestion ? 'misspelled' : 'unknown',
+            name,
+            ...(suggestion ? { suggestion: suggestion.name } : {}),
+            shots: [],
+          };
+          unknown.set(name, issue);
+        }
+        issue.shots.push({
+          sceneId: scene.id,
+          shotId: shot.id,
+          label: `Scene ${sceneIndex + 1}, shot ${shotIndex + 1}`,
+        });
+      });
+    });
+  });
+
+  const unused: MentionIssue[] = characters
+    .filter(c => c.name.trim() && !used.has(c))
+    .map(c => ({ kind: 'unused', name: c.name, shots: [] }));
+
+  return [...Array.from(unknown.values()), ...unused];
+}
@@ -4,6 +4,9 @@
  * Model list updated with Top 50 popular models
  */
 
+import { readChatCompletionStream } from '@/lib/llm/sse';
+import { UpstreamHttpError } from '@/lib/upstreamError';
+
 export interface OpenRouterMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -18,6 +21,7 @@ export interface OpenRouterRequest {
   frequency_penalty?: number;
   presence_penalty?: number;
   stop?: string[];
+  response_format?: { type: 'json_object' };
 }
 
 export interface OpenRouterResponse {
@@ -36,24 +40,30 @@ export interface OpenRouterResponse {
   };
 }
 
+const OPENROUTER_CHAT_URL = 'https://openrouter.ai/api/v1/chat/completions';
+
+function getOpenRouterHeaders(apiKey: string): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+    'HTTP-Referer': typeof window !== 'undefined' ? window.location.href : '',
+    'X-Title': 'Open AI Story Tool',
+  };
+}
+
 export async function callOpenRouter(
   apiKey: string,
   request: OpenRouterRequest
 ): Promise<string> {
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+  const response = await fetch(OPENROUTER_CHAT_URL, {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': typeof window !== 'undefined' ? window.location.href : '',
-      'X-Title': 'Open AI Story Tool',
-    },
+    headers: getOpenRouterHeaders(apiKey),
     body: JSON.stringify(request),
   });
 
   if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(errorData.error?.message || 'OpenRouter API request failed');
+    const errorData = await response.json().catch(() => ({}));
+    throw new UpstreamHttpError(errorData.error?.message || 'OpenRouter API request failed', response);
   }
 
   const data: OpenRouterResponse = await response.json();
@@ -65,6 +75,30 @@ export async function callOpenRouter(
   return data.choices[0].message.content;
 }
 
+/**
+ * Stream a completion through OpenRouter's SSE API
+ * Yields content deltas as they arrive; abort via `signal` to cancel upstream
+ */
+export async function* streamOpenRouter(
+  apiKey: string,
+  request: OpenRouterRequest,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const response = await fetch(OPENROUTER_CHAT_URL, {
+    method: 'POST',
+    headers: getOpenRouterHeaders(apiKey),
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new UpstreamHttpError(errorData.error?.message || 'OpenRouter API request failed', response);
+  }
+
+  yield* readChatCompletionStream(response);
+}
+
 // Top 50 Popular OpenRouter Models
 export const OPENROUTER_MODELS = {
   // === Top Tier - Best Quality ===
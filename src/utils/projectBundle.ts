@@ -0,0 +1,230 @@
+/**
+ * Self-contained project bundles
+ * A bundle is a ZIP holding a manifest, the project JSON and every image,
+ * video and audio file the story references, stored by content hash:
+ *
+ *   manifest.json        format, version and a checksum for every asset
+ *   project.json         ProjectData with media as `asset:<sha256>` references
+ *   assets/<sha256>.ext  the media files
+ */
+
+import { StoryData } from '@/stores/StoryStore';
+import { assetStore } from '@/lib/assetStore';
+import type { ProjectData } from './projectIO';
+import { getAssetHash, isAssetRef, toAssetRef } from './assetRef';
+import { readZip, ZipSink, ZipWriter } from './zip';
+
+export const BUNDLE_FORMAT = 'open-story-video-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const PROJECT_PATH = 'project.json';
+
+export interface BundleAssetEntry {
+  path: string;
+  sha256: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  project: string;
+  assets: BundleAssetEntry[];
+  missing: string[];          // Media URLs that could not be downloaded at export time
+}
+
+export interface BundleProgress {
+  done: number;
+  total: number;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+};
+
+/**
+ * Apply `fn` to every media URL in a story (shots, takes, character references,
+ * location plates)
+ */
+export function mapStoryMedia(story: StoryData, fn: (url: string) => string): StoryData {
+  const map = (url?: string) => (url ? fn(url) : url);
+
+  return {
+    ...story,
+    characters: story.characters.map(character => ({
+      ...character,
+      referenceImageUrl: map(character.referenceImageUrl),
+      ...(character.references ? {
+        references: character.references.map(reference => ({ ...reference, url: map(reference.url) || '' })),
+      } : {}),
+    })),
+    ...(story.locations ? {
+      locations: story.locations.map(location => ({
+        ...location,
+        plates: location.plates.map(plate => ({ ...plate, url: map(plate.url) || '' })),
+      })),
+    } : {}),
+    scenes: story.scenes.map(scene => ({
+      ...scene,
+      shots: scene.shots.map(shot => ({
+        ...shot,
+        imageUrl: map(shot.imageUrl),
+        animationUrl: map(shot.animationUrl),
+        audioUrl: map(shot.audioUrl),
+        ...(shot.takes ? { takes: shot.takes.map(take => ({ ...take, url: map(take.url) || '' })) } : {}),
+      })),
+    })),
+  };
+}
+
+/**
+ * Every distinct media URL in a story
+ */
+export function collectStoryMedia(story: StoryData): string[] {
+  const urls = new Set<string>();
+  mapStoryMedia(story, url => {
+    urls.add(url);
+    return url;
+  });
+  return Array.from(urls);
+}
+
+/**
+ * Write a project and its media as a bundle
+ * Media that is not in the asset store yet (remote or data: URLs) is
+ * downloaded first; anything that cannot be fetched is listed as missing
+ */
+export async function writeProjectBundle(
+  projectData: ProjectData,
+  sink: ZipSink,
+  onProgress?: (progress: BundleProgress) => void
+): Promise<BundleManifest> {
+  const urls = collectStoryMedia(projectData.story);
+  const refs = new Map<string, string>();
+  const missing: string[] = [];
+
+  for (const url of urls) {
+    try {
+      refs.set(url, isAssetRef(url) ? url : await assetStore.importUrl(url));
+    } catch (error) {
+      console.warn(`Could not include ${url.substring(0, 80)} in bundle:`, error);
+      missing.push(url);
+    }
+  }
+
+  const assets: Array<BundleAssetEntry & { blob: Blob }> = [];
+  for (const ref of Array.from(new Set(refs.values()))) {
+    try {
+      const hash = getAssetHash(ref);
+      const blob = await assetStore.getBlob(ref);
+      const mimeType = blob.type || 'application/octet-stream';
+      assets.push({
+        path: `assets/${hash}.${MIME_EXTENSIONS[mimeType] || 'bin'}`,
+        sha256: hash,
+        mimeType,
+        size: blob.size,
+        blob,
+      });
+    } catch (error) {
+      console.warn(`Asset ${ref} is not available for the bundle:`, error);
+      refs.forEach((value, url) => {
+        if (value === ref) missing.push(url);
+      });
+    }
+  }
+
+  const bundled = new Set(assets.map(asset => toAssetRef(asset.sha256)));
+  const story = mapStoryMedia(projectData.story, url => {
+    const ref = refs.get(url);
+    return ref && bundled.has(ref) ? ref : url;
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    project: PROJECT_PATH,
+    assets: assets.map(({ blob, ...entry }) => entry),
+    missing,
+  };
+
+  const writer = new ZipWriter(sink);
+  await writer.add(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  await writer.add(PROJECT_PATH, JSON.stringify({ ...projectData, story }, null, 2));
+
+  for (let i = 0; i < assets.length; i++) {
+    await writer.add(assets[i].path, assets[i].blob);
+    onProgress?.({ done: i + 1, total: assets.length });
+  }
+
+  await writer.finish();
+  return manifest;
+}
+
+/**
+ * Read a bundle: verify and restore its media into the asset store,
+ * then return the raw project JSON
+ * Works offline; copies to the server are made in the background
+ */
+export async function readProjectBundle(
+  file: Blob,
+  onProgress?: (progress: BundleProgress) => void
+): Promise<unknown> {
+  const entries = new Map((await readZip(file)).map(entry => [entry.name, entry]));
+
+  const manifestEntry = entries.get(MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new Error('Bundle has no manifest.json');
+  }
+
+  const manifest = JSON.parse(await (await manifestEntry.read()).text()) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a project bundle');
+  }
+  if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+    throw new Error(`Bundle format ${manifest.formatVersion} is newer than this app supports`);
+  }
+
+  const assets = manifest.assets || [];
+  for (let i = 0; i < assets.length; i++) {
+    const asset = assets[i];
+    const entry = entries.get(asset.path);
+    if (!entry) {
+      throw new Error(`Bundle is missing ${asset.path}`);
+    }
+
+    const data = await entry.read();
+    const ref = await assetStore.put(new Blob([data], { type: asset.mimeType }));
+    if (ref !== toAssetRef(asset.sha256)) {
+      throw new Error(`${asset.path} does not match its checksum`);
+    }
+
+    assetStore.ensureOnServer(ref).catch(error => {
+      console.warn('Failed to copy imported asset to server:', error);
+    });
+    onProgress?.({ done: i + 1, total: assets.length });
+  }
+
+  if (manifest.missing?.length) {
+    console.warn(`Bundle was exported without ${manifest.missing.length} media file(s)`);
+  }
+
+  const projectEntry = entries.get(manifest.project || PROJECT_PATH);
+  if (!projectEntry) {
+    throw new Error('Bundle has no project.json');
+  }
+  return JSON.parse(await (await projectEntry.read()).text());
+}
@@ -5,10 +5,16 @@
 
 import { StoryData } from '@/stores/StoryStore';
 import { Settings } from '@/stores/SettingsStore';
-import { addIdsToStory } from './idGenerator';
+import { CURRENT_SCHEMA_VERSION, MigratedProject, migrateProject } from './projectMigrations';
+import { BundleManifest, BundleProgress, readProjectBundle, writeProjectBundle } from './projectBundle';
+import { createBlobSink, ZipSink } from './zip';
+
+export const PROJECT_FILE_EXTENSION = '.open-story-video.json';
+export const PROJECT_BUNDLE_EXTENSION = '.open-story-video.zip';
 
 export interface ProjectData {
-  version: string;
+  version: string;              // File format marker, always '1.0.0'
+  schemaVersion: number;        // See projectMigrations
   timestamp: number;
   story: StoryData;
   currentStep: 'input' | 'review' | 'storyboard' | 'edit';
@@ -20,79 +26,72 @@ export interface ProjectData {
 }
 
 /**
- * Export project to JSON file
+ * Settings that are safe to put in an exported file (no API keys)
  */
-export async function exportProject(
-  story: StoryData,
-  currentStep: 'input' | 'review' | 'storyboard' | 'edit',
-  settings?: Partial<Settings>
-): Promise<void> {
-  // Remove audioUrl from all shots to reduce file size
-  const storyWithoutAudio = {
-    ...story,
-    scenes: story.scenes.map(scene => ({
-      ...scene,
-      shots: scene.shots.map(shot => {
-        const { audioUrl, ...shotWithoutAudio } = shot;
-        return shotWithoutAudio;
-      })
-    }))
+function getExportableSettings(settings: Partial<Settings>): Partial<Settings> {
+  return {
+    // Only export non-sensitive settings (no API keys)
+    defaultStyle: settings.defaultStyle,
+    defaultAspectRatio: settings.defaultAspectRatio,
+    enableAudio: settings.enableAudio,
+    textModel: settings.textModel ? {
+      provider: settings.textModel.provider,
+      modelId: settings.textModel.modelId,
+      temperature: settings.textModel.temperature,
+      maxTokens: settings.textModel.maxTokens,
+      apiKey: '', // Don't export API keys
+    } : undefined,
+    imageModel: settings.imageModel ? {
+      provider: settings.imageModel.provider,
+      modelId: settings.imageModel.modelId,
+      apiKey: '',
+    } : undefined,
+    characterImageModel: settings.characterImageModel ? {
+      provider: settings.characterImageModel.provider,
+      modelId: settings.characterImageModel.modelId,
+      apiKey: '',
+    } : undefined,
+    videoModel: settings.videoModel ? {
+      provider: settings.videoModel.provider,
+      modelId: settings.videoModel.modelId,
+      apiKey: '',
+    } : undefined,
+    voiceModel: settings.voiceModel ? {
+      provider: settings.voiceModel.provider,
+      voiceId: settings.voiceModel.voiceId,
+      model: settings.voiceModel.model,
+      speed: settings.voiceModel.speed,
+      stability: settings.voiceModel.stability,
+      similarityBoost: settings.voiceModel.similarityBoost,
+      apiKey: '',
+    } : undefined,
   };
+}
 
-  const projectData: ProjectData = {
+/**
+ * Build the ProjectData written to exported files
+ */
+function buildProjectData(
+  story: StoryData,
+  currentStep: ProjectData['currentStep'],
+  settings?: Partial<Settings>
+): ProjectData {
+  return {
     version: '1.0.0',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     timestamp: Date.now(),
-    story: storyWithoutAudio,
+    story,
     currentStep,
-    settings: settings ? {
-      // Only export non-sensitive settings (no API keys)
-      defaultStyle: settings.defaultStyle,
-      defaultAspectRatio: settings.defaultAspectRatio,
-      enableAudio: settings.enableAudio,
-      textModel: settings.textModel ? {
-        provider: settings.textModel.provider,
-        modelId: settings.textModel.modelId,
-        temperature: settings.textModel.temperature,
-        maxTokens: settings.textModel.maxTokens,
-        apiKey: '', // Don't export API keys
-      } : undefined,
-      imageModel: settings.imageModel ? {
-        provider: settings.imageModel.provider,
-        modelId: settings.imageModel.modelId,
-        apiKey: '',
-      } : undefined,
-      characterImageModel: settings.characterImageModel ? {
-        provider: settings.characterImageModel.provider,
-        modelId: settings.characterImageModel.modelId,
-        apiKey: '',
-      } : undefined,
-      videoModel: settings.videoModel ? {
-        provider: settings.videoModel.provider,
-        modelId: settings.videoModel.modelId,
-        apiKey: '',
-      } : undefined,
-      voiceModel: settings.voiceModel ? {
-        provider: settings.voiceModel.provider,
-        voiceId: settings.voiceModel.voiceId,
-        model: settings.voiceModel.model,
-        speed: settings.voiceModel.speed,
-        stability: settings.voiceModel.stability,
-        similarityBoost: settings.voiceModel.similarityBoost,
-        apiKey: '',
-      } : undefined,
-    } : undefined,
+    settings: settings ? getExportableSettings(settings) : undefined,
     metadata: {
       exportedAt: new Date().toISOString(),
       appVersion: '1.0.0',
     },
   };
+}
 
-  const json = JSON.stringify(projectData, null, 2);
-  const blob = new Blob([json], { type: 'application/json' });
+function downloadFile(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
-
-  const filename = `${story.title || 'untitled'}-${Date.now()}.open-story-video.json`;
-
   const link = document.createElement('a');
   link.href = url;
   link.download = filename;
@@ -103,37 +102,106 @@ export async function exportProject(
 }
 
 /**
- * Import project from JSON file
+ * Export project to JSON file
  */
-export async function importProject(file: File): Promise<ProjectData> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+export async function exportProject(
+  story: StoryData,
+  currentStep: 'input' | 'review' | 'storyboard' | 'edit',
+  settings?: Partial<Settings>
+): Promise<void> {
+  // Narration is kept with its take history; media in the asset store is
+  // only a hash reference, the bundle export carries the files themselves
+  const projectData = buildProjectData(story, currentStep, settings);
 
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const data = JSON.parse(text) as ProjectData;
+  const json = JSON.stringify(projectData, null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  downloadFile(blob, `${story.title || 'untitled'}-${Date.now()}${PROJECT_FILE_EXTENSION}`);
+}
+
+/**
+ * Export project as a self-contained .zip bundle with all media
+ * Streams straight to disk where the browser supports the File System Access
+ * API, otherwise builds the file from blob references and downloads it
+ */
+export async function exportProjectBundle(
+  story: StoryData,
+  currentStep: 'input' | 'review' | 'storyboard' | 'edit',
+  settings?: Partial<Settings>,
+  onProgress?: (progress: BundleProgress) => void
+): Promise<BundleManifest | null> {
+  const filename = `${story.title || 'untitled'}-${Date.now()}${PROJECT_BUNDLE_EXTENSION}`;
+  const projectData = buildProjectData(story, currentStep, settings);
+
+  const showSaveFilePicker = typeof window !== 'undefined' ? (window as any).showSaveFilePicker : undefined;
+  if (showSaveFilePicker) {
+    let handle: any;
+    try {
+      handle = await showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description: 'Project bundle', accept: { 'application/zip': ['.zip'] } }],
+      });
+    } catch (error: any) {
+      if (error?.name === 'AbortError') return null; // User cancelled
+      throw error;
+    }
+
+    const writable = await handle.createWritable();
+    const sink: ZipSink = chunk => writable.write(chunk);
+    try {
+      const manifest = await writeProjectBundle(projectData, sink, onProgress);
+      await writable.close();
+      return manifest;
+    } catch (error) {
+      await writable.abort();
+      throw error;
+    }
+  }
 
-        // Validate project data structure
-        if (!data.version || !data.story) {
-          throw new Error('Invalid project file format');
-        }
+  const { sink, toBlob } = createBlobSink();
+  const manifest = await writeProjectBundle(projectData, sink, onProgress);
+  downloadFile(toBlob(), filename);
+  return manifest;
+}
+
+/**
+ * Upgrade parsed project data to the current schema and validate it
+ */
+function parseProjectData(data: unknown): MigratedProject {
+  const migrated = migrateProject(data);
 
-        // Version compatibility check
-        if (data.version !== '1.0.0') {
-          console.warn(`Project version ${data.version} may not be fully compatible`);
-        }
+  // Validate required story fields
+  const { story } = migrated.project;
+  if (!story.title && !story.synopsis) {
+    throw new Error('Project must have at least a title or synopsis');
+  }
 
-        // Validate required story fields
-        if (!data.story.title && !data.story.synopsis) {
-          throw new Error('Project must have at least a title or synopsis');
-        }
+  return migrated;
+}
 
-        // Regenerate unique IDs for all scenes and shots to avoid conflicts
-        const storyWithNewIds = addIdsToStory(data.story);
-        data.story = storyWithNewIds as StoryData;
+/**
+ * Import project from a JSON file or a .zip bundle
+ * Bundles restore their media into the local asset store, no network needed.
+ * The result includes a report of any schema migrations that were applied
+ */
+export async function importProject(
+  file: File,
+  onProgress?: (progress: BundleProgress) => void
+): Promise<MigratedProject> {
+  if (isProjectBundle(file.name)) {
+    try {
+      return parseProjectData(await readProjectBundle(file, onProgress));
+    } catch (error: any) {
+      throw new Error(`Failed to import project bundle: ${error.message}`);
+    }
+  }
 
-        resolve(data);
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const text = e.target?.result as string;
+        resolve(parseProjectData(JSON.parse(text)));
       } catch (error: any) {
         reject(new Error(`Failed to parse project file: ${error.message}`));
       }
@@ -147,11 +215,15 @@ export async function importProject(file: File): Promise<ProjectData> {
   });
 }
 
+function isProjectBundle(filename: string): boolean {
+  return filename.endsWith('.zip');
+}
+
 /**
  * Validate if a file is a valid project file
  */
 export function isValidProjectFile(filename: string): boolean {
-  return filename.endsWith('.open-story-video.json');
+  return filename.endsWith(PROJECT_FILE_EXTENSION) || isProjectBundle(filename);
 }
 
 /**
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  describeMigration,
+  migrateProject,
+  ProjectVersionError,
+} from './projectMigrations';
+
+const REPLICATE_URL = 'https://replicate.delivery/pbxt/abc/out.png';
+
+function makeProject(schemaVersion: number | undefined, story: any) {
+  return {
+    ...(schemaVersion === undefined ? {} : { schemaVersion }),
+    version: '1.0.0',
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    story,
+  };
+}
+
+describe('migrateProject', () => {
+  it('gives scenes and shots of a schema 1 project IDs, keeping existing ones', () => {
+    const raw = makeProject(undefined, {
+      title: 'Old',
+      scenes: [
+        { id: 'scene-kept', shots: [{ id: 'shot-kept' }, { description: 'no id' }] },
+        { shots: [{ description: 'no id either' }] },
+      ],
+    });
+
+    const { project, report } = migrateProject(raw);
+    const [first, second] = project.story.scenes;
+
+    expect(first.id).toBe('scene-kept');
+    expect(first.shots[0].id).toBe('shot-kept');
+    expect(first.shots[1].id).toEqual(expect.any(String));
+    expect(second.id).toEqual(expect.any(String));
+    expect(second.shots[0].id).toEqual(expect.any(String));
+    expect(project.story.characters).toEqual([]);
+
+    expect(report.fromVersion).toBe(1);
+    expect(report.applied[0].changes).toEqual([
+      'Added empty character list',
+      'Added IDs to 1 scene(s)',
+      'Added IDs to 2 shot(s)',
+    ]);
+  });
+
+  it('moves Replicate URLs of a schema 2 project to the CDN proxy', () => {
+    const raw = makeProject(2, {
+      title: 'Replicate',
+      characters: [{ id: 'c1', name: 'Ana', referenceImageUrl: REPLICATE_URL }],
+      scenes: [{ id: 's1', shots: [{ id: 'sh1', imageUrl: REPLICATE_URL }] }],
+    });
+
+    const { project, report } = migrateProject(raw);
+
+    expect(JSON.stringify(project.story)).not.toContain('replicate.delivery');
+    expect(project.story.characters[0].referenceImageUrl).toContain('replicateproxy.b-cdn.net');
+    expect(project.story.scenes[0].shots[0].imageUrl).toContain('replicateproxy.b-cdn.net');
+    expect(report.applied.map(step => step.version)).toEqual([3, 4]);
+    expect(report.applied[0].changes).toEqual(['Moved 2 Replicate URL(s) to the CDN proxy']);
+  });
+
+  it('adds the location library to a schema 3 project', () => {
+    const raw = makeProject(3, { title: 'No locations', characters: [], scenes: [] });
+
+    const { project, report } = migrateProject(raw);
+
+    expect(project.story.locations).toEqual([]);
+    expect(project.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(report.applied).toEqual([
+      { version: 4, description: 'Add the location library', changes: ['Added empty location list'] },
+    ]);
+  });
+
+  it('leaves a current project as it is', () => {
+    const raw = makeProject(CURRENT_SCHEMA_VERSION, {
+      title: 'Current',
+      characters: [],
+      locations: [{ id: 'l1', name: 'Harbor' }],
+      scenes: [{ id: 's1', shots: [{ id: 'sh1', imageUrl: REPLICATE_URL }] }],
+    });
+
+    const { project, report } = migrateProject(raw);
+
+    expect(project).toEqual(raw);
+    expect(report.applied).toEqual([]);
+    expect(describeMigration(report)).toBeNull();
+  });
+
+  it('does not modify its input', () => {
+    const raw = makeProject(undefined, { title: 'Old', scenes: [{ shots: [{}] }] });
+    const copy = JSON.parse(JSON.stringify(raw));
+
+    migrateProject(raw);
+
+    expect(raw).toEqual(copy);
+  });
+
+  it('rejects a project from a newer schema', () => {
+    const raw = makeProject(CURRENT_SCHEMA_VERSION + 1, { title: 'Future', scenes: [] });
+
+    expect(() => migrateProject(raw)).toThrow(ProjectVersionError);
+    try {
+      migrateProject(raw);
+    } catch (error) {
+      expect((error as ProjectVersionError).schemaVersion).toBe(CURRENT_SCHEMA_VERSION + 1);
+    }
+  });
+
+  it('rejects data without a story', () => {
+    expect(() => migrateProject({ schemaVersion: 1 })).toThrow('Invalid project file format');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Project schema versions and migrations
+ * Every saved or exported project carries `schemaVersion`. Files from before
+ * the field existed are schema 1. On import and on IndexedDB load the data is
+ * run through each migration above its version, in order, and the caller
+ * gets a report of what changed. Projects from a newer app are rejected
+ * instead of being half-read.
+ */
+
+import type { ProjectData } from './projectIO';
+import { addIdsToStory } from './idGenerator';
+import { migrateStoryToCDN } from './cdnProxy';
+
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export interface ProjectMigration {
+  version: number;            // Schema version this migration produces
+  description: string;
+  /** Upgrade data from `version - 1`; returns a note for each change made */
+  migrate(data: any): string[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: Array<{ version: number; description: string; changes: string[] }>;
+}
+
+export interface MigratedProject {
+  project: ProjectData;
+  report: MigrationReport;
+}
+
+export class ProjectVersionError extends Error {
+  constructor(public schemaVersion: number) {
+    super(
+      `This project was saved with schema version ${schemaVersion}, but this app only supports up to ${CURRENT_SCHEMA_VERSION}. Please update the app.`
+    );
+    this.name = 'ProjectVersionError';
+  }
+}
+
+/**
+ * Ordered list of migrations, one per schema version after 1
+ * Never edit a shipped migration; add a new one and bump CURRENT_SCHEMA_VERSION
+ */
+export const PROJECT_MIGRATIONS: ProjectMigration[] = [
+  {
+    version: 2,
+    description: 'Give every scene and shot a stable ID',
+    migrate(data) {
+      const changes: string[] = [];
+      const story = data.story;
+
+      if (!Array.isArray(story.characters)) {
+        story.characters = [];
+        changes.push('Added empty character list');
+      }
+
+      const missingSceneIds = (story.scenes || []).filter((scene: any) => !scene.id).length;
+      const missingShotIds = (story.scenes || []).reduce(
+        (sum: number, scene: any) => sum + (scene.shots || []).filter((shot: any) => !shot.id).length,
+        0
+      );
+
+      data.story = addIdsToStory(story);
+      if (missingSceneIds > 0) changes.push(`Added IDs to ${missingSceneIds} scene(s)`);
+      if (missingShotIds > 0) changes.push(`Added IDs to ${missingShotIds} shot(s)`);
+      return changes;
+    },
+  },
+  {
+    version: 3,
+    description: 'Serve expiring Replicate URLs through the CDN proxy',
+    migrate(data) {
+      const countReplicateUrls = () => (JSON.stringify(data.story).match(/replicate\.delivery/g) || []).length;
+      const before = countReplicateUrls();
+      data.story = migrateStoryToCDN(data.story);
+
+      const replaced = before - countReplicateUrls();
+      return replaced > 0 ? [`Moved ${replaced} Replicate URL(s) to the CDN proxy`] : [];
+    },
+  },
+  {
+    version: 4,
+    description: 'Add the location library',
+    migrate(data) {
+      if (Array.isArray(data.story.locations)) return [];
+      data.story.locations = [];
+      return ['Added empty location list'];
+    },
+  },
+];
+
+/**
+ * Schema version of raw project data; files without one are schema 1
+ */
+export function getSchemaVersion(data: any): number {
+  return typeof data?.schemaVersion === 'number' ? data.schemaVersion : 1;
+}
+
+/**
+ * Bring raw project data up to CURRENT_SCHEMA_VERSION
+ * The input is not modified. Throws ProjectVersionError for projects saved
+ * by a newer app.
+ */
+export function migrateProject(raw: unknown): MigratedProject {
+  if (!raw || typeof raw !== 'object' || !(raw as any).story || typeof (raw as any).story !== 'object') {
+    throw new Error('Invalid project file format');
+  }
+
+  const fromVersion = getSchemaVersion(raw);
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new Error(`Invalid project schema version: ${fromVersion}`);
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ProjectVersionError(fromVersion);
+  }
+
+  const data = JSON.parse(JSON.stringify(raw));
+  const report: MigrationReport = { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied: [] };
+
+  for (const migration of PROJECT_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    const changes = migration.migrate(data);
+    data.schemaVersion = migration.version;
+    report.applied.push({ version: migration.version, description: migration.description, changes });
+  }
+
+  data.schemaVersion = CURRENT_SCHEMA_VERSION;
+  return { project: data as ProjectData, report };
+}
+
+/**
+ * One-line summary of a migration report for alerts and logs
+ */
+export function describeMigration(report: MigrationReport): string | null {
+  if (report.applied.length === 0) return null;
+
+  const changes = report.applied.flatMap(step => step.changes);
+  return `Upgraded from schema ${report.fromVersion} to ${report.toVersion}` +
+    (changes.length > 0 ? `: ${changes.join('; ')}` : ' (no changes needed)');
+}
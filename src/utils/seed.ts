@@ -0,0 +1,29 @@
+/**
+ * Seeds for Replicate models
+ * Only models known to take a `seed` input get one, so other models do not
+ * reject the request; the seed is returned to the client and kept on the take
+ */
+
+const SEEDABLE_MODEL_PREFIXES = [
+  'black-forest-labs/flux',
+  'ideogram-ai/',
+  'bytedance/seedream',
+  'bytedance/seedance',
+  'stability-ai/stable-video-diffusion',
+  'lightricks/ltx-video',
+  'wan-video/',
+];
+
+export function supportsSeed(modelId: string): boolean {
+  return SEEDABLE_MODEL_PREFIXES.some(prefix => modelId.startsWith(prefix));
+}
+
+/**
+ * Seed to send for a model: the requested one, a fresh random one,
+ * or undefined when the model does not take a seed
+ */
+export function resolveSeed(modelId: string, requested?: number): number | undefined {
+  if (!supportsSeed(modelId)) return undefined;
+  if (typeof requested === 'number' && Number.isFinite(requested)) return requested;
+  return Math.floor(Math.random() * 2147483647);
+}
@@ -0,0 +1,57 @@
+/**
+ * Shot duration
+ * Every shot has a target length in seconds instead of the old fixed 5.
+ * Video models are asked for the closest length they support, and at export
+ * a narrated shot lasts at least this long (see utils/clipFit).
+ */
+
+import type { Shot } from '@/stores/StoryStore';
+
+export const DEFAULT_SHOT_DURATION = 5;
+export const MIN_SHOT_DURATION = 2;
+export const MAX_SHOT_DURATION = 15;
+
+// Durations are kept in half seconds
+const DURATION_STEP = 0.5;
+
+// How fast narration is read aloud, with a pause at the end of the shot
+const NARRATION_WORDS_PER_SECOND = 2.5;
+const NARRATION_PAUSE_SECONDS = 1;
+
+function clampDuration(seconds: number): number {
+  const stepped = Math.round(seconds / DURATION_STEP) * DURATION_STEP;
+  return Math.min(MAX_SHOT_DURATION, Math.max(MIN_SHOT_DURATION, stepped));
+}
+
+/**
+ * Read a duration from model output or user input: a number of seconds or
+ * text like "6", "6s" or "6 seconds". Clamped to the supported range;
+ * undefined when there is no positive number.
+ */
+export function parseShotDuration(value: unknown): number | undefined {
+  const seconds = typeof value === 'number'
+    ? value
+    : typeof value === 'string' ? parseFloat(value) : NaN;
+  if (!Number.isFinite(seconds) || seconds <= 0) return undefined;
+  return clampDuration(seconds);
+}
+
+/**
+ * Length to read `subtitle` aloud, used when the story model suggests none
+ */
+export function suggestShotDuration(subtitle: string | undefined): number {
+  const words = (subtitle || '').trim().split(/\s+/).filter(Boolean).length;
+  if (words === 0) return DEFAULT_SHOT_DURATION;
+  return clampDuration(Math.ceil(words / NARRATION_WORDS_PER_SECOND + NARRATION_PAUSE_SECONDS));
+}
+
+export function getShotDuration(shot: Pick<Shot, 'duration'>): number {
+  return shot.duration ?? DEFAULT_SHOT_DURATION;
+}
+
+/**
+ * Short label for display, e.g. "5s" or "7.5s"
+ */
+export function formatShotDuration(seconds: number): string {
+  return `${Number.isInteger(seconds) ? seconds : seconds.toFixed(1)}s`;
+}
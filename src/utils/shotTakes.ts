@@ -0,0 +1,62 @@
+/**
+ * Per-shot generation takes
+ * Every generated image, animation and narration is kept as a take on the
+ * shot; the matching Shot URL field always points at the active take
+ */
+
+import { Shot, ShotTake, TakeKind } from '@/stores/StoryStore';
+
+export const TAKE_URL_FIELDS: Record<TakeKind, 'imageUrl' | 'animationUrl' | 'audioUrl'> = {
+  image: 'imageUrl',
+  animation: 'animationUrl',
+  audio: 'audioUrl',
+};
+
+function generateTakeId(): string {
+  return `take-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Build a take from a generation result or an uploaded file
+ */
+export function createTake(
+  kind: TakeKind,
+  url: string,
+  details: Pick<ShotTake, 'model' | 'prompt' | 'seed' | 'source' | 'fileName'> = {}
+): ShotTake {
+  return {
+    id: generateTakeId(),
+    kind,
+    url,
+    ...(details.model ? { model: details.model } : {}),
+    ...(details.prompt ? { prompt: details.prompt } : {}),
+    ...(typeof details.seed === 'number' ? { seed: details.seed } : {}),
+    ...(details.source === 'uploaded' ? { source: details.source } : {}),
+    ...(details.fileName ? { fileName: details.fileName } : {}),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Takes of one kind, oldest first
+ * A URL set before takes existed is reported as an untracked take so it
+ * shows up in the list and is not lost on the next regenerate
+ */
+export function getTakes(shot: Shot, kind: TakeKind): ShotTake[] {
+  const takes = (shot.takes || []).filter(take => take.kind === kind);
+  const activeUrl = shot[TAKE_URL_FIELDS[kind]];
+
+  if (activeUrl && !takes.some(take => take.url === activeUrl)) {
+    return [{ id: `legacy-${kind}-${shot.id}`, kind, url: activeUrl, createdAt: 0 }, ...takes];
+  }
+
+  return takes;
+}
+
+/**
+ * The take the shot currently uses, if any
+ */
+export function getActiveTake(shot: Shot, kind: TakeKind): ShotTake | undefined {
+  const activeUrl = shot[TAKE_URL_FIELDS[kind]];
+  return activeUrl ? getTakes(shot, kind).find(take => take.url === activeUrl) : undefined;
+}
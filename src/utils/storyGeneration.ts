@@ -0,0 +1,179 @@
+/**
+ * Story generation helpers shared by the regular and streaming
+ * /api/generate-story routes
+ */
+
+import { TextCompletionRequest, TextProvider } from '@/lib/llm';
+import {
+  parseAndValidateStory,
+  buildRepairPrompt,
+  StoryValidationError,
+  StoryValidationResult,
+} from './storySchema';
+import { CAMERA_ANGLES, CAMERA_MOVEMENTS, LENS_TYPES, SHOT_SIZES } from './camera';
+import { MAX_SHOT_DURATION, MIN_SHOT_DURATION } from './shotDuration';
+
+// How many times the model may fix its own output before we give up
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * System prompt describing the story JSON format
+ */
+export function buildStorySystemPrompt(style: string): string {
+  return `You are a professional storytelling assistant. Generate a complete story structure in JSON format based on the user's prompt.
+
+The story should include:
+1. A compelling title
+2. A brief synopsis (2-3 sentences)
+3. 2-4 main characters with detailed descriptions
+4. 2-4 scenes, each with 2-4 shots
+
+Each shot should have:
+- A subtitle (narration or dialogue)
+- A detailed location description
+- A detailed visual content description for image generation
+- Camera direction: shot size, camera angle, camera movement, lens and mood
+- A duration in seconds
+
+CRITICAL: Return ONLY valid JSON. Do NOT include any explanatory text, markdown formatting, or comments. Start directly with { and end with }.
+
+Return in this exact format:
+{
+  "title": "Story Title",
+  "synopsis": "Brief story description...",
+  "characters": [
+    {
+      "name": "Character Name",
+      "description": "Brief description",
+      "prompt": "Detailed visual description for image generation (appearance, clothing, style, etc.)"
+    }
+  ],
+  "scenes": [
+    {
+      "title": "Scene Title",
+      "description": "Scene description",
+      "shots": [
+        {
+          "subtitle": "Narration or dialogue",
+          "location": "Detailed location description",
+          "content": "Detailed visual content (what happens, lighting, characters present, actions, etc.)",
+          "camera": {
+            "size": "medium",
+            "angle": "eye-level",
+            "movement": "dolly-in",
+            "lens": "normal",
+            "mood": "Mood and lighting in a few words"
+          },
+          "duration": 5
+        }
+      ]
+    }
+  ]
+}
+
+Important:
+- Make descriptions vivid and visual
+- Include character names using @CharacterName format in content
+- Ensure continuity between shots
+- Vary the camera like a film director would: establish places with wide shots, use close-ups for emotion, and move the camera to follow the action
+- Give each shot a duration between ${MIN_SHOT_DURATION} and ${MAX_SHOT_DURATION} seconds, long enough to read its subtitle aloud calmly; quiet establishing shots can be short
+- Camera values must be one of:
+  - size: ${SHOT_SIZES.join(', ')}
+  - angle: ${CAMERA_ANGLES.join(', ')}
+  - movement: ${CAMERA_MOVEMENTS.join(', ')}
+  - lens: ${LENS_TYPES.join(', ')}
+- Match the style: ${style}
+- Keep it concise but complete (aim for 8-12 total shots)`;
+}
+
+/**
+ * Build the chat request for story generation
+ */
+export function buildStoryRequest(options: {
+  modelId: string;
+  prompt: string;
+  style: string;
+  temperature: number;
+  maxTokens: number;
+}): TextCompletionRequest {
+  const { modelId, prompt, style, temperature, maxTokens } = options;
+
+  return {
+    model: modelId,
+    messages: [
+      { role: 'system', content: buildStorySystemPrompt(style) },
+      { role: 'user', content: prompt },
+    ],
+    temperature,
+    maxTokens,
+    jsonMode: true,
+    task: 'story',
+  };
+}
+
+export interface RepairableResult {
+  valid: boolean;
+  errors: StoryValidationError[];
+}
+
+/**
+ * Run a completion, validate it and send the errors back until it passes
+ * Pass `firstResponse` when the initial completion was already received
+ * (e.g. streamed), so only repair rounds hit the API here
+ */
+export async function completeWithRepair<T extends RepairableResult>(
+  provider: TextProvider,
+  request: TextCompletionRequest,
+  validate: (responseText: string) => T,
+  buildRepair: (errors: StoryValidationError[]) => string,
+  firstResponse?: string,
+  onRepair?: (result: T, attempt: number) => void
+): Promise<T> {
+  const messages = [...request.messages];
+  let validation: T | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const responseText = attempt === 0 && firstResponse !== undefined
+      ? firstResponse
+      : await provider.complete({ ...request, messages });
+
+    console.log('Raw LLM response (first 200 chars):', responseText.substring(0, 200));
+
+    validation = validate(responseText);
+    if (validation.valid) break;
+
+    console.warn(
+      `Validation failed (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`,
+      validation.errors
+    );
+
+    if (attempt < MAX_REPAIR_ATTEMPTS) {
+      onRepair?.(validation, attempt + 1);
+      messages.push(
+        { role: 'assistant', content: responseText },
+        { role: 'user', content: buildRepair(validation.errors) }
+      );
+    }
+  }
+
+  return validation!;
+}
+
+/**
+ * Validate story output and let the model repair it
+ */
+export function completeStoryWithRepair(
+  provider: TextProvider,
+  request: TextCompletionRequest,
+  firstResponse?: string,
+  onRepair?: (result: StoryValidationResult, attempt: number) => void
+): Promise<StoryValidationResult> {
+  return completeWithRepair(
+    provider,
+    request,
+    parseAndValidateStory,
+    buildRepairPrompt,
+    firstResponse,
+    onRepair
+  );
+}
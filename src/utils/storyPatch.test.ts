@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import type { Shot, StoryData } from '@/stores/StoryStore';
+import { applyStoryPatch, reorderById, StoryEditor, StoryPatch, validateStoryPatch } from './storyPatch';
+
+const shot = (id: string, content = `Shot ${id}`): Shot => ({
+  id,
+  subtitle: `Line ${id}`,
+  location: 'Harbor',
+  content,
+  imageUrl: `asset://${id}`,
+});
+
+function makeStory(): StoryData {
+  return {
+    title: 'Patch',
+    synopsis: 'A story to patch',
+    characters: [],
+    scenes: [
+      { id: 's1', title: 'Arrival', description: '', shots: [shot('a'), shot('b')] },
+      { id: 's2', title: 'Departure', description: '', shots: [shot('c')] },
+    ],
+  };
+}
+
+// Plain editor doing what storyStore does
+function makeEditor(story: StoryData): StoryEditor {
+  const scene = (id: string) => story.scenes.find(s => s.id === id)!;
+  return {
+    story,
+    updateScene: (id, updates) => Object.assign(scene(id), updates),
+    insertScene: (newScene, index) => story.scenes.splice(index, 0, newScene),
+    removeScene: id => {
+      story.scenes = story.scenes.filter(s => s.id !== id);
+    },
+    reorderScenes: ids => {
+      story.scenes = reorderById(story.scenes, ids);
+    },
+    updateShot: (sceneId, shotId, updates) => Object.assign(scene(sceneId).shots.find(s => s.id === shotId)!, updates),
+    insertShot: (sceneId, newShot, index) => scene(sceneId).shots.splice(index, 0, newShot),
+    removeShot: (sceneId, shotId) => {
+      scene(sceneId).shots = scene(sceneId).shots.filter(s => s.id !== shotId);
+    },
+    reorderShots: (sceneId, shotIds) => {
+      scene(sceneId).shots = reorderById(scene(sceneId).shots, shotIds);
+    },
+  };
+}
+
+const newShot = { subtitle: 'New line', location: 'Pier', content: 'A gull lands' };
+
+describe('reorderById', () => {
+  it('follows the IDs, ignores unknown ones and keeps the rest at the end', () => {
+    const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+    expect(reorderById(items, ['c', 'x', 'a']).map(item => item.id)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('validateStoryPatch', () => {
+  it('accepts a valid patch and keeps only known fields', () => {
+    const result = validateStoryPatch({
+      summary: 'Tighten the opening',
+      operations: [
+        { op: 'update_shot', sceneId: 's1', shotId: 'a', changes: { content: 'Fog rolls in', imageUrl: 'x', duration: '6s' } },
+        { op: 'add_shot', sceneId: 's2', afterShotId: 'c', shot: newShot },
+      ],
+    }, makeStory());
+
+    expect(result.valid).toBe(true);
+    expect(result.patch?.operations[0]).toEqual({
+      op: 'update_shot',
+      sceneId: 's1',
+      shotId: 'a',
+      changes: { content: 'Fog rolls in', duration: 6 },
+    });
+  });
+
+  it('rejects a patch without operations', () => {
+    expect(validateStoryPatch({ summary: 'Nothing' }, makeStory()).errors[0].code).toBe('missing_field');
+  });
+
+  it('rejects unknown IDs and operations', () => {
+    const { valid, errors } = validateStoryPatch({
+      operations: [
+        { op: 'update_scene', sceneId: 'nope', changes: { title: 'X' } },
+        { op: 'remove_shot', sceneId: 's1', shotId: 'c' },
+        { op: 'rewrite_everything' },
+      ],
+    }, makeStory());
+
+    expect(valid).toBe(false);
+    expect(errors.map(error => [error.path, error.code])).toEqual([
+      ['operations[0].sceneId', 'unknown_id'],
+      ['operations[1].shotId', 'unknown_id'],
+      ['operations[2].op', 'invalid_operation'],
+    ]);
+  });
+
+  it('checks IDs in operation order', () => {
+    const { errors } = validateStoryPatch({
+      operations: [
+        { op: 'remove_shot', sceneId: 's1', shotId: 'a' },
+        { op: 'update_shot', sceneId: 's1', shotId: 'a', changes: { content: 'Too late' } },
+      ],
+    }, makeStory());
+
+    expect(errors).toEqual([expect.objectContaining({ path: 'operations[1].shotId', code: 'unknown_id' })]);
+  });
+
+  it('rejects emptied required text', () => {
+    const { errors } = validateStoryPatch({
+      operations: [
+        { op: 'update_shot', sceneId: 's1', shotId: 'a', changes: { content: '  ', subtitle: '' } },
+        { op: 'update_scene', sceneId: 's2', changes: { title: '', description: '' } },
+        { op: 'add_shot', sceneId: 's2', shot: { ...newShot, location: '' } },
+      ],
+    }, makeStory());
+
+    expect(errors.map(error => [error.path, error.code])).toEqual([
+      ['operations[0].changes.subtitle', 'empty_value'],
+      ['operations[0].changes.content', 'empty_value'],
+      ['operations[1].changes.title', 'empty_value'],
+      ['operations[2].shot', 'missing_field'],
+    ]);
+  });
+
+  it('rejects removing the last shot of a scene unless one is added', () => {
+    const removeLast = { op: 'remove_shot', sceneId: 's2', shotId: 'c' };
+
+    expect(validateStoryPatch({ operations: [removeLast] }, makeStory()).errors).toEqual([
+      expect.objectContaining({ path: 'operations[0]', code: 'too_few_items' }),
+    ]);
+    expect(validateStoryPatch({
+      operations: [removeLast, { op: 'add_shot', sceneId: 's2', shot: newShot }],
+    }, makeStory()).valid).toBe(true);
+  });
+
+  it('rejects removing every scene unless one is added', () => {
+    const removeAll = [
+      { op: 'remove_scene', sceneId: 's1' },
+      { op: 'remove_scene', sceneId: 's2' },
+    ];
+
+    expect(validateStoryPatch({ operations: removeAll }, makeStory()).errors).toEqual([
+      expect.objectContaining({ path: 'operations[1]', code: 'too_few_items' }),
+    ]);
+    expect(validateStoryPatch({
+      operations: [...removeAll, { op: 'add_scene', scene: { title: 'Fresh start', shots: [newShot] } }],
+    }, makeStory()).valid).toBe(true);
+  });
+
+  it('rejects a new scene without a title or shots', () => {
+    const { errors } = validateStoryPatch({
+      operations: [
+        { op: 'add_scene', scene: { title: '', shots: [newShot] } },
+        { op: 'add_scene', scene: { title: 'Empty', shots: [] } },
+      ],
+    }, makeStory());
+
+    expect(errors.map(error => error.code)).toEqual(['missing_field', 'too_few_items']);
+  });
+});
+
+describe('applyStoryPatch', () => {
+  it('edits, adds, removes and reorders while keeping untouched shots', () => {
+    const story = makeStory();
+    const untouched = story.scenes[1].shots[0];
+    const patch: StoryPatch = {
+      summary: '',
+      operations: [
+        { op: 'update_scene', sceneId: 's1', changes: { title: 'Landing' } },
+        { op: 'update_shot', sceneId: 's1', shotId: 'a', changes: { content: 'Fog rolls in' } },
+        { op: 'add_shot', sceneId: 's1', afterShotId: 'a', shot: newShot },
+        { op: 'remove_shot', sceneId: 's1', shotId: 'b' },
+        { op: 'add_scene', afterSceneId: 's1', scene: { title: 'Storm', description: '', shots: [newShot] } },
+        { op: 'reorder_scenes', sceneIds: ['s2', 's1'] },
+      ],
+    };
+
+    applyStoryPatch(makeEditor(story), patch);
+
+    expect(story.scenes.map(scene => scene.title)).toEqual(['Departure', 'Landing', 'Storm']);
+    const landing = story.scenes[1];
+    expect(landing.shots.map(s => s.content)).toEqual(['Fog rolls in', 'A gull lands']);
+    expect(landing.shots[0]).toMatchObject({ id: 'a', imageUrl: 'asset://a' });
+    expect(landing.shots[1].id).toEqual(expect.any(String));
+    expect(landing.shots[1].id).not.toBe('a');
+    expect(story.scenes[0].shots[0]).toBe(untouched);
+    expect(story.scenes[2].shots[0].id).toEqual(expect.any(String));
+  });
+
+  it('appends shots and scenes without an anchor', () => {
+    const story = makeStory();
+    applyStoryPatch(makeEditor(story), {
+      summary: '',
+      operations: [
+        { op: 'add_shot', sceneId: 's1', shot: newShot },
+        { op: 'add_scene', scene: { title: 'Epilogue', description: '', shots: [newShot] } },
+        { op: 'reorder_shots', sceneId: 's1', shotIds: ['b'] },
+      ],
+    });
+
+    expect(story.scenes[0].shots.map(s => s.content)).toEqual(['Shot b', 'Shot a', 'A gull lands']);
+    expect(story.scenes[2].title).toBe('Epilogue');
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Structured story patches
+ * /api/refine-story answers with a list of operations on scenes and shots
+ * instead of a whole new story, so untouched shots (and their images,
+ * animations and audio) keep their IDs
+ */
+
+import { Scene, Shot, StoryData } from '@/stores/StoryStore';
+import { generateSceneId, generateShotId } from './idGenerator';
+import { SCENE_SCHEMA, SHOT_SCHEMA, StoryValidationError } from './storySchema';
+import { parseShotCamera } from './camera';
+import { parseShotDuration } from './shotDuration';
+
+export type ShotFields = Pick<Shot, 'subtitle' | 'location' | 'content' | 'camera' | 'duration'>;
+export type SceneFields = Pick<Scene, 'title' | 'description'>;
+
+export type StoryPatchOperation =
+  | { op: 'update_scene'; sceneId: string; changes: Partial<SceneFields> }
+  | { op: 'add_scene'; afterSceneId?: string | null; scene: SceneFields & { shots: ShotFields[] } }
+  | { op: 'remove_scene'; sceneId: string }
+  | { op: 'reorder_scenes'; sceneIds: string[] }
+  | { op: 'update_shot'; sceneId: string; shotId: string; changes: Partial<ShotFields> }
+  | { op: 'add_shot'; sceneId: string; afterShotId?: string | null; shot: ShotFields }
+  | { op: 'remove_shot'; sceneId: string; shotId: string }
+  | { op: 'reorder_shots'; sceneId: string; shotIds: string[] };
+
+export interface StoryPatch {
+  summary: string;
+  operations: StoryPatchOperation[];
+}
+
+export interface StoryPatchValidationResult {
+  valid: boolean;
+  errors: StoryValidationError[];
+  patch?: StoryPatch;
+}
+
+/**
+ * Mutations a patch needs; implemented by storyStore
+ */
+export interface StoryEditor {
+  story: StoryData;
+  updateScene(sceneId: string, updates: Partial<Scene>): void;
+  insertScene(scene: Scene, index: number): void;
+  removeScene(sceneId: string): void;
+  reorderScenes(sceneIds: string[]): void;
+  updateShot(sceneId: string, shotId: string, updates: Partial<Shot>): void;
+  insertShot(sceneId: string, shot: Shot, index: number): void;
+  removeShot(sceneId: string, shotId: string): void;
+  reorderShots(sceneId: string, shotIds: string[]): void;
+}
+
+const SHOT_FIELDS: ('subtitle' | 'location' | 'content')[] = ['subtitle', 'location', 'content'];
+const SCENE_FIELDS: (keyof SceneFields)[] = ['title', 'description'];
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function pickFields<K extends string>(source: any, fields: K[]): Partial<Record<K, string>> {
+  const result: Partial<Record<K, string>> = {};
+  fields.forEach(field => {
+    if (typeof source?.[field] === 'string') {
+      result[field] = source[field];
+    }
+  });
+  return result;
+}
+
+/**
+ * Text fields of a shot plus its camera direction and duration, if usable
+ */
+function pickShotFields(source: any): Partial<ShotFields> {
+  const camera = parseShotCamera(source?.camera);
+  const duration = parseShotDuration(source?.duration);
+  return {
+    ...pickFields(source, SHOT_FIELDS),
+    ...(camera ? { camera } : {}),
+    ...(duration ? { duration } : {}),
+  };
+}
+
+/**
+ * Reorder `items` to follow `ids`; unknown IDs are ignored and
+ * items missing from `ids` keep their relative order at the end
+ */
+export function reorderById<T extends { id: string }>(items: T[], ids: string[]): T[] {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const ordered = ids
+    .map(id => byId.get(id))
+    .filter((item): item is T => !!item);
+  const rest = items.filter(item => !ids.includes(item.id));
+  return [...ordered, ...rest];
+}
+
+/**
+ * Check a patch returned by the model against the current story
+ * Every referenced scene/shot ID must exist at the point the operation runs,
+ * and the patched story must still pass the story schema: no emptied text,
+ * at least one scene and at least one shot per scene
+ */
+export function validateStoryPatch(data: any, story: StoryData): StoryPatchValidationResult {
+  const errors: StoryValidationError[] = [];
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.operations)) {
+    errors.push({
+      path: 'operations',
+      code: 'missing_field',
+      message: '"operations" must be an array',
+    });
+    return { valid: false, errors };
+  }
+
+  // Track IDs as operations are applied in order; added shots and scenes
+  // have no ID yet, so they are only counted
+  const scenes = new Map<string, Set<string>>(
+    story.scenes.map(scene => [scene.id, new Set(scene.shots.map(shot => shot.id))])
+  );
+  const addedShots = new Map<string, number>();
+  const lastShotRemovals = new Map<string, string>();
+  let addedScenes = 0;
+  let lastSceneRemoval = 'operations';
+  const operations: StoryPatchOperation[] = [];
+
+  const requireScene = (path: string, sceneId: unknown): boolean => {
+    if (typeof sceneId === 'string' && scenes.has(sceneId)) return true;
+    errors.push({ path, code: 'unknown_id', message: `Scene "${sceneId}" does not exist` });
+    return false;
+  };
+
+  const requireShot = (path: string, sceneId: string, shotId: unknown): boolean => {
+    if (typeof shotId === 'string' && scenes.get(sceneId)?.has(shotId)) return true;
+    errors.push({ path, code: 'unknown_id', message: `Shot "${shotId}" does not exist in scene "${sceneId}"` });
+    return false;
+  };
+
+  const requireShotFields = (path: string, shot: any): boolean => {
+    const missing = SHOT_FIELDS.filter(field => !isText(shot?.[field]));
+    if (missing.length === 0) return true;
+    errors.push({ path, code: 'missing_field', message: `Shot needs non-empty ${missing.join(', ')}` });
+    return false;
+  };
+
+  // Changes may leave a field out, but not empty one the schema needs
+  const requireNonEmptyChanges = (path: string, changes: any, schema: typeof SHOT_SCHEMA): boolean => {
+    const emptied = Object.keys(schema).filter(field =>
+      schema[field].nonEmpty && typeof changes?.[field] === 'string' && !isText(changes[field])
+    );
+    emptied.forEach(field => {
+      errors.push({ path: `${path}.${field}`, code: 'empty_value', message: `"${field}" cannot be empty` });
+    });
+    return emptied.length === 0;
+  };
+
+  data.operations.forEach((raw: any, index: number) => {
+    const path = `operations[${index}]`;
+
+    switch (raw?.op) {
+      case 'update_scene':
+        if (requireScene(`${path}.sceneId`, raw.sceneId) && requireNonEmptyChanges(`${path}.changes`, raw.changes, SCENE_SCHEMA)) {
+          operations.push({ op: 'update_scene', sceneId: raw.sceneId, changes: pickFields(raw.changes, SCENE_FIELDS) });
+        }
+        break;
+
+      case 'add_scene': {
+        const scene = raw.scene;
+        if (raw.afterSceneId && !requireScene(`${path}.afterSceneId`, raw.afterSceneId)) break;
+        if (!isText(scene?.title)) {
+          errors.push({ path: `${path}.scene.title`, code: 'missing_field', message: 'New scene needs a title' });
+          break;
+        }
+        if (!Array.isArray(scene.shots) || scene.shots.length === 0) {
+          errors.push({ path: `${path}.scene.shots`, code: 'too_few_items', message: 'New scene needs at least one shot' });
+          break;
+        }
+        if (!scene.shots.every((shot: any, i: number) => requireShotFields(`${path}.scene.shots[${i}]`, shot))) break;
+        addedScenes++;
+        operations.push({
+          op: 'add_scene',
+          afterSceneId: raw.afterSceneId || null,
+          scene: {
+            title: scene.title,
+            description: typeof scene.description === 'string' ? scene.description : '',
+            shots: scene.shots.map((shot: any) => pickShotFields(shot) as ShotFields),
+          },
+        });
+        break;
+      }
+
+      case 'remove_scene':
+        if (requireScene(`${path}.sceneId`, raw.sceneId)) {
+          scenes.delete(raw.sceneId);
+          lastSceneRemoval = path;
+          operations.push({ op: 'remove_scene', sceneId: raw.sceneId });
+        }
+        break;
+
+      case 'reorder_scenes':
+        if (!Array.isArray(raw.sceneIds)) {
+          errors.push({ path: `${path}.sceneIds`, code: 'invalid_type', message: '"sceneIds" must be an array' });
+        } else if (raw.sceneIds.every((id: unknown, i: number) => requireScene(`${path}.sceneIds[${i}]`, id))) {
+          operations.push({ op: 'reorder_scenes', sceneIds: raw.sceneIds });
+        }
+        break;
+
+      case 'update_shot':
+        if (
+          requireScene(`${path}.sceneId`, raw.sceneId) &&
+          requireShot(`${path}.shotId`, raw.sceneId, raw.shotId) &&
+          requireNonEmptyChanges(`${path}.changes`, raw.changes, SHOT_SCHEMA)
+        ) {
+          operations.push({
+            op: 'update_shot',
+            sceneId: raw.sceneId,
+            shotId: raw.shotId,
+            changes: pickShotFields(raw.changes),
+          });
+        }
+        break;
+
+      case 'add_shot':
+        if (!requireScene(`${path}.sceneId`, raw.sceneId)) break;
+        if (raw.afterShotId && !requireShot(`${path}.afterShotId`, raw.sceneId, raw.afterShotId)) break;
+        if (!requireShotFields(`${path}.shot`, raw.shot)) break;
+        addedShots.set(raw.sceneId, (addedShots.get(raw.sceneId) || 0) + 1);
+        operations.push({
+          op: 'add_shot',
+          sceneId: raw.sceneId,
+          afterShotId: raw.afterShotId || null,
+          shot: pickShotFields(raw.shot) as ShotFields,
+        });
+        break;
+
+      case 'remove_shot':
+        if (requireScene(`${path}.sceneId`, raw.sceneId) && requireShot(`${path}.shotId`, raw.sceneId, raw.shotId)) {
+          scenes.get(raw.sceneId)!.delete(raw.shotId);
+          lastShotRemovals.set(raw.sceneId, path);
+          operations.push({ op: 'remove_shot', sceneId: raw.sceneId, shotId: raw.shotId });
+        }
+        break;
+
+      case 'reorder_shots':
+        if (!requireScene(`${path}.sceneId`, raw.sceneId)) break;
+        if (!Array.isArray(raw.shotIds)) {
+          errors.push({ path: `${path}.shotIds`, code: 'invalid_type', message: '"shotIds" must be an array' });
+        } else if (raw.shotIds.every((id: unknown, i: number) => requireShot(`${path}.shotIds[${i}]`, raw.sceneId, id))) {
+          operations.push({ op: 'reorder_shots', sceneId: raw.sceneId, shotIds: raw.shotIds });
+        }
+        break;
+
+      default:
+        errors.push({
+          path: `${path}.op`,
+          code: 'invalid_operation',
+          message: `Unknown operation "${raw?.op}"`,
+        });
+    }
+  });
+
+  scenes.forEach((shots, sceneId) => {
+    if (shots.size + (addedShots.get(sceneId) || 0) === 0) {
+      errors.push({
+        path: lastShotRemovals.get(sceneId) || 'operations',
+        code: 'too_few_items',
+        message: `Scene "${sceneId}" would have no shots left; remove the scene instead`,
+      });
+    }
+  });
+  if (scenes.size + addedScenes === 0) {
+    errors.push({ path: lastSceneRemoval, code: 'too_few_items', message: 'The story needs at least one scene' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors,
+    patch: {
+      summary: typeof data.summary === 'string' ? data.summary : '',
+      operations,
+    },
+  };
+}
+
+/**
+ * Apply a validated patch through an editor
+ * Existing shots are updated in place so their IDs and media are kept;
+ * only added shots and scenes get new IDs
+ */
+export function applyStoryPatch(editor: StoryEditor, patch: StoryPatch): void {
+  const sceneIndex = (sceneId: string) => editor.story.scenes.findIndex(s => s.id === sceneId);
+  const shotIndex = (sceneId: string, shotId: string) =>
+    editor.story.scenes.find(s => s.id === sceneId)?.shots.findIndex(s => s.id === shotId) ?? -1;
+
+  patch.operations.forEach(operation => {
+    switch (operation.op) {
+      case 'update_scene':
+        editor.updateScene(operation.sceneId, operation.changes);
+        break;
+      case 'add_scene': {
+        const index = operation.afterSceneId ? sceneIndex(operation.afterSceneId) + 1 : editor.story.scenes.length;
+        editor.insertScene({
+          id: generateSceneId(),
+          title: operation.scene.title,
+          description: operation.scene.description,
+          shots: operation.scene.shots.map(shot => ({ id: generateShotId(), ...shot })),
+        }, index);
+        break;
+      }
+      case 'remove_scene':
+        editor.removeScene(operation.sceneId);
+        break;
+      case 'reorder_scenes':
+        editor.reorderScenes(operation.sceneIds);
+        break;
+      case 'update_shot':
+        editor.updateShot(operation.sceneId, operation.shotId, operation.changes);
+        break;
+      case 'add_shot': {
+        const scene = editor.story.scenes.find(s => s.id === operation.sceneId);
+        const index = operation.afterShotId
+          ? shotIndex(operation.sceneId, operation.afterShotId) + 1
+          : scene?.shots.length ?? 0;
+        editor.insertShot(operation.sceneId, { id: generateShotId(), ...operation.shot }, index);
+        break;
+      }
+      case 'remove_shot':
+        editor.removeShot(operation.sceneId, operation.shotId);
+        break;
+      case 'reorder_shots':
+        editor.reorderShots(operation.sceneId, operation.shotIds);
+        break;
+    }
+  });
+}
+
+/**
+ * Story text sent to the model: IDs and editable fields only, no media URLs
+ */
+export function toRefinementContext(story: StoryData) {
+  return {
+    title: story.title,
+    synopsis: story.synopsis,
+    characters: story.characters.map(c => ({ name: c.name, description: c.description })),
+    scenes: story.scenes.map(scene => ({
+      id: scene.id,
+      title: scene.title,
+      description: scene.description,
+      shots: scene.shots.map(shot => ({
+        id: shot.id,
+        subtitle: shot.subtitle,
+        location: shot.location,
+        content: shot.content,
+        ...(shot.camera ? { camera: shot.camera } : {}),
+        ...(shot.duration ? { duration: shot.duration } : {}),
+      })),
+    })),
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Story refinement helpers for /api/refine-story
+ * The model gets the current story with IDs plus an instruction and answers
+ * with a StoryPatch, which is validated against the story before use
+ */
+
+import { TextCompletionRequest } from '@/lib/llm';
+import { StoryData } from '@/stores/StoryStore';
+import { extractJsonText, StoryValidationError } from './storySchema';
+import {
+  StoryPatchValidationResult,
+  toRefinementContext,
+  validateStoryPatch,
+} from './storyPatch';
+
+export interface RefineFocus {
+  sceneId?: string;
+  shotId?: string;
+}
+
+export interface RefineStoryErrorResponse {
+  error: string;
+  validationErrors?: StoryValidationError[];
+}
+
+const REFINE_SYSTEM_PROMPT = `You are a story editor for a storyboard tool. You receive a story as JSON (scenes and shots have IDs) and an instruction from the user. Answer with the smallest set of edits that carries out the instruction.
+
+CRITICAL: Return ONLY valid JSON. Do NOT include any explanatory text, markdown formatting, or comments.
+
+Return in this exact format:
+{
+  "summary": "One sentence describing the edit",
+  "operations": [ ... ]
+}
+
+Available operations:
+- {"op": "update_scene", "sceneId": "...", "changes": {"title"?: "...", "description"?: "..."}}
+- {"op": "add_scene", "afterSceneId": "..." or null for the end, "scene": {"title": "...", "description": "...", "shots": [{"subtitle": "...", "location": "...", "content": "..."}]}}
+- {"op": "remove_scene", "sceneId": "..."}
+- {"op": "reorder_scenes", "sceneIds": ["...", "..."]}
+- {"op": "update_shot", "sceneId": "...", "shotId": "...", "changes": {"subtitle"?: "...", "location"?: "...", "content"?: "...", "camera"?: {...}, "duration"?: 5}}
+- {"op": "add_shot", "sceneId": "...", "afterShotId": "..." or null for the end, "shot": {"subtitle": "...", "location": "...", "content": "..."}}
+- {"op": "remove_shot", "sceneId": "...", "shotId": "..."}
+- {"op": "reorder_shots", "sceneId": "...", "shotIds": ["...", "..."]}
+
+Important:
+- Only use IDs that appear in the story
+- Never set a title, subtitle, location or content to an empty string; every scene keeps at least one shot and the story at least one scene
+- Prefer update_shot over removing and re-adding a shot, so existing images and videos are kept
+- To split a shot, update the original shot and add the new one right after it
+- Keep @CharacterName mentions for characters that appear in a shot
+- A shot's "camera" has "size", "angle", "movement", "lens" and "mood"; when changing it, send the whole camera object, using values like those already in the story
+- A shot's "duration" is its length in seconds; when a subtitle gets longer or shorter, adjust it so the subtitle can still be read aloud
+- Leave everything the instruction does not ask for unchanged`;
+
+/**
+ * Build the chat request for a refinement
+ */
+export function buildRefineRequest(options: {
+  modelId: string;
+  story: StoryData;
+  instruction: string;
+  focus?: RefineFocus;
+  temperature: number;
+  maxTokens: number;
+}): TextCompletionRequest {
+  const { modelId, story, instruction, focus, temperature, maxTokens } = options;
+
+  const userMessage = JSON.stringify({
+    story: toRefinementContext(story),
+    instruction,
+    ...(focus?.sceneId || focus?.shotId ? { focus } : {}),
+  }, null, 2);
+
+  return {
+    model: modelId,
+    messages: [
+      { role: 'system', content: REFINE_SYSTEM_PROMPT },
+      { role: 'user', content: userMessage },
+    ],
+    temperature,
+    maxTokens,
+    jsonMode: true,
+    task: 'refine',
+  };
+}
+
+/**
+ * Parse raw LLM output and validate it as a patch for `story`
+ */
+export function parseAndValidatePatch(responseText: string, story: StoryData): StoryPatchValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJsonText(responseText));
+  } catch (parseError: any) {
+    return {
+      valid: false,
+      errors: [{
+        path: '',
+        code: 'invalid_json',
+        message: `Response is not valid JSON: ${parseError.message}`,
+      }],
+    };
+  }
+
+  return validateStoryPatch(data, story);
+}
+
+/**
+ * Build the follow-up message that asks the model to fix its patch
+ */
+export function buildPatchRepairPrompt(errors: StoryValidationError[]): string {
+  const list = errors
+    .map(e => `- ${e.path || '(root)'}: ${e.message}`)
+    .join('\n');
+
+  return `Your previous response was not a valid patch for this story. Fix these problems:
+${list}
+
+Return the complete corrected patch as ONLY valid JSON in the same format, using only scene and shot IDs from the story.`;
+}
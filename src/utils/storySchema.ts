@@ -0,0 +1,321 @@
+/**
+ * Story schema validation
+ * Checks LLM output against the StoryData / Scene / Shot / Character shape
+ * and reports problems as a typed list that can be fed back to the model
+ */
+
+import { Character, Scene, Shot, StoryData } from '@/stores/StoryStore';
+import { findUnknownMentions } from './mentions';
+import { parseShotCamera } from './camera';
+import { parseShotDuration, suggestShotDuration } from './shotDuration';
+
+export type StoryValidationCode =
+  | 'invalid_json'
+  | 'missing_field'
+  | 'invalid_type'
+  | 'empty_value'
+  | 'too_few_items'
+  | 'duplicate_character'
+  | 'unknown_character'
+  | 'unknown_id'
+  | 'invalid_operation';
+
+export interface StoryValidationError {
+  path: string;               // e.g. "scenes[1].shots[0].content"
+  code: StoryValidationCode;
+  message: string;
+}
+
+export interface StoryValidationResult {
+  valid: boolean;
+  errors: StoryValidationError[];
+  story?: StoryData;          // Normalized story, only set when valid
+}
+
+export interface GenerateStoryErrorResponse {
+  error: string;
+  validationErrors?: StoryValidationError[];
+}
+
+interface FieldSchema {
+  type: 'string' | 'array' | 'object';
+  required?: boolean;
+  nonEmpty?: boolean;         // Strings must have non-whitespace content
+  minItems?: number;          // Arrays must have at least this many items
+  items?: ObjectSchema;       // Schema for array items
+}
+
+type ObjectSchema = Record<string, FieldSchema>;
+
+export const CHARACTER_SCHEMA: ObjectSchema = {
+  name: { type: 'string', required: true, nonEmpty: true },
+  description: { type: 'string', required: true, nonEmpty: true },
+  prompt: { type: 'string' },
+};
+
+export const SHOT_SCHEMA: ObjectSchema = {
+  subtitle: { type: 'string', required: true, nonEmpty: true },
+  location: { type: 'string', required: true, nonEmpty: true },
+  content: { type: 'string', required: true, nonEmpty: true },
+};
+
+export const SCENE_SCHEMA: ObjectSchema = {
+  title: { type: 'string', required: true, nonEmpty: true },
+  description: { type: 'string', required: true },
+  shots: { type: 'array', required: true, minItems: 1, items: SHOT_SCHEMA },
+};
+
+export const STORY_SCHEMA: ObjectSchema = {
+  title: { type: 'string', required: true, nonEmpty: true },
+  synopsis: { type: 'string', required: true, nonEmpty: true },
+  characters: { type: 'array', required: true, items: CHARACTER_SCHEMA },
+  scenes: { type: 'array', required: true, minItems: 1, items: SCENE_SCHEMA },
+};
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function checkObject(
+  value: any,
+  schema: ObjectSchema,
+  path: string,
+  errors: StoryValidationError[]
+): void {
+  for (const [key, field] of Object.entries(schema)) {
+    const fieldPath = joinPath(path, key);
+    const fieldValue = value[key];
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (field.required) {
+        errors.push({
+          path: fieldPath,
+          code: 'missing_field',
+          message: `"${key}" is required`,
+        });
+      }
+      continue;
+    }
+
+    const actualType = typeOf(fieldValue);
+    if (actualType !== field.type) {
+      errors.push({
+        path: fieldPath,
+        code: 'invalid_type',
+        message: `"${key}" must be ${field.type === 'array' ? 'an' : 'a'} ${field.type}, got ${actualType}`,
+      });
+      continue;
+    }
+
+    if (field.type === 'string' && field.nonEmpty && !fieldValue.trim()) {
+      errors.push({
+        path: fieldPath,
+        code: 'empty_value',
+        message: `"${key}" must not be empty`,
+      });
+    }
+
+    if (field.type === 'array') {
+      if (field.minItems && fieldValue.length < field.minItems) {
+        errors.push({
+          path: fieldPath,
+          code: 'too_few_items',
+          message: `"${key}" must contain at least ${field.minItems} item(s)`,
+        });
+      }
+      if (field.items) {
+        fieldValue.forEach((item: any, index: number) => {
+          const itemPath = joinPath(fieldPath, index);
+          if (typeOf(item) !== 'object') {
+            errors.push({
+              path: itemPath,
+              code: 'invalid_type',
+              message: `Item must be an object, got ${typeOf(item)}`,
+            });
+            return;
+          }
+          checkObject(item, field.items!, itemPath, errors);
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Check that every @mention points at a defined character
+ */
+function checkMentions(story: any, errors: StoryValidationError[]): void {
+  const characters: Character[] = Array.isArray(story.characters)
+    ? story.characters.filter((c: any) => c && typeof c.name === 'string')
+    : [];
+
+  const seen = new Set<string>();
+  characters.forEach((character, index) => {
+    const key = character.name.trim().toLowerCase();
+    if (key && seen.has(key)) {
+      errors.push({
+        path: `characters[${index}].name`,
+        code: 'duplicate_character',
+        message: `Character "${character.name}" is defined more than once`,
+      });
+    }
+    seen.add(key);
+  });
+
+  if (!Array.isArray(story.scenes)) return;
+
+  story.scenes.forEach((scene: any, sceneIndex: number) => {
+    if (!scene || !Array.isArray(scene.shots)) return;
+    scene.shots.forEach((shot: any, shotIndex: number) => {
+      if (!shot || typeof shot.content !== 'string') return;
+      findUnknownMentions(shot.content, characters).forEach(name => {
+        errors.push({
+          path: `scenes[${sceneIndex}].shots[${shotIndex}].content`,
+          code: 'unknown_character',
+          message: `@${name} is mentioned but not defined in "characters"`,
+        });
+      });
+    });
+  });
+}
+
+/**
+ * Copy only the known fields so stray model output does not leak into the store
+ * Camera direction is optional and read leniently, so a malformed one is
+ * dropped rather than sent back for repair. A missing duration is estimated
+ * from the subtitle.
+ */
+function normalizeStory(data: any): StoryData {
+  return {
+    title: data.title.trim(),
+    synopsis: data.synopsis.trim(),
+    characters: data.characters.map((c: any): Character => ({
+      name: c.name.trim(),
+      description: c.description,
+      ...(c.prompt ? { prompt: c.prompt } : {}),
+    })),
+    scenes: data.scenes.map((scene: any): Scene => ({
+      id: scene.id,
+      title: scene.title,
+      description: scene.description,
+      shots: scene.shots.map((shot: any): Shot => {
+        const camera = parseShotCamera(shot.camera);
+        return {
+          id: shot.id,
+          subtitle: shot.subtitle,
+          location: shot.location,
+          content: shot.content,
+          ...(camera ? { camera } : {}),
+          duration: parseShotDuration(shot.duration) ?? suggestShotDuration(shot.subtitle),
+        };
+      }),
+    })),
+  };
+}
+
+/**
+ * Validate a parsed story object
+ */
+export function validateStory(data: unknown): StoryValidationResult {
+  const errors: StoryValidationError[] = [];
+
+  if (typeOf(data) !== 'object') {
+    errors.push({
+      path: '',
+      code: 'invalid_type',
+      message: `Story must be a JSON object, got ${typeOf(data)}`,
+    });
+    return { valid: false, errors };
+  }
+
+  checkObject(data, STORY_SCHEMA, '', errors);
+  checkMentions(data, errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, errors, story: normalizeStory(data) };
+}
+
+/**
+ * Extract a JSON object from raw LLM output
+ * Handles markdown code blocks, leading prose and trailing commas
+ */
+export function extractJsonText(responseText: string): string {
+  let jsonText = responseText.trim();
+
+  // Remove markdown code blocks if present
+  if (jsonText.includes('```json')) {
+    const parts = jsonText.split('```json');
+    if (parts.length > 1) {
+      jsonText = parts[1].split('```')[0].trim();
+    }
+  } else if (jsonText.includes('```')) {
+    const parts = jsonText.split('```');
+    if (parts.length > 1) {
+      jsonText = parts[1].split('```')[0].trim();
+    }
+  }
+
+  // Try to find JSON object if response starts with non-JSON text
+  if (!jsonText.startsWith('{')) {
+    const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      jsonText = jsonMatch[0];
+    }
+  }
+
+  // Fix trailing commas before closing brackets
+  jsonText = jsonText.replace(/,(\s*[}\]])/g, '$1');
+
+  // Remove potential BOM or invisible characters
+  jsonText = jsonText.replace(/^\uFEFF/, '');
+
+  return jsonText;
+}
+
+/**
+ * Parse raw LLM output and validate it as a story
+ * JSON syntax errors are reported as validation errors so they can be repaired too
+ */
+export function parseAndValidateStory(responseText: string): StoryValidationResult {
+  const jsonText = extractJsonText(responseText);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonText);
+  } catch (parseError: any) {
+    return {
+      valid: false,
+      errors: [{
+        path: '',
+        code: 'invalid_json',
+        message: `Response is not valid JSON: ${parseError.message}`,
+      }],
+    };
+  }
+
+  return validateStory(data);
+}
+
+/**
+ * Build the follow-up message that asks the model to fix its previous answer
+ */
+export function buildRepairPrompt(errors: StoryValidationError[]): string {
+  const list = errors
+    .map(e => `- ${e.path || '(root)'}: ${e.message}`)
+    .join('\n');
+
+  return `Your previous response did not match the required story format. Fix these problems:
+${list}
+
+Return the complete corrected story as ONLY valid JSON in the same format. Every shot needs non-empty "subtitle", "location" and "content", every scene needs at least one shot, and every @Name used in shot content must be defined in "characters".`;
+}
@@ -0,0 +1,128 @@
+/**
+ * Story streaming protocol
+ * /api/generate-story/stream answers with newline-delimited JSON events.
+ * The server turns partial LLM output into events with `createStoryEventMapper`,
+ * the client reads them back with `readStoryStream`.
+ */
+
+import { Character, Shot, StoryData } from '@/stores/StoryStore';
+import { JsonPath } from './streamingJson';
+import { StoryValidationError } from './storySchema';
+import { parseShotCamera } from './camera';
+import { parseShotDuration, suggestShotDuration } from './shotDuration';
+
+export type StoryStreamEvent =
+  | { type: 'meta'; title?: string; synopsis?: string }
+  | { type: 'character'; index: number; character: Character }
+  | { type: 'sceneInfo'; sceneIndex: number; title?: string; description?: string }
+  | { type: 'shot'; sceneIndex: number; shotIndex: number; shot: Omit<Shot, 'id'> }
+  | { type: 'repairing'; attempt: number; errors: StoryValidationError[] }
+  | { type: 'done'; story: StoryData }
+  | { type: 'error'; error: string; validationErrors?: StoryValidationError[] };
+
+export const STORY_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Map values reported by StreamingJsonScanner to stream events
+ * Shots are only emitted once all their required fields are present
+ */
+export function createStoryEventMapper(emit: (event: StoryStreamEvent) => void) {
+  return (path: JsonPath, value: unknown) => {
+    const [root, index, field, shotIndex] = path;
+
+    if (path.length === 1 && (root === 'title' || root === 'synopsis') && isText(value)) {
+      emit({ type: 'meta', [root]: value });
+      return;
+    }
+
+    if (root === 'characters' && path.length === 2 && typeof index === 'number') {
+      const c = value as any;
+      if (c && isText(c.name) && typeof c.description === 'string') {
+        emit({
+          type: 'character',
+          index,
+          character: {
+            name: c.name.trim(),
+            description: c.description,
+            ...(c.prompt ? { prompt: c.prompt } : {}),
+          },
+        });
+      }
+      return;
+    }
+
+    if (root !== 'scenes' || typeof index !== 'number') return;
+
+    if (path.length === 3 && (field === 'title' || field === 'description') && typeof value === 'string') {
+      emit({ type: 'sceneInfo', sceneIndex: index, [field]: value });
+      return;
+    }
+
+    if (path.length === 4 && field === 'shots' && typeof shotIndex === 'number') {
+      const s = value as any;
+      if (s && isText(s.subtitle) && isText(s.location) && isText(s.content)) {
+        const camera = parseShotCamera(s.camera);
+        emit({
+          type: 'shot',
+          sceneIndex: index,
+          shotIndex,
+          shot: {
+            subtitle: s.subtitle,
+            location: s.location,
+            content: s.content,
+            ...(camera ? { camera } : {}),
+            duration: parseShotDuration(s.duration) ?? suggestShotDuration(s.subtitle),
+          },
+        });
+      }
+    }
+  };
+}
+
+/**
+ * Serialize an event as one NDJSON line
+ */
+export function encodeStoryEvent(event: StoryStreamEvent): string {
+  return JSON.stringify(event) + '\n';
+}
+
+/**
+ * Read NDJSON events from a streaming response
+ */
+export async function readStoryStream(
+  response: Response,
+  onEvent: (event: StoryStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (line: string) => {
+    if (line.trim()) {
+      onEvent(JSON.parse(line));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      flush(buffer.slice(0, newlineIndex));
+      buffer = buffer.slice(newlineIndex + 1);
+    }
+  }
+
+  flush(buffer + decoder.decode());
+}
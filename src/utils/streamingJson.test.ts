@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { JsonPath, StreamingJsonScanner } from './streamingJson';
+
+function scan(chunks: string[]) {
+  const values: Array<[JsonPath, unknown]> = [];
+  const scanner = new StreamingJsonScanner((path, value) => values.push([path, value]));
+  chunks.forEach(chunk => scanner.push(chunk));
+  return { values, scanner };
+}
+
+const STORY = '{"title": "Fog", "scenes": [{"shots": [{"n": 1}, {"n": 2.5, "ok": true}]}], "extra": null}';
+
+describe('StreamingJsonScanner', () => {
+  it('reports every value with its path as soon as it is complete', () => {
+    const { values, scanner } = scan([STORY]);
+
+    expect(values).toEqual([
+      [['title'], 'Fog'],
+      [['scenes', 0, 'shots', 0, 'n'], 1],
+      [['scenes', 0, 'shots', 0], { n: 1 }],
+      [['scenes', 0, 'shots', 1, 'n'], 2.5],
+      [['scenes', 0, 'shots', 1, 'ok'], true],
+      [['scenes', 0, 'shots', 1], { n: 2.5, ok: true }],
+      [['scenes', 0, 'shots'], [{ n: 1 }, { n: 2.5, ok: true }]],
+      [['scenes', 0], { shots: [{ n: 1 }, { n: 2.5, ok: true }] }],
+      [['scenes'], [{ shots: [{ n: 1 }, { n: 2.5, ok: true }] }]],
+      [['extra'], null],
+      [[], JSON.parse(STORY)],
+    ]);
+    expect(scanner.isComplete()).toBe(true);
+  });
+
+  it('gives the same values however the text is split', () => {
+    const whole = scan([STORY]).values;
+
+    expect(scan(STORY.split('')).values).toEqual(whole);
+    expect(scan([STORY.slice(0, 17), STORY.slice(17, 40), STORY.slice(40)]).values).toEqual(whole);
+  });
+
+  it('reports a shot before the rest of the story has arrived', () => {
+    const { values, scanner } = scan(['{"scenes": [{"shots": [{"n": 1}, {"n"']);
+
+    expect(values).toContainEqual([['scenes', 0, 'shots', 0], { n: 1 }]);
+    expect(scanner.isComplete()).toBe(false);
+  });
+
+  it('skips text around the root value, such as a code fence', () => {
+    const { values, scanner } = scan(['```json\n', '{"a": [1, 2]}', '\n```']);
+
+    expect(values[values.length - 1]).toEqual([[], { a: [1, 2] }]);
+    expect(scanner.isComplete()).toBe(true);
+    expect(scanner.getText()).toBe('```json\n{"a": [1, 2]}\n```');
+  });
+
+  it('keeps brackets, commas and escaped quotes inside strings', () => {
+    const text = '{"line": "She said \\"wait}, ]\\" and left", "k\\"ey": "v"}';
+    const { values } = scan(text.split(''));
+
+    expect(values).toEqual([
+      [['line'], 'She said "wait}, ]" and left'],
+      [['k"ey'], 'v'],
+      [[], { line: 'She said "wait}, ]" and left', 'k"ey': 'v' }],
+    ]);
+  });
+
+  it('tolerates trailing commas in containers', () => {
+    const { values } = scan(['{"shots": [{"n": 1,}, {"n": 2},],}']);
+
+    expect(values[values.length - 1]).toEqual([[], { shots: [{ n: 1 }, { n: 2 }] }]);
+  });
+
+  it('skips malformed values and keeps scanning', () => {
+    const { values } = scan(['{"a": nope, "b": [1, 2]}']);
+
+    expect(values).toContainEqual([['b'], [1, 2]]);
+    expect(values.some(([path]) => path[0] === 'a')).toBe(false);
+  });
+});
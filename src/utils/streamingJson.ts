@@ -0,0 +1,181 @@
+/**
+ * Incremental JSON scanner
+ * Reads JSON text chunk by chunk and reports every value as soon as it is
+ * complete, together with its path (e.g. ["scenes", 0, "shots", 1]).
+ * Used to hand finished scenes and shots to the client while the LLM is
+ * still writing the rest of the story.
+ */
+
+export type JsonPath = (string | number)[];
+
+interface Frame {
+  kind: 'object' | 'array';
+  start: number;          // Offset of the opening bracket
+  path: JsonPath;         // Path of this container
+  key: string | null;     // Current key (objects)
+  index: number;          // Current index (arrays)
+  awaitingKey: boolean;   // Next string in this object is a key
+}
+
+const WHITESPACE = /\s/;
+
+export class StreamingJsonScanner {
+  private text = '';
+  private pos = 0;
+  private stack: Frame[] = [];
+  private started = false;
+  private finished = false;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private primitiveStart = -1;
+
+  constructor(private onValue: (path: JsonPath, value: unknown) => void) {}
+
+  /**
+   * Full text received so far
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * True once the root value has been closed
+   */
+  isComplete(): boolean {
+    return this.finished;
+  }
+
+  push(chunk: string): void {
+    this.text += chunk;
+    this.scan();
+  }
+
+  private scan(): void {
+    const text = this.text;
+
+    for (; this.pos < text.length && !this.finished; this.pos++) {
+      const ch = text[this.pos];
+
+      // Skip anything before the root (e.g. a ```json fence)
+      if (!this.started) {
+        if (ch === '{' || ch === '[') {
+          this.started = true;
+          this.openContainer(ch);
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+          this.closeString(text.slice(this.stringStart, this.pos + 1));
+        }
+        continue;
+      }
+
+      if (this.primitiveStart !== -1) {
+        if (ch !== ',' && ch !== '}' && ch !== ']' && !WHITESPACE.test(ch)) {
+          continue;
+        }
+        this.emitLeaf(text.slice(this.primitiveStart, this.pos));
+        this.primitiveStart = -1;
+      }
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.pos;
+          break;
+        case '{':
+        case '[':
+          this.openContainer(ch);
+          break;
+        case '}':
+        case ']':
+          this.closeContainer();
+          break;
+        case ',': {
+          const top = this.top();
+          if (top?.kind === 'array') top.index++;
+          if (top?.kind === 'object') top.awaitingKey = true;
+          break;
+        }
+        case ':':
+          break;
+        default:
+          if (!WHITESPACE.test(ch)) {
+            this.primitiveStart = this.pos;
+          }
+      }
+    }
+  }
+
+  private top(): Frame | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private childPath(): JsonPath {
+    const top = this.top();
+    if (!top) return [];
+    return [...top.path, top.kind === 'array' ? top.index : top.key ?? ''];
+  }
+
+  private openContainer(ch: string): void {
+    this.stack.push({
+      kind: ch === '{' ? 'object' : 'array',
+      start: this.pos,
+      path: this.childPath(),
+      key: null,
+      index: 0,
+      awaitingKey: ch === '{',
+    });
+  }
+
+  private closeContainer(): void {
+    const frame = this.stack.pop();
+    if (!frame) return;
+
+    // Tolerate trailing commas, which LLMs like to produce. String literals
+    // are matched first so commas inside them are left alone.
+    const raw = this.text
+      .slice(frame.start, this.pos + 1)
+      .replace(/("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g, (_, str, close) => str ?? close);
+
+    try {
+      this.onValue(frame.path, JSON.parse(raw));
+    } catch {
+      // Malformed container - the final validation pass will report it
+    }
+
+    if (this.stack.length === 0) {
+      this.finished = true;
+    }
+  }
+
+  private closeString(raw: string): void {
+    const top = this.top();
+    if (top?.kind === 'object' && top.awaitingKey) {
+      try {
+        top.key = JSON.parse(raw);
+      } catch {
+        top.key = raw.slice(1, -1);
+      }
+      top.awaitingKey = false;
+      return;
+    }
+    this.emitLeaf(raw);
+  }
+
+  private emitLeaf(raw: string): void {
+    try {
+      this.onValue(this.childPath(), JSON.parse(raw.trim()));
+    } catch {
+      // Ignore malformed primitives
+    }
+  }
+}
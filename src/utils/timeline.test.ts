@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { Shot, StoryData, TimelineClip } from '@/stores/StoryStore';
+import {
+  getClipEdit,
+  getClipRange,
+  getNarrationEnd,
+  getTimelineEntries,
+  isClipEdited,
+  moveTimelineClip,
+  updateTimelineClip,
+} from './timeline';
+
+const shot = (id: string): Shot => ({ id, subtitle: '', location: '', content: '' });
+
+function makeStory(timeline?: StoryData['timeline']): StoryData {
+  return {
+    title: 'Timeline',
+    synopsis: '',
+    characters: [],
+    scenes: [
+      { id: 's1', title: '', description: '', shots: [shot('a'), shot('b')] },
+      { id: 's2', title: '', description: '', shots: [shot('c')] },
+    ],
+    timeline,
+  };
+}
+
+const order = (story: StoryData) => getTimelineEntries(story).map(entry => entry.shot.id);
+
+describe('getTimelineEntries', () => {
+  it('follows story order without a timeline', () => {
+    expect(order(makeStory())).toEqual(['a', 'b', 'c']);
+  });
+
+  it('puts listed shots first, new ones after and skips deleted ones', () => {
+    const story = makeStory({ clips: [{ shotId: 'c' }, { shotId: 'gone' }, { shotId: 'a', inPoint: 1 }] });
+
+    expect(order(story)).toEqual(['c', 'a', 'b']);
+    expect(getTimelineEntries(story)[1]).toMatchObject({ sceneId: 's1', clip: { shotId: 'a', inPoint: 1 } });
+  });
+});
+
+describe('moveTimelineClip', () => {
+  it('moves a shot across scenes and clamps the index', () => {
+    expect(moveTimelineClip(makeStory(), 'c', 0).clips.map(clip => clip.shotId)).toEqual(['c', 'a', 'b']);
+    expect(moveTimelineClip(makeStory(), 'a', 99).clips.map(clip => clip.shotId)).toEqual(['b', 'c', 'a']);
+    expect(moveTimelineClip(makeStory(), 'a', -5).clips.map(clip => clip.shotId)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('updateTimelineClip', () => {
+  it('changes one clip and drops settings set back to undefined', () => {
+    const story = makeStory({ clips: [{ shotId: 'b', inPoint: 1, outPoint: 3 }] });
+    const { clips } = updateTimelineClip(story, 'b', { inPoint: undefined, audioOffset: 0.5 });
+
+    expect(clips).toEqual([{ shotId: 'b', outPoint: 3, audioOffset: 0.5 }, { shotId: 'a' }, { shotId: 'c' }]);
+  });
+});
+
+describe('getClipRange', () => {
+  it('uses the whole clip by default', () => {
+    expect(getClipRange({ shotId: 'a' }, 5)).toEqual({ inPoint: 0, outPoint: 5, length: 5 });
+    expect(getClipRange({ shotId: 'a' })).toEqual({ inPoint: 0, outPoint: undefined, length: undefined });
+  });
+
+  it('keeps points inside the clip and at least half a second apart', () => {
+    expect(getClipRange({ shotId: 'a', inPoint: -1, outPoint: 9 }, 5)).toEqual({ inPoint: 0, outPoint: 5, length: 5 });
+    expect(getClipRange({ shotId: 'a', inPoint: 5 }, 5)).toEqual({ inPoint: 4.5, outPoint: 5, length: 0.5 });
+    expect(getClipRange({ shotId: 'a', inPoint: 2, outPoint: 1 }, 5)).toEqual({ inPoint: 2, outPoint: 2.5, length: 0.5 });
+  });
+
+  it('trusts the points while the clip length is unknown', () => {
+    expect(getClipRange({ shotId: 'a', inPoint: 1, outPoint: 4 })).toEqual({ inPoint: 1, outPoint: 4, length: 3 });
+  });
+});
+
+describe('getNarrationEnd', () => {
+  it('moves the end by the offset and drops narration cut away entirely', () => {
+    expect(getNarrationEnd(4, { shotId: 'a', audioOffset: 1 })).toBe(5);
+    expect(getNarrationEnd(4, { shotId: 'a', audioOffset: -4 })).toBeUndefined();
+    expect(getNarrationEnd(undefined, { shotId: 'a' })).toBeUndefined();
+  });
+});
+
+describe('getClipEdit', () => {
+  const clip: TimelineClip = {
+    shotId: 'a',
+    inPoint: 1,
+    outPoint: 4,
+    audioOffset: 0.5,
+    transition: { type: 'crossfade', duration: 0.5 },
+  };
+
+  it('passes clamped trims, the offset and a transition to the render', () => {
+    expect(getClipEdit(clip, false, 6)).toEqual({
+      inPoint: 1,
+      outPoint: 4,
+      audioOffset: 0.5,
+      transition: { type: 'crossfade', duration: 0.5 },
+    });
+  });
+
+  it('leaves out an out point at the end of the clip and cuts', () => {
+    expect(getClipEdit({ shotId: 'a', outPoint: 8, transition: { type: 'cut', duration: 0 } }, false, 6)).toEqual({});
+  });
+
+  it('only moves the narration and transition of a still', () => {
+    expect(getClipEdit(clip, true)).toEqual({ audioOffset: 0.5, transition: { type: 'crossfade', duration: 0.5 } });
+  });
+});
+
+describe('isClipEdited', () => {
+  it('is false only for an untouched clip', () => {
+    expect(isClipEdited({ shotId: 'a' })).toBe(false);
+    expect(isClipEdited({ shotId: 'a', inPoint: 0 })).toBe(false);
+    expect(isClipEdited({ shotId: 'a', outPoint: 3 })).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Timeline (edit decision list)
+ * The story's timeline sets the export order of its shots, across scenes,
+ * the in/out points of each clip, when its narration starts and the
+ * transition into it. Shots it doesn't list yet (e.g. new ones) follow in
+ * story order, and entries for deleted shots are ignored, so it never has to
+ * be kept in step by hand.
+ */
+
+import type { RenderSegment } from '@/lib/renderService';
+import type { Shot, StoryData, Timeline, TimelineClip } from '@/stores/StoryStore';
+
+// Shortest a clip can be trimmed to
+export const MIN_CLIP_SECONDS = 0.5;
+
+// Furthest narration can be moved against its clip, either way
+export const MAX_AUDIO_OFFSET_SECONDS = 10;
+
+export interface TimelineEntry {
+  shot: Shot;
+  sceneId: string;
+  clip: TimelineClip;
+}
+
+export type ClipEdit = Pick<RenderSegment, 'inPoint' | 'outPoint' | 'audioOffset' | 'transition'>;
+
+/**
+ * Every shot of the story in timeline order, with its clip settings
+ */
+export function getTimelineEntries(story: StoryData): TimelineEntry[] {
+  const entries = story.scenes.flatMap(scene =>
+    scene.shots.map(shot => ({ shot, sceneId: scene.id, clip: { shotId: shot.id } as TimelineClip }))
+  );
+  const byId = new Map(entries.map(entry => [entry.shot.id, entry]));
+
+  const ordered: TimelineEntry[] = [];
+  (story.timeline?.clips || []).forEach(clip => {
+    const entry = byId.get(clip.shotId);
+    if (!entry) return;
+    ordered.push({ ...entry, clip });
+    byId.delete(clip.shotId);
+  });
+  return [...ordered, ...entries.filter(entry => byId.has(entry.shot.id))];
+}
+
+export function findTimelineClip(story: StoryData, shotId: string): TimelineClip {
+  return story.timeline?.clips.find(clip => clip.shotId === shotId) || { shotId };
+}
+
+/**
+ * Move a shot to `index` of the timeline; returns the new timeline
+ */
+export function moveTimelineClip(story: StoryData, shotId: string, index: number): Timeline {
+  const clips = getTimelineEntries(story).map(entry => entry.clip);
+  const from = clips.findIndex(clip => clip.shotId === shotId);
+  if (from === -1) return { clips };
+
+  const [clip] = clips.splice(from, 1);
+  clips.splice(Math.max(0, Math.min(index, clips.length)), 0, clip);
+  return { clips };
+}
+
+/**
+ * Change a shot's clip settings; undefined values go back to the default
+ */
+export function updateTimelineClip(
+  story: StoryData,
+  shotId: string,
+  updates: Partial<Omit<TimelineClip, 'shotId'>>
+): Timeline {
+  return {
+    clips: getTimelineEntries(story).map(({ clip }) => {
+      if (clip.shotId !== shotId) return clip;
+      const updated: any = { ...clip, ...updates };
+      Object.keys(updated).forEach(key => updated[key] === undefined && delete updated[key]);
+      return updated as TimelineClip;
+    }),
+  };
+}
+
+/**
+ * In and out points of a clip, kept inside the clip and at least
+ * MIN_CLIP_SECONDS apart. `clipSeconds` is the clip's full length, if known;
+ * `length` is undefined when neither it nor an out point is.
+ */
+export function getClipRange(
+  clip: TimelineClip,
+  clipSeconds?: number
+): { inPoint: number; outPoint?: number; length?: number } {
+  const end = clipSeconds ?? Infinity;
+  const inPoint = Math.max(0, Math.min(clip.inPoint ?? 0, end - MIN_CLIP_SECONDS));
+  const requestedOut = clip.outPoint ?? clipSeconds;
+  const outPoint = requestedOut === undefined
+    ? undefined
+    : Math.min(end, Math.max(requestedOut, inPoint + MIN_CLIP_SECONDS));
+  return { inPoint, outPoint, length: outPoint === undefined ? undefined : outPoint - inPoint };
+}
+
+/**
+ * When narration ends, in seconds from the start of its shot after the
+ * offset; undefined when there is none left
+ */
+export function getNarrationEnd(narrationSeconds: number | undefined, clip: TimelineClip): number | undefined {
+  if (!narrationSeconds) return undefined;
+  const end = narrationSeconds + (clip.audioOffset || 0);
+  return end > 0 ? end : undefined;
+}
+
+/**
+ * Render segment fields for a clip's edits; stills only move their narration
+ * and transition
+ */
+export function getClipEdit(clip: TimelineClip, isStill: boolean, clipSeconds?: number): ClipEdit {
+  const edit: ClipEdit = {};
+  if (!isStill) {
+    const { inPoint, outPoint } = getClipRange(clip, clipSeconds);
+    if (inPoint > 0) edit.inPoint = inPoint;
+    if (outPoint !== undefined && clip.outPoint !== undefined && outPoint < (clipSeconds ?? Infinity)) {
+      edit.outPoint = outPoint;
+    }
+  }
+  if (clip.audioOffset) edit.audioOffset = clip.audioOffset;
+  if (clip.transition && clip.transition.type !== 'cut') edit.transition = clip.transition;
+  return edit;
+}
+
+export function isClipEdited(clip: TimelineClip): boolean {
+  return !!clip.inPoint || clip.outPoint !== undefined || !!clip.audioOffset || !!clip.transition;
+}
@@ -3,6 +3,13 @@
  * Merges video and audio streams in real-time for preview
  */
 
+// Seconds as an SRT timestamp, e.g. 00:00:07,500
+function formatSrtTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+}
+
 /**
  * Merge video and audio into a single playable blob with optional subtitle
  * Uses FFmpeg.wasm for in-browser processing
@@ -11,7 +18,8 @@ export async function mergeVideoAudio(
   videoUrl: string,
   audioUrl: string,
   subtitle?: string,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  duration: number = 5 // Shot duration in seconds; the subtitle stays up this long
 ): Promise<string> {
   try {
     console.log('mergeVideoAudio called with:', {
@@ -84,9 +92,9 @@ export async function mergeVideoAudio(
 
     // Process based on what we have
     if (subtitle) {
-      // Create subtitle file (SRT format) - 5 seconds duration
+      // Create subtitle file (SRT format) for the whole shot
       const srtContent = `1
-00:00:00,000 --> 00:00:05,000
+00:00:00,000 --> ${formatSrtTime(duration)}
 ${subtitle}
 `;
       await ffmpeg.writeFile('subtitle.srt', new TextEncoder().encode(srtContent));
@@ -96,7 +104,7 @@ ${subtitle}
 
       if (hasAudio) {
         // Merge video, audio, and burn subtitles
-        // Audio is already padded to match video duration (5s)
+        // Short narration is padded with silence; the video decides the length
         console.log('Executing FFmpeg with video + audio + subtitle');
         await ffmpeg.exec([
           '-i', 'input.mp4',
@@ -107,6 +115,7 @@ ${subtitle}
           '-crf', '23',
           '-c:a', 'aac',
           '-b:a', '128k',
+          '-af', 'apad',
           '-shortest',
           'output.mp4'
         ]);
@@ -125,13 +134,14 @@ ${subtitle}
       }
     } else if (hasAudio) {
       // Only audio, no subtitle
-      // Audio is already padded to match video duration (5s)
+      // Short narration is padded with silence; the video decides the length
       await ffmpeg.exec([
         '-i', 'input.mp4',
         '-i', 'audio.mp3',
         '-c:v', 'copy',
         '-c:a', 'aac',
         '-b:a', '128k',
+        '-af', 'apad',
         '-shortest',
         'output.mp4'
       ]);
@@ -5,6 +5,16 @@
 
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { assetStore } from '@/lib/assetStore';
+import type { ClipFit, RenderFraming, RenderResolution, SegmentTransition } from '@/lib/renderService';
+import {
+  getOutputFormat,
+  normalizeVideoFilter,
+  NORMALIZE_AUDIO_FILTER,
+  OutputFormat,
+} from '@/services/ffmpeg/normalize';
+import { buildJoinGraph, hasTransitions, JoinInput } from '@/services/ffmpeg/transitions';
+import { loadMediaMetadata } from './mediaProbe';
 
 let ffmpegInstance: FFmpeg | null = null;
 
@@ -40,13 +50,70 @@ export interface VideoSegment {
   url: string;
   subtitle?: string;
   audioUrl?: string;
-  duration?: number;
+  duration?: number;      // Seconds the segment lasts; the clip is cut or stretched to it
+  fit?: ClipFit;          // How a shorter clip is stretched; default 'hold'
+  clipDuration?: number;  // Measured length of the clip (after in/out points), needed to slow it down
+  inPoint?: number;       // Seconds into the clip where it starts
+  outPoint?: number;      // Seconds into the clip where it ends
+  audioOffset?: number;   // Narration starts this much into the segment; negative cuts its start
+  transition?: SegmentTransition; // From the previous segment into this one; default a cut
+}
+
+type SegmentTiming = Pick<VideoSegment, 'duration' | 'fit' | 'clipDuration' | 'audioOffset'>;
+
+/**
+ * Video filter that stretches a clip to the segment's duration, if needed
+ * Holding and looping overshoot; the output is cut with -t
+ */
+function getFitFilter({ duration, fit, clipDuration }: SegmentTiming): string | undefined {
+  if (!duration || fit === 'loop') return undefined;
+  if (clipDuration && duration <= clipDuration) return undefined;
+  if (fit === 'slow' && clipDuration) {
+    return `setpts=${(duration / clipDuration).toFixed(4)}*PTS`;
+  }
+  return `tpad=stop_mode=clone:stop_duration=${duration.toFixed(3)}`;
+}
+
+/**
+ * Narration filters: move it by `audioOffset`, then pad it with silence so
+ * the clip decides the length
+ */
+function getNarrationFilter(audioOffset: number | undefined): string {
+  if (audioOffset && audioOffset > 0) {
+    return `adelay=${Math.round(audioOffset * 1000)}:all=1,apad`;
+  }
+  if (audioOffset && audioOffset < 0) {
+    return `atrim=start=${(-audioOffset).toFixed(3)},asetpts=PTS-STARTPTS,apad`;
+  }
+  return 'apad';
+}
+
+/**
+ * Cut a clip to its in/out points, losslessly; processVideo encodes it again
+ */
+async function cutClip(ffmpeg: FFmpeg, inputFile: string, outputFile: string, { inPoint, outPoint }: VideoSegment): Promise<void> {
+  console.log(`→ Cutting clip to ${(inPoint || 0).toFixed(2)}s-${outPoint !== undefined ? `${outPoint.toFixed(2)}s` : 'end'}...`);
+  await ffmpeg.exec([
+    ...(inPoint ? ['-ss', inPoint.toFixed(3)] : []),
+    '-i', inputFile,
+    ...(outPoint !== undefined ? ['-t', (outPoint - (inPoint || 0)).toFixed(3)] : []),
+    '-map', '0:v:0',
+    '-c:v', 'libx264',
+    '-preset', 'ultrafast',
+    '-qp', '0',
+    '-an',
+    '-y',
+    outputFile
+  ]);
 }
 
 export interface QualitySettings {
   crf: number;      // Constant Rate Factor (18-28, lower = better quality)
   preset: string;   // Encoding speed (ultrafast, fast, medium, slow)
-  resolution?: string; // Optional resolution scaling (480p, 720p, 1080p, original)
+  resolution?: RenderResolution; // Short side of the output; default 'original', the first clip's
+  aspectRatio?: string;          // Output shape, e.g. the story's '16:9'; default the first clip's
+  frameRate?: number;            // Default 24
+  framing?: RenderFraming;       // Letterbox or crop clips of another shape; default 'letterbox'
 }
 
 // Quality presets (optimized for speed)
@@ -58,7 +125,10 @@ export const QUALITY_PRESETS = {
 };
 
 /**
- * Process single video: add audio if needed (subtitles not supported in wasm)
+ * Process single video: bring it to the output format, add audio (or
+ * silence) and fit it to the segment's duration if needed (subtitles not
+ * supported in wasm). Every output shares codecs and format, so they can be
+ * joined without re-encoding.
  */
 async function processVideo(
   ffmpeg: FFmpeg,
@@ -66,7 +136,9 @@ async function processVideo(
   audioUrl: string | undefined,
   subtitle: string | undefined,
   outputFile: string,
-  quality: QualitySettings = QUALITY_PRESETS.high
+  format: OutputFormat,
+  quality: QualitySettings = QUALITY_PRESETS.high,
+  timing: SegmentTiming = {}
 ): Promise<void> {
   try {
     const hasAudio = audioUrl && audioUrl.length > 10; // Check for meaningful data, not just empty string
@@ -77,7 +149,8 @@ async function processVideo(
       hasAudio,
       audioLength: audioUrl?.length || 0,
       hasSubtitle,
-      subtitleLength: subtitle?.length || 0
+      subtitleLength: subtitle?.length || 0,
+      ...timing,
     });
 
     // Verify input file exists
@@ -89,69 +162,60 @@ async function processVideo(
       throw new Error(`Input file not found: ${videoFile}`);
     }
 
-    // If no audio, just copy the file (skip subtitles - ffmpeg.wasm doesn't have fonts)
-    if (!hasAudio) {
-      console.log('→ No audio, copying video as-is...');
-      if (hasSubtitle) {
-        console.warn('⚠️  Subtitle ignored: ffmpeg.wasm does not support text rendering (no fonts)');
-      }
-      const videoData = await ffmpeg.readFile(videoFile);
-      await ffmpeg.writeFile(outputFile, videoData);
-
-      // Verify output
-      const outputCheck = await ffmpeg.readFile(outputFile);
-      console.log(`✓ Video copied: ${outputFile} (${outputCheck.length} bytes)`);
-      return;
+    if (hasSubtitle) {
+      console.warn('⚠️  Subtitle ignored: ffmpeg.wasm does not support text rendering (no fonts)');
     }
 
     // Handle audio
-    console.log('→ Loading audio file...');
-    try {
-      if (audioUrl.startsWith('data:')) {
-        const base64Data = audioUrl.split(',')[1];
-        if (!base64Data || base64Data.length === 0) {
-          console.warn('⚠️  Empty audio data, skipping audio');
-          // Just copy video
-          const videoData = await ffmpeg.readFile(videoFile);
-          await ffmpeg.writeFile(outputFile, videoData);
-          console.log(`✓ Video copied (no audio): ${outputFile}`);
-          return;
-        }
-        const binaryString = atob(base64Data);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
+    let audioFile: string | null = null;
+    if (hasAudio) {
+      console.log('→ Loading audio file...');
+      try {
+        if (audioUrl.startsWith('data:')) {
+          const base64Data = audioUrl.split(',')[1];
+          if (!base64Data || base64Data.length === 0) {
+            throw new Error('Empty audio data');
+          }
+          const binaryString = atob(base64Data);
+          const bytes = new Uint8Array(binaryString.length);
+          for (let i = 0; i < binaryString.length; i++) {
+            bytes[i] = binaryString.charCodeAt(i);
+          }
+          await ffmpeg.writeFile('temp_audio.mp3', bytes);
+          console.log(`✓ Audio loaded from data URL (${bytes.length} bytes)`);
+        } else {
+          const audioData = await fetchFile(audioUrl);
+          await ffmpeg.writeFile('temp_audio.mp3', audioData);
+          console.log(`✓ Audio loaded from URL (${audioData.length} bytes)`);
         }
-        await ffmpeg.writeFile('temp_audio.mp3', bytes);
-        console.log(`✓ Audio loaded from data URL (${bytes.length} bytes)`);
-      } else {
-        const audioData = await fetchFile(audioUrl);
-        await ffmpeg.writeFile('temp_audio.mp3', audioData);
-        console.log(`✓ Audio loaded from URL (${audioData.length} bytes)`);
+        audioFile = 'temp_audio.mp3';
+      } catch (e) {
+        console.error('✗ Failed to load audio:', e);
+        console.warn('⚠️  Continuing without audio...');
       }
-    } catch (e) {
-      console.error('✗ Failed to load audio:', e);
-      console.warn('⚠️  Continuing without audio...');
-      // Just copy video
-      const videoData = await ffmpeg.readFile(videoFile);
-      await ffmpeg.writeFile(outputFile, videoData);
-      console.log(`✓ Video copied (audio failed): ${outputFile}`);
-      return;
     }
 
-    // Add audio to video (ignore subtitles - not supported in wasm)
-    console.log('→ Running FFmpeg (Video + Audio)...');
-    if (hasSubtitle) {
-      console.warn('⚠️  Subtitle ignored: ffmpeg.wasm does not support text rendering (no fonts)');
-    }
+    // Always re-encoded: models differ in size, frame rate and pixel format
+    const videoFilters = [getFitFilter(timing), normalizeVideoFilter(format)].filter(Boolean);
+    console.log(`→ Running FFmpeg (Video${audioFile ? ' + Audio' : ''}, ${format.width}x${format.height}@${format.frameRate}${timing.duration ? `, ${timing.duration.toFixed(2)}s` : ''})...`);
 
     await ffmpeg.exec([
+      ...(timing.fit === 'loop' && timing.duration ? ['-stream_loop', '-1'] : []),
       '-i', videoFile,
-      '-i', 'temp_audio.mp3',
-      '-c:v', 'copy',  // Copy video (fast)
+      ...(audioFile
+        ? ['-i', audioFile]
+        : ['-f', 'lavfi', '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100']),  // Silence keeps every segment's layout
+      '-map', '0:v:0',
+      '-map', '1:a:0',
+      '-vf', videoFilters.join(','),
+      '-c:v', 'libx264',
+      '-preset', quality.preset,
+      '-crf', String(quality.crf),
+      '-pix_fmt', 'yuv420p',
       '-c:a', 'aac',   // Encode audio to AAC
       '-b:a', '128k',
-      '-shortest',     // Match shortest input duration
+      '-af', `${audioFile ? getNarrationFilter(timing.audioOffset) : 'anull'},${NORMALIZE_AUDIO_FILTER}`,
+      ...(timing.duration ? ['-t', timing.duration.toFixed(3)] : ['-shortest']),
       '-movflags', '+faststart',
       '-y',
       outputFile
@@ -171,11 +235,13 @@ async function processVideo(
     }
 
     // Clean up temp files
-    try {
-      await ffmpeg.deleteFile('temp_audio.mp3');
-      console.log('✓ Cleaned up temp_audio.mp3');
-    } catch (e) {
-      console.warn('Warning: Could not delete temp_audio.mp3');
+    if (audioFile) {
+      try {
+        await ffmpeg.deleteFile(audioFile);
+        console.log(`✓ Cleaned up ${audioFile}`);
+      } catch (e) {
+        console.warn(`Warning: Could not delete ${audioFile}`);
+      }
     }
 
     console.log(`✓✓✓ Video processed successfully: ${outputFile}\n`);
@@ -185,6 +251,19 @@ async function processVideo(
   }
 }
 
+/**
+ * Frame size of a video file, read by the browser
+ */
+async function getVideoSize(blob: Blob): Promise<{ width: number; height: number }> {
+  const url = URL.createObjectURL(blob);
+  try {
+    const video = await loadMediaMetadata(url, 'video') as HTMLVideoElement;
+    return { width: video.videoWidth, height: video.videoHeight };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
 export async function composeVideos(
   videos: VideoSegment[],
   onProgress?: (progress: number) => void,
@@ -195,6 +274,8 @@ export async function composeVideos(
   try {
     console.log(`\n=== Starting video composition: ${videos.length} videos ===`);
     const processedFiles: string[] = [];
+    const joinInputs: JoinInput[] = [];
+    let format: OutputFormat | undefined;
 
     // Process each video (add audio/subtitle if needed)
     for (let i = 0; i < videos.length; i++) {
@@ -204,18 +285,37 @@ export async function composeVideos(
 
       console.log(`\n[${i + 1}/${videos.length}] Processing video...`);
 
-      // Write video file
-      const videoData = await fetchFile(video.url);
+      // Write video file (asset references are read from the local asset store)
+      const videoBlob = await assetStore.getBlob(video.url);
+      const videoData = await fetchFile(videoBlob);
       console.log(`✓ Fetched video data, size: ${videoData.length} bytes`);
 
+      // The first clip sets the output size, unless the settings give all of it
+      if (!format) {
+        const needsSize = !quality.resolution || quality.resolution === 'original' || !quality.aspectRatio;
+        const size = needsSize ? await getVideoSize(videoBlob).catch(() => undefined) : undefined;
+        format = getOutputFormat(quality, size);
+      }
+
       await ffmpeg.writeFile(inputFile, videoData);
       console.log(`✓ Written to ${inputFile}`);
 
+      // Cut to the in/out points from the timeline first
+      let clipFile = inputFile;
+      if (video.inPoint || video.outPoint !== undefined) {
+        clipFile = `cut${i}.mp4`;
+        await cutClip(ffmpeg, inputFile, clipFile, video);
+        await ffmpeg.deleteFile(inputFile);
+      }
+
       // Process video (add audio/subtitle if needed)
-      await processVideo(ffmpeg, inputFile, video.audioUrl, video.subtitle, processedFile, quality);
-      await ffmpeg.deleteFile(inputFile);
+      const audioUrl = video.audioUrl ? await assetStore.resolveUrl(video.audioUrl) : undefined;
+      const { duration, fit, clipDuration, audioOffset } = video;
+      await processVideo(ffmpeg, clipFile, audioUrl, video.subtitle, processedFile, format, quality, { duration, fit, clipDuration, audioOffset });
+      await ffmpeg.deleteFile(clipFile);
 
       processedFiles.push(processedFile);
+      joinInputs.push({ duration: duration ?? clipDuration ?? 0, transition: video.transition });
 
       if (onProgress) {
         const progress = Math.round((i + 1) / videos.length * 50);
@@ -249,24 +349,46 @@ export async function composeVideos(
       return new Blob([uint8Array], { type: 'video/mp4' });
     }
 
-    // Create concat list
-    console.log('\n→ Concatenating multiple videos...');
-    const concatList = processedFiles
-      .map(file => `file '${file}'`)
-      .join('\n');
-    await ffmpeg.writeFile('concat.txt', concatList);
-    console.log('✓ Concat list created:', concatList);
-
-    // Concatenate all videos - use copy mode for speed
-    console.log('Running ffmpeg concat...');
-    await ffmpeg.exec([
-      '-f', 'concat',
-      '-safe', '0',
-      '-i', 'concat.txt',
-      '-c', 'copy',  // Copy streams without re-encoding (faster)
-      '-y',
-      'output.mp4'
-    ]);
+    if (hasTransitions(joinInputs)) {
+      // Join with transitions (same filter graph as the render service); re-encodes
+      console.log('\n→ Joining videos with transitions...');
+      const graph = buildJoinGraph(joinInputs, format!);
+      await ffmpeg.exec([
+        ...processedFiles.flatMap(file => ['-i', file]),
+        '-filter_complex', graph.filter,
+        '-map', graph.video,
+        '-map', graph.audio,
+        '-c:v', 'libx264',
+        '-preset', quality.preset,
+        '-crf', String(quality.crf),
+        '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac',
+        '-b:a', '128k',
+        '-movflags', '+faststart',
+        '-y',
+        'output.mp4'
+      ]);
+    } else {
+      // Create concat list
+      console.log('\n→ Concatenating multiple videos...');
+      const concatList = processedFiles
+        .map(file => `file '${file}'`)
+        .join('\n');
+      await ffmpeg.writeFile('concat.txt', concatList);
+      console.log('✓ Concat list created:', concatList);
+
+      // Segments share codecs and format (see processVideo), so copy mode is safe and fast
+      console.log('Running ffmpeg concat...');
+      await ffmpeg.exec([
+        '-f', 'concat',
+        '-safe', '0',
+        '-i', 'concat.txt',
+        '-c', 'copy',  // Copy streams without re-encoding (faster)
+        '-y',
+        'output.mp4'
+      ]);
+      await ffmpeg.deleteFile('concat.txt');
+    }
 
     if (onProgress) onProgress(90);
 
@@ -281,7 +403,6 @@ export async function composeVideos(
     for (const file of processedFiles) {
       await ffmpeg.deleteFile(file);
     }
-    await ffmpeg.deleteFile('concat.txt');
     await ffmpeg.deleteFile('output.mp4');
     console.log('✓ Cleanup complete');
 
@@ -0,0 +1,50 @@
+/**
+ * Audio waveforms for the timeline
+ * Decodes narration with the Web Audio API into peak levels for drawing.
+ * Results are cached by URL, since asset references never change content.
+ */
+
+import { assetStore } from '@/lib/assetStore';
+
+export interface Waveform {
+  duration: number;            // Seconds
+  peaks: number[];             // 0-1, one per bucket, scaled to the loudest
+}
+
+export const WAVEFORM_BUCKETS = 200;
+
+const cache = new Map<string, Promise<Waveform>>();
+
+async function decodeWaveform(url: string, buckets: number): Promise<Waveform> {
+  const data = await (await assetStore.getBlob(url)).arrayBuffer();
+  // An offline context can decode without a user gesture
+  const audio = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data);
+
+  const samples = audio.getChannelData(0);
+  const size = Math.max(1, Math.floor(samples.length / buckets));
+  const peaks: number[] = [];
+  for (let i = 0; i < buckets; i++) {
+    let peak = 0;
+    for (let j = i * size; j < Math.min((i + 1) * size, samples.length); j++) {
+      peak = Math.max(peak, Math.abs(samples[j]));
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks) || 1;
+  return { duration: audio.duration, peaks: peaks.map(peak => peak / loudest) };
+}
+
+/**
+ * Peaks and length of an audio file; a failed decode is not cached
+ */
+export function loadWaveform(url: string, buckets = WAVEFORM_BUCKETS): Promise<Waveform> {
+  const key = `${buckets}:${url}`;
+  let waveform = cache.get(key);
+  if (!waveform) {
+    waveform = decodeWaveform(url, buckets);
+    waveform.catch(() => cache.delete(key));
+    cache.set(key, waveform);
+  }
+  return waveform;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { createBlobSink, crc32, readZip, ZipWriter } from './zip';
+
+async function writeZip(files: Array<[string, Blob | Uint8Array | string]>): Promise<Blob> {
+  const { sink, toBlob } = createBlobSink();
+  const writer = new ZipWriter(sink);
+  for (const [name, data] of files) {
+    await writer.add(name, data);
+  }
+  await writer.finish();
+  return toBlob();
+}
+
+async function readAll(file: Blob): Promise<Record<string, string>> {
+  const result: Record<string, string> = {};
+  for (const entry of await readZip(file)) {
+    result[entry.name] = await (await entry.read()).text();
+  }
+  return result;
+}
+
+/**
+ * Single-entry archive with a deflated entry, as written by other ZIP tools
+ */
+async function deflatedZip(name: string, content: string): Promise<Blob> {
+  const plain = new Blob([content]);
+  const stream = plain.stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const data = new Uint8Array(await new Response(stream).arrayBuffer());
+  const encodedName = new TextEncoder().encode(name);
+  const crc = await crc32(plain);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(14, crc, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, plain.size, true);
+  local.setUint16(26, encodedName.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(16, crc, true);
+  central.setUint32(20, data.length, true);
+  central.setUint32(24, plain.size, true);
+  central.setUint16(28, encodedName.length, true);
+
+  const centralOffset = 30 + encodedName.length + data.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + encodedName.length, true);
+  end.setUint32(16, centralOffset, true);
+
+  return new Blob([local.buffer, encodedName, data, central.buffer, encodedName, end.buffer]);
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', async () => {
+    expect(await crc32(new Blob(['123456789']))).toBe(0xcbf43926);
+    expect(await crc32(new Blob([]))).toBe(0);
+  });
+});
+
+describe('ZipWriter and readZip', () => {
+  it('round-trips strings, bytes, blobs and UTF-8 names', async () => {
+    const file = await writeZip([
+      ['project.json', '{"title":"Fog"}'],
+      ['media/shot-1.bin', new Uint8Array([1, 2, 3])],
+      ['media/café.txt', new Blob(['olé'])],
+      ['empty.txt', ''],
+    ]);
+
+    const entries = await readZip(file);
+    expect(entries.map(e => e.name)).toEqual(['project.json', 'media/shot-1.bin', 'media/café.txt', 'empty.txt']);
+    expect(entries[1]).toMatchObject({ size: 3, compressedSize: 3 });
+    expect(new Uint8Array(await (await entries[1].read()).arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    expect(await readAll(file)).toMatchObject({ 'project.json': '{"title":"Fog"}', 'media/café.txt': 'olé', 'empty.txt': '' });
+  });
+
+  it('reads an archive with no entries', async () => {
+    expect(await readZip(await writeZip([]))).toEqual([]);
+  });
+
+  it('rejects duplicate names and entries added after finish', async () => {
+    const writer = new ZipWriter(() => {});
+    await writer.add('a.txt', 'a');
+    await expect(writer.add('a.txt', 'b')).rejects.toThrow('Duplicate ZIP entry "a.txt"');
+
+    await writer.finish();
+    await expect(writer.add('b.txt', 'b')).rejects.toThrow('already finished');
+  });
+
+  it('reads deflated entries', async () => {
+    const content = 'fog rolls in over the harbour. '.repeat(20);
+    const file = await deflatedZip('story.txt', content);
+
+    const [entry] = await readZip(file);
+    expect(entry.compressedSize).toBeLessThan(entry.size);
+    expect(await (await entry.read()).text()).toBe(content);
+  });
+
+  it('refuses an entry whose content does not match its checksum', async () => {
+    const bytes = new Uint8Array(await (await writeZip([['a.txt', 'hello']])).arrayBuffer());
+    bytes[30 + 'a.txt'.length] ^= 0xff;
+
+    const [entry] = await readZip(new Blob([bytes]));
+    await expect(entry.read()).rejects.toThrow('ZIP entry "a.txt" is corrupt (checksum mismatch)');
+  });
+
+  it('refuses files that are not ZIP archives', async () => {
+    await expect(readZip(new Blob(['just some text']))).rejects.toThrow('Not a ZIP file');
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Minimal ZIP writer and reader for project bundles
+ * Entries are written uncompressed (media is already compressed) and handed
+ * to a sink one chunk at a time, so large bundles never sit in memory as a
+ * whole. The reader only slices the parts of the file it needs and also
+ * accepts deflated entries from bundles repacked by other tools.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_ZIP32 = 0xffffffff;
+
+export type ZipSink = (chunk: Uint8Array | Blob) => Promise<void> | void;
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  compressedSize: number;
+  crc32: number;
+  /** Read the entry's content; rejects when its CRC-32 does not match */
+  read(): Promise<Blob>;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+function updateCrc32(crc: number, bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = table[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * CRC-32 of a blob, read chunk by chunk
+ */
+export async function crc32(blob: Blob): Promise<number> {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return crc;
+    crc = updateCrc32(crc, value);
+  }
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * Streaming ZIP writer
+ * Call `add` for each file, then `finish` to write the central directory
+ */
+export class ZipWriter {
+  private offset = 0;
+  private entries: CentralEntry[] = [];
+  private names = new Set<string>();
+  private finished = false;
+
+  constructor(private sink: ZipSink) {}
+
+  async add(name: string, data: Blob | Uint8Array | string): Promise<void> {
+    if (this.finished) throw new Error('ZIP archive is already finished');
+    if (this.names.has(name)) throw new Error(`Duplicate ZIP entry "${name}"`);
+    this.names.add(name);
+
+    const blob = data instanceof Blob ? data : new Blob([data as BlobPart]);
+    if (blob.size >= MAX_ZIP32 || this.offset + blob.size >= MAX_ZIP32) {
+      throw new Error('Project bundle is larger than 4 GB');
+    }
+
+    const encodedName = new TextEncoder().encode(name);
+    const crc = await crc32(blob);
+    const { time, date } = toDosDateTime(new Date());
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, 20, true);              // version needed
+    header.setUint16(6, UTF8_FLAG, true);
+    header.setUint16(8, METHOD_STORE, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, blob.size, true);      // compressed size
+    header.setUint32(22, blob.size, true);      // uncompressed size
+    header.setUint16(26, encodedName.length, true);
+    header.setUint16(28, 0, true);              // extra field length
+
+    this.entries.push({ name: encodedName, crc, size: blob.size, offset: this.offset, time, date });
+
+    await this.sink(new Uint8Array(header.buffer));
+    await this.sink(encodedName);
+    await this.sink(blob);
+    this.offset += 30 + encodedName.length + blob.size;
+  }
+
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const centralStart = this.offset;
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      header.setUint16(4, 20, true);            // version made by
+      header.setUint16(6, 20, true);            // version needed
+      header.setUint16(8, UTF8_FLAG, true);
+      header.setUint16(10, METHOD_STORE, true);
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      // extra, comment, disk number, attributes: all zero
+      header.setUint32(42, entry.offset, true);
+
+      await this.sink(new Uint8Array(header.buffer));
+      await this.sink(entry.name);
+      this.offset += 46 + entry.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIR_SIGNATURE, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, this.offset - centralStart, true);
+    end.setUint32(16, centralStart, true);
+    await this.sink(new Uint8Array(end.buffer));
+  }
+}
+
+/**
+ * Sink that collects chunks into a Blob
+ * Blob parts are kept by reference, so media blobs are not copied
+ */
+export function createBlobSink(): { sink: ZipSink; toBlob(): Blob } {
+  const parts: BlobPart[] = [];
+  return {
+    sink: chunk => {
+      parts.push(chunk as BlobPart);
+    },
+    toBlob: () => new Blob(parts, { type: 'application/zip' }),
+  };
+}
+
+async function readBytes(file: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+async function inflateRaw(blob: Blob): Promise<Blob> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed ZIP entries');
+  }
+  const stream = blob.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+}
+
+/**
+ * List the entries of a ZIP file
+ */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = await readBytes(file, tailStart, file.size);
+
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIR_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a ZIP file');
+  }
+
+  const entryCount = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  const central = await readBytes(file, centralOffset, centralOffset + centralSize);
+  const decoder = new TextDecoder();
+
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (central.getUint32(pos, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = central.getUint16(pos + 10, true);
+    const crc = central.getUint32(pos + 16, true);
+    const compressedSize = central.getUint32(pos + 20, true);
+    const size = central.getUint32(pos + 24, true);
+    const nameLength = central.getUint16(pos + 28, true);
+    const extraLength = central.getUint16(pos + 30, true);
+    const commentLength = central.getUint16(pos + 32, true);
+    const localOffset = central.getUint32(pos + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(central.buffer, central.byteOffset + pos + 46, nameLength)
+    );
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+      throw new Error(`Unsupported compression in ZIP entry "${name}"`);
+    }
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      crc32: crc,
+      read: async () => {
+        const local = await readBytes(file, localOffset, localOffset + 30);
+        if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+          throw new Error(`Corrupt ZIP entry "${name}"`);
+        }
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const raw = file.slice(dataStart, dataStart + compressedSize);
+        const data = method === METHOD_DEFLATE ? await inflateRaw(raw) : raw;
+
+        if (data.size !== size || (await crc32(data)) !== crc) {
+          throw new Error(`ZIP entry "${name}" is corrupt (checksum mismatch)`);
+        }
+        return data;
+      },
+    });
+  }
+
+  return entries;
+}